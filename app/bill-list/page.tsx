@@ -1,5 +1,6 @@
 'use client';
 
+import { Suspense } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Login } from '@/components/Login';
 import { Layout } from '@/components/Layout';
@@ -35,7 +36,10 @@ export default function BillListPage() {
                 <span className="font-medium">Back</span>
                 </button>
             </div>
-            <BillList />
+            {/* BillList opens the bill named by the ?bill= search param */}
+            <Suspense>
+              <BillList />
+            </Suspense>
         </div>
     </Layout>
   );
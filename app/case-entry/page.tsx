@@ -1,5 +1,6 @@
 'use client';
 
+import { Suspense } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Login } from '@/components/Login';
 import { CaseEntryForm } from '@/components/CaseEntryForm';
@@ -22,7 +23,10 @@ export default function CaseEntryPage() {
 
   return (
     <Layout>
-      <CaseEntryForm />
+      {/* CaseEntryForm reads the ?matter= search param */}
+      <Suspense>
+        <CaseEntryForm />
+      </Suspense>
     </Layout>
   );
 }
\ No newline at end of file
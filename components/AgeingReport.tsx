@@ -0,0 +1,217 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, Download, FileSpreadsheet, Hourglass, Loader2 } from 'lucide-react';
+import { useCases } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { AGEING_BUCKETS, buildAgeingReport, filterAgeingReport, type AgeingBasis, type AgeingBucket, type BucketTotals } from '@/lib/ageing';
+import { toCsv } from '@/lib/csv';
+import { toISODate } from '@/lib/dates';
+import { downloadFile } from '@/lib/download';
+import { formatAmount } from '@/lib/pdfText';
+import { getDueDate } from '@/lib/paymentTerms';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+// Older balances are shown in stronger colours
+const BUCKET_STYLES: Record<AgeingBucket, string> = {
+  '0-30': 'text-green-700',
+  '31-60': 'text-yellow-700',
+  '61-90': 'text-orange-700',
+  '91-180': 'text-red-700',
+  '180+': 'text-red-900',
+};
+
+export function AgeingReport() {
+  const { cases, loading } = useCases();
+  const { clients } = useClients();
+  const { settings } = useSettings();
+  const [asOf, setAsOf] = useState(toISODate(new Date()));
+  const [basis, setBasis] = useState<AgeingBasis>('billDate');
+  const [bucketFilter, setBucketFilter] = useState<AgeingBucket | 'all'>('all');
+  const [expandedClient, setExpandedClient] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id, c.name])), [clients]);
+  const clientName = (clientId: string | null) => (clientId && clientNames.get(clientId)) || 'No client';
+
+  const report = useMemo(() => buildAgeingReport(cases, asOf, basis), [cases, asOf, basis]);
+  const visible = bucketFilter === 'all' ? report : filterAgeingReport(report, bucketFilter);
+  const subtitle = `As of ${formatDate(asOf)}, aged from the ${basis === 'dueDate' ? 'due date' : 'bill date'}${bucketFilter === 'all' ? '' : ` • ${AGEING_BUCKETS.find(b => b.key === bucketFilter)?.label} only`}`;
+
+  // --- EXPORTS ---
+  const handleCsv = () => {
+    const rows: (string | number)[][] = [
+      ['Client', 'Bill No', 'Bill Date', 'Due Date', 'Age (days)', ...AGEING_BUCKETS.map(b => b.label), 'Outstanding'],
+    ];
+    visible.clients.forEach(client => {
+      client.rows.forEach(row => rows.push([
+        clientName(client.clientId),
+        row.bill.billNumber,
+        row.bill.date,
+        getDueDate(row.bill),
+        row.ageDays,
+        ...AGEING_BUCKETS.map(b => (b.key === row.bucket ? row.outstanding.toFixed(2) : '')),
+        row.outstanding.toFixed(2),
+      ]));
+    });
+    rows.push(['Total', '', '', '', '', ...AGEING_BUCKETS.map(b => visible.totals[b.key].toFixed(2)), visible.total.toFixed(2)]);
+    downloadFile(toCsv(rows), `Receivables_Ageing_${asOf}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handlePdf = async () => {
+    setIsExporting(true);
+    try {
+      // pdf-lib is only loaded when a report is actually rendered
+      const { renderReportPdf } = await import('@/lib/reportPdf');
+      const bucketCells = (totals: Partial<BucketTotals>) =>
+        AGEING_BUCKETS.map(b => (totals[b.key] ? formatAmount(totals[b.key]!) : ''));
+      const bytes = await renderReportPdf({
+        title: 'Receivables Ageing',
+        subtitle,
+        firm: settings.firm,
+        accentColor: settings.invoiceTemplate.accentColor,
+        landscape: true,
+        columns: [
+          { header: 'Client / Bill', width: 0.22 },
+          { header: 'Bill Date', width: 0.09 },
+          { header: 'Age', width: 0.05, align: 'right' },
+          ...AGEING_BUCKETS.map(b => ({ header: b.label, width: 0.1, align: 'right' as const })),
+          { header: 'Total', width: 0.14, align: 'right' },
+        ],
+        rows: [
+          ...visible.clients.flatMap(client => [
+            { cells: [clientName(client.clientId), '', '', ...bucketCells(client.totals), formatAmount(client.total)], emphasis: true },
+            ...client.rows.map(row => ({
+              cells: [`   ${row.bill.billNumber}`, formatDate(row.bill.date), String(row.ageDays), ...bucketCells({ [row.bucket]: row.outstanding }), formatAmount(row.outstanding)],
+              muted: true,
+            })),
+          ]),
+          { cells: ['Total', '', '', ...bucketCells(visible.totals), formatAmount(visible.total)], emphasis: true },
+        ],
+      });
+      downloadFile(bytes, `Receivables_Ageing_${asOf}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error('Report Error:', error);
+      toast.error('Failed to generate the ageing PDF.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading receivables...</div>;
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Hourglass />Receivables Ageing</CardTitle>
+            <CardDescription className="text-[#2B2F32]/60 mt-1">{subtitle}</CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={basis} onValueChange={(value) => setBasis(value as AgeingBasis)}>
+              <SelectTrigger className="w-full sm:w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="billDate">From bill date</SelectItem>
+                <SelectItem value="dueDate">From due date</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="date" value={asOf} onChange={(e) => e.target.value && setAsOf(e.target.value)} className="w-full sm:w-44" />
+            <Button variant="outline" onClick={handleCsv} disabled={visible.clients.length === 0}><FileSpreadsheet className="h-4 w-4 mr-2" />CSV</Button>
+            <Button variant="outline" onClick={handlePdf} disabled={isExporting || visible.clients.length === 0}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}PDF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Bucket Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          {AGEING_BUCKETS.map(b => (
+            <button
+              key={b.key}
+              onClick={() => setBucketFilter(bucketFilter === b.key ? 'all' : b.key)}
+              className={`p-4 rounded-lg border text-left transition-colors ${bucketFilter === b.key ? 'border-[#CAA068] bg-[#CAA068]/10' : 'border-gray-200 bg-gray-50 hover:bg-[#CAA068]/5'}`}
+            >
+              <p className="text-sm text-gray-500">{b.label}</p>
+              <p className={`text-xl font-bold ${BUCKET_STYLES[b.key]}`}>{formatCurrency(report.totals[b.key])}</p>
+            </button>
+          ))}
+          <button
+            onClick={() => setBucketFilter('all')}
+            className={`p-4 rounded-lg border text-left transition-colors ${bucketFilter === 'all' ? 'border-[#CAA068] bg-[#CAA068]/10' : 'border-gray-200 bg-gray-50 hover:bg-[#CAA068]/5'}`}
+          >
+            <p className="text-sm text-gray-500">Total outstanding</p>
+            <p className="text-xl font-bold text-[#2B2F32]">{formatCurrency(report.total)}</p>
+          </button>
+        </div>
+
+        {/* Clients */}
+        {visible.clients.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="font-medium py-2 pr-4">Client</th>
+                  {AGEING_BUCKETS.map(b => <th key={b.key} className="font-medium py-2 pr-4 text-right">{b.label}</th>)}
+                  <th className="font-medium py-2 pr-4 text-right">Total</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.clients.map(client => {
+                  const key = client.clientId ?? 'none';
+                  const isExpanded = expandedClient === key;
+                  return (
+                    <Fragment key={key}>
+                      <tr className="border-b hover:bg-gray-50 cursor-pointer" onClick={() => setExpandedClient(isExpanded ? null : key)}>
+                        <td className="py-2 pr-4 font-semibold text-[#2B2F32]">{clientName(client.clientId)} <span className="text-gray-400 font-normal">({client.rows.length})</span></td>
+                        {AGEING_BUCKETS.map(b => (
+                          <td key={b.key} className={`py-2 pr-4 text-right ${client.totals[b.key] ? BUCKET_STYLES[b.key] : 'text-gray-300'}`}>
+                            {client.totals[b.key] ? formatCurrency(client.totals[b.key]) : '—'}
+                          </td>
+                        ))}
+                        <td className="py-2 pr-4 text-right font-bold">{formatCurrency(client.total)}</td>
+                        <td className="py-2">{isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}</td>
+                      </tr>
+                      {isExpanded && client.rows.map(row => (
+                        <tr key={row.bill.id} className="border-b bg-gray-50/60 text-gray-600">
+                          <td className="py-1.5 pr-4 pl-4">
+                            <span className="font-mono">{row.bill.billNumber}</span>
+                            <span className="ml-2 text-xs text-gray-500">{formatDate(row.bill.date)} • due {formatDate(getDueDate(row.bill))} • {row.ageDays} days • {row.bill.caseDescription}</span>
+                          </td>
+                          {AGEING_BUCKETS.map(b => (
+                            <td key={b.key} className={`py-1.5 pr-4 text-right ${BUCKET_STYLES[b.key]}`}>{b.key === row.bucket ? formatCurrency(row.outstanding) : ''}</td>
+                          ))}
+                          <td className="py-1.5 pr-4 text-right">{formatCurrency(row.outstanding)}</td>
+                          <td />
+                        </tr>
+                      ))}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500"><p>Nothing outstanding on this date.</p></div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
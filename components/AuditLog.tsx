@@ -0,0 +1,89 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, Loader2 } from 'lucide-react';
+import { useAuditLog } from '@/lib/auditLog';
+import { toISODate } from '@/lib/dates';
+import { AuditTrail } from '@/components/AuditTrail';
+
+const ALL_USERS = 'all';
+
+export function AuditLog() {
+  const { can } = useAuth();
+  const { entries, loading } = useAuditLog();
+  const [actorFilter, setActorFilter] = useState(ALL_USERS);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [billFilter, setBillFilter] = useState('');
+
+  const actors = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach(entry => names.set(entry.actor, entry.actorEmail || entry.actor));
+    return [...names.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const bill = billFilter.trim().toLowerCase();
+    return entries.filter(entry => {
+      const day = toISODate(new Date(entry.at));
+      return (actorFilter === ALL_USERS || entry.actor === actorFilter)
+        && (!fromDate || day >= fromDate)
+        && (!toDate || day <= toDate)
+        && (!bill || (entry.billNumber ?? '').toLowerCase().includes(bill));
+    });
+  }, [entries, actorFilter, fromDate, toDate, billFilter]);
+
+  if (!can('audit.view')) {
+    return (
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardContent className="p-8 text-center text-gray-600">Only partners and auditors can view the audit log.</CardContent>
+      </Card>
+    );
+  }
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading audit log...</div>;
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><History />Audit Log</CardTitle>
+        <CardDescription className="text-[#2B2F32]/60 mt-1">Every change to bills and payments, with who made it and when. Entries cannot be edited or removed.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_USERS}>All users</SelectItem>
+                {actors.map(([uid, name]) => <SelectItem key={uid} value={uid}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auditFrom">From</Label>
+            <Input id="auditFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auditTo">To</Label>
+            <Input id="auditTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auditBill">Bill Number</Label>
+            <Input id="auditBill" value={billFilter} onChange={(e) => setBillFilter(e.target.value)} placeholder="e.g. ZA/2026-27/0042" />
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">{filteredEntries.length} of {entries.length} change(s)</p>
+        <AuditTrail entries={filteredEntries} showBill />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { AUDIT_ACTION_LABELS, useAuditHistory, type AuditEntry } from '@/lib/auditLog';
+
+interface AuditTrailProps {
+  entries: AuditEntry[];
+  /** Show which bill each entry belongs to, for lists that span bills */
+  showBill?: boolean;
+}
+
+const formatValue = (value: string | number | boolean | undefined) =>
+  value === undefined ? '—' : String(value);
+
+export function AuditTrail({ entries, showBill = false }: AuditTrailProps) {
+  if (entries.length === 0) {
+    return <div className="text-center py-12 text-gray-500"><p>No changes recorded.</p></div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map(entry => (
+        <div key={entry.id} className="p-4 border rounded-lg bg-white space-y-3">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge className="bg-[#CAA068] text-white">{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+              {showBill && entry.billNumber && <Badge variant="outline">Bill No: {entry.billNumber}</Badge>}
+              <span className="text-sm text-gray-600">{entry.actorEmail || entry.actor}</span>
+            </div>
+            <span className="text-sm text-gray-500">{format(new Date(entry.at), 'dd MMM yyyy, HH:mm:ss')}</span>
+          </div>
+          {entry.reason && <p className="text-sm text-gray-700"><span className="text-gray-500">Reason:</span> {entry.reason}</p>}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium pr-4 pb-1">Field</th>
+                  <th className="font-medium pr-4 pb-1">Before</th>
+                  <th className="font-medium pb-1">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entry.changes.map(change => (
+                  <tr key={change.field} className="border-t">
+                    <td className="font-mono text-xs pr-4 py-1 text-gray-700">{change.field}</td>
+                    <td className="pr-4 py-1 text-red-700">{formatValue(change.before)}</td>
+                    <td className="py-1 text-green-700">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Changes to a bill, and to the bills it revises or is revised by, newest first. */
+export function BillHistory({ caseIds }: { caseIds: string[] }) {
+  const { entries: history, loading } = useAuditHistory(caseIds.map(id => `cases/${id}`));
+
+  if (loading) {
+    return <div className="text-center py-12 text-gray-500 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading history...</div>;
+  }
+  return <AuditTrail entries={history} showBill={caseIds.length > 1} />;
+}
@@ -1,8 +1,10 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { database } from '@/lib/firebase';
-import { ref, onValue } from 'firebase/database';
+import { useState, useMemo } from 'react';
+import { useCases } from '@/lib/casesRepository';
+import { parseDate } from '@/lib/dates';
+import { countsAsBilled } from '@/lib/billStatus';
+import { BillStatusBadge } from '@/components/BillStatusBadge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -24,90 +26,22 @@ import {
   FileText,
   Wallet, // For payments
 } from 'lucide-react';
-import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval, isToday, format, parseISO, startOfYear, endOfYear } from 'date-fns';
-
-// --- INTERFACES ---
-interface Payment {
-  amount: number;
-  method: 'Cash' | 'Online' | '';
-  date: string;
-}
-
-interface CaseData {
-  id: string;
-  date: string;
-  totalAmount: number; // Total billed amount for the case
-  caseDescription: string;
-  billNumber: string;
-  payments?: Payment[]; // Optional array of payments
-  paidAmount?: number; // Calculated total paid for this case
-  remainingAmount?: number; // Calculated remaining for this case
-}
+import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval, isToday, format, startOfYear, endOfYear } from 'date-fns';
 
 type TimeFilter = 'today' | 'week' | 'month' | 'year' | 'all'; // Added 'year' filter
 
 export function BillAnalytics() {
-  const [allCases, setAllCases] = useState<CaseData[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { cases: allCases, loading } = useCases();
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('month'); // Default to month for a more immediate view
 
-  // Helper function to safely parse dates that might be in non-standard formats.
-  const parseDate = (dateString: string): Date | null => {
-    if (!dateString) return null;
-    try {
-      // Attempt to parse ISO string first (e.g., "YYYY-MM-DD")
-      let date = parseISO(dateString);
-      if (!isNaN(date.getTime())) {
-        return date;
-      }
-      // Fallback for DD/MM/YYYY or DD-MM-YYYY
-      const parts = dateString.split(/[-/]/);
-      if (parts.length === 3) {
-        const [day, month, year] = parts;
-        // Note: The month argument in new Date() is 0-indexed (0-11)
-        date = new Date(Number(year), Number(month) - 1, Number(day));
-        if (!isNaN(date.getTime())) {
-          return date;
-        }
-      }
-      return null;
-    } catch (e) {
-      return null;
-    }
-  };
-
-  // --- DATA FETCHING ---
-  useEffect(() => {
-    const casesRef = ref(database, 'cases');
-    const unsubscribe = onValue(casesRef, (snapshot) => {
-      const data = snapshot.val();
-      const casesArray: CaseData[] = data
-        ? Object.entries(data).map(([id, caseData]: [string, any]) => {
-            const payments = caseData.payments || [];
-            const paidAmount = payments.reduce((sum: number, p: Payment) => sum + p.amount, 0);
-            const totalAmount = caseData.totalAmount || 0;
-            return {
-              id,
-              ...caseData,
-              payments: payments, // Ensure payments array exists
-              paidAmount: paidAmount, // Calculate paid amount
-              remainingAmount: totalAmount - paidAmount, // Calculate remaining amount
-            };
-          })
-        : [];
-      setAllCases(casesArray);
-      setLoading(false);
-    });
-    return () => unsubscribe();
-  }, []);
-
   // --- FILTERING & STATS CALCULATION LOGIC ---
   const filteredData = useMemo(() => {
     const now = new Date();
-    let casesForPeriod = allCases;
+    const billedCases = allCases.filter(c => countsAsBilled(c.status));
+    let casesForPeriod = billedCases;
 
     if (timeFilter !== 'all') {
-      casesForPeriod = allCases.filter(c => {
+      casesForPeriod = billedCases.filter(c => {
         const caseDate = parseDate(c.date);
         if (!caseDate) return false;
 
@@ -119,9 +53,9 @@ export function BillAnalytics() {
       });
     }
 
-    const totalBilled = casesForPeriod.reduce((sum, c) => sum + (c.totalAmount || 0), 0);
+    const totalBilled = casesForPeriod.reduce((sum, c) => sum + c.totalAmount - c.creditedAmount, 0); // Net of credit notes
     const totalPaid = casesForPeriod.reduce((sum, c) => sum + (c.paidAmount || 0), 0);
-    const totalRemaining = totalBilled - totalPaid; // Recalculate based on filtered billed and paid
+    const totalRemaining = casesForPeriod.reduce((sum, c) => sum + c.remainingAmount, 0); // Net of any write-offs
 
     const stats = {
       totalBilled: totalBilled,
@@ -170,7 +104,7 @@ export function BillAnalytics() {
 
       const currentData = dataMap.get(key) || { billed: 0, paid: 0, dateForSort: sortDate };
       dataMap.set(key, {
-        billed: currentData.billed + (c.totalAmount || 0),
+        billed: currentData.billed + c.totalAmount - c.creditedAmount,
         paid: currentData.paid + (c.paidAmount || 0),
         dateForSort: currentData.dateForSort || sortDate // Keep the first date encountered for sorting consistency
       });
@@ -319,20 +253,18 @@ export function BillAnalytics() {
                             <p className="font-semibold text-lg text-[#2B2F32]">{caseItem.caseDescription}</p>
                             <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
                                 <Badge variant="outline" className="bg-gray-100 text-gray-700">Bill No: {caseItem.billNumber}</Badge>
+                                <BillStatusBadge status={caseItem.status} />
                                 <span className="flex items-center gap-1.5"><Calendar className="h-4 w-4 text-gray-500"/>{formatDateDisplay(caseItem.date)}</span>
                             </div>
                         </div>
                         <div className="text-right flex flex-col items-end">
                             <p className="font-bold text-[#CAA068] text-xl">Billed: {formatCurrency(caseItem.totalAmount)}</p>
-                            {caseItem.paidAmount !== undefined && caseItem.paidAmount > 0 && (
+                            {caseItem.paidAmount > 0 && (
                                 <p className="text-sm text-green-700 font-medium">Paid: {formatCurrency(caseItem.paidAmount)}</p>
                             )}
-                            {caseItem.remainingAmount !== undefined && caseItem.remainingAmount > 0 && (
+                            {caseItem.remainingAmount > 0 && (
                                 <p className="text-sm text-red-700 font-medium">Due: {formatCurrency(caseItem.remainingAmount)}</p>
                             )}
-                            {caseItem.remainingAmount !== undefined && caseItem.remainingAmount <= 0 && (
-                                <p className="text-sm text-blue-700 font-medium">Fully Paid</p>
-                            )}
                         </div>
                     </div>
                 )) : <p className="text-center py-8 text-muted-foreground">No cases found for this period. Try adjusting your filter.</p>}
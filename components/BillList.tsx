@@ -1,8 +1,53 @@
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { database } from '@/lib/firebase';
-import { ref, onValue, update } from 'firebase/database';
+import { useState, useMemo, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCases,
+  updateCase,
+  addPayment,
+  editPayment,
+  voidPayment,
+  recordClearance,
+  issueBill,
+  cancelBill,
+  writeOffBill,
+  createCreditNote,
+  reviseBill,
+  calculateCreditNote,
+  getCreditableTaxable,
+  calculateTotal,
+  getParticularDisplayName,
+  getTaxableAmount,
+  calculateInvoiceTotal,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_DETAILS,
+  PAYMENT_DETAIL_LABELS,
+  TDS_SECTIONS,
+  formatPaymentDetails,
+  getNetReceived,
+  isBounced,
+  countsAsPaid,
+  type Case,
+  type Clearance,
+  type Particular,
+  type Payment,
+  type PaymentDetails,
+  type PaymentMethod,
+  type TdsSection,
+} from '@/lib/casesRepository';
+import { ConcurrentEditError, mergeEdits } from '@/lib/versionedWrites';
+import {
+  BILL_STATUSES,
+  BILL_STATUS_LABELS,
+  BillLockedError,
+  InvalidStatusTransitionError,
+  acceptsPayments,
+  canTransition,
+  isLocked,
+  type BillStatus,
+} from '@/lib/billStatus';
 import {
   Card,
   CardContent,
@@ -36,13 +81,39 @@ import {
 } from '@/components/ui/popover';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Textarea } from '@/components/ui/textarea';
+import { ClientPicker } from '@/components/ClientPicker';
+import { MatterPicker } from '@/components/MatterPicker';
+import { GstOptions } from '@/components/GstOptions';
+import { TaxLines } from '@/components/TaxLines';
+import { BillHistory } from '@/components/AuditTrail';
+import { BillStatusBadge } from '@/components/BillStatusBadge';
+import { ReminderDialog } from '@/components/ReminderDialog';
+import { PaymentDetailsFields } from '@/components/PaymentDetailsFields';
+import { ClearanceDialog } from '@/components/ClearanceDialog';
+import { EditConflictAlert } from '@/components/EditConflictAlert';
+import { REMINDER_LEVEL_LABELS } from '@/lib/reminders';
+import { getDaysOverdue, getDueDate, isOverdue } from '@/lib/paymentTerms';
+import { useMatters, type Matter } from '@/lib/mattersRepository';
+import { useClients, summarizeClients } from '@/lib/clientsRepository';
+import { useReceipts, voidReceiptPayment } from '@/lib/receiptsRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { OTHER_PARTICULAR_TYPE, isAppearanceType, particularTypeOptions, rateFor } from '@/lib/rateCard';
+import { downloadFile, printPdf, toFileName } from '@/lib/download';
+import { calculateGst, getStateName, stateCodeFromGstin, type GstInput } from '@/lib/gst';
 import { toast } from 'sonner';
 import {
   Search,
   FileText,
   Calendar,
+  Clock,
   DollarSign,
   Printer,
+  Download,
   Loader2,
   List,
   Edit,
@@ -50,18 +121,26 @@ import {
   Trash2,
   ChevronsUpDown,
   Wallet,
+  Building2,
+  Gavel,
+  History,
+  Lock,
+  Send,
+  Ban,
+  FileX,
+  FileMinus,
+  FilePen,
+  Link2,
+  Mail,
+  Receipt as ReceiptIcon,
+  CheckCircle2,
+  Undo2,
+  Pencil,
+  XCircle,
+  X,
 } from 'lucide-react';
 
 // --- CONSTANTS & HELPERS ---
-const PARTICULAR_TYPES = [
-  "Appearance", "Arbitration Hearing", "Conference", "Conference at BEST office",
-  "Drafting Charges", "Drafting Section 17 Application", "Filing",
-  "Miscellaneous Expenses", "Notary Charges", "Notary Charges Affidavit in Reply",
-  "Settling Reply to Claims", "Written opinion", "Xerox Charges", "Other"
-].sort();
-
-const PAYMENT_METHODS = ["Cash", "Online"];
-
 const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
   style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
 }).format(amount || 0);
@@ -84,140 +163,165 @@ const formatDateForInput = (dateString: string) => {
   }
 };
 
-const getParticularDisplayName = (p: Particular) => (p.type === 'Other' && p.customType) ? `Other: ${p.customType}` : p.type;
-
 // --- INTERFACES ---
-interface Particular {
-  type: string;
+interface EditableParticular extends Omit<Particular, 'amount'> {
   amount: number | string; // Allow string for form input
-  appearanceDate?: string;
-  customType?: string;
 }
 
-interface Payment {
-  amount: number;
-  method: 'Cash' | 'Online' | '';
-  date: string;
+interface EditFormData extends Omit<Case, 'particulars'> {
+  particulars: EditableParticular[];
+  gst: GstInput | null;
 }
 
-interface CaseData {
-  id: string;
-  billNumber: string;
-  caseNumber: string;
-  caseDescription: string;
-  date: string;
-  totalAmount: number;
-  particulars: Particular[];
-  payments: Payment[]; // New
-  paidAmount: number; // New
-  remainingAmount: number; // New
-}
+const toEditFormData = (caseItem: Case): EditFormData => ({
+  ...JSON.parse(JSON.stringify(caseItem)), // Deep copy
+  gst: caseItem.tax ? { placeOfSupply: caseItem.tax.placeOfSupply, reverseCharge: caseItem.tax.reverseCharge } : null,
+});
+
+// What the edit form changes, named for the merge warning
+const EDITABLE_FIELDS: Partial<Record<keyof EditFormData, string>> = {
+  billNumber: 'bill number',
+  matterId: 'matter',
+  caseNumber: 'case number',
+  caseDescription: 'description',
+  clientId: 'client',
+  date: 'date',
+  particulars: 'particulars',
+  gst: 'GST treatment',
+};
 
 // --- MAIN COMPONENT ---
 export function BillList() {
   // --- STATE MANAGEMENT ---
-  const [allCases, setAllCases] = useState<CaseData[]>([]);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { can } = useAuth();
+  const { cases: allCases, loading } = useCases();
+  const { clients } = useClients();
+  const { matters } = useMatters();
+  const { receipts } = useReceipts();
+  const { settings } = useSettings();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCase, setSelectedCase] = useState<CaseData | null>(null);
+  const [activeTab, setActiveTab] = useState<'bills' | 'clients'>('bills');
+  const [clientFilter, setClientFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<BillStatus | 'all' | 'overdue'>('all');
+  const searchParams = useSearchParams();
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(searchParams.get('bill'));
   const [isEditing, setIsEditing] = useState(false);
-  const [editFormData, setEditFormData] = useState<CaseData | null>(null);
+  const [detailsTab, setDetailsTab] = useState<'details' | 'history'>('details');
+  const [editFormData, setEditFormData] = useState<EditFormData | null>(null);
+  const [editBase, setEditBase] = useState<EditFormData | null>(null); // The bill as it was when editing began
   const [isUpdating, setIsUpdating] = useState(false);
   const [openParticularPopoverIndex, setOpenParticularPopoverIndex] = useState<number | null>(null);
 
   // Payment dialog state
   const [isAddingPayment, setIsAddingPayment] = useState(false);
+  const [editingPaymentIndex, setEditingPaymentIndex] = useState<number | null>(null); // Null when adding a new payment
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null); // As it was when the correction began
+  const [paymentReason, setPaymentReason] = useState('');
   const [newPaymentAmount, setNewPaymentAmount] = useState<string>('');
-  const [newPaymentMethod, setNewPaymentMethod] = useState<'Cash' | 'Online' | ''>('');
+  const [newPaymentMethod, setNewPaymentMethod] = useState<PaymentMethod | ''>('');
+  const [newPaymentDetails, setNewPaymentDetails] = useState<PaymentDetails>({});
   const [newPaymentDate, setNewPaymentDate] = useState<string>(formatDateForInput(new Date().toISOString().split('T')[0]));
+  const [hasTds, setHasTds] = useState(false);
+  const [newTdsAmount, setNewTdsAmount] = useState<string>('');
+  const [newTdsSection, setNewTdsSection] = useState<TdsSection>('194J');
+  const [newTdsCertificate, setNewTdsCertificate] = useState<string>('');
 
 
-  // --- DATA FETCHING ---
-  useEffect(() => {
-    const casesRef = ref(database, 'cases');
-    const unsubscribe = onValue(casesRef, (snapshot) => {
-      const data = snapshot.val();
-      const casesArray: CaseData[] = data
-        ? Object.entries(data).map(([id, caseData]: [string, any]) => {
-          const payments = caseData.payments || [];
-          const paidAmount = payments.reduce((sum: number, p: Payment) => sum + p.amount, 0);
-          const totalAmount = caseData.totalAmount || 0;
-          return {
-            id,
-            ...caseData,
-            particulars: caseData.particulars || [],
-            payments: payments, // Ensure payments array exists
-            paidAmount: paidAmount, // Calculate paid amount
-            remainingAmount: totalAmount - paidAmount, // Calculate remaining amount
-          };
-        })
-        : [];
-
-      casesArray.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-      setAllCases(casesArray);
-      setLoading(false);
-    });
-    return () => unsubscribe();
-  }, []);
+  // The selected case is looked up on every render so it follows live updates.
+  const selectedCase = useMemo(
+    () => allCases.find(c => c.id === selectedCaseId) ?? null,
+    [allCases, selectedCaseId]
+  );
+  const selectedMatter = matters.find(m => m.id === selectedCase?.matterId);
+
+  // A bill shares its history with the bills it revises and is revised by
+  const revisionChain = useMemo(() => {
+    if (!selectedCase) return [];
+    const byId = new Map(allCases.map(c => [c.id, c]));
+    const chain = [selectedCase];
+    for (let bill = byId.get(selectedCase.revisionOf ?? ''); bill && !chain.includes(bill); bill = byId.get(bill.revisionOf ?? '')) {
+      chain.unshift(bill);
+    }
+    for (let bill = byId.get(selectedCase.revisedBy ?? ''); bill && !chain.includes(bill); bill = byId.get(bill.revisedBy ?? '')) {
+      chain.push(bill);
+    }
+    return chain;
+  }, [allCases, selectedCase]);
+  const originalBill = allCases.find(c => c.id === selectedCase?.revisionOf);
+  const revisedBill = allCases.find(c => c.id === selectedCase?.revisedBy);
+
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id, c.name])), [clients]);
 
   // --- FILTERING LOGIC ---
   const filteredCases = useMemo(() => {
-    if (!searchTerm) return allCases;
+    const term = searchTerm.toLowerCase();
     return allCases.filter(c =>
-      c.billNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      c.caseNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      c.caseDescription.toLowerCase().includes(searchTerm.toLowerCase())
+      (!clientFilter || c.clientId === clientFilter) && (statusFilter === 'all' || (statusFilter === 'overdue' ? isOverdue(c) : c.status === statusFilter)) && (!term ||
+        c.billNumber.toLowerCase().includes(term) ||
+        c.caseNumber.toLowerCase().includes(term) ||
+        c.caseDescription.toLowerCase().includes(term) ||
+        (clientNames.get(c.clientId ?? '') ?? '').toLowerCase().includes(term))
     );
-  }, [searchTerm, allCases]);
+  }, [searchTerm, clientFilter, statusFilter, allCases, clientNames]);
+
+  const clientSummaries = useMemo(() => summarizeClients(clients, allCases), [clients, allCases]);
+
+  const handleShowClientBills = useCallback((clientId: string) => {
+    setClientFilter(clientId);
+    setActiveTab('bills');
+  }, []);
 
   // --- EDIT MODE HANDLERS ---
   const handleEdit = useCallback(() => {
     if (!selectedCase) return;
-    setEditFormData(JSON.parse(JSON.stringify(selectedCase))); // Deep copy
+    setEditFormData(toEditFormData(selectedCase));
+    setEditBase(toEditFormData(selectedCase));
     setIsEditing(true);
   }, [selectedCase]);
 
   const handleCancelEdit = useCallback(() => {
     setIsEditing(false);
     setEditFormData(null);
+    setEditBase(null);
   }, []);
 
+  // Someone else saved the bill while it was being edited
+  const isStaleEdit = isEditing && !!selectedCase && !!editFormData && selectedCase.version !== editFormData.version;
+
+  const handleMergeEdits = useCallback(() => {
+    if (!selectedCase || !editFormData || !editBase) return;
+    const latest = toEditFormData(selectedCase);
+    const { merged, conflicts } = mergeEdits(editBase, editFormData, latest, Object.keys(EDITABLE_FIELDS) as (keyof EditFormData)[]);
+    setEditFormData(merged);
+    setEditBase(latest);
+    if (conflicts.length > 0) {
+      toast.warning(`You both changed the ${conflicts.map(field => EDITABLE_FIELDS[field]).join(', ')}; your version was kept.`);
+    } else {
+      toast.success("Their changes were merged into yours.");
+    }
+  }, [selectedCase, editFormData, editBase]);
+
   const handleUpdateCase = useCallback(async () => {
     if (!editFormData) return;
     setIsUpdating(true);
 
-    const sanitizedParticulars = editFormData.particulars.map(p => ({
-      ...p,
-      amount: Number(p.amount || 0)
-    }));
-
-    const newTotalAmount = sanitizedParticulars.reduce((sum, p) => sum + p.amount, 0);
-
-    const dataToSave = {
-      ...editFormData,
-      particulars: sanitizedParticulars,
-      totalAmount: newTotalAmount,
-      // paidAmount and remainingAmount are calculated on fetch, no need to save explicitly
-    };
-    delete (dataToSave as any).id;
-    delete (dataToSave as any).paidAmount;
-    delete (dataToSave as any).remainingAmount;
-
-
     try {
-      await update(ref(database, `cases/${editFormData.id}`), dataToSave);
+      await updateCase(editFormData.id, {
+        billNumber: editFormData.billNumber,
+        matterId: editFormData.matterId,
+        caseNumber: editFormData.caseNumber,
+        caseDescription: editFormData.caseDescription,
+        clientId: editFormData.clientId,
+        gst: editFormData.gst,
+        date: editFormData.date,
+        particulars: editFormData.particulars.map(p => ({ ...p, amount: Number(p.amount || 0) })),
+      }, editFormData.version);
       toast.success("Case updated successfully!");
-      // Update the selectedCase locally to reflect changes immediately
-      setSelectedCase(prev => prev ? { 
-        ...prev, 
-        ...dataToSave,
-        totalAmount: newTotalAmount // Ensure totalAmount is updated for immediate display
-      } : null);
       handleCancelEdit();
     } catch (error) {
       console.error("Update Error:", error);
-      toast.error("Failed to update case.");
+      toast.error(error instanceof BillLockedError || error instanceof ConcurrentEditError ? error.message : "Failed to update case.");
     } finally {
       setIsUpdating(false);
     }
@@ -229,6 +333,17 @@ export function BillList() {
     setEditFormData(prev => prev ? { ...prev, [e.target.name]: e.target.value } : null);
   }, [editFormData]);
 
+  // Moving a bill to another matter also copies that matter's number and title
+  const handleMatterChange = useCallback((matter: Matter) => {
+    setEditFormData(prev => prev ? {
+      ...prev,
+      matterId: matter.id,
+      caseNumber: matter.matterNumber,
+      caseDescription: matter.title,
+      clientId: matter.clientId ?? prev.clientId,
+    } : null);
+  }, []);
+
   const handleParticularChange = useCallback((index: number, field: string, value: string) => {
     if (!editFormData) return;
     const updatedParticulars = [...editFormData.particulars];
@@ -240,12 +355,16 @@ export function BillList() {
     if (!editFormData) return;
     const updatedParticulars = [...editFormData.particulars];
     updatedParticulars[index].type = type;
-    if (type !== 'Other') {
+    if (type !== OTHER_PARTICULAR_TYPE) {
       updatedParticulars[index].customType = '';
     }
+    const rate = rateFor(type, settings.rateCard, clients.find(c => c.id === editFormData.clientId));
+    if (rate !== undefined) {
+      updatedParticulars[index].amount = rate;
+    }
     setEditFormData(prev => prev ? { ...prev, particulars: updatedParticulars } : null);
     setOpenParticularPopoverIndex(null);
-  }, [editFormData]);
+  }, [editFormData, settings.rateCard, clients]);
 
   const handleAddParticular = useCallback(() => {
     if (!editFormData) return;
@@ -261,17 +380,58 @@ export function BillList() {
   // --- LIVE TOTAL CALCULATION FOR EDIT MODE ---
   const liveTotalAmount = useMemo(() => {
     if (!editFormData) return 0;
-    return editFormData.particulars.reduce((sum, p) => sum + Number(p.amount || 0), 0);
+    return calculateTotal(editFormData.particulars);
   }, [editFormData]);
 
+  // An edited bill keeps the GST rate it was issued with
+  const liveTax = useMemo(() => {
+    const supplierState = stateCodeFromGstin(settings.firm.gstin);
+    if (!editFormData?.gst || !supplierState) return undefined;
+    const rate = editFormData.tax?.rate ?? settings.gst.rate;
+    return {
+      ...calculateGst(liveTotalAmount, rate, supplierState, editFormData.gst.placeOfSupply),
+      rate,
+      reverseCharge: editFormData.gst.reverseCharge,
+    };
+  }, [editFormData, liveTotalAmount, settings]);
+
   // --- PAYMENT HANDLERS ---
   const handleAddPaymentClick = useCallback(() => {
     setIsAddingPayment(true);
+    setEditingPaymentIndex(null);
+    setPaymentReason('');
     setNewPaymentAmount('');
     setNewPaymentMethod('');
+    setNewPaymentDetails({});
     setNewPaymentDate(formatDateForInput(new Date().toISOString().split('T')[0]));
+    setHasTds(false);
+    setNewTdsAmount('');
+    setNewTdsSection('194J');
+    setNewTdsCertificate('');
   }, []);
 
+  const handleEditPaymentClick = useCallback((index: number) => {
+    const payment = selectedCase?.payments[index];
+    if (!payment) return;
+    setIsAddingPayment(true);
+    setEditingPaymentIndex(index);
+    setEditingPayment(payment);
+    setPaymentReason('');
+    setNewPaymentAmount(String(payment.amount));
+    setNewPaymentMethod(payment.method);
+    setNewPaymentDetails({
+      instrumentNumber: payment.instrumentNumber,
+      bankName: payment.bankName,
+      utr: payment.utr,
+      upiTransactionId: payment.upiTransactionId,
+    });
+    setNewPaymentDate(formatDateForInput(payment.date));
+    setHasTds(!!payment.tds);
+    setNewTdsAmount(payment.tds ? String(payment.tds.amount) : '');
+    setNewTdsSection(payment.tds?.section ?? '194J');
+    setNewTdsCertificate(payment.tds?.certificateNumber ?? '');
+  }, [selectedCase]);
+
   const handleSavePayment = useCallback(async () => {
     if (!selectedCase || !newPaymentAmount || !newPaymentMethod || !newPaymentDate) {
       toast.error("Please fill all payment details.");
@@ -284,69 +444,250 @@ export function BillList() {
       return;
     }
 
-    setIsUpdating(true);
-    const updatedPayments = [...(selectedCase.payments || []), {
+    const missingDetail = PAYMENT_METHOD_DETAILS[newPaymentMethod].find(field => !newPaymentDetails[field]?.trim());
+    if (missingDetail) {
+      toast.error(`Please enter the ${PAYMENT_DETAIL_LABELS[missingDetail]}.`);
+      return;
+    }
+
+    const tdsAmount = Number(newTdsAmount);
+    if (hasTds && (isNaN(tdsAmount) || tdsAmount <= 0 || tdsAmount >= amount)) {
+      toast.error("TDS must be more than zero and less than the gross amount.");
+      return;
+    }
+
+    if (editingPaymentIndex !== null && !paymentReason.trim()) {
+      toast.error("Please give a reason for the correction.");
+      return;
+    }
+
+    if (editingPaymentIndex !== null && JSON.stringify(selectedCase.payments[editingPaymentIndex]) !== JSON.stringify(editingPayment)) {
+      toast.error("Someone else changed this payment while you were correcting it. Open it again to see the latest.");
+      return;
+    }
+
+    const payment = {
+      ...newPaymentDetails,
       amount: amount,
       method: newPaymentMethod,
       date: newPaymentDate,
-    }];
+      tds: hasTds
+        ? { amount: tdsAmount, section: newTdsSection, certificateNumber: newTdsCertificate.trim() || undefined }
+        : undefined,
+    };
+    setIsUpdating(true);
+    try {
+      if (editingPaymentIndex !== null) {
+        await editPayment(selectedCase, editingPaymentIndex, payment, paymentReason);
+        toast.success("Payment corrected.");
+      } else {
+        const moneyReceiptNumber = await addPayment(selectedCase, payment);
+        toast.success(`Payment added under money receipt ${moneyReceiptNumber}.`);
+      }
+      setIsAddingPayment(false); // Close the add payment dialog
+    } catch (error) {
+      console.error("Payment Save Error:", error);
+      toast.error(error instanceof Error && (editingPaymentIndex !== null || error instanceof ConcurrentEditError) ? error.message : "Failed to add payment.");
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [selectedCase, editingPaymentIndex, editingPayment, paymentReason, newPaymentAmount, newPaymentMethod, newPaymentDetails, newPaymentDate, hasTds, newTdsAmount, newTdsSection, newTdsCertificate]);
+
+  // --- VOIDING PAYMENTS ---
+  // A payment from a receipt goes back to that receipt as an advance, to be allocated again
+  const [voidingPaymentIndex, setVoidingPaymentIndex] = useState<number | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const voidingPayment = selectedCase && voidingPaymentIndex !== null ? selectedCase.payments[voidingPaymentIndex] : undefined;
+
+  const handleVoidPayment = useCallback(async () => {
+    if (!selectedCase || voidingPaymentIndex === null || !voidingPayment) return;
+    if (!voidReason.trim()) {
+      toast.error("Please give a reason.");
+      return;
+    }
+    setIsUpdating(true);
+    try {
+      if (voidingPayment.receiptId) {
+        const receipt = receipts.find(r => r.id === voidingPayment.receiptId);
+        if (!receipt) throw new Error('The receipt this payment came from no longer exists');
+        await voidReceiptPayment(receipt, selectedCase, voidingPaymentIndex, voidReason);
+        toast.success("Payment voided; the amount is back on the receipt as an advance.");
+      } else {
+        await voidPayment(selectedCase, voidingPaymentIndex, voidReason);
+        toast.success("Payment voided.");
+      }
+      setVoidingPaymentIndex(null);
+      setVoidReason('');
+    } catch (error) {
+      console.error("Void Error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to void the payment.");
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [selectedCase, voidingPaymentIndex, voidingPayment, voidReason, receipts]);
 
-    const newPaidAmount = updatedPayments.reduce((sum, p) => sum + p.amount, 0);
-    const newRemainingAmount = selectedCase.totalAmount - newPaidAmount;
+  // --- CHEQUE CLEARANCE ---
+  // Payments that are part of a receipt are cleared or bounced on the receipt, which covers every bill it paid
+  const [clearanceAction, setClearanceAction] = useState<{ paymentIndex: number; status: 'cleared' | 'bounced' } | null>(null);
+  const clearancePayment = selectedCase && clearanceAction ? selectedCase.payments[clearanceAction.paymentIndex] : undefined;
 
+  const handleClearance = useCallback(async (clearance: Clearance) => {
+    if (!selectedCase || !clearanceAction) return false;
     try {
-      await update(ref(database, `cases/${selectedCase.id}`), {
-        payments: updatedPayments,
-        paidAmount: newPaidAmount, // Explicitly update paidAmount in Firebase
-        remainingAmount: newRemainingAmount, // Explicitly update remainingAmount in Firebase
+      await recordClearance(selectedCase, clearanceAction.paymentIndex, clearance);
+      toast.success(clearance.status === 'bounced' ? 'Bounce recorded; the payment has been reversed.' : 'Marked as cleared.');
+      return true;
+    } catch (error) {
+      console.error("Clearance Error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record the clearance.");
+      return false;
+    }
+  }, [selectedCase, clearanceAction]);
+
+  // --- MONEY RECEIPTS ---
+  const handleMoneyReceipt = useCallback(async (payment: Payment) => {
+    if (!selectedCase) return;
+    setIsUpdating(true);
+    try {
+      // pdf-lib is only loaded when a receipt is actually rendered
+      const { renderMoneyReceiptPdf, moneyReceiptForPayment, moneyReceiptForReceipt } = await import('@/lib/moneyReceiptPdf');
+      const receipt = receipts.find(r => r.id === payment.receiptId);
+      const bytes = await renderMoneyReceiptPdf({
+        ...(receipt ? moneyReceiptForReceipt(receipt, allCases) : moneyReceiptForPayment(selectedCase, payment)),
+        client: clients.find(c => c.id === selectedCase.clientId),
+        settings,
       });
-      toast.success("Payment added successfully!");
-      // Update selectedCase state immediately for UI refresh
-      setSelectedCase(prev => prev ? {
-        ...prev,
-        payments: updatedPayments,
-        paidAmount: newPaidAmount,
-        remainingAmount: newRemainingAmount,
-      } : null);
-      setIsAddingPayment(false); // Close the add payment dialog
+      downloadFile(bytes, `Money_Receipt_${toFileName(payment.moneyReceiptNumber ?? '')}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error("Money Receipt Error:", error);
+      toast.error("Failed to generate the money receipt.");
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [selectedCase, receipts, allCases, clients, settings]);
+
+  // --- STATUS CHANGES ---
+  const [statusAction, setStatusAction] = useState<'cancel' | 'writeOff' | 'revise' | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+
+  const handleIssue = useCallback(async () => {
+    if (!selectedCase) return;
+    setIsUpdating(true);
+    try {
+      const billNumber = await issueBill(selectedCase);
+      toast.success(`Bill issued as ${billNumber}.`);
     } catch (error) {
-      console.error("Payment Add Error:", error);
-      toast.error("Failed to add payment.");
+      console.error("Issue Error:", error);
+      toast.error(error instanceof ConcurrentEditError || error instanceof InvalidStatusTransitionError ? error.message : "Failed to issue bill.");
     } finally {
       setIsUpdating(false);
     }
-  }, [selectedCase, newPaymentAmount, newPaymentMethod, newPaymentDate]);
-
-  // --- PRINT FUNCTIONALITY ---
-  const handlePrint = () => {
-    const printContent = document.getElementById('bill-details-printable');
-    const printWindow = window.open('', '_blank', 'left=50,top=50,width=800,height=600');
-    if (printWindow && printContent) {
-      printWindow.document.write(`
-          <html>
-            <head>
-              <title>Print Bill</title>
-              <script src="https://cdn.tailwindcss.com"></script>
-              <style>
-                body { font-family: ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, "Noto Sans", sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"; }
-                .no-print { display: none !important; }
-                /* Custom styles for print, if needed */
-              </style>
-            </head>
-            <body class="p-8 font-sans">${printContent.innerHTML}</body>
-          </html>`);
-      printWindow.document.close();
-      setTimeout(() => {
-        printWindow.print();
-        printWindow.close();
-      }, 250);
+  }, [selectedCase]);
+
+  const handleStatusAction = useCallback(async () => {
+    if (!selectedCase || !statusAction) return;
+    if (!statusReason.trim()) {
+      toast.error("Please give a reason.");
+      return;
+    }
+    setIsUpdating(true);
+    try {
+      if (statusAction === 'cancel') {
+        await cancelBill(selectedCase, statusReason);
+        toast.success("Bill cancelled.");
+      } else if (statusAction === 'revise') {
+        const revisionId = await reviseBill(selectedCase, statusReason);
+        setSelectedCaseId(revisionId);
+        toast.success("Revision drafted. Correct it, then issue it.");
+      } else {
+        await writeOffBill(selectedCase, statusReason);
+        toast.success(`${formatCurrency(selectedCase.remainingAmount)} written off.`);
+      }
+      setStatusAction(null);
+      setStatusReason('');
+    } catch (error) {
+      console.error("Status Error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update the bill.");
+    } finally {
+      setIsUpdating(false);
     }
-  };
+  }, [selectedCase, statusAction, statusReason]);
+
+  // --- CREDIT NOTES ---
+  const [isCreditNoteOpen, setIsCreditNoteOpen] = useState(false);
+  const [creditNoteAmount, setCreditNoteAmount] = useState('');
+  const [creditNoteReason, setCreditNoteReason] = useState('');
+  const [creditNoteDate, setCreditNoteDate] = useState(formatDateForInput(new Date().toISOString()));
+
+  const creditNotePreview = useMemo(
+    () => selectedCase && Number(creditNoteAmount) > 0 ? calculateCreditNote(selectedCase, Number(creditNoteAmount)) : null,
+    [selectedCase, creditNoteAmount]
+  );
+
+  const handleSaveCreditNote = useCallback(async () => {
+    if (!selectedCase) return;
+    if (!(Number(creditNoteAmount) > 0) || !creditNoteReason.trim() || !creditNoteDate) {
+      toast.error("Please enter an amount, a date and a reason.");
+      return;
+    }
+    setIsUpdating(true);
+    try {
+      const creditNoteNumber = await createCreditNote(selectedCase, {
+        taxableAmount: Number(creditNoteAmount),
+        reason: creditNoteReason,
+        date: creditNoteDate,
+      });
+      toast.success(`Credit note ${creditNoteNumber} raised.`);
+      setIsCreditNoteOpen(false);
+      setCreditNoteAmount('');
+      setCreditNoteReason('');
+    } catch (error) {
+      console.error("Credit Note Error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to raise the credit note.");
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [selectedCase, creditNoteAmount, creditNoteReason, creditNoteDate]);
+
+  // --- INVOICE PDF ---
+  const [isRenderingPdf, setIsRenderingPdf] = useState(false);
+  const [isReminderOpen, setIsReminderOpen] = useState(false);
+
+  const handleInvoicePdf = useCallback(async (action: 'print' | 'download') => {
+    if (!selectedCase) return;
+    setIsRenderingPdf(true);
+    try {
+      // pdf-lib is only loaded when an invoice is actually rendered
+      const { renderInvoicePdf } = await import('@/lib/invoicePdf');
+      const bytes = await renderInvoicePdf({
+        bill: selectedCase,
+        client: clients.find(c => c.id === selectedCase.clientId),
+        matter: selectedMatter,
+        settings,
+      });
+      if (action === 'print') {
+        printPdf(bytes);
+      } else {
+        downloadFile(bytes, `Invoice_${toFileName(selectedCase.billNumber || 'Draft')}.pdf`, 'application/pdf');
+      }
+    } catch (error) {
+      console.error("Invoice Error:", error);
+      toast.error("Failed to generate the invoice PDF.");
+    } finally {
+      setIsRenderingPdf(false);
+    }
+  }, [selectedCase, selectedMatter, clients, settings]);
 
   const closeDialog = useCallback(() => {
-    setSelectedCase(null);
+    setSelectedCaseId(null);
+    setDetailsTab('details');
     handleCancelEdit(); // Also exit edit mode when dialog closes
     setIsAddingPayment(false); // Close payment dialog as well
+    setStatusAction(null);
+    setIsCreditNoteOpen(false);
+    setIsReminderOpen(false);
+    setClearanceAction(null);
+    setVoidingPaymentIndex(null);
   }, [handleCancelEdit]);
 
   // --- RENDER LOGIC ---
@@ -357,61 +698,119 @@ export function BillList() {
   return (
     <>
       <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
-        <CardHeader>
-          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-            <div>
-              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><List />All Cases</CardTitle>
-              <CardDescription className="text-[#2B2F32]/60 mt-1">A complete list of all your case entries.</CardDescription>
-            </div>
-            <div className="relative w-full md:w-72">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search by Bill No, Case No..."
-                className="pl-10"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-              />
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'bills' | 'clients')}>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><List />All Cases</CardTitle>
+                <CardDescription className="text-[#2B2F32]/60 mt-1">A complete list of all your case entries.</CardDescription>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+                <TabsList>
+                  <TabsTrigger value="bills"><FileText className="h-4 w-4 mr-2" />Bills</TabsTrigger>
+                  <TabsTrigger value="clients"><Building2 className="h-4 w-4 mr-2" />By Client</TabsTrigger>
+                </TabsList>
+                <div className="relative w-full md:w-72">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by Bill No, Case No, Client..."
+                    className="pl-10"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                </div>
+              </div>
             </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {filteredCases.length > 0 ? (
-              filteredCases.map((caseItem) => (
-                <div
-                  key={caseItem.id}
-                  onClick={() => setSelectedCase(caseItem)}
-                  className="p-4 bg-gray-50 hover:bg-[#CAA068]/10 border border-gray-200 rounded-lg cursor-pointer transition-colors duration-200"
-                >
-                  <div className="flex flex-col md:flex-row md:justify-between md:items-center">
-                    <div className="flex-1 mb-3 md:mb-0">
-                      <div className="flex items-center gap-3 mb-1.5">
-                        <Badge variant="outline" className="text-xs">Bill No: {caseItem.billNumber}</Badge>
-                        <Badge variant="secondary" className="text-xs">Case No: {caseItem.caseNumber}</Badge>
+          </CardHeader>
+          <CardContent>
+            <TabsContent value="bills" className="mt-0">
+              <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BillStatus | 'all' | 'overdue')}>
+                  <SelectTrigger className="w-full sm:w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    <SelectItem value="overdue">Overdue</SelectItem>
+                    {BILL_STATUSES.map(status => <SelectItem key={status} value={status}>{BILL_STATUS_LABELS[status]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                {clientFilter && (
+                  <Badge className="bg-[#CAA068] text-white text-sm gap-2">
+                    Client: {clientNames.get(clientFilter)}
+                    <button onClick={() => setClientFilter(null)} aria-label="Clear client filter"><X className="h-3.5 w-3.5" /></button>
+                  </Badge>
+                )}
+              </div>
+              <div className="space-y-4">
+                {filteredCases.length > 0 ? (
+                  filteredCases.map((caseItem) => (
+                    <div
+                      key={caseItem.id}
+                      onClick={() => setSelectedCaseId(caseItem.id)}
+                      className="p-4 bg-gray-50 hover:bg-[#CAA068]/10 border border-gray-200 rounded-lg cursor-pointer transition-colors duration-200"
+                    >
+                      <div className="flex flex-col md:flex-row md:justify-between md:items-center">
+                        <div className="flex-1 mb-3 md:mb-0">
+                          <div className="flex items-center gap-3 mb-1.5 flex-wrap">
+                            <BillStatusBadge status={caseItem.status} />
+                            {isOverdue(caseItem) && <Badge variant="outline" className="text-xs border-transparent bg-red-100 text-red-800">Overdue</Badge>}
+                            {caseItem.billNumber && <Badge variant="outline" className="text-xs">Bill No: {caseItem.billNumber}</Badge>}
+                            {caseItem.revisedBy && <Badge variant="outline" className="text-xs text-gray-500">Revised</Badge>}
+                            {caseItem.creditNotes.length > 0 && <Badge variant="outline" className="text-xs text-orange-700">Credited {formatCurrency(caseItem.creditedAmount)}</Badge>}
+                            <Badge variant="secondary" className="text-xs">Case No: {caseItem.caseNumber}</Badge>
+                            {caseItem.clientId && clientNames.has(caseItem.clientId) && (
+                              <Badge variant="outline" className="text-xs border-[#CAA068] text-[#2B2F32]"><Building2 className="h-3 w-3 mr-1" />{clientNames.get(caseItem.clientId)}</Badge>
+                            )}
+                          </div>
+                          <p className="font-semibold text-base text-[#2B2F32]">{caseItem.caseDescription}</p>
+                        </div>
+                        <div className="flex items-center gap-6 text-sm">
+                          <div className="flex items-center gap-2 text-gray-500"><Calendar className="h-4 w-4" /><span>{formatDate(caseItem.date)}</span></div>
+                          <div className="text-right">
+                            <div className="font-bold text-lg text-[#CAA068]">{formatCurrency(caseItem.totalAmount)}</div>
+                            {/* Display Total Paid in the list item */}
+                            {caseItem.paidAmount > 0 && (
+                              <div className="text-sm text-green-700 font-medium">Paid: {formatCurrency(caseItem.paidAmount)}</div>
+                            )}
+                            {caseItem.remainingAmount > 0 && (
+                              <div className="text-sm text-red-700 font-medium">Due: {formatCurrency(caseItem.remainingAmount)}</div>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                      <p className="font-semibold text-base text-[#2B2F32]">{caseItem.caseDescription}</p>
                     </div>
-                    <div className="flex items-center gap-6 text-sm">
-                      <div className="flex items-center gap-2 text-gray-500"><Calendar className="h-4 w-4" /><span>{formatDate(caseItem.date)}</span></div>
-                      <div className="text-right">
-                        <div className="font-bold text-lg text-[#CAA068]">{formatCurrency(caseItem.totalAmount)}</div>
-                        {/* Display Total Paid in the list item */}
-                        {caseItem.paidAmount > 0 && (
-                          <div className="text-sm text-green-700 font-medium">Paid: {formatCurrency(caseItem.paidAmount)}</div>
-                        )}
-                        {caseItem.remainingAmount > 0 && (
-                          <div className="text-sm text-red-700 font-medium">Due: {formatCurrency(caseItem.remainingAmount)}</div>
-                        )}
-                      </div>
+                  ))
+                ) : (
+                  <div className="text-center py-12 text-gray-500"><p>No cases found for your search.</p></div>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="clients" className="mt-0">
+              <div className="space-y-4">
+                {clientSummaries.filter(s => s.client.name.toLowerCase().includes(searchTerm.toLowerCase())).map(({ client, cases: clientCases, totalBilled, totalPaid, outstanding }) => (
+                  <div
+                    key={client.id}
+                    onClick={() => handleShowClientBills(client.id)}
+                    className="p-4 bg-gray-50 hover:bg-[#CAA068]/10 border border-gray-200 rounded-lg cursor-pointer transition-colors duration-200 flex flex-col md:flex-row md:justify-between md:items-center gap-3"
+                  >
+                    <div>
+                      <p className="font-semibold text-base text-[#2B2F32] flex items-center gap-2"><Building2 className="h-4 w-4 text-[#CAA068]" />{client.name}</p>
+                      <p className="text-sm text-gray-500 mt-0.5">{clientCases.length} bill(s){client.gstin && ` • GSTIN ${client.gstin}`}</p>
+                    </div>
+                    <div className="grid grid-cols-3 gap-6 text-right text-sm">
+                      <div><p className="text-gray-500">Billed</p><p className="font-bold text-[#CAA068]">{formatCurrency(totalBilled)}</p></div>
+                      <div><p className="text-gray-500">Paid</p><p className="font-bold text-green-700">{formatCurrency(totalPaid)}</p></div>
+                      <div><p className="text-gray-500">Outstanding</p><p className="font-bold text-red-700">{formatCurrency(outstanding)}</p></div>
                     </div>
                   </div>
-                </div>
-              ))
-            ) : (
-              <div className="text-center py-12 text-gray-500"><p>No cases found for your search.</p></div>
-            )}
-          </div>
-        </CardContent>
+                ))}
+                {clientSummaries.length === 0 && (
+                  <div className="text-center py-12 text-gray-500"><p>No clients yet. Add clients to see per-client totals.</p></div>
+                )}
+              </div>
+            </TabsContent>
+          </CardContent>
+        </Tabs>
       </Card>
 
       {/* --- DETAILS & EDITING MODAL DIALOG --- */}
@@ -420,60 +819,93 @@ export function BillList() {
           {selectedCase && (
             <>
               {/* Scrollable Area */}
-              <div className="overflow-y-auto" id={isEditing || isAddingPayment ? '' : 'bill-details-printable'}>
+              <div className="overflow-y-auto">
                 <DialogHeader className="p-6 bg-gray-50 sticky top-0 z-10">
-                  <DialogTitle className="text-2xl text-[#2B2F32]">{isEditing ? "Edit Case" : isAddingPayment ? "Add Payment" : "Case Details"}</DialogTitle>
-                  <DialogDescription>Bill No: {selectedCase.billNumber} • Case No: {selectedCase.caseNumber}</DialogDescription>
+                  <DialogTitle className="text-2xl text-[#2B2F32] flex items-center gap-3">
+                    {isEditing ? "Edit Case" : isAddingPayment ? (editingPaymentIndex !== null ? "Correct Payment" : "Add Payment") : "Case Details"}
+                    <BillStatusBadge status={selectedCase.status} className="text-sm" />
+                    {isOverdue(selectedCase) && <Badge variant="outline" className="text-sm border-transparent bg-red-100 text-red-800">Overdue</Badge>}
+                  </DialogTitle>
+                  <DialogDescription>{selectedCase.billNumber ? `Bill No: ${selectedCase.billNumber}` : 'Draft, numbered when issued'} • Case No: {selectedCase.caseNumber}</DialogDescription>
                 </DialogHeader>
 
                 <div className="px-6 py-4 space-y-6">
                   {isEditing && editFormData ? (
                     /* --- EDITING VIEW --- */
                     <div className="space-y-6">
-                      {/* Case Info Inputs */}
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                        <Input name="billNumber" value={editFormData.billNumber} onChange={handleFormChange} placeholder="Bill Number" />
-                        <Input name="caseNumber" value={editFormData.caseNumber} onChange={handleFormChange} placeholder="Case Number" />
-                        <Input type="date" name="date" value={formatDateForInput(editFormData.date)} onChange={handleFormChange} />
-                      </div>
-                      <Input name="caseDescription" value={editFormData.caseDescription} onChange={handleFormChange} placeholder="Case Description" />
+                      {isStaleEdit && (
+                        <EditConflictAlert
+                          label={selectedCase.billNumber ? `Bill ${selectedCase.billNumber}` : 'This draft'}
+                          onMerge={handleMergeEdits}
+                          onReload={handleEdit}
+                        />
+                      )}
+                      {isLocked(editFormData.status) ? (
+                        <>
+                          <Alert>
+                            <Lock className="h-4 w-4" />
+                            <AlertTitle>This bill has been issued</AlertTitle>
+                            <AlertDescription>Its particulars, amounts, client and date are fixed. Only the matter it is filed under can be changed; to correct anything else, raise a credit note or revise the bill.</AlertDescription>
+                          </Alert>
+                          <MatterPicker value={editFormData.matterId} onChange={handleMatterChange} />
+                        </>
+                      ) : (
+                        <>
+                          {/* Case Info Inputs */}
+                          <Input type="date" name="date" value={formatDateForInput(editFormData.date)} onChange={handleFormChange} />
+                          <MatterPicker value={editFormData.matterId} onChange={handleMatterChange} />
+                          <ClientPicker value={editFormData.clientId} onChange={(clientId) => setEditFormData(prev => prev ? { ...prev, clientId } : null)} />
+                          <GstOptions
+                            value={editFormData.gst}
+                            onChange={(gst) => setEditFormData(prev => prev ? { ...prev, gst } : null)}
+                            client={clients.find(c => c.id === editFormData.clientId)}
+                          />
 
-                      {/* Particulars Editing */}
-                      <div>
-                        <h3 className="text-lg font-semibold text-[#2B2F32] mb-3">Particulars</h3>
-                        <div className="space-y-4">
-                          {editFormData.particulars.map((p, index) => (
-                            <div key={index} className="bg-gray-50 p-4 rounded-lg border space-y-4">
-                              <div className="flex justify-between items-center"><p className="font-semibold text-gray-700">Item #{index + 1}</p><Button variant="ghost" size="icon" onClick={() => handleRemoveParticular(index)} className="text-red-500 hover:bg-red-100"><Trash2 className="h-5 w-5" /></Button></div>
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                <Popover open={openParticularPopoverIndex === index} onOpenChange={(isOpen) => setOpenParticularPopoverIndex(isOpen ? index : null)}>
-                                  <PopoverTrigger asChild><Button variant="outline" role="combobox" className="w-full justify-between">{p.type || "Select type..."}<ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" /></Button></PopoverTrigger>
-                                  <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[250px] p-0"><Command><CommandInput placeholder="Search type..." /><CommandEmpty>No type found.</CommandEmpty><CommandList><CommandGroup>{PARTICULAR_TYPES.map(type => (<CommandItem key={type} value={type} onSelect={() => handleParticularTypeSelect(index, type)}>{type}</CommandItem>))}</CommandGroup></CommandList></Command></PopoverContent>
-                                </Popover>
-                                <div className="relative">
-                                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                                  <Input name="amount" type="number" value={p.amount} onChange={(e) => handleParticularChange(index, 'amount', e.target.value)} placeholder="Amount" className="pl-9 w-full" />
+                          {/* Particulars Editing */}
+                          <div>
+                            <h3 className="text-lg font-semibold text-[#2B2F32] mb-3">Particulars</h3>
+                            <div className="space-y-4">
+                              {editFormData.particulars.map((p, index) => (
+                                <div key={index} className="bg-gray-50 p-4 rounded-lg border space-y-4">
+                                  <div className="flex justify-between items-center"><p className="font-semibold text-gray-700">Item #{index + 1}</p><Button variant="ghost" size="icon" onClick={() => handleRemoveParticular(index)} className="text-red-500 hover:bg-red-100"><Trash2 className="h-5 w-5" /></Button></div>
+                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <Popover open={openParticularPopoverIndex === index} onOpenChange={(isOpen) => setOpenParticularPopoverIndex(isOpen ? index : null)}>
+                                      <PopoverTrigger asChild><Button variant="outline" role="combobox" className="w-full justify-between">{p.type || "Select type..."}<ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" /></Button></PopoverTrigger>
+                                      <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[250px] p-0"><Command><CommandInput placeholder="Search type..." /><CommandEmpty>No type found.</CommandEmpty><CommandList><CommandGroup>{particularTypeOptions(settings.rateCard).map(type => (<CommandItem key={type} value={type} onSelect={() => handleParticularTypeSelect(index, type)}>{type}</CommandItem>))}</CommandGroup></CommandList></Command></PopoverContent>
+                                    </Popover>
+                                    <div className="relative">
+                                      <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                                      <Input name="amount" type="number" value={p.amount} onChange={(e) => handleParticularChange(index, 'amount', e.target.value)} placeholder="Amount" className="pl-9 w-full" />
+                                    </div>
+                                  </div>
+                                  {p.type === OTHER_PARTICULAR_TYPE && <Input name="customType" value={p.customType || ''} onChange={(e) => handleParticularChange(index, 'customType', e.target.value)} placeholder="Enter custom type" />}
+                                  {isAppearanceType(p.type, settings.rateCard) && <Input type="date" name="appearanceDate" value={formatDateForInput(p.appearanceDate || '')} onChange={(e) => handleParticularChange(index, 'appearanceDate', e.target.value)} />}
                                 </div>
-                              </div>
-                              {p.type === 'Other' && <Input name="customType" value={p.customType || ''} onChange={(e) => handleParticularChange(index, 'customType', e.target.value)} placeholder="Enter custom type" />}
-                              {(p.type.toLowerCase().includes('appearance') || p.type.toLowerCase().includes('hearing')) && <Input type="date" name="appearanceDate" value={formatDateForInput(p.appearanceDate || '')} onChange={(e) => handleParticularChange(index, 'appearanceDate', e.target.value)} />}
+                              ))}
+                              <Button variant="outline" onClick={handleAddParticular}><Plus className="mr-2 h-4 w-4" /> Add Particular</Button>
                             </div>
-                          ))}
-                          <Button variant="outline" onClick={handleAddParticular}><Plus className="mr-2 h-4 w-4" /> Add Particular</Button>
-                        </div>
-                      </div>
-                      {/* Live Total */}
-                      <div className="flex justify-between items-center p-4 bg-[#CAA068]/20 text-[#2B2F32] rounded-lg mt-4 border border-[#CAA068]">
-                        <span className="text-xl font-bold">New Total</span>
-                        <span className="text-2xl font-bold">{formatCurrency(liveTotalAmount)}</span>
-                      </div>
+                          </div>
+                          {/* Live Total */}
+                          {liveTax && <TaxLines taxableAmount={liveTotalAmount} tax={liveTax} />}
+                          <div className="flex justify-between items-center p-4 bg-[#CAA068]/20 text-[#2B2F32] rounded-lg mt-4 border border-[#CAA068]">
+                            <span className="text-xl font-bold">New Total</span>
+                            <span className="text-2xl font-bold">{formatCurrency(calculateInvoiceTotal(liveTotalAmount, liveTax))}</span>
+                          </div>
+                        </>
+                      )}
                     </div>
                   ) : isAddingPayment ? (
                     /* --- ADD PAYMENT VIEW --- */
                     <div className="space-y-6">
+                      {editingPaymentIndex !== null && (
+                        <div>
+                          <Label htmlFor="paymentReason" className="text-[#2B2F32]">Reason for Correction</Label>
+                          <Textarea id="paymentReason" value={paymentReason} onChange={(e) => setPaymentReason(e.target.value)} placeholder="e.g. Amount keyed in as 50,000 instead of 5,000" className="mt-1" />
+                        </div>
+                      )}
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
-                          <Label htmlFor="paymentAmount" className="text-[#2B2F32]">Payment Amount</Label>
+                          <Label htmlFor="paymentAmount" className="text-[#2B2F32]">Gross Amount</Label>
                           <div className="relative mt-1">
                             <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
                             <Input
@@ -481,7 +913,7 @@ export function BillList() {
                               type="number"
                               value={newPaymentAmount}
                               onChange={(e) => setNewPaymentAmount(e.target.value)}
-                              placeholder="Enter amount"
+                              placeholder="Amount settled, including TDS"
                               className="pl-9 w-full"
                             />
                           </div>
@@ -501,9 +933,9 @@ export function BillList() {
                       <div>
                         <Label className="text-[#2B2F32]">Payment Method</Label>
                         <RadioGroup
-                          onValueChange={(value: 'Cash' | 'Online') => setNewPaymentMethod(value)}
+                          onValueChange={(value: PaymentMethod) => setNewPaymentMethod(value)}
                           value={newPaymentMethod}
-                          className="flex space-x-4 mt-2"
+                          className="flex flex-wrap gap-x-4 gap-y-2 mt-2"
                         >
                           {PAYMENT_METHODS.map(method => (
                             <div key={method} className="flex items-center space-x-2">
@@ -514,6 +946,38 @@ export function BillList() {
                         </RadioGroup>
                       </div>
 
+                      <PaymentDetailsFields method={newPaymentMethod} value={newPaymentDetails} onChange={setNewPaymentDetails} />
+
+                      {/* TDS */}
+                      <div className="space-y-4">
+                        <div className="flex items-center gap-2">
+                          <Checkbox id="hasTds" checked={hasTds} onCheckedChange={(checked) => setHasTds(checked === true)} />
+                          <Label htmlFor="hasTds" className="text-[#2B2F32]">Client deducted TDS</Label>
+                        </div>
+                        {hasTds && (
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                              <Label htmlFor="tdsAmount" className="text-[#2B2F32]">TDS Amount</Label>
+                              <Input id="tdsAmount" type="number" value={newTdsAmount} onChange={(e) => setNewTdsAmount(e.target.value)} placeholder="e.g. 10% under 194J" className="mt-1" />
+                            </div>
+                            <div>
+                              <Label className="text-[#2B2F32]">Section</Label>
+                              <Select value={newTdsSection} onValueChange={(value) => setNewTdsSection(value as TdsSection)}>
+                                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                                <SelectContent>{TDS_SECTIONS.map(section => <SelectItem key={section} value={section}>{section}</SelectItem>)}</SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label htmlFor="tdsCertificate" className="text-[#2B2F32]">Form 16A Reference</Label>
+                              <Input id="tdsCertificate" value={newTdsCertificate} onChange={(e) => setNewTdsCertificate(e.target.value)} placeholder="Can be added later" className="mt-1" />
+                            </div>
+                            <p className="text-sm text-gray-600 md:col-span-3">
+                              Net received: <span className="font-semibold">{formatCurrency(Number(newPaymentAmount || 0) - Number(newTdsAmount || 0))}</span>
+                            </p>
+                          </div>
+                        )}
+                      </div>
+
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
                         <div className="p-3 bg-blue-100 rounded-lg">
                           <p className="text-sm text-blue-800">Bill Total</p>
@@ -531,58 +995,211 @@ export function BillList() {
                     </div>
                   ) : (
                     /* --- READ-ONLY VIEW --- */
-                    <div className="space-y-6">
-                      <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                        <p className="font-semibold text-blue-800">{selectedCase.caseDescription}</p>
-                        <div className="flex items-center gap-4 mt-2 text-sm text-blue-600">
-                          <div className="flex items-center gap-1.5"><Calendar className="h-4 w-4" /><span>{formatDate(selectedCase.date)}</span></div>
-                        </div>
-                      </div>
-                      <div>
-                        <h3 className="text-lg font-semibold text-[#2B2F32] mb-3 flex items-center gap-2"><FileText className="h-5 w-5" />Particulars</h3>
-                        <div className="space-y-2">
-                          {selectedCase.particulars.length > 0 ? selectedCase.particulars.map((p, index) => (
-                            <div key={index} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
-                              <div>
-                                <p className="font-medium">{getParticularDisplayName(p)}</p>
-                                {p.appearanceDate && <p className="text-xs text-gray-500 mt-0.5">Appearance Date: {formatDate(p.appearanceDate)}</p>}
+                    <Tabs value={detailsTab} onValueChange={(value) => setDetailsTab(value as 'details' | 'history')}>
+                      {can('audit.view') && (
+                        <TabsList className="mb-4">
+                          <TabsTrigger value="details"><FileText className="h-4 w-4 mr-2" />Details</TabsTrigger>
+                          <TabsTrigger value="history"><History className="h-4 w-4 mr-2" />History</TabsTrigger>
+                        </TabsList>
+                      )}
+                      <TabsContent value="details" className="mt-0">
+                        <div className="space-y-6">
+                          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                            <p className="font-semibold text-blue-800">{selectedCase.caseDescription}</p>
+                            {selectedMatter?.court && <p className="text-sm text-blue-700 mt-1 flex items-center gap-1.5"><Gavel className="h-4 w-4" />{selectedMatter.court}</p>}
+                            {selectedCase.clientId && clientNames.has(selectedCase.clientId) && (
+                              <p className="text-sm text-blue-700 mt-1 flex items-center gap-1.5"><Building2 className="h-4 w-4" />{clientNames.get(selectedCase.clientId)}</p>
+                            )}
+                            <div className="flex items-center gap-4 mt-2 text-sm text-blue-600">
+                              <div className="flex items-center gap-1.5"><Calendar className="h-4 w-4" /><span>{formatDate(selectedCase.date)}</span></div>
+                              {isLocked(selectedCase.status) && (
+                                <div className={`flex items-center gap-1.5 ${isOverdue(selectedCase) ? 'text-red-700 font-medium' : ''}`}>
+                                  <Clock className="h-4 w-4" />
+                                  <span>Due {formatDate(getDueDate(selectedCase))}{isOverdue(selectedCase) && ` • ${getDaysOverdue(selectedCase)} days overdue`}</span>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                          {originalBill && (
+                            <Alert>
+                              <Link2 className="h-4 w-4" />
+                              <AlertTitle>Revision of bill {originalBill.billNumber}</AlertTitle>
+                              <AlertDescription className="flex items-center justify-between gap-2">
+                                <span>The original stays as issued, cleared by a credit note.</span>
+                                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedCaseId(originalBill.id)}>View original</Button>
+                              </AlertDescription>
+                            </Alert>
+                          )}
+                          {revisedBill && (
+                            <Alert>
+                              <Link2 className="h-4 w-4" />
+                              <AlertTitle>Revised by {revisedBill.billNumber ? `bill ${revisedBill.billNumber}` : 'a draft'}</AlertTitle>
+                              <AlertDescription className="flex items-center justify-between gap-2">
+                                <span>This bill has been replaced and is no longer owed.</span>
+                                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedCaseId(revisedBill.id)}>View revision</Button>
+                              </AlertDescription>
+                            </Alert>
+                          )}
+                          {selectedCase.cancellation && (
+                            <Alert variant="destructive">
+                              <Ban className="h-4 w-4" />
+                              <AlertTitle>Cancelled on {formatDate(selectedCase.cancellation.date)}</AlertTitle>
+                              <AlertDescription>{selectedCase.cancellation.reason}</AlertDescription>
+                            </Alert>
+                          )}
+                          {selectedCase.writeOff && (
+                            <Alert>
+                              <FileX className="h-4 w-4" />
+                              <AlertTitle>{formatCurrency(selectedCase.writeOff.amount)} written off on {formatDate(selectedCase.writeOff.date)}</AlertTitle>
+                              <AlertDescription>{selectedCase.writeOff.reason}</AlertDescription>
+                            </Alert>
+                          )}
+                          <div>
+                            <h3 className="text-lg font-semibold text-[#2B2F32] mb-3 flex items-center gap-2"><FileText className="h-5 w-5" />Particulars</h3>
+                            <div className="space-y-2">
+                              {selectedCase.particulars.length > 0 ? selectedCase.particulars.map((p, index) => (
+                                <div key={index} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
+                                  <div>
+                                    <p className="font-medium">{getParticularDisplayName(p)}</p>
+                                    {p.appearanceDate && <p className="text-xs text-gray-500 mt-0.5">Appearance Date: {formatDate(p.appearanceDate)}</p>}
+                                    {p.hours && <p className="text-xs text-gray-500 mt-0.5">{p.hours} hours @ {formatCurrency(p.rate ?? 0)}/hour</p>}
+                                    {selectedCase.tax && p.sacCode && <p className="text-xs text-gray-500 mt-0.5">SAC: {p.sacCode}</p>}
+                                  </div>
+                                  <span className="font-semibold">{formatCurrency(p.amount)}</span>
+                                </div>
+                              )) : <p className="text-sm text-gray-500">No particulars found for this case.</p>}
+                            </div>
+                          </div>
+                          {/* GST Section */}
+                          {selectedCase.tax && (
+                            <div className="p-4 bg-gray-50 rounded-lg border space-y-3">
+                              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                                <p><span className="text-gray-500">Our GSTIN:</span> <span className="font-mono">{selectedCase.tax.supplierGstin}</span></p>
+                                <p><span className="text-gray-500">Client GSTIN:</span> <span className="font-mono">{selectedCase.tax.recipientGstin || 'Unregistered'}</span></p>
+                                <p><span className="text-gray-500">Place of Supply:</span> {selectedCase.tax.placeOfSupply} - {getStateName(selectedCase.tax.placeOfSupply)}</p>
                               </div>
-                              <span className="font-semibold">{formatCurrency(p.amount as number)}</span>
+                              <TaxLines taxableAmount={getTaxableAmount(selectedCase)} tax={selectedCase.tax} />
                             </div>
-                          )) : <p className="text-sm text-gray-500">No particulars found for this case.</p>}
-                        </div>
-                      </div>
-                      {/* Payments Section */}
-                      <div>
-                        <h3 className="text-lg font-semibold text-[#2B2F32] mb-3 flex items-center gap-2"><Wallet className="h-5 w-5" />Payments Received</h3>
-                        <div className="space-y-2">
-                          {selectedCase.payments && selectedCase.payments.length > 0 ? selectedCase.payments.map((p, index) => (
-                            <div key={index} className="flex justify-between items-center p-3 bg-purple-50 rounded-md">
-                              <div>
-                                <p className="font-medium">Paid by {p.method}</p>
-                                <p className="text-xs text-gray-500 mt-0.5">On {formatDate(p.date)}</p>
+                          )}
+                          {/* Payments Section */}
+                          <div>
+                            <h3 className="text-lg font-semibold text-[#2B2F32] mb-3 flex items-center gap-2"><Wallet className="h-5 w-5" />Payments Received</h3>
+                            <div className="space-y-2">
+                              {selectedCase.payments && selectedCase.payments.length > 0 ? selectedCase.payments.map((p, index) => (
+                                <div key={index} className={`flex justify-between items-center gap-4 p-3 rounded-md ${p.voided ? 'bg-gray-50 text-gray-500' : isBounced(p) ? 'bg-red-50' : 'bg-purple-50'}`}>
+                                  <div>
+                                    <p className="font-medium flex items-center gap-2 flex-wrap">
+                                      Paid by {p.method}
+                                      {p.clearance?.status === 'pending' && <Badge variant="outline" className="text-xs text-orange-700 border-orange-300">Awaiting clearance</Badge>}
+                                      {p.clearance?.status === 'cleared' && <Badge variant="outline" className="text-xs text-green-700 border-green-300">Cleared{p.clearance.date && ` ${formatDate(p.clearance.date)}`}</Badge>}
+                                      {isBounced(p) && <Badge variant="destructive" className="text-xs">Bounced{p.clearance?.date && ` ${formatDate(p.clearance.date)}`}</Badge>}
+                                      {p.voided && <Badge variant="outline" className="text-xs">Voided {formatDate(p.voided.date)}</Badge>}
+                                    </p>
+                                    <p className="text-xs text-gray-500 mt-0.5">
+                                      On {formatDate(p.date)}
+                                      {formatPaymentDetails(p) && ` • ${formatPaymentDetails(p)}`}
+                                      {p.moneyReceiptNumber && ` • Receipt ${p.moneyReceiptNumber}`}
+                                      {p.receiptId && ' • Part of a receipt spread over several bills'}
+                                    </p>
+                                    {isBounced(p) && p.clearance?.reason && <p className="text-xs text-red-700 mt-0.5">Returned: {p.clearance.reason}</p>}
+                                    {p.voided && <p className="text-xs text-gray-600 mt-0.5">Voided: {p.voided.reason}</p>}
+                                    {p.tds && (
+                                      <p className="text-xs text-gray-500 mt-0.5">
+                                        Received {formatCurrency(getNetReceived(p))} + TDS {formatCurrency(p.tds.amount)} u/s {p.tds.section}
+                                        {p.tds.certificateNumber ? ` • Form 16A: ${p.tds.certificateNumber}` : ' • Form 16A pending'}
+                                      </p>
+                                    )}
+                                  </div>
+                                  <div className="flex items-center gap-2 shrink-0">
+                                    {p.moneyReceiptNumber && (
+                                      <Button variant="ghost" size="icon" title="Money receipt" onClick={() => handleMoneyReceipt(p)} disabled={isUpdating}><ReceiptIcon className="h-4 w-4" /></Button>
+                                    )}
+                                    {can('payments.record') && countsAsPaid(p) && (
+                                      <>
+                                        {!p.receiptId && <Button variant="ghost" size="icon" title="Correct payment" onClick={() => handleEditPaymentClick(index)}><Pencil className="h-4 w-4" /></Button>}
+                                        <Button variant="ghost" size="icon" title="Void payment" onClick={() => { setVoidingPaymentIndex(index); setVoidReason(''); }}><XCircle className="h-4 w-4 text-red-700" /></Button>
+                                      </>
+                                    )}
+                                    {can('payments.record') && p.clearance?.status === 'pending' && !p.receiptId && !p.voided && (
+                                      <>
+                                        <Button variant="ghost" size="icon" title="Mark cleared" onClick={() => setClearanceAction({ paymentIndex: index, status: 'cleared' })}><CheckCircle2 className="h-4 w-4 text-green-700" /></Button>
+                                        <Button variant="ghost" size="icon" title="Record bounce" onClick={() => setClearanceAction({ paymentIndex: index, status: 'bounced' })}><Undo2 className="h-4 w-4 text-red-700" /></Button>
+                                      </>
+                                    )}
+                                    <span className={`font-semibold ${countsAsPaid(p) ? '' : 'line-through text-gray-400'}`}>{formatCurrency(p.amount)}</span>
+                                  </div>
+                                </div>
+                              )) : <p className="text-sm text-gray-500">No payments recorded for this case.</p>}
+                              {can('payments.record') && acceptsPayments(selectedCase.status) && !selectedCase.revisedBy && (
+                                <Button variant="outline" onClick={handleAddPaymentClick} className="mt-3"><Plus className="mr-2 h-4 w-4" /> Add Payment</Button>
+                              )}
+                            </div>
+                          </div>
+                          {/* Credit Notes Section */}
+                          {selectedCase.creditNotes.length > 0 && (
+                            <div>
+                              <h3 className="text-lg font-semibold text-[#2B2F32] mb-3 flex items-center gap-2"><FileMinus className="h-5 w-5" />Credit Notes</h3>
+                              <div className="space-y-2">
+                                {selectedCase.creditNotes.map(note => (
+                                  <div key={note.creditNoteNumber} className="flex justify-between items-center p-3 bg-orange-50 rounded-md">
+                                    <div>
+                                      <p className="font-medium">{note.creditNoteNumber}</p>
+                                      <p className="text-xs text-gray-500 mt-0.5">On {formatDate(note.date)} • {note.reason}</p>
+                                      {note.cgst + note.sgst + note.igst > 0 && (
+                                        <p className="text-xs text-gray-500 mt-0.5">
+                                          Taxable {formatCurrency(note.taxableAmount)} + GST reversed {formatCurrency(note.cgst + note.sgst + note.igst)}
+                                        </p>
+                                      )}
+                                    </div>
+                                    <span className="font-semibold">{formatCurrency(note.totalAmount)}</span>
+                                  </div>
+                                ))}
                               </div>
-                              <span className="font-semibold">{formatCurrency(p.amount)}</span>
                             </div>
-                          )) : <p className="text-sm text-gray-500">No payments recorded for this case.</p>}
-                          <Button variant="outline" onClick={handleAddPaymentClick} className="mt-3"><Plus className="mr-2 h-4 w-4" /> Add Payment</Button>
-                        </div>
-                      </div>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mt-4">
-                        <div className="p-4 bg-[#CAA068] text-white rounded-lg">
-                          <span className="text-sm font-bold">Total Bill</span>
-                          <span className="text-2xl font-bold block">{formatCurrency(selectedCase.totalAmount)}</span>
-                        </div>
-                        <div className="p-4 bg-green-600 text-white rounded-lg">
-                          <span className="text-sm font-bold">Total Paid</span>
-                          <span className="text-2xl font-bold block">{formatCurrency(selectedCase.paidAmount)}</span>
-                        </div>
-                        <div className="p-4 bg-red-600 text-white rounded-lg">
-                          <span className="text-sm font-bold">Remaining</span>
-                          <span className="text-2xl font-bold block">{formatCurrency(selectedCase.remainingAmount)}</span>
+                          )}
+                          {/* Reminders Section */}
+                          {selectedCase.reminders.length > 0 && (
+                            <div>
+                              <h3 className="text-lg font-semibold text-[#2B2F32] mb-3 flex items-center gap-2"><Mail className="h-5 w-5" />Reminders</h3>
+                              <div className="space-y-2">
+                                {selectedCase.reminders.map(reminder => (
+                                  <div key={reminder.sentAt} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
+                                    <div>
+                                      <p className="font-medium">{REMINDER_LEVEL_LABELS[reminder.level]}</p>
+                                      <p className="text-xs text-gray-500 mt-0.5">To {reminder.to.join(', ')}</p>
+                                    </div>
+                                    <span className="text-sm text-gray-500">{formatDate(reminder.sentAt)}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          <div className={`grid grid-cols-1 ${selectedCase.creditedAmount > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-4 text-center mt-4`}>
+                            <div className="p-4 bg-[#CAA068] text-white rounded-lg">
+                              <span className="text-sm font-bold">Total Bill</span>
+                              <span className="text-2xl font-bold block">{formatCurrency(selectedCase.totalAmount)}</span>
+                            </div>
+                            <div className="p-4 bg-green-600 text-white rounded-lg">
+                              <span className="text-sm font-bold">Total Paid</span>
+                              <span className="text-2xl font-bold block">{formatCurrency(selectedCase.paidAmount)}</span>
+                            </div>
+                            {selectedCase.creditedAmount > 0 && (
+                              <div className="p-4 bg-orange-500 text-white rounded-lg">
+                                <span className="text-sm font-bold">Credited</span>
+                                <span className="text-2xl font-bold block">{formatCurrency(selectedCase.creditedAmount)}</span>
+                              </div>
+                            )}
+                            <div className="p-4 bg-red-600 text-white rounded-lg">
+                              <span className="text-sm font-bold">Remaining</span>
+                              <span className="text-2xl font-bold block">{formatCurrency(selectedCase.remainingAmount)}</span>
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    </div>
+                      </TabsContent>
+                      <TabsContent value="history" className="mt-0">
+                        <BillHistory caseIds={revisionChain.map(c => c.id)} />
+                      </TabsContent>
+                    </Tabs>
                   )}
                 </div>
               </div>
@@ -592,7 +1209,7 @@ export function BillList() {
                 {isEditing ? (
                   <div className="w-full flex justify-between items-center">
                     <Button onClick={handleCancelEdit} variant="ghost">Cancel</Button>
-                    <Button onClick={handleUpdateCase} disabled={isUpdating}>
+                    <Button onClick={handleUpdateCase} disabled={isUpdating || isStaleEdit}>
                       {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                       Save Changes
                     </Button>
@@ -602,14 +1219,40 @@ export function BillList() {
                     <Button onClick={() => setIsAddingPayment(false)} variant="ghost">Cancel</Button>
                     <Button onClick={handleSavePayment} disabled={isUpdating}>
                       {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                      Record Payment
+                      {editingPaymentIndex !== null ? 'Save Correction' : 'Record Payment'}
                     </Button>
                   </div>
                 ) : (
-                  <div className="w-full flex justify-between items-center">
-                    <div>
-                      <Button onClick={handleEdit} variant="outline"><Edit className="h-4 w-4 mr-2" />Edit</Button>
-                      <Button onClick={handlePrint} variant="outline" className="ml-2"><Printer className="h-4 w-4 mr-2" />Print</Button>
+                  <div className="w-full flex justify-between items-center gap-2">
+                    <div className="flex flex-wrap gap-2">
+                      {can(isLocked(selectedCase.status) ? 'bills.editIssued' : 'bills.edit') && (
+                        <Button onClick={handleEdit} variant="outline"><Edit className="h-4 w-4 mr-2" />Edit</Button>
+                      )}
+                      {selectedCase.status === 'draft' && can('bills.edit') && (
+                        <Button onClick={handleIssue} disabled={isUpdating} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+                          {isUpdating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}Issue
+                        </Button>
+                      )}
+                      <Button onClick={() => handleInvoicePdf('print')} disabled={isRenderingPdf} variant="outline"><Printer className="h-4 w-4 mr-2" />Print</Button>
+                      <Button onClick={() => handleInvoicePdf('download')} disabled={isRenderingPdf} variant="outline"><Download className="h-4 w-4 mr-2" />PDF</Button>
+                      {canTransition(selectedCase.status, 'cancelled') && selectedCase.payments.length === 0 && can('bills.cancel') && (
+                        <Button onClick={() => setStatusAction('cancel')} variant="outline" className="text-red-600"><Ban className="h-4 w-4 mr-2" />Cancel Bill</Button>
+                      )}
+                      {acceptsPayments(selectedCase.status) && selectedCase.remainingAmount > 0 && !selectedCase.revisedBy && can('reminders.send') && (
+                        <Button onClick={() => setIsReminderOpen(true)} variant="outline"><Mail className="h-4 w-4 mr-2" />Remind</Button>
+                      )}
+                      {acceptsPayments(selectedCase.status) && selectedCase.remainingAmount > 0 && can('creditNotes.create') && (
+                        <Button onClick={() => setIsCreditNoteOpen(true)} variant="outline"><FileMinus className="h-4 w-4 mr-2" />Credit Note</Button>
+                      )}
+                      {selectedCase.status === 'issued' && !selectedCase.revisedBy && selectedCase.remainingAmount > 0 && can('bills.revise') && (
+                        <Button onClick={() => setStatusAction('revise')} variant="outline"><FilePen className="h-4 w-4 mr-2" />Revise</Button>
+                      )}
+                      {canTransition(selectedCase.status, 'writtenOff') && selectedCase.remainingAmount > 0 && can('bills.writeOff') && (
+                        <Button onClick={() => setStatusAction('writeOff')} variant="outline"><FileX className="h-4 w-4 mr-2" />Write Off</Button>
+                      )}
+                      {selectedCase.matterId && can('bills.create') && (
+                        <Button onClick={() => router.push(`/case-entry?matter=${selectedCase.matterId}`)} variant="outline"><Plus className="h-4 w-4 mr-2" />New Bill for Matter</Button>
+                      )}
                     </div>
                     <Button onClick={closeDialog}>Close</Button>
                   </div>
@@ -619,6 +1262,120 @@ export function BillList() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* --- CANCEL / WRITE-OFF DIALOG --- */}
+      <Dialog open={!!statusAction} onOpenChange={(isOpen) => !isOpen && setStatusAction(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{statusAction === 'cancel' ? 'Cancel Bill' : statusAction === 'revise' ? 'Revise Bill' : 'Write Off Balance'}</DialogTitle>
+            <DialogDescription>
+              {statusAction === 'cancel'
+                ? `Bill ${selectedCase?.billNumber || '(draft)'} will be kept, marked cancelled. Its number is not reused.`
+                : statusAction === 'revise'
+                  ? `Bill ${selectedCase?.billNumber} stays as issued and a credit note clears its ${formatCurrency(selectedCase?.remainingAmount ?? 0)} balance. A draft copy is opened for you to correct and issue.`
+                  : `The unpaid ${formatCurrency(selectedCase?.remainingAmount ?? 0)} on bill ${selectedCase?.billNumber} will be written off as a bad debt.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="statusReason">Reason</Label>
+            <Textarea id="statusReason" value={statusReason} onChange={(e) => setStatusReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setStatusAction(null)} variant="ghost">Back</Button>
+            <Button onClick={handleStatusAction} disabled={isUpdating} variant={statusAction === 'cancel' ? 'destructive' : 'default'}>
+              {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {statusAction === 'cancel' ? 'Cancel Bill' : statusAction === 'revise' ? 'Revise' : 'Write Off'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* --- CREDIT NOTE DIALOG --- */}
+      <Dialog open={isCreditNoteOpen} onOpenChange={setIsCreditNoteOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Raise Credit Note</DialogTitle>
+            <DialogDescription>
+              Against bill {selectedCase?.billNumber}, which has {formatCurrency(selectedCase?.remainingAmount ?? 0)} still owed. The bill itself is not changed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="creditNoteAmount">Taxable Amount</Label>
+                  {selectedCase && (
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-[#CAA068]" onClick={() => setCreditNoteAmount(String(getCreditableTaxable(selectedCase)))}>
+                      Whole balance
+                    </Button>
+                  )}
+                </div>
+                <Input id="creditNoteAmount" type="number" value={creditNoteAmount} onChange={(e) => setCreditNoteAmount(e.target.value)} placeholder="Before GST" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="creditNoteDate">Date</Label>
+                <Input id="creditNoteDate" type="date" value={creditNoteDate} onChange={(e) => setCreditNoteDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="creditNoteReason">Reason</Label>
+              <Textarea id="creditNoteReason" value={creditNoteReason} onChange={(e) => setCreditNoteReason(e.target.value)} placeholder="e.g. Appearance on 12 May billed twice" />
+            </div>
+            {creditNotePreview && (
+              <div className="p-4 bg-gray-50 rounded-lg border">
+                <TaxLines taxableAmount={creditNotePreview.taxableAmount} tax={selectedCase?.tax && { ...creditNotePreview, rate: selectedCase.tax.rate, reverseCharge: selectedCase.tax.reverseCharge }} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setIsCreditNoteOpen(false)} variant="ghost">Back</Button>
+            <Button onClick={handleSaveCreditNote} disabled={isUpdating}>
+              {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Raise Credit Note
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={voidingPaymentIndex !== null} onOpenChange={(isOpen) => !isOpen && setVoidingPaymentIndex(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Void Payment</DialogTitle>
+            <DialogDescription>
+              {voidingPayment && `The ${voidingPayment.method} payment of ${formatCurrency(voidingPayment.amount)} on ${formatDate(voidingPayment.date)} stays in the bill's history marked void and no longer counts as paid.`}
+              {voidingPayment?.receiptId && ' Its amount goes back to the receipt it came from, to be allocated again.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="voidReason">Reason</Label>
+            <Textarea id="voidReason" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} placeholder="e.g. Recorded against the wrong bill" />
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setVoidingPaymentIndex(null)} variant="ghost">Back</Button>
+            <Button onClick={handleVoidPayment} disabled={isUpdating} variant="destructive">
+              {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Void Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ClearanceDialog
+        status={clearanceAction?.status ?? null}
+        instrument={clearancePayment ? `${clearancePayment.method}${clearancePayment.instrumentNumber ? ` ${clearancePayment.instrumentNumber}` : ''} for ${formatCurrency(clearancePayment.amount)}` : ''}
+        onClose={() => setClearanceAction(null)}
+        onConfirm={handleClearance}
+      />
+
+      {selectedCase && (
+        <ReminderDialog
+          bill={selectedCase}
+          client={clients.find(c => c.id === selectedCase.clientId)}
+          matter={selectedMatter}
+          open={isReminderOpen}
+          onOpenChange={setIsReminderOpen}
+        />
+      )}
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, Ban, DatabaseZap, Hash, Loader2, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  useBillNumberRegister,
+  formatBillNumber,
+  billNumberKey,
+  cancelMissingNumber,
+  findDuplicateBillNumbers,
+  registerExistingBillNumbers,
+} from '@/lib/billNumbering';
+import {
+  useSettings,
+  saveBillNumberingSettings,
+  billNumberingSettingsSchema,
+  type BillNumberingSettings,
+} from '@/lib/settingsRepository';
+import { useCases } from '@/lib/casesRepository';
+import { getFinancialYear } from '@/lib/financialYear';
+
+export function BillNumberRegister() {
+  const { can } = useAuth();
+  const { register, loading } = useBillNumberRegister();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { cases } = useCases();
+  const [selectedYear, setSelectedYear] = useState<string>(getFinancialYear(new Date()));
+  const [gapToCancel, setGapToCancel] = useState<number | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const form = useForm<BillNumberingSettings>({
+    resolver: zodResolver(billNumberingSettingsSchema),
+    defaultValues: settings.billNumbering,
+  });
+
+  useEffect(() => {
+    if (!settingsLoading) form.reset(settings.billNumbering);
+  }, [settingsLoading, settings.billNumbering, form]);
+
+  const year = register.years.find(y => y.financialYear === selectedYear);
+  const yearOptions = Array.from(new Set([getFinancialYear(new Date()), ...register.years.map(y => y.financialYear)]))
+    .sort((a, b) => b.localeCompare(a));
+
+  // Drafts have no number until they are issued
+  const numberedCases = useMemo(() => cases.filter(c => c.billNumber), [cases]);
+  const duplicates = useMemo(() => findDuplicateBillNumbers(numberedCases), [numberedCases]);
+  const unregisteredCount = numberedCases.filter(c => register.index[billNumberKey(c.billNumber)] !== c.id).length;
+
+  const watchedFormat = form.watch('format');
+  const watchedCreditNoteFormat = form.watch('creditNoteFormat');
+  const watchedMoneyReceiptFormat = form.watch('moneyReceiptFormat');
+  const watchedDigits = form.watch('sequenceDigits');
+  const preview = formatBillNumber(
+    { format: watchedFormat || '', sequenceDigits: Number(watchedDigits) || 1 },
+    getFinancialYear(new Date()),
+    42,
+  );
+  const creditNotePreview = formatBillNumber(
+    { format: watchedCreditNoteFormat || '', sequenceDigits: Number(watchedDigits) || 1 },
+    getFinancialYear(new Date()),
+    7,
+  );
+  const moneyReceiptPreview = formatBillNumber(
+    { format: watchedMoneyReceiptFormat || '', sequenceDigits: Number(watchedDigits) || 1 },
+    getFinancialYear(new Date()),
+    15,
+  );
+
+  // --- HANDLERS ---
+  const onSaveSettings = async (data: BillNumberingSettings) => {
+    try {
+      await saveBillNumberingSettings(data);
+      toast.success('Bill numbering updated.');
+    } catch (error) {
+      console.error('Settings Error:', error);
+      toast.error('Failed to save bill numbering.');
+    }
+  };
+
+  const handleRegister = async () => {
+    setIsWorking(true);
+    try {
+      const report = await registerExistingBillNumbers();
+      toast.success(`Registered ${report.registered} bill number(s).`);
+      if (report.duplicates > 0) {
+        toast.error(`${report.duplicates} bill(s) share a number with an older bill and need renumbering.`);
+      }
+    } catch (error) {
+      console.error('Register Error:', error);
+      toast.error('Failed to register bill numbers.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancelGap = async () => {
+    if (gapToCancel === null || !cancelReason.trim()) {
+      toast.error('Please give a reason.');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      await cancelMissingNumber(selectedYear, gapToCancel, cancelReason.trim());
+      toast.success('Number marked as cancelled.');
+      setGapToCancel(null);
+      setCancelReason('');
+    } catch (error) {
+      console.error('Cancel Error:', error);
+      toast.error('Failed to cancel number.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (loading || settingsLoading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading bill numbers...</div>;
+  }
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Hash />Bill Numbering</CardTitle>
+          <CardDescription className="text-[#2B2F32]/60 mt-1">
+            New bills are numbered automatically. Use {'{FY}'} for the financial year and {'{SEQ}'} for the sequence, which restarts on 1 April.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={form.handleSubmit(onSaveSettings)} className="grid grid-cols-1 md:grid-cols-[2fr_2fr_2fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="numberFormat">Format</Label>
+              <Input id="numberFormat" {...form.register('format')} placeholder="ZA/{FY}/{SEQ}" />
+              {form.formState.errors.format && <p className="text-red-500 text-sm">{form.formState.errors.format.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="creditNoteFormat">Credit Note Format</Label>
+              <Input id="creditNoteFormat" {...form.register('creditNoteFormat')} placeholder="ZA/CN/{FY}/{SEQ}" />
+              {form.formState.errors.creditNoteFormat && <p className="text-red-500 text-sm">{form.formState.errors.creditNoteFormat.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="moneyReceiptFormat">Money Receipt Format</Label>
+              <Input id="moneyReceiptFormat" {...form.register('moneyReceiptFormat')} placeholder="ZA/MR/{FY}/{SEQ}" />
+              {form.formState.errors.moneyReceiptFormat && <p className="text-red-500 text-sm">{form.formState.errors.moneyReceiptFormat.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequenceDigits">Sequence Digits</Label>
+              <Input id="sequenceDigits" type="number" {...form.register('sequenceDigits', { valueAsNumber: true })} />
+              {form.formState.errors.sequenceDigits && <p className="text-red-500 text-sm">{form.formState.errors.sequenceDigits.message}</p>}
+            </div>
+            <Button type="submit" disabled={form.formState.isSubmitting || !can('settings.manage')} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {form.formState.isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}Save
+            </Button>
+            <p className="text-sm text-gray-500 md:col-span-5">
+              Example: <span className="font-mono">{preview}</span>, credit note <span className="font-mono">{creditNotePreview}</span>, money receipt <span className="font-mono">{moneyReceiptPreview}</span>
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+
+      {unregisteredCount > 0 && can('billNumbers.manage') && (
+        <Alert className="bg-white">
+          <DatabaseZap className="h-4 w-4" />
+          <AlertTitle>Bill numbers not yet registered</AlertTitle>
+          <AlertDescription className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <span>{unregisteredCount} bill(s) were numbered before numbers were tracked. Register them so duplicates are caught and automatic numbering continues after them.</span>
+            <Button onClick={handleRegister} disabled={isWorking} size="sm" className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Register Numbers
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {duplicates.length > 0 && (
+        <Alert variant="destructive" className="bg-white">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{duplicates.length} bill number(s) are used more than once</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1 text-sm">
+              {duplicates.map(group => (
+                <li key={group[0].id}>
+                  <span className="font-mono">{group[0].billNumber}</span>: {group.map(c => `${c.caseNumber} (${c.date})`).join(', ')}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32]">Number Register</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">Every number in the sequence should be issued, or cancelled with a reason.</CardDescription>
+            </div>
+            <Select value={selectedYear} onValueChange={setSelectedYear}>
+              <SelectTrigger className="w-full md:w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>{yearOptions.map(fy => <SelectItem key={fy} value={fy}>FY {fy}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">Last number: {year?.lastSequence || 0}</Badge>
+            <Badge className="bg-green-100 text-green-800 border-transparent" variant="outline">Issued: {year?.issued.length || 0}</Badge>
+            <Badge className="bg-gray-100 text-gray-800 border-transparent" variant="outline">Cancelled: {year?.cancelled.length || 0}</Badge>
+            <Badge className="bg-red-100 text-red-800 border-transparent" variant="outline">Gaps: {year?.gaps.length || 0}</Badge>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold text-lg text-[#2B2F32]">Gaps</h3>
+            {year && year.gaps.length > 0 ? year.gaps.map(sequence => (
+              <div key={sequence} className="p-3 bg-red-50 border border-red-200 rounded-lg flex justify-between items-center">
+                <span className="font-mono">{formatBillNumber(settings.billNumbering, selectedYear, sequence)}</span>
+                <Button variant="outline" size="sm" onClick={() => setGapToCancel(sequence)} disabled={!can('billNumbers.manage')}><Ban className="h-4 w-4 mr-2" />Mark Cancelled</Button>
+              </div>
+            )) : <p className="text-sm text-gray-500">No gaps in this financial year.</p>}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="font-semibold text-lg text-[#2B2F32]">Cancelled Numbers</h3>
+            {year && year.cancelled.length > 0 ? year.cancelled.map(entry => (
+              <div key={entry.sequence} className="p-3 bg-gray-50 border border-gray-200 rounded-lg flex flex-col md:flex-row md:justify-between md:items-center gap-1">
+                <span className="font-mono">{entry.billNumber}</span>
+                <span className="text-sm text-gray-600">{entry.reason || 'No reason given'}</span>
+                <span className="text-sm text-gray-500">{format(new Date(entry.updatedAt), 'dd MMM yyyy')}</span>
+              </div>
+            )) : <p className="text-sm text-gray-500">No cancelled numbers in this financial year.</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* --- CANCEL GAP DIALOG --- */}
+      <Dialog open={gapToCancel !== null} onOpenChange={(isOpen) => !isOpen && setGapToCancel(null)}>
+        <DialogContent className="max-w-lg p-0 flex flex-col">
+          <DialogHeader className="p-6 bg-gray-50">
+            <DialogTitle className="text-2xl text-[#2B2F32]">Cancel Number</DialogTitle>
+            <DialogDescription>
+              {gapToCancel !== null && <>Record why <span className="font-mono">{formatBillNumber(settings.billNumbering, selectedYear, gapToCancel)}</span> was never issued.</>}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="px-6 py-4 space-y-2">
+            <Label htmlFor="cancelReason">Reason *</Label>
+            <Input id="cancelReason" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} placeholder="e.g. Spoilt bill, not sent" />
+          </div>
+          <DialogFooter className="p-4 border-t flex-shrink-0 bg-white">
+            <div className="w-full flex justify-between items-center">
+              <Button type="button" onClick={() => setGapToCancel(null)} variant="ghost">Back</Button>
+              <Button onClick={handleCancelGap} disabled={isWorking}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Mark Cancelled
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
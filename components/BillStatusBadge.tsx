@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { BILL_STATUS_LABELS, type BillStatus } from '@/lib/billStatus';
+
+const STATUS_STYLES: Record<BillStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  issued: 'bg-blue-100 text-blue-800',
+  partiallyPaid: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  writtenOff: 'bg-purple-100 text-purple-800',
+};
+
+export function BillStatusBadge({ status, className }: { status: BillStatus; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn('text-xs border-transparent', STATUS_STYLES[status], className)}>
+      {BILL_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
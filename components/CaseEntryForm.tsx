@@ -1,7 +1,8 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
 import { useForm, useFieldArray, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -14,101 +15,260 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Badge } from '@/components/ui/badge';
+import { ClientPicker } from '@/components/ClientPicker';
+import { MatterPicker } from '@/components/MatterPicker';
+import { GstOptions } from '@/components/GstOptions';
+import { TaxLines } from '@/components/TaxLines';
 import {
   Plus,
   Trash2,
   CalendarIcon,
   Save,
   ArrowLeft,
-  Loader2
+  Loader2,
+  FileText,
+  ClipboardList
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { database } from '@/lib/firebase';
-import { ref, push, set } from 'firebase/database';
+import { createCase, useCases, calculateInvoiceTotal } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { createMatter, useMatters, type Matter } from '@/lib/mattersRepository';
+import {
+  DuplicateBillNumberError,
+  billNumberKey,
+  financialYearOfBillDate,
+  formatBillNumber,
+  useBillNumberRegister,
+} from '@/lib/billNumbering';
+import { useSettings } from '@/lib/settingsRepository';
+import { calculateGst, defaultPlaceOfSupply, defaultReverseCharge, stateCodeFromGstin } from '@/lib/gst';
+import { toISODate } from '@/lib/dates';
+import { useWorkLog, currentBillOf, toParticular } from '@/lib/workLogRepository';
+import { useTimeEntries, hourlyRateFor, toHourlyParticular } from '@/lib/timeEntriesRepository';
+import { OTHER_PARTICULAR_TYPE, isAppearanceType, particularTypeOptions, rateFor } from '@/lib/rateCard';
 import { toast } from 'sonner';
 
 // --- DEFINITIONS & SCHEMA ---
-const particularTypes = [
-  'Drafting Charges',
-  'Appearance',
-  'Xerox Charges',
-  'Conference',
-  'Conference at BEST office',
-  'Notary Charges',
-  'Written opinion',
-  'Arbitration Hearing',
-  'Miscellaneous Expenses',
-  'Filing',
-  'Drafting Section 17 Application',
-  'Notary Charges Affidavit in Reply',
-  'Settling Reply to Claims'
-].sort();
-
 const particularSchema = z.object({
   type: z.string().min(1, 'Particular type is required'),
+  customType: z.string().optional(), // Describes an "Other" particular
   amount: z.number().min(0.01, 'Amount must be greater than 0'),
   appearanceDate: z.date().optional().nullable(),
+  workItemId: z.string().optional(), // Set when drawn from the work log
+  // Set when drawn from time billed by the hour
+  timeEntryId: z.string().optional(),
+  hours: z.number().optional(),
+  rate: z.number().optional(),
 });
 
+// A bill is raised against an existing matter, or against a new one opened from this form.
+// Its number is assigned on save unless it is entered manually; drafts get one when issued.
 const caseSchema = z.object({
-  billNumber: z.string().min(1, 'Bill number is required'),
+  draft: z.boolean(),
+  autoNumber: z.boolean(),
+  billNumber: z.string(),
   date: z.date({ required_error: "A case date is required." }),
-  caseNumber: z.string().min(1, 'Case number is required'),
-  caseDescription: z.string().min(1, 'Case description is required'),
+  matterMode: z.enum(['existing', 'new']),
+  matterId: z.string().optional(),
+  caseNumber: z.string(),
+  caseDescription: z.string(),
+  court: z.string().optional(),
+  clientId: z.string().optional(),
+  gst: z.object({ placeOfSupply: z.string(), reverseCharge: z.boolean() }).nullable(),
   particulars: z.array(particularSchema).min(1, 'At least one particular is required'),
+}).superRefine((data, ctx) => {
+  if (!data.draft && !data.autoNumber && !data.billNumber.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['billNumber'], message: 'Bill number is required' });
+  }
+  if (data.matterMode === 'existing' && !data.matterId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['matterId'], message: 'Select a matter' });
+  }
+  if (data.matterMode === 'new' && !data.caseNumber) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['caseNumber'], message: 'Case number is required' });
+  }
+  if (data.matterMode === 'new' && !data.caseDescription) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['caseDescription'], message: 'Case description is required' });
+  }
 });
 
 type CaseFormData = z.infer<typeof caseSchema>;
 
 export function CaseEntryForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const { can } = useAuth();
+  const { matters } = useMatters();
+  const { cases, loading: casesLoading } = useCases();
+  const { workItems, loading: workLoading } = useWorkLog();
+  const { timeEntries, loading: timeLoading } = useTimeEntries();
+  const { clients, loading: clientsLoading } = useClients();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { register } = useBillNumberRegister();
   const [loading, setLoading] = useState(false);
 
   const form = useForm<CaseFormData>({
     resolver: zodResolver(caseSchema),
     defaultValues: {
+      draft: false,
+      autoNumber: true,
       billNumber: '',
       date: new Date(),
+      matterMode: 'existing',
+      matterId: undefined,
       caseNumber: '',
       caseDescription: '',
+      court: '',
+      clientId: undefined,
+      gst: null,
       particulars: [{ type: '', amount: 0, appearanceDate: null }],
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, replace } = useFieldArray({
     control: form.control,
     name: 'particulars',
   });
 
+  const matterMode = form.watch('matterMode');
+  const selectedMatterId = form.watch('matterId');
+  const selectedMatter = matters.find(m => m.id === selectedMatterId);
+  const autoNumber = form.watch('autoNumber');
+  const billDate = form.watch('date');
+
+  const selectedClientId = form.watch('clientId');
+  const selectedClient = clients.find(c => c.id === selectedClientId);
+  const supplierState = stateCodeFromGstin(settings.firm.gstin);
+  const gst = form.watch('gst');
+
+  // GST follows the client: their state is the place of supply, and a registered client means reverse charge.
+  // It is set only when the client changes, so later updates to the client list keep a choice made by hand.
+  useEffect(() => {
+    if (settingsLoading || clientsLoading) return;
+    const client = clients.find(c => c.id === selectedClientId);
+    form.setValue('gst', supplierState
+      ? { placeOfSupply: defaultPlaceOfSupply(supplierState, client), reverseCharge: defaultReverseCharge(client?.gstin) }
+      : null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settingsLoading, clientsLoading, supplierState, selectedClientId, form]);
+
+  // Preview only; the number is allocated in a transaction when the bill is saved
+  const nextBillNumber = (() => {
+    if (!billDate) return null;
+    const financialYear = financialYearOfBillDate(toISODate(billDate));
+    const year = register.years.find(y => y.financialYear === financialYear);
+    return formatBillNumber(settings.billNumbering, financialYear, (year?.lastSequence || 0) + 1);
+  })();
+
+  const handleMatterSelect = (matter: Matter) => {
+    form.setValue('matterId', matter.id, { shouldValidate: true });
+    form.setValue('caseNumber', matter.matterNumber);
+    form.setValue('caseDescription', matter.title);
+    form.setValue('clientId', matter.clientId);
+  };
+
+  // Preselect the matter when arriving from a matter's "New Bill" action
+  const matterParam = searchParams.get('matter');
+  useEffect(() => {
+    const matter = matters.find(m => m.id === matterParam);
+    if (matter && !form.getValues('matterId')) {
+      handleMatterSelect(matter);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [matterParam, matters]);
+
+  // "Generate Bill" on the work log brings the matter's unbilled work in as the particulars
+  const drawsUnbilledWork = searchParams.get('work') === 'unbilled';
+  const [workDrawn, setWorkDrawn] = useState(false);
+  useEffect(() => {
+    const matter = matters.find(m => m.id === matterParam);
+    if (!drawsUnbilledWork || !matter || workDrawn || workLoading || casesLoading || clientsLoading || settingsLoading) return;
+    const casesById = new Map(cases.map(c => [c.id, c]));
+    const client = clients.find(c => c.id === matter.clientId);
+    const unbilled = workItems.filter(item => item.matterId === matter.id && !currentBillOf(item, casesById));
+    if (unbilled.length > 0) {
+      replace(unbilled.map(item => {
+        const particular = toParticular(item, settings.rateCard);
+        return {
+          ...particular,
+          // Work recorded without a fee is charged at the rate card's
+          amount: particular.amount || (rateFor(item.type, settings.rateCard, client) ?? 0),
+          appearanceDate: particular.appearanceDate ? parseISO(particular.appearanceDate) : null,
+          workItemId: item.id,
+        };
+      }));
+    }
+    setWorkDrawn(true);
+  }, [drawsUnbilledWork, matterParam, matters, workDrawn, workLoading, casesLoading, clientsLoading, settingsLoading, cases, clients, workItems, settings.rateCard, replace]);
+
+  // "Bill Selected" on the time page brings the chosen time in, at hours × the rate for the matter's client
+  const timeParam = searchParams.get('time');
+  const [timeDrawn, setTimeDrawn] = useState(false);
+  useEffect(() => {
+    const matter = matters.find(m => m.id === matterParam);
+    if (!timeParam || !matter || timeDrawn || timeLoading || casesLoading || clientsLoading || settingsLoading) return;
+    const casesById = new Map(cases.map(c => [c.id, c]));
+    const client = clients.find(c => c.id === matter.clientId);
+    const ids = timeParam.split(',');
+    const entries = timeEntries.filter(e => ids.includes(e.id) && e.matterId === matter.id && !e.startedAt && !currentBillOf(e, casesById));
+    const particulars = entries.flatMap(entry => {
+      const feeEarner = settings.feeEarners.find(f => f.id === entry.feeEarnerId);
+      return feeEarner ? [{ ...toHourlyParticular(entry, hourlyRateFor(feeEarner, client)), timeEntryId: entry.id }] : [];
+    });
+    if (particulars.length > 0) replace(particulars);
+    setTimeDrawn(true);
+  }, [timeParam, matterParam, matters, timeDrawn, timeLoading, casesLoading, clientsLoading, settingsLoading, cases, clients, timeEntries, settings.feeEarners, replace]);
+
+  const drawnWorkCount = form.watch('particulars').filter(p => p.workItemId || p.timeEntryId).length;
+
   const onSubmit = async (data: CaseFormData) => {
+    if (!data.draft && !data.autoNumber && cases.some(c => billNumberKey(c.billNumber) === billNumberKey(data.billNumber))) {
+      form.setError('billNumber', { message: 'This bill number is already in use' });
+      return;
+    }
     setLoading(true);
     try {
-      const totalAmount = data.particulars.reduce((sum, p) => sum + (p.amount || 0), 0);
-
-      // Prepare the case data, converting Date objects to strings for Firebase
-      const caseData = {
-        ...data,
-        date: data.date.toISOString(), // Convert the main case Date object to a string
-        totalAmount,
-        createdAt: new Date().toISOString(),
-        particulars: data.particulars.map(p => ({
+      let matterId = data.matterId;
+      if (data.matterMode === 'new') {
+        matterId = await createMatter({
+          matterNumber: data.caseNumber,
+          title: data.caseDescription,
+          court: data.court,
+          clientId: data.clientId,
+        });
+        // If saving the bill fails, a retry reuses the matter instead of opening another
+        form.setValue('matterMode', 'existing');
+        form.setValue('matterId', matterId);
+      }
+
+      // Convert Date objects to strings for Firebase
+      const { billNumber } = await createCase({
+        billNumber: data.billNumber,
+        matterId,
+        caseNumber: data.caseNumber,
+        caseDescription: data.caseDescription,
+        clientId: data.clientId,
+        gst: data.gst,
+        date: toISODate(data.date),
+        particulars: data.particulars.map(({ workItemId, timeEntryId, ...p }) => ({
           ...p,
-          // Also ensure optional appearanceDate is a string or null
-          appearanceDate: p.appearanceDate ? p.appearanceDate.toISOString() : null,
+          appearanceDate: p.appearanceDate ? toISODate(p.appearanceDate) : null,
         })),
-      };
-
-      // Save to Firebase
-      const casesRef = ref(database, 'cases');
-      const newCaseRef = push(casesRef);
-      await set(newCaseRef, caseData);
+      }, {
+        autoNumber: data.autoNumber,
+        draft: data.draft,
+        workItemIds: data.particulars.flatMap(p => (p.workItemId ? [p.workItemId] : [])),
+        timeEntryIds: data.particulars.flatMap(p => (p.timeEntryId ? [p.timeEntryId] : [])),
+      });
 
-      toast.success('Case entry saved successfully!');
+      toast.success(data.draft ? 'Draft bill saved successfully!' : `Bill ${billNumber} saved successfully!`);
       router.push('/');
     } catch (error) {
-      console.error('Error saving case:', error);
-      toast.error('Failed to save case entry');
+      console.error('Error saving bill:', error);
+      if (error instanceof DuplicateBillNumberError) {
+        form.setError('billNumber', { message: 'This bill number is already in use' });
+      }
+      toast.error('Failed to save bill');
     } finally {
       setLoading(false);
     }
@@ -119,6 +279,11 @@ export function CaseEntryForm() {
     return particulars.reduce((sum, p) => sum + (p.amount || 0), 0);
   };
 
+  const taxableAmount = calculateTotal();
+  const previewTax = gst && supplierState
+    ? { ...calculateGst(taxableAmount, settings.gst.rate, supplierState, gst.placeOfSupply), rate: settings.gst.rate, reverseCharge: gst.reverseCharge }
+    : undefined;
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
@@ -131,21 +296,38 @@ export function CaseEntryForm() {
         <Button variant="ghost" onClick={() => router.back()} className="text-[#2B2F32] hover:bg-white/20">
           <ArrowLeft className="h-4 w-4 mr-2" />Back
         </Button>
-        <h1 className="text-3xl font-bold text-white">New Case Entry</h1>
+        <h1 className="text-3xl font-bold text-white">New Bill</h1>
       </div>
 
+      {!can('bills.create') ? (
+        <Card className="bg-white shadow-xl">
+          <CardContent className="p-8 text-center text-gray-600">Your role cannot raise bills. Ask a partner or associate to raise this one.</CardContent>
+        </Card>
+      ) : (
       <Card className="bg-white shadow-xl">
         <CardHeader className="bg-[#2B2F32] text-white">
-          <CardTitle className="text-2xl">Case Information</CardTitle>
-          <CardDescription className="text-[#B8A799]">Enter the details for the new case entry</CardDescription>
+          <CardTitle className="text-2xl">Bill Information</CardTitle>
+          <CardDescription className="text-[#B8A799]">Raise a bill against an existing matter, or open a new matter for it</CardDescription>
         </CardHeader>
         <CardContent className="p-6">
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Bill Number */}
                 <div className="space-y-2">
-                    <Label htmlFor="billNumber">Bill Number *</Label>
-                    <Input id="billNumber" {...form.register('billNumber')} placeholder="Enter bill number" />
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="billNumber">Bill Number *</Label>
+                        <Button type="button" variant="link" size="sm" className="h-auto p-0 text-[#CAA068]" onClick={() => form.setValue('autoNumber', !autoNumber)}>
+                            {autoNumber ? 'Enter manually' : 'Number automatically'}
+                        </Button>
+                    </div>
+                    {autoNumber ? (
+                        <div className="flex h-10 items-center rounded-md border bg-muted px-3 text-sm">
+                            <span className="font-mono">{nextBillNumber}</span>
+                            <span className="ml-2 text-muted-foreground">(assigned on save)</span>
+                        </div>
+                    ) : (
+                        <Input id="billNumber" {...form.register('billNumber')} placeholder="Enter bill number" />
+                    )}
                     {form.formState.errors.billNumber && <p className="text-red-500 text-sm">{form.formState.errors.billNumber.message}</p>}
                 </div>
                 {/* Case Date */}
@@ -162,17 +344,66 @@ export function CaseEntryForm() {
                     )} />
                     {form.formState.errors.date && <p className="text-red-500 text-sm">{form.formState.errors.date.message}</p>}
                 </div>
-                {/* Case Number */}
-                <div className="space-y-2">
-                    <Label htmlFor="caseNumber">Case Number *</Label>
-                    <Input id="caseNumber" {...form.register('caseNumber')} placeholder="Enter case number" />
-                    {form.formState.errors.caseNumber && <p className="text-red-500 text-sm">{form.formState.errors.caseNumber.message}</p>}
+                {/* Matter */}
+                <div className="space-y-3 md:col-span-2">
+                    <div className="flex items-center justify-between">
+                        <Label>Matter *</Label>
+                        <div className="flex gap-1 rounded-md bg-muted p-1">
+                            {(['existing', 'new'] as const).map(mode => (
+                                <Button key={mode} type="button" size="sm" variant={matterMode === mode ? 'default' : 'ghost'}
+                                    className={cn("h-7", matterMode === mode && "bg-[#CAA068] hover:bg-[#B8A799] text-white")}
+                                    onClick={() => form.setValue('matterMode', mode)}>
+                                    {mode === 'existing' ? 'Existing Matter' : 'New Matter'}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                    {matterMode === 'existing' ? (
+                        <>
+                            <MatterPicker value={selectedMatterId} onChange={handleMatterSelect} />
+                            {form.formState.errors.matterId && <p className="text-red-500 text-sm">{form.formState.errors.matterId.message}</p>}
+                            {selectedMatter && (
+                                <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                                    <p className="font-semibold">{selectedMatter.title}</p>
+                                    {selectedMatter.court && <p className="mt-0.5">{selectedMatter.court}</p>}
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="caseNumber">Case Number *</Label>
+                                <Input id="caseNumber" {...form.register('caseNumber')} placeholder="Enter case number" />
+                                {form.formState.errors.caseNumber && <p className="text-red-500 text-sm">{form.formState.errors.caseNumber.message}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="court">Court / Forum</Label>
+                                <Input id="court" {...form.register('court')} placeholder="e.g. Bombay High Court" />
+                            </div>
+                            <div className="space-y-2 md:col-span-2">
+                                <Label htmlFor="caseDescription">Case Description *</Label>
+                                <Textarea id="caseDescription" {...form.register('caseDescription')} placeholder="Enter case description" />
+                                {form.formState.errors.caseDescription && <p className="text-red-500 text-sm">{form.formState.errors.caseDescription.message}</p>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+                {/* Client */}
+                <div className="space-y-2 md:col-span-2">
+                    <div className="flex items-center justify-between">
+                        <Label>Client</Label>
+                        <Button type="button" variant="link" size="sm" className="h-auto p-0 text-[#CAA068]" onClick={() => router.push('/clients')}>Manage clients</Button>
+                    </div>
+                    <Controller name="clientId" control={form.control} render={({ field }) => (
+                        <ClientPicker value={field.value} onChange={field.onChange} />
+                    )} />
                 </div>
-                {/* Case Description */}
+                {/* GST */}
                 <div className="space-y-2 md:col-span-2">
-                    <Label htmlFor="caseDescription">Case Description *</Label>
-                    <Textarea id="caseDescription" {...form.register('caseDescription')} placeholder="Enter case description" />
-                    {form.formState.errors.caseDescription && <p className="text-red-500 text-sm">{form.formState.errors.caseDescription.message}</p>}
+                    <Label>GST</Label>
+                    <Controller name="gst" control={form.control} render={({ field }) => (
+                        <GstOptions value={field.value} onChange={field.onChange} client={selectedClient} />
+                    )} />
                 </div>
             </div>
 
@@ -184,6 +415,12 @@ export function CaseEntryForm() {
                   <Plus className="h-4 w-4 mr-2" />Add Particular
                 </Button>
               </div>
+              {drawnWorkCount > 0 && (
+                <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800 flex items-center gap-2">
+                  <ClipboardList className="h-4 w-4" />
+                  {drawnWorkCount} particular(s) from recorded work and time; they are marked billed when this bill is saved.
+                </div>
+              )}
               <div className="space-y-4">
                 {fields.map((field, index) => (
                   <Card key={field.id} className="p-4 space-y-4">
@@ -194,23 +431,36 @@ export function CaseEntryForm() {
                         <Controller name={`particulars.${index}.type`} control={form.control} render={({ field }) => (
                            <Select onValueChange={(value) => {
                                 field.onChange(value);
-                                if (value !== 'Appearance') {
+                                if (!isAppearanceType(value, settings.rateCard)) {
                                     form.setValue(`particulars.${index}.appearanceDate`, null);
                                 }
+                                if (value !== OTHER_PARTICULAR_TYPE) {
+                                    form.setValue(`particulars.${index}.customType`, undefined);
+                                }
+                                const rate = rateFor(value, settings.rateCard, selectedClient);
+                                if (rate !== undefined) {
+                                    form.setValue(`particulars.${index}.amount`, rate);
+                                }
                            }} value={field.value}>
                             <SelectTrigger><SelectValue placeholder="Select particular type" /></SelectTrigger>
-                            <SelectContent>{particularTypes.map((type) => (<SelectItem key={type} value={type}>{type}</SelectItem>))}</SelectContent>
+                            <SelectContent>{particularTypeOptions(settings.rateCard).map((type) => (<SelectItem key={type} value={type}>{type}</SelectItem>))}</SelectContent>
                           </Select>
                         )} />
+                        {form.watch(`particulars.${index}.type`) === OTHER_PARTICULAR_TYPE && (
+                          <Input {...form.register(`particulars.${index}.customType`)} placeholder="Describe the particular" />
+                        )}
                       </div>
                       {/* Amount */}
                       <div className="space-y-2">
                         <Label>Amount (₹)</Label>
                         <Input type="number" {...form.register(`particulars.${index}.amount`, { valueAsNumber: true })} placeholder="Enter amount" />
+                        {form.watch(`particulars.${index}.hours`) && (
+                          <p className="text-xs text-gray-500">{form.watch(`particulars.${index}.hours`)} hours × {formatCurrency(form.watch(`particulars.${index}.rate`) ?? 0)}/hour</p>
+                        )}
                       </div>
                     </div>
                     {/* Appearance Date (Conditional) */}
-                    {form.watch(`particulars.${index}.type`) === 'Appearance' && (
+                    {isAppearanceType(form.watch(`particulars.${index}.type`), settings.rateCard) && (
                         <div className="space-y-2">
                           <Label>Appearance Date</Label>
                           <Controller name={`particulars.${index}.appearanceDate`} control={form.control} render={({ field }) => (
@@ -236,20 +486,27 @@ export function CaseEntryForm() {
             </div>
 
             {/* Total Amount & Submit */}
-            <Card className="bg-[#CAA068]/10 border-[#CAA068]"><CardContent className="p-4 flex justify-between items-center">
-              <span className="text-xl font-bold">Total Amount:</span>
-              <Badge className="text-xl bg-[#CAA068] text-white">{formatCurrency(calculateTotal())}</Badge>
+            <Card className="bg-[#CAA068]/10 border-[#CAA068]"><CardContent className="p-4 space-y-4">
+              {previewTax && <TaxLines taxableAmount={taxableAmount} tax={previewTax} />}
+              <div className="flex justify-between items-center">
+                <span className="text-xl font-bold">Total Amount:</span>
+                <Badge className="text-xl bg-[#CAA068] text-white">{formatCurrency(calculateInvoiceTotal(taxableAmount, previewTax))}</Badge>
+              </div>
             </CardContent></Card>
             <div className="flex gap-4 pt-4">
               <Button type="button" variant="outline" onClick={() => router.back()} className="flex-1">Cancel</Button>
-              <Button type="submit" disabled={loading} className="flex-1 bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              <Button type="submit" variant="outline" disabled={loading} onClick={() => form.setValue('draft', true)} className="flex-1">
+                <FileText className="h-4 w-4 mr-2" />Save as Draft
+              </Button>
+              <Button type="submit" disabled={loading} onClick={() => form.setValue('draft', false)} className="flex-1 bg-[#CAA068] hover:bg-[#B8A799] text-white">
                 {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
-                {loading ? 'Saving...' : 'Save Case Entry'}
+                {loading ? 'Saving...' : 'Save Bill'}
               </Button>
             </div>
           </form>
         </CardContent>
       </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
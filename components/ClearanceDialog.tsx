@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { Clearance } from '@/lib/casesRepository';
+import { toISODate } from '@/lib/dates';
+
+interface ClearanceDialogProps {
+  /** What the bank did; the dialog is closed while this is null. */
+  status: 'cleared' | 'bounced' | null;
+  /** Names the cheque or draft, e.g. "Cheque 004512 for ₹50,000". */
+  instrument: string;
+  onClose: () => void;
+  /** Records the clearance and reports any error itself; resolves to whether it was recorded. */
+  onConfirm: (clearance: Clearance) => Promise<boolean>;
+}
+
+/** Records the date a cheque or draft cleared, or the date and reason it was returned. */
+export function ClearanceDialog({ status, instrument, onClose, onConfirm }: ClearanceDialogProps) {
+  const [date, setDate] = useState(toISODate(new Date()));
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!status) return;
+    setDate(toISODate(new Date()));
+    setReason('');
+  }, [status]);
+
+  const handleConfirm = async () => {
+    if (!status || !date) return;
+    if (status === 'bounced' && !reason.trim()) {
+      toast.error("Please give the bank's reason.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      if (await onConfirm({ status, date, reason: status === 'bounced' ? reason.trim() : undefined })) onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!status} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{status === 'bounced' ? 'Record Bounce' : 'Mark as Cleared'}</DialogTitle>
+          <DialogDescription>
+            {status === 'bounced'
+              ? `${instrument} was returned unpaid. The payment is reversed and the amount is owed again.`
+              : `${instrument} has been credited to the firm's account.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="clearanceDate">{status === 'bounced' ? 'Returned On' : 'Cleared On'}</Label>
+            <Input id="clearanceDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          {status === 'bounced' && (
+            <div className="space-y-2">
+              <Label htmlFor="clearanceReason">Reason</Label>
+              <Textarea id="clearanceReason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Funds insufficient" />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={onClose} variant="ghost">Back</Button>
+          <Button onClick={handleConfirm} disabled={isSaving} variant={status === 'bounced' ? 'destructive' : 'default'}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {status === 'bounced' ? 'Record Bounce' : 'Mark Cleared'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
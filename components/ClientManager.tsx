@@ -0,0 +1,387 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import {
+  Building2,
+  Edit,
+  Loader2,
+  Mail,
+  Phone,
+  Plus,
+  ScrollText,
+  Search,
+  Trash2,
+  UserRound,
+} from 'lucide-react';
+import {
+  useClients,
+  createClient,
+  updateClient,
+  deleteClient,
+  summarizeClients,
+  clientSchema,
+  type Client,
+  type ClientInput,
+} from '@/lib/clientsRepository';
+import { useCases } from '@/lib/casesRepository';
+import { GST_STATES, getStateName, stateCodeFromGstin } from '@/lib/gst';
+import { PAYMENT_TERMS_OPTIONS, formatPaymentTerms } from '@/lib/paymentTerms';
+import { useSettings } from '@/lib/settingsRepository';
+
+const EMPTY_CLIENT: ClientInput = {
+  name: '',
+  billingAddress: '',
+  gstin: '',
+  pan: '',
+  tan: '',
+  stateCode: '',
+  email: '',
+  phone: '',
+  paymentTermsDays: null,
+  contactPersons: [],
+  hourlyRates: {},
+  particularRates: {},
+};
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
+}).format(amount || 0);
+
+export function ClientManager() {
+  const { can } = useAuth();
+  const { clients, loading } = useClients();
+  const router = useRouter();
+  const { cases } = useCases();
+  const { settings } = useSettings();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
+
+  const form = useForm<ClientInput>({
+    resolver: zodResolver(clientSchema),
+    defaultValues: EMPTY_CLIENT,
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'contactPersons' });
+
+  const summaries = useMemo(() => summarizeClients(clients, cases), [clients, cases]);
+  const filteredSummaries = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    if (!term) return summaries;
+    return summaries.filter(({ client }) =>
+      client.name.toLowerCase().includes(term) ||
+      client.gstin.toLowerCase().includes(term) ||
+      client.email.toLowerCase().includes(term)
+    );
+  }, [summaries, searchTerm]);
+
+  // --- FORM HANDLERS ---
+  const openForm = (client: Client | null) => {
+    setEditingClient(client);
+    form.reset(client ? { ...EMPTY_CLIENT, ...client } : EMPTY_CLIENT);
+    setIsFormOpen(true);
+  };
+
+  const onSubmit = async (data: ClientInput) => {
+    try {
+      const gstin = data.gstin?.toUpperCase();
+      // A GSTIN fixes the client's state, so it wins over the picked one
+      const normalized = { ...data, gstin, pan: data.pan?.toUpperCase(), tan: data.tan?.toUpperCase(), stateCode: stateCodeFromGstin(gstin) || data.stateCode };
+      if (editingClient) {
+        await updateClient(editingClient.id, normalized);
+        toast.success('Client updated successfully!');
+      } else {
+        await createClient(normalized);
+        toast.success('Client added successfully!');
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error saving client:', error);
+      toast.error('Failed to save client');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!clientToDelete) return;
+    try {
+      await deleteClient(clientToDelete.id);
+      toast.success('Client deleted.');
+    } catch (error) {
+      console.error('Error deleting client:', error);
+      toast.error('Failed to delete client');
+    } finally {
+      setClientToDelete(null);
+    }
+  };
+
+  const linkedBillCount = (clientId: string) => cases.filter(c => c.clientId === clientId).length;
+
+  // --- RENDER LOGIC ---
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading clients...</div>;
+  }
+
+  const errors = form.formState.errors;
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Building2 />Clients</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">Parties we bill, with their tax and contact details.</CardDescription>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+              <div className="relative w-full md:w-72">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input placeholder="Search by name, GSTIN, email..." className="pl-10" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
+              </div>
+              {can('clients.manage') && <Button onClick={() => openForm(null)} className="bg-[#CAA068] hover:bg-[#B8A799] text-white"><Plus className="h-4 w-4 mr-2" />Add Client</Button>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {filteredSummaries.length > 0 ? filteredSummaries.map(({ client, cases: clientCases, totalBilled, totalPaid, outstanding }) => (
+              <div key={client.id} className="p-4 bg-gray-50 border border-gray-200 rounded-lg flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div className="flex-1 space-y-1.5">
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <p className="font-semibold text-base text-[#2B2F32]">{client.name}</p>
+                    {client.gstin && <Badge variant="outline" className="text-xs">GSTIN: {client.gstin}</Badge>}
+                    {client.pan && <Badge variant="secondary" className="text-xs">PAN: {client.pan}</Badge>}
+                    {client.stateCode && <Badge variant="secondary" className="text-xs">{getStateName(client.stateCode)}</Badge>}
+                    {client.paymentTermsDays !== null && <Badge variant="secondary" className="text-xs">{formatPaymentTerms(client.paymentTermsDays)}</Badge>}
+                    {Object.keys(client.particularRates).length > 0 && <Badge variant="secondary" className="text-xs">Negotiated rates</Badge>}
+                  </div>
+                  {client.billingAddress && <p className="text-sm text-gray-500 whitespace-pre-line">{client.billingAddress}</p>}
+                  <div className="flex flex-wrap gap-4 text-sm text-gray-500">
+                    {client.email && <span className="flex items-center gap-1.5"><Mail className="h-4 w-4" />{client.email}</span>}
+                    {client.phone && <span className="flex items-center gap-1.5"><Phone className="h-4 w-4" />{client.phone}</span>}
+                    {client.contactPersons.length > 0 && <span className="flex items-center gap-1.5"><UserRound className="h-4 w-4" />{client.contactPersons.map(p => p.name).join(', ')}</span>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-6">
+                  <div className="text-right text-sm">
+                    <div className="font-bold text-lg text-[#CAA068]">{formatCurrency(totalBilled)}</div>
+                    <div className="text-gray-500">{clientCases.length} bill(s)</div>
+                    {totalPaid > 0 && <div className="text-green-700 font-medium">Paid: {formatCurrency(totalPaid)}</div>}
+                    {outstanding > 0 && <div className="text-red-700 font-medium">Due: {formatCurrency(outstanding)}</div>}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => router.push(`/statements?client=${client.id}`)} title="Statement"><ScrollText className="h-4 w-4" /></Button>
+                    {can('clients.manage') && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => openForm(client)}><Edit className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="icon" onClick={() => setClientToDelete(client)} className="text-red-500 hover:bg-red-100"><Trash2 className="h-4 w-4" /></Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )) : (
+              <div className="text-center py-12 text-gray-500"><p>{clients.length === 0 ? 'No clients yet. Add your first client.' : 'No clients found for your search.'}</p></div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* --- ADD / EDIT CLIENT DIALOG --- */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-3xl p-0 flex flex-col max-h-[90vh]">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col min-h-0">
+            <DialogHeader className="p-6 bg-gray-50">
+              <DialogTitle className="text-2xl text-[#2B2F32]">{editingClient ? 'Edit Client' : 'New Client'}</DialogTitle>
+              <DialogDescription>Billing and tax details printed on bills for this client.</DialogDescription>
+            </DialogHeader>
+            <div className="overflow-y-auto px-6 py-4 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="clientName">Client Name *</Label>
+                  <Input id="clientName" {...form.register('name')} placeholder="e.g. BEST Undertaking" />
+                  {errors.name && <p className="text-red-500 text-sm">{errors.name.message}</p>}
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="billingAddress">Billing Address</Label>
+                  <Textarea id="billingAddress" {...form.register('billingAddress')} placeholder="Address printed on bills" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gstin">GSTIN</Label>
+                  <Input id="gstin" {...form.register('gstin', { setValueAs: (v: string) => v.toUpperCase() })} placeholder="27AAAAA0000A1Z5" />
+                  {errors.gstin && <p className="text-red-500 text-sm">{errors.gstin.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pan">PAN</Label>
+                  <Input id="pan" {...form.register('pan', { setValueAs: (v: string) => v.toUpperCase() })} placeholder="AAAAA0000A" />
+                  {errors.pan && <p className="text-red-500 text-sm">{errors.pan.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tan">TAN</Label>
+                  <Input id="tan" {...form.register('tan', { setValueAs: (v: string) => v.toUpperCase() })} placeholder="MUMA00000A" />
+                  {errors.tan && <p className="text-red-500 text-sm">{errors.tan.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label>State</Label>
+                  <Controller name="stateCode" control={form.control} render={({ field }) => (
+                    <Select value={field.value || undefined} onValueChange={field.onChange}>
+                      <SelectTrigger><SelectValue placeholder="Taken from the GSTIN if left blank" /></SelectTrigger>
+                      <SelectContent>{GST_STATES.map(s => <SelectItem key={s.code} value={s.code}>{s.code} - {s.name}</SelectItem>)}</SelectContent>
+                    </Select>
+                  )} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Payment Terms</Label>
+                  <Controller name="paymentTermsDays" control={form.control} render={({ field }) => (
+                    <Select value={field.value == null ? 'default' : String(field.value)} onValueChange={(value) => field.onChange(value === 'default' ? null : Number(value))}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Firm default ({formatPaymentTerms(settings.paymentTerms.days)})</SelectItem>
+                        {PAYMENT_TERMS_OPTIONS.map(days => <SelectItem key={days} value={String(days)}>{formatPaymentTerms(days)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  )} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="clientEmail">Email</Label>
+                  <Input id="clientEmail" type="email" {...form.register('email')} placeholder="accounts@example.com" />
+                  {errors.email && <p className="text-red-500 text-sm">{errors.email.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="clientPhone">Phone</Label>
+                  <Input id="clientPhone" {...form.register('phone')} placeholder="Phone number" />
+                </div>
+              </div>
+
+              {/* Negotiated Rates */}
+              <div className="space-y-3">
+                <div>
+                  <Label className="text-lg font-medium">Negotiated Rates</Label>
+                  <p className="text-sm text-gray-500">Leave blank to charge the rate card amount.</p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {settings.rateCard.filter(t => t.active).map(type => (
+                    <div key={type.id} className="space-y-2">
+                      <Label htmlFor={`particularRate-${type.id}`}>{type.name} (₹)</Label>
+                      <Input
+                        id={`particularRate-${type.id}`}
+                        type="number"
+                        step="0.01"
+                        {...form.register(`particularRates.${type.id}`, { setValueAs: (v: string | number | undefined) => (v === '' || v === undefined ? undefined : Number(v)) })}
+                        placeholder={type.defaultAmount > 0 ? `Rate card: ${type.defaultAmount}` : 'Entered on the bill'}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Hourly Rates */}
+              {settings.feeEarners.some(f => f.active) && (
+                <div className="space-y-3">
+                  <Label className="text-lg font-medium">Hourly Rates</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {settings.feeEarners.filter(f => f.active).map(feeEarner => (
+                      <div key={feeEarner.id} className="space-y-2">
+                        <Label htmlFor={`rate-${feeEarner.id}`}>{feeEarner.name} (₹/hour)</Label>
+                        <Input
+                          id={`rate-${feeEarner.id}`}
+                          type="number"
+                          step="0.01"
+                          {...form.register(`hourlyRates.${feeEarner.id}`, { setValueAs: (v: string | number | undefined) => (v === '' || v === undefined ? undefined : Number(v)) })}
+                          placeholder={`Standard rate: ${feeEarner.hourlyRate}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Contact Persons */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-lg font-medium">Contact Persons</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', designation: '', email: '', phone: '' })}><Plus className="h-4 w-4 mr-2" />Add Contact</Button>
+                </div>
+                {fields.map((field, index) => (
+                  <div key={field.id} className="bg-gray-50 p-4 rounded-lg border grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3">
+                    <Input {...form.register(`contactPersons.${index}.name`)} placeholder="Name *" />
+                    <Input {...form.register(`contactPersons.${index}.designation`)} placeholder="Designation" />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-red-500 hover:bg-red-100"><Trash2 className="h-5 w-5" /></Button>
+                    <Input {...form.register(`contactPersons.${index}.email`)} placeholder="Email" />
+                    <Input {...form.register(`contactPersons.${index}.phone`)} placeholder="Phone" />
+                    {errors.contactPersons?.[index] && (
+                      <p className="text-red-500 text-sm md:col-span-3">{errors.contactPersons[index]?.name?.message || errors.contactPersons[index]?.email?.message}</p>
+                    )}
+                  </div>
+                ))}
+                {fields.length === 0 && <p className="text-sm text-gray-500">No contact persons added.</p>}
+              </div>
+            </div>
+            <DialogFooter className="p-4 border-t flex-shrink-0 bg-white">
+              <div className="w-full flex justify-between items-center">
+                <Button type="button" onClick={() => setIsFormOpen(false)} variant="ghost">Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingClient ? 'Save Changes' : 'Add Client'}
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* --- DELETE CONFIRMATION --- */}
+      <AlertDialog open={!!clientToDelete} onOpenChange={(isOpen) => !isOpen && setClientToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {clientToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {clientToDelete && linkedBillCount(clientToDelete.id) > 0
+                ? `This client has ${linkedBillCount(clientToDelete.id)} bill(s). Reassign them before deleting the client.`
+                : 'This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={!!clientToDelete && linkedBillCount(clientToDelete.id) > 0}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useClients } from '@/lib/clientsRepository';
+
+interface ClientPickerProps {
+  value?: string;
+  onChange: (clientId: string | undefined) => void;
+}
+
+export function ClientPicker({ value, onChange }: ClientPickerProps) {
+  const { clients } = useClients();
+  const [open, setOpen] = useState(false);
+  const selectedClient = clients.find(c => c.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className={cn("w-full justify-between font-normal", !selectedClient && "text-muted-foreground")}>
+          {selectedClient ? selectedClient.name : "Select client..."}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[300px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search clients..." />
+          <CommandList>
+            <CommandEmpty>No client found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="__none" onSelect={() => { onChange(undefined); setOpen(false); }}>
+                <Check className={cn("mr-2 h-4 w-4", value ? "opacity-0" : "opacity-100")} />
+                No client
+              </CommandItem>
+              {clients.map(client => (
+                <CommandItem key={client.id} value={`${client.name} ${client.gstin}`} onSelect={() => { onChange(client.id); setOpen(false); }}>
+                  <Check className={cn("mr-2 h-4 w-4", value === client.id ? "opacity-100" : "opacity-0")} />
+                  {client.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
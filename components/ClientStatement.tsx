@@ -0,0 +1,250 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Download, FileSpreadsheet, Loader2, Mail, ScrollText } from 'lucide-react';
+import { ClientPicker } from '@/components/ClientPicker';
+import { StatementEmailDialog } from '@/components/StatementEmailDialog';
+import { useCases } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { useReceipts } from '@/lib/receiptsRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { buildClientStatement, STATEMENT_ENTRY_LABELS } from '@/lib/statement';
+import { getFinancialYear, getFinancialYearRange } from '@/lib/financialYear';
+import { toCsv } from '@/lib/csv';
+import { toISODate } from '@/lib/dates';
+import { downloadFile, toFileName } from '@/lib/download';
+import { formatAmount } from '@/lib/pdfText';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 2,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+/** Balances below zero are advances held for the client. */
+const formatBalance = (balance: number, format: (amount: number) => string) =>
+  balance < -0.005 ? `${format(-balance)} Cr` : format(Math.max(0, balance));
+
+export function ClientStatement() {
+  const searchParams = useSearchParams();
+  const { can } = useAuth();
+  const { cases, loading } = useCases();
+  const { clients } = useClients();
+  const { receipts } = useReceipts();
+  const { settings } = useSettings();
+  const [clientId, setClientId] = useState<string | undefined>(searchParams.get('client') ?? undefined);
+  const [from, setFrom] = useState(toISODate(getFinancialYearRange(getFinancialYear(new Date())).start));
+  const [to, setTo] = useState(toISODate(new Date()));
+  const [isExporting, setIsExporting] = useState(false);
+  const [isEmailOpen, setIsEmailOpen] = useState(false);
+
+  const client = clients.find(c => c.id === clientId);
+  const statement = useMemo(
+    () => (clientId ? buildClientStatement(cases, receipts, clientId, from, to) : null),
+    [cases, receipts, clientId, from, to]
+  );
+  const period = `${formatDate(from)} to ${formatDate(to)}`;
+  const fileName = `Statement_${toFileName(client?.name ?? 'Client')}_${from}_${to}`;
+
+  // --- EXPORTS ---
+  const handleCsv = () => {
+    if (!statement) return;
+    const rows: (string | number)[][] = [
+      ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'],
+      [from, '', '', 'Opening balance', '', '', statement.openingBalance.toFixed(2)],
+      ...statement.entries.map(entry => [
+        entry.date,
+        STATEMENT_ENTRY_LABELS[entry.kind],
+        entry.reference,
+        entry.description,
+        entry.debit ? entry.debit.toFixed(2) : '',
+        entry.credit ? entry.credit.toFixed(2) : '',
+        entry.balance.toFixed(2),
+      ]),
+      [to, '', '', 'Closing balance', statement.totalDebit.toFixed(2), statement.totalCredit.toFixed(2), statement.closingBalance.toFixed(2)],
+    ];
+    downloadFile(toCsv(rows), `${fileName}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const renderStatementPdf = async () => {
+    if (!statement || !client) throw new Error('Choose a client first');
+    // pdf-lib is only loaded when a report is actually rendered
+    const { renderReportPdf } = await import('@/lib/reportPdf');
+    return renderReportPdf({
+      title: `Statement of Account: ${client.name}`,
+      subtitle: period,
+      firm: settings.firm,
+      accentColor: settings.invoiceTemplate.accentColor,
+      columns: [
+        { header: 'Date', width: 0.11 },
+        { header: 'Type', width: 0.1 },
+        { header: 'Reference', width: 0.15 },
+        { header: 'Description', width: 0.25 },
+        { header: 'Debit', width: 0.12, align: 'right' },
+        { header: 'Credit', width: 0.12, align: 'right' },
+        { header: 'Balance', width: 0.15, align: 'right' },
+      ],
+      rows: [
+        { cells: [formatDate(from), '', '', 'Opening balance', '', '', formatBalance(statement.openingBalance, formatAmount)], muted: true },
+        ...statement.entries.map(entry => ({
+          cells: [
+            formatDate(entry.date),
+            STATEMENT_ENTRY_LABELS[entry.kind],
+            entry.reference,
+            entry.description,
+            entry.debit ? formatAmount(entry.debit) : '',
+            entry.credit ? formatAmount(entry.credit) : '',
+            formatBalance(entry.balance, formatAmount),
+          ],
+        })),
+        {
+          cells: [formatDate(to), '', '', 'Closing balance', formatAmount(statement.totalDebit), formatAmount(statement.totalCredit), formatBalance(statement.closingBalance, formatAmount)],
+          emphasis: true,
+        },
+      ],
+    });
+  };
+
+  const handlePdf = async () => {
+    setIsExporting(true);
+    try {
+      const bytes = await renderStatementPdf();
+      downloadFile(bytes, `${fileName}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error('Report Error:', error);
+      toast.error('Failed to generate the statement PDF.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading accounts...</div>;
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><ScrollText />Client Statement</CardTitle>
+            <CardDescription className="text-[#2B2F32]/60 mt-1">Bills, credit notes, payments, TDS and advances for a client, with the balance after each.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCsv} disabled={!statement}><FileSpreadsheet className="h-4 w-4 mr-2" />CSV</Button>
+            <Button variant="outline" onClick={handlePdf} disabled={isExporting || !statement}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}PDF
+            </Button>
+            {can('reminders.send') && (
+              <Button variant="outline" onClick={() => setIsEmailOpen(true)} disabled={!statement || !client}><Mail className="h-4 w-4 mr-2" />Email</Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <ClientPicker value={clientId} onChange={setClientId} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statementFrom">From</Label>
+            <Input id="statementFrom" type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statementTo">To</Label>
+            <Input id="statementTo" type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {statement && client ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-4 bg-gray-50 rounded-lg border">
+                <p className="text-sm text-gray-500">Opening balance</p>
+                <p className="text-xl font-bold text-[#2B2F32]">{formatBalance(statement.openingBalance, formatCurrency)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg border">
+                <p className="text-sm text-gray-500">Billed</p>
+                <p className="text-xl font-bold text-[#CAA068]">{formatCurrency(statement.totalDebit)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg border">
+                <p className="text-sm text-gray-500">Received & credited</p>
+                <p className="text-xl font-bold text-green-700">{formatCurrency(statement.totalCredit)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg border">
+                <p className="text-sm text-gray-500">Closing balance</p>
+                <p className="text-xl font-bold text-red-700">{formatBalance(statement.closingBalance, formatCurrency)}</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="font-medium py-2 pr-4">Date</th>
+                    <th className="font-medium py-2 pr-4">Type</th>
+                    <th className="font-medium py-2 pr-4">Reference</th>
+                    <th className="font-medium py-2 pr-4">Description</th>
+                    <th className="font-medium py-2 pr-4 text-right">Debit</th>
+                    <th className="font-medium py-2 pr-4 text-right">Credit</th>
+                    <th className="font-medium py-2 text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b text-gray-500">
+                    <td className="py-2 pr-4">{formatDate(from)}</td>
+                    <td className="py-2 pr-4" colSpan={5}>Opening balance</td>
+                    <td className="py-2 text-right">{formatBalance(statement.openingBalance, formatCurrency)}</td>
+                  </tr>
+                  {statement.entries.map((entry, index) => (
+                    <tr key={`${entry.billId}-${entry.kind}-${index}`} className="border-b">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(entry.date)}</td>
+                      <td className="py-2 pr-4"><Badge variant="outline" className="text-xs">{STATEMENT_ENTRY_LABELS[entry.kind]}</Badge></td>
+                      <td className="py-2 pr-4 font-mono">{entry.reference}</td>
+                      <td className="py-2 pr-4 text-gray-600">{entry.description}</td>
+                      <td className="py-2 pr-4 text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</td>
+                      <td className="py-2 pr-4 text-right text-green-700">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                      <td className="py-2 text-right font-medium">{formatBalance(entry.balance, formatCurrency)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-bold text-[#2B2F32]">
+                    <td className="py-2 pr-4">{formatDate(to)}</td>
+                    <td className="py-2 pr-4" colSpan={3}>Closing balance</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(statement.totalDebit)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(statement.totalCredit)}</td>
+                    <td className="py-2 text-right">{formatBalance(statement.closingBalance, formatCurrency)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {statement.entries.length === 0 && <p className="text-center py-6 text-gray-500">Nothing was posted to this account in the period.</p>}
+            </div>
+          </>
+        ) : (
+          <div className="text-center py-12 text-gray-500"><p>Choose a client to see their statement.</p></div>
+        )}
+      </CardContent>
+      {statement && client && (
+        <StatementEmailDialog
+          client={client}
+          period={period}
+          closingBalance={statement.closingBalance}
+          fileName={fileName}
+          renderPdf={renderStatementPdf}
+          open={isEmailOpen}
+          onOpenChange={setIsEmailOpen}
+        />
+      )}
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Plus,
   FileText,
@@ -13,153 +15,84 @@ import {
   DollarSign,
   TrendingUp,
   Clock,
-  Wallet // New icon for payments
+  Wallet, // New icon for payments
+  Building2,
+  Briefcase,
+  Hash,
+  Receipt,
+  History,
+  Hourglass,
+  AlertTriangle,
+  CalendarClock,
+  ScrollText,
+  HandCoins,
+  CalendarDays,
+  Gavel,
+  ClipboardList,
+  Timer
 } from 'lucide-react';
-import { database } from '@/lib/firebase';
-import { ref, onValue } from 'firebase/database';
+import { useCases, countsAsPaid } from '@/lib/casesRepository';
+import { useMatters } from '@/lib/mattersRepository';
+import { useHearings } from '@/lib/hearingsRepository';
+import { buildCalendar, eventsOn } from '@/lib/calendar';
+import { CalendarEventCard } from '@/components/HearingCalendar';
+import { DataMigrationNotice } from '@/components/DataMigrationNotice';
+import { parseDate, toISODate } from '@/lib/dates';
+import { BILL_STATUSES, BILL_STATUS_LABELS, countsAsBilled, type BillStatus } from '@/lib/billStatus';
+import { BillStatusBadge } from '@/components/BillStatusBadge';
+import { getBillsFallingDue, getDueDate, isOverdue } from '@/lib/paymentTerms';
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, BarChart, Bar } from 'recharts';
 
-// --- INTERFACES ---
-interface Payment {
-  amount: number;
-  method: 'Cash' | 'Online' | '';
-  date: string;
-}
-
-interface CaseData {
-  id: string;
-  billNumber: string;
-  caseNumber: string;
-  caseDescription: string;
-  date: string;
-  totalAmount: number;
-  particulars: any[];
-  payments: Payment[]; // Added for payments
-  paidAmount: number; // Added for total paid
-  remainingAmount: number; // Added for remaining amount
-}
-
 export function Dashboard() {
   const router = useRouter();
-  const [cases, setCases] = useState<CaseData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({
-    totalCases: 0,
-    totalAmount: 0,
-    thisMonthCases: 0,
-    thisMonthAmount: 0,
-    totalPaymentsReceived: 0, // New stat
-    thisMonthPaymentsReceived: 0, // New stat
-  });
-
-  // Helper function to safely parse dates that might be in non-standard formats.
-  const parseDate = (dateString: string): Date | null => {
-    if (!dateString) return null;
-
-    // First, try parsing directly, which works for ISO formats (YYYY-MM-DD)
-    let date = new Date(dateString);
-    if (!isNaN(date.getTime())) {
-      return date;
-    }
-
-    // If it fails, try parsing formats like DD/MM/YYYY or DD-MM-YYYY
-    const parts = dateString.split(/[-/]/);
-    if (parts.length === 3) {
-      const [day, month, year] = parts;
-      // Note: The month argument in new Date() is 0-indexed (0-11)
-      date = new Date(Number(year), Number(month) - 1, Number(day));
-      if (!isNaN(date.getTime())) {
-        return date;
-      }
-    }
-    
-    // Return null if parsing fails, to avoid crashes
-    return null;
-  };
-
-  useEffect(() => {
-    const casesRef = ref(database, 'cases');
-    const unsubscribe = onValue(casesRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const casesArray = Object.entries(data).map(([id, caseData]: [string, any]) => {
-          const payments = caseData.payments || [];
-          const paidAmount = payments.reduce((sum: number, p: Payment) => sum + p.amount, 0);
-          const totalAmount = caseData.totalAmount || 0; // Ensure totalAmount exists
-          return {
-            id,
-            ...caseData,
-            particulars: caseData.particulars || [],
-            payments: payments,
-            paidAmount: paidAmount,
-            remainingAmount: totalAmount - paidAmount,
-          };
-        });
-        
-        // Sort cases by date descending to show the most recent ones first
-        const sortedCases = casesArray.sort((a, b) => {
-            const dateA = parseDate(a.date)?.getTime() || 0;
-            const dateB = parseDate(b.date)?.getTime() || 0;
-            return dateB - dateA;
-        });
-
-        setCases(sortedCases);
-        calculateStats(sortedCases);
-      } else {
-        setCases([]);
-        setStats({
-          totalCases: 0,
-          totalAmount: 0,
-          thisMonthCases: 0,
-          thisMonthAmount: 0,
-          totalPaymentsReceived: 0,
-          thisMonthPaymentsReceived: 0,
-        });
-      }
-      setLoading(false);
-    });
+  const { can } = useAuth();
+  const { cases, loading } = useCases();
+  const billedCases = useMemo(() => cases.filter(c => countsAsBilled(c.status)), [cases]);
+  const [statusFilter, setStatusFilter] = useState<BillStatus | 'all'>('all');
+  const recentCases = cases.filter(c => statusFilter === 'all' || c.status === statusFilter).slice(0, 5);
+  const overdueCases = useMemo(() => cases.filter(c => isOverdue(c)), [cases]);
+  const fallingDueThisWeek = useMemo(() => getBillsFallingDue(cases, 7), [cases]);
+  const { matters } = useMatters();
+  const { hearings } = useHearings();
+  const today = toISODate(new Date());
+  const todaysBoard = useMemo(() => eventsOn(buildCalendar(cases, hearings, matters), today), [cases, hearings, matters, today]);
 
-    return () => unsubscribe();
-  }, []);
-
-  const calculateStats = (casesData: CaseData[]) => {
+  const stats = useMemo(() => {
     const currentMonth = new Date().getMonth();
     const currentYear = new Date().getFullYear();
     
     let totalPaymentsReceived = 0;
     let thisMonthPaymentsReceived = 0;
 
-    const thisMonthCases = casesData.filter(caseItem => {
+    const thisMonthCases = billedCases.filter(caseItem => {
       const caseDate = parseDate(caseItem.date); // Use the safe parser
       return caseDate && caseDate.getMonth() === currentMonth && caseDate.getFullYear() === currentYear;
     });
 
-    casesData.forEach(caseItem => {
-      if (caseItem.payments) {
-        caseItem.payments.forEach(payment => {
-          totalPaymentsReceived += payment.amount;
-          const paymentDate = parseDate(payment.date);
-          if (paymentDate && paymentDate.getMonth() === currentMonth && paymentDate.getFullYear() === currentYear) {
-            thisMonthPaymentsReceived += payment.amount;
-          }
-        });
-      }
+    cases.forEach(caseItem => {
+      caseItem.payments.filter(countsAsPaid).forEach(payment => {
+        totalPaymentsReceived += payment.amount;
+        const paymentDate = parseDate(payment.date);
+        if (paymentDate && paymentDate.getMonth() === currentMonth && paymentDate.getFullYear() === currentYear) {
+          thisMonthPaymentsReceived += payment.amount;
+        }
+      });
     });
 
-    setStats({
-      totalCases: casesData.length,
-      totalAmount: casesData.reduce((sum, caseItem) => sum + (caseItem.totalAmount || 0), 0),
+    return {
+      totalCases: billedCases.length,
+      totalAmount: billedCases.reduce((sum, caseItem) => sum + caseItem.totalAmount - caseItem.creditedAmount, 0),
       thisMonthCases: thisMonthCases.length,
-      thisMonthAmount: thisMonthCases.reduce((sum, caseItem) => sum + (caseItem.totalAmount || 0), 0),
+      thisMonthAmount: thisMonthCases.reduce((sum, caseItem) => sum + caseItem.totalAmount - caseItem.creditedAmount, 0),
       totalPaymentsReceived: totalPaymentsReceived,
       thisMonthPaymentsReceived: thisMonthPaymentsReceived,
-    });
-  };
+    };
+  }, [cases, billedCases]);
 
   const getChartData = () => {
     const monthlyData: { [key: string]: { month: string, amount: number, cases: number } } = {};
     
-    cases.forEach(caseItem => {
+    billedCases.forEach(caseItem => {
       const date = parseDate(caseItem.date); // Use the safe parser
       if (!date) return; // Skip if the date is invalid
 
@@ -170,7 +103,7 @@ export function Dashboard() {
         monthlyData[monthKey] = { month: monthName, amount: 0, cases: 0 };
       }
       
-      monthlyData[monthKey].amount += caseItem.totalAmount || 0;
+      monthlyData[monthKey].amount += caseItem.totalAmount - caseItem.creditedAmount;
       monthlyData[monthKey].cases += 1;
     });
 
@@ -194,15 +127,19 @@ export function Dashboard() {
 
   return (
     <div className="space-y-6">
+      <DataMigrationNotice />
+
       {/* Quick Actions */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"> {/* Adjusted grid-cols */}
-        <Button
-          onClick={() => router.push('/case-entry')}
-          className="h-20 bg-[#CAA068] hover:bg-[#B8A799] text-white flex flex-col items-center justify-center space-y-2"
-        >
-          <Plus className="h-6 w-6" />
-          <span className="font-medium">Add Case Entry</span>
-        </Button>
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4"> {/* Adjusted grid-cols */}
+        {can('bills.create') && (
+          <Button
+            onClick={() => router.push('/case-entry')}
+            className="h-20 bg-[#CAA068] hover:bg-[#B8A799] text-white flex flex-col items-center justify-center space-y-2"
+          >
+            <Plus className="h-6 w-6" />
+            <span className="font-medium">New Bill</span>
+          </Button>
+        )}
         
         {/* Removed "Search Cases" button */}
         
@@ -223,6 +160,107 @@ export function Dashboard() {
           <FileText className="h-6 w-6" />
           <span className="font-medium">All Cases</span>
         </Button>
+
+        <Button
+          onClick={() => router.push('/matters')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <Briefcase className="h-6 w-6" />
+          <span className="font-medium">Matters</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/calendar')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <CalendarDays className="h-6 w-6" />
+          <span className="font-medium">Hearing Calendar</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/work-log')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <ClipboardList className="h-6 w-6" />
+          <span className="font-medium">Work Log</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/time')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <Timer className="h-6 w-6" />
+          <span className="font-medium">Time</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/clients')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <Building2 className="h-6 w-6" />
+          <span className="font-medium">Clients</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/bill-numbers')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <Hash className="h-6 w-6" />
+          <span className="font-medium">Bill Numbers</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/tds')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <Receipt className="h-6 w-6" />
+          <span className="font-medium">TDS Receivable</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/ageing')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <Hourglass className="h-6 w-6" />
+          <span className="font-medium">Receivables Ageing</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/statements')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <ScrollText className="h-6 w-6" />
+          <span className="font-medium">Client Statements</span>
+        </Button>
+
+        <Button
+          onClick={() => router.push('/receipts')}
+          variant="outline"
+          className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+        >
+          <HandCoins className="h-6 w-6" />
+          <span className="font-medium">Receipts</span>
+        </Button>
+
+        {can('audit.view') && (
+          <Button
+            onClick={() => router.push('/audit')}
+            variant="outline"
+            className="h-20 border-[#CAA068] text-[#2B2F32] hover:bg-[#CAA068] hover:text-white flex flex-col items-center justify-center space-y-2"
+          >
+            <History className="h-6 w-6" />
+            <span className="font-medium">Audit Log</span>
+          </Button>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -276,6 +314,74 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {/* Today's Board */}
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-[#2B2F32] flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Today&apos;s Board
+          </CardTitle>
+          <CardDescription>Matters listed or appeared in today</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {todaysBoard.length === 0 ? (
+            <div className="text-center py-4 text-[#2B2F32]/60">Nothing on the board today</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {todaysBoard.map(event => (
+                <CalendarEventCard key={event.key} event={event} today={today} onOpen={() => router.push('/calendar')} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Overdue & Falling Due */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-white border-l-4 border-l-red-600">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-[#2B2F32]/60">Overdue</p>
+                <p className="text-3xl font-bold text-red-700">{formatCurrency(overdueCases.reduce((sum, c) => sum + c.remainingAmount, 0))}</p>
+                <p className="text-sm text-[#2B2F32]/60 mt-1">{overdueCases.length} bill(s) past their due date</p>
+              </div>
+              <AlertTriangle className="h-8 w-8 text-red-600" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-[#2B2F32] flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Falling Due This Week
+            </CardTitle>
+            <CardDescription>Unpaid bills due in the next 7 days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {fallingDueThisWeek.length === 0 ? (
+              <div className="text-center py-4 text-[#2B2F32]/60">Nothing falls due this week</div>
+            ) : (
+              <div className="space-y-2">
+                {fallingDueThisWeek.map(caseItem => (
+                  <div key={caseItem.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                    <div>
+                      <Badge variant="outline" className="text-xs mr-2">Bill No: {caseItem.billNumber}</Badge>
+                      <span className="font-medium text-[#2B2F32]">{caseItem.caseDescription}</span>
+                    </div>
+                    <div className="text-right shrink-0 ml-4">
+                      <p className="font-medium text-red-700">{formatCurrency(caseItem.remainingAmount)}</p>
+                      <p className="text-[#2B2F32]/60">Due {parseDate(getDueDate(caseItem))?.toLocaleDateString('en-GB')}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card className="bg-white">
@@ -323,29 +429,41 @@ export function Dashboard() {
 
       {/* Recent Cases */}
       <Card className="bg-white">
-        <CardHeader>
-          <CardTitle className="text-[#2B2F32] flex items-center gap-2">
-            <Clock className="h-5 w-5" />
-            Recent Cases
-          </CardTitle>
-          <CardDescription>Latest case entries</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="text-[#2B2F32] flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Recent Cases
+            </CardTitle>
+            <CardDescription>Latest case entries</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BillStatus | 'all')}>
+            <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {BILL_STATUSES.map(status => <SelectItem key={status} value={status}>{BILL_STATUS_LABELS[status]}</SelectItem>)}
+            </SelectContent>
+          </Select>
         </CardHeader>
         <CardContent>
           {loading ? (
             <div className="text-center py-8 text-[#2B2F32]/60">Loading...</div>
-          ) : cases.length === 0 ? (
+          ) : recentCases.length === 0 ? (
             <div className="text-center py-8 text-[#2B2F32]/60">No cases found</div>
           ) : (
             <div className="space-y-4">
-              {cases.slice(0, 5).map((caseItem) => {
+              {recentCases.map((caseItem) => {
                 const displayDate = parseDate(caseItem.date);
                 return (
                   <div key={caseItem.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
-                        <Badge variant="outline" className="text-xs">
-                          Bill No: {caseItem.billNumber}
-                        </Badge>
+                        {caseItem.billNumber && (
+                          <Badge variant="outline" className="text-xs">
+                            Bill No: {caseItem.billNumber}
+                          </Badge>
+                        )}
+                        <BillStatusBadge status={caseItem.status} />
                         <Badge variant="secondary" className="text-xs">
                           Case No: {caseItem.caseNumber}
                         </Badge>
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { AlertTriangle, Briefcase, DatabaseZap, Loader2 } from 'lucide-react';
+import { useCases, runCaseMigrations } from '@/lib/casesRepository';
+import { linkCasesToMatters } from '@/lib/mattersRepository';
+
+export function DataMigrationNotice() {
+  const { can } = useAuth();
+  const { cases, invalidRecords, pendingMigrationIds, loading } = useCases();
+  const [isMigrating, setIsMigrating] = useState(false);
+  // Both repairs rewrite issued bills, so they are offered only to roles that may edit them
+  const canRepair = can('bills.editIssued');
+  const pendingCount = canRepair ? pendingMigrationIds.length : 0;
+  const unlinkedCount = canRepair ? cases.filter(c => !c.matterId).length : 0;
+
+  const handleMigrate = async () => {
+    setIsMigrating(true);
+    try {
+      const report = await runCaseMigrations();
+      toast.success(`Migrated ${report.migrated.length} case record(s).`);
+      if (report.failed.length > 0) {
+        toast.error(`${report.failed.length} record(s) could not be repaired.`);
+      }
+    } catch (error) {
+      console.error('Migration Error:', error);
+      toast.error('Failed to migrate case records.');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const handleLinkMatters = async () => {
+    setIsMigrating(true);
+    try {
+      const report = await linkCasesToMatters();
+      toast.success(`Linked ${report.billsLinked} bill(s) to matters, creating ${report.mattersCreated} matter(s).`);
+    } catch (error) {
+      console.error('Matter Link Error:', error);
+      toast.error('Failed to link bills to matters.');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  if (loading || (invalidRecords.length === 0 && pendingCount === 0 && unlinkedCount === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {pendingCount > 0 && (
+        <Alert className="bg-white">
+          <DatabaseZap className="h-4 w-4" />
+          <AlertTitle>Case records need updating</AlertTitle>
+          <AlertDescription className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <span>{pendingCount} record(s) are stored in an older format. They are shown correctly, but should be rewritten in the current format.</span>
+            <Button onClick={handleMigrate} disabled={isMigrating} size="sm" className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {isMigrating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Migrate Records
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      {unlinkedCount > 0 && (
+        <Alert className="bg-white">
+          <Briefcase className="h-4 w-4" />
+          <AlertTitle>Bills without a matter</AlertTitle>
+          <AlertDescription className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <span>{unlinkedCount} bill(s) were created before matters existed. Bills with the same case number will be grouped under one matter.</span>
+            <Button onClick={handleLinkMatters} disabled={isMigrating} size="sm" className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {isMigrating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Matters
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      {invalidRecords.length > 0 && (
+        <Alert variant="destructive" className="bg-white">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{invalidRecords.length} case record(s) could not be read</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1 text-sm">
+              {invalidRecords.map(record => (
+                <li key={record.id}><span className="font-mono">{record.id}</span>: {record.issues.join('; ')}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
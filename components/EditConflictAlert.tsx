@@ -0,0 +1,29 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+
+interface EditConflictAlertProps {
+  /** Names the record being edited, e.g. "Bill ZA/2024-25/012". */
+  label: string;
+  onMerge: () => void;
+  onReload: () => void;
+}
+
+/** Shown while editing a record that someone else has saved since the edit began. */
+export function EditConflictAlert({ label, onMerge, onReload }: EditConflictAlertProps) {
+  return (
+    <Alert variant="destructive">
+      <RefreshCw className="h-4 w-4" />
+      <AlertTitle>{label} was changed by someone else</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>Your edits cannot be saved over theirs. Merge in their changes, keeping yours wherever you both changed the same thing, or discard your edits and start again from the latest version.</p>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={onMerge}>Merge Their Changes</Button>
+          <Button type="button" size="sm" variant="ghost" onClick={onReload}>Discard Mine and Reload</Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
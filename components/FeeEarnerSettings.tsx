@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { Loader2, Plus, Save, Timer } from 'lucide-react';
+import { useSettings, saveFeeEarners, newSettingsId, feeEarnerSchema } from '@/lib/settingsRepository';
+
+const formSchema = z.object({
+  feeEarners: z.array(feeEarnerSchema),
+});
+
+type FeeEarnerFormData = z.input<typeof formSchema>;
+
+export function FeeEarnerSettings() {
+  const { can } = useAuth();
+  const { settings, loading } = useSettings();
+
+  const form = useForm<FeeEarnerFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { feeEarners: settings.feeEarners },
+  });
+  const { fields, append } = useFieldArray({ control: form.control, name: 'feeEarners', keyName: 'fieldId' });
+  const { errors } = form.formState;
+
+  useEffect(() => {
+    if (!loading) form.reset({ feeEarners: settings.feeEarners });
+  }, [loading, settings.feeEarners, form]);
+
+  const onSubmit = async (data: FeeEarnerFormData) => {
+    try {
+      await saveFeeEarners(data.feeEarners);
+      toast.success('Fee earners saved.');
+    } catch (error) {
+      console.error('Fee Earner Error:', error);
+      toast.error('Failed to save fee earners.');
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Timer />Fee Earners</CardTitle>
+        <CardDescription className="text-[#2B2F32]/60 mt-1">Standard hourly rates for time billed by the hour. Rates agreed with a client are set on the client.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-3">
+            {fields.map((field, index) => (
+              <div key={field.fieldId} className="bg-gray-50 p-4 rounded-lg border grid grid-cols-1 md:grid-cols-[1fr_200px_auto] gap-3 items-center">
+                <Input {...form.register(`feeEarners.${index}.name`)} placeholder="Name *" />
+                <Input type="number" step="0.01" {...form.register(`feeEarners.${index}.hourlyRate`, { valueAsNumber: true })} placeholder="Hourly rate (₹)" />
+                <Controller name={`feeEarners.${index}.active`} control={form.control} render={({ field: active }) => (
+                  <div className="flex items-center gap-2">
+                    <Checkbox id={`feeEarnerActive${index}`} checked={active.value} onCheckedChange={(checked) => active.onChange(checked === true)} />
+                    <Label htmlFor={`feeEarnerActive${index}`}>Active</Label>
+                  </div>
+                )} />
+                {errors.feeEarners?.[index] && (
+                  <p className="text-red-500 text-sm md:col-span-3">{errors.feeEarners[index]?.name?.message || errors.feeEarners[index]?.hourlyRate?.message}</p>
+                )}
+              </div>
+            ))}
+            {fields.length === 0 && <p className="text-sm text-gray-500">No fee earners yet. Add one to start recording time.</p>}
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <Button type="button" variant="outline" onClick={() => append({ id: newSettingsId(), name: '', hourlyRate: 0, active: true })}>
+              <Plus className="h-4 w-4 mr-2" />Add Fee Earner
+            </Button>
+            <Button type="submit" disabled={form.formState.isSubmitting || !can('settings.manage')} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {form.formState.isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}Save Fee Earners
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
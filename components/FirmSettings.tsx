@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Hash, Landmark, Loader2, Save } from 'lucide-react';
+import {
+  useSettings,
+  saveFirmSettings,
+  firmSettingsSchema,
+  gstSettingsSchema,
+  paymentTermsSettingsSchema,
+  bankDetailsSchema,
+} from '@/lib/settingsRepository';
+import { getStateName, stateCodeFromGstin } from '@/lib/gst';
+import { formatPaymentTerms } from '@/lib/paymentTerms';
+
+const formSchema = z.object({
+  firm: firmSettingsSchema,
+  gst: gstSettingsSchema,
+  paymentTerms: paymentTermsSettingsSchema,
+  bank: bankDetailsSchema,
+});
+
+type FirmFormData = z.input<typeof formSchema>;
+
+export function FirmSettings() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { settings, loading } = useSettings();
+
+  const form = useForm<FirmFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { firm: settings.firm, gst: settings.gst, paymentTerms: settings.paymentTerms, bank: settings.bank },
+  });
+  const { errors } = form.formState;
+
+  useEffect(() => {
+    if (!loading) form.reset({ firm: settings.firm, gst: settings.gst, paymentTerms: settings.paymentTerms, bank: settings.bank });
+  }, [loading, settings.firm, settings.gst, settings.paymentTerms, settings.bank, form]);
+
+  const firmState = stateCodeFromGstin(form.watch('firm.gstin'));
+
+  const onSubmit = async (data: FirmFormData) => {
+    try {
+      const { firm, gst, paymentTerms, bank } = formSchema.parse(data);
+      await saveFirmSettings({ ...firm, gstin: firm.gstin.toUpperCase(), pan: firm.pan.toUpperCase() }, gst, paymentTerms, bank);
+      toast.success('Firm settings saved.');
+    } catch (error) {
+      console.error('Settings Error:', error);
+      toast.error('Failed to save firm settings.');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading settings...</div>;
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Landmark />Firm Settings</CardTitle>
+            <CardDescription className="text-[#2B2F32]/60 mt-1">Details printed on every bill, and how GST is charged.</CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => router.push('/bill-numbers')}><Hash className="h-4 w-4 mr-2" />Bill Numbering</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="firmName">Firm Name *</Label>
+              <Input id="firmName" {...form.register('firm.name')} />
+              {errors.firm?.name && <p className="text-red-500 text-sm">{errors.firm.name.message}</p>}
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="firmAddress">Address</Label>
+              <Textarea id="firmAddress" {...form.register('firm.address')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="firmEmail">Email</Label>
+              <Input id="firmEmail" type="email" {...form.register('firm.email')} />
+              {errors.firm?.email && <p className="text-red-500 text-sm">{errors.firm.email.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="firmPhone">Phone</Label>
+              <Input id="firmPhone" {...form.register('firm.phone')} />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold text-lg text-[#2B2F32]">GST</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="firmGstin">GSTIN</Label>
+                <Input id="firmGstin" {...form.register('firm.gstin', { setValueAs: (v: string) => v.toUpperCase() })} placeholder="27AAAAA0000A1Z5" />
+                {errors.firm?.gstin && <p className="text-red-500 text-sm">{errors.firm.gstin.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="firmPan">PAN</Label>
+                <Input id="firmPan" {...form.register('firm.pan', { setValueAs: (v: string) => v.toUpperCase() })} placeholder="AAAAA0000A" />
+                {errors.firm?.pan && <p className="text-red-500 text-sm">{errors.firm.pan.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gstRate">GST Rate (%)</Label>
+                <Input id="gstRate" type="number" step="0.01" {...form.register('gst.rate', { valueAsNumber: true })} />
+                {errors.gst?.rate && <p className="text-red-500 text-sm">{errors.gst.rate.message}</p>}
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              {firmState
+                ? `Registered in ${getStateName(firmState)}. Clients in the same state are charged CGST and SGST; others are charged IGST.`
+                : 'Without a GSTIN, bills are raised without GST.'}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold text-lg text-[#2B2F32]">Payment Terms</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="paymentTermsDays">Days to Pay</Label>
+                <Input id="paymentTermsDays" type="number" min="0" {...form.register('paymentTerms.days', { valueAsNumber: true })} />
+                {errors.paymentTerms?.days && <p className="text-red-500 text-sm">{errors.paymentTerms.days.message}</p>}
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              {formatPaymentTerms(form.watch('paymentTerms.days') || 0)} for clients without terms of their own. The due date is fixed when a bill is issued.
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold text-lg text-[#2B2F32]">Bank Details</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="accountName">Account Name</Label>
+                <Input id="accountName" {...form.register('bank.accountName')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accountNumber">Account Number</Label>
+                <Input id="accountNumber" {...form.register('bank.accountNumber')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ifsc">IFSC</Label>
+                <Input id="ifsc" {...form.register('bank.ifsc', { setValueAs: (v: string) => v.toUpperCase() })} placeholder="HDFC0000123" />
+                {errors.bank?.ifsc && <p className="text-red-500 text-sm">{errors.bank.ifsc.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bankName">Bank</Label>
+                <Input id="bankName" {...form.register('bank.bankName')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="branch">Branch</Label>
+                <Input id="branch" {...form.register('bank.branch')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="upiId">UPI ID</Label>
+                <Input id="upiId" {...form.register('bank.upiId')} placeholder="firm@bank" />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={form.formState.isSubmitting || !can('settings.manage')} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {form.formState.isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}Save Settings
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
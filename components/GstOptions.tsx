@@ -0,0 +1,67 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSettings } from '@/lib/settingsRepository';
+import {
+  GST_STATES,
+  defaultPlaceOfSupply,
+  defaultReverseCharge,
+  getStateName,
+  stateCodeFromGstin,
+  type GstInput,
+} from '@/lib/gst';
+
+interface GstOptionsProps {
+  value: GstInput | null | undefined;
+  onChange: (gst: GstInput | null) => void;
+  /** Used for the defaults when GST is switched on. */
+  client?: { gstin?: string; stateCode?: string };
+}
+
+export function GstOptions({ value, onChange, client }: GstOptionsProps) {
+  const { settings } = useSettings();
+  const supplierState = stateCodeFromGstin(settings.firm.gstin);
+
+  if (!supplierState) {
+    return <p className="text-sm text-gray-500">The firm has no GSTIN, so this bill carries no GST.</p>;
+  }
+
+  const handleToggle = (checked: boolean) => {
+    onChange(checked
+      ? { placeOfSupply: defaultPlaceOfSupply(supplierState, client), reverseCharge: defaultReverseCharge(client?.gstin) }
+      : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox id="chargeGst" checked={!!value} onCheckedChange={(checked) => handleToggle(checked === true)} />
+        <Label htmlFor="chargeGst">Charge GST @ {settings.gst.rate}%</Label>
+      </div>
+      {value && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Place of Supply</Label>
+            <Select value={value.placeOfSupply} onValueChange={(placeOfSupply) => onChange({ ...value, placeOfSupply })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{GST_STATES.map(s => <SelectItem key={s.code} value={s.code}>{s.code} - {s.name}</SelectItem>)}</SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              {value.placeOfSupply === supplierState ? 'Intra-state: CGST + SGST' : `Inter-state from ${getStateName(supplierState)}: IGST`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 md:pt-8">
+            <Checkbox
+              id="reverseCharge"
+              checked={value.reverseCharge}
+              onCheckedChange={(checked) => onChange({ ...value, reverseCharge: checked === true })}
+            />
+            <Label htmlFor="reverseCharge">Reverse charge (client is a business entity)</Label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
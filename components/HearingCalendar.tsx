@@ -0,0 +1,368 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { CalendarDays, CalendarPlus, ChevronLeft, ChevronRight, Clock, Download, Gavel, Loader2, Plus, Trash2 } from 'lucide-react';
+import { MatterPicker } from '@/components/MatterPicker';
+import { useCases } from '@/lib/casesRepository';
+import { useMatters } from '@/lib/mattersRepository';
+import {
+  useHearings,
+  createHearing,
+  updateHearing,
+  deleteHearing,
+  hearingSchema,
+  type Hearing,
+  type HearingInput,
+} from '@/lib/hearingsRepository';
+import { buildCalendar, eventsOn, isUnbilled, type CalendarEvent } from '@/lib/calendar';
+import { toISODate } from '@/lib/dates';
+import { toIcs } from '@/lib/ics';
+import { downloadFile, toFileName } from '@/lib/download';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const; // Courts list from Monday
+
+const EMPTY_HEARING: HearingInput = {
+  matterId: '',
+  date: toISODate(new Date()),
+  time: undefined,
+  court: '',
+  purpose: '',
+  notes: '',
+};
+
+/** The days a view shows around `cursor`. */
+const daysInView = (view: CalendarView, cursor: Date) => {
+  if (view === 'week') return eachDayOfInterval({ start: startOfWeek(cursor, WEEK_OPTIONS), end: endOfWeek(cursor, WEEK_OPTIONS) });
+  if (view === 'agenda') return eachDayOfInterval({ start: startOfMonth(cursor), end: endOfMonth(cursor) });
+  return eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor), WEEK_OPTIONS), end: endOfWeek(endOfMonth(cursor), WEEK_OPTIONS) });
+};
+
+/** One line on the calendar; billed appearances link to their bill, scheduled hearings open for editing. */
+export function CalendarEventCard({ event, today, onOpen, compact = false }: { event: CalendarEvent; today: string; onOpen: (event: CalendarEvent) => void; compact?: boolean }) {
+  if (compact) {
+    return (
+      <button
+        type="button"
+        onClick={() => onOpen(event)}
+        className={`w-full text-left truncate rounded px-1.5 py-0.5 text-xs ${event.hearing ? 'bg-[#CAA068]/20 text-[#2B2F32]' : 'bg-gray-200 text-gray-700'}`}
+        title={`${event.caseNumber} ${event.title}`}
+      >
+        {event.time && `${event.time} `}{event.caseNumber}
+      </button>
+    );
+  }
+  return (
+    <button type="button" onClick={() => onOpen(event)} className="w-full text-left p-3 bg-gray-50 hover:bg-[#CAA068]/10 border border-gray-200 rounded-lg transition-colors">
+      <div className="flex items-center gap-2 flex-wrap mb-1">
+        {event.time && <span className="flex items-center gap-1 text-sm font-medium text-[#2B2F32]"><Clock className="h-3.5 w-3.5" />{event.time}</span>}
+        <Badge variant="outline" className="text-xs">Case No: {event.caseNumber}</Badge>
+        {event.hearing && <Badge variant="outline" className="text-xs border-[#CAA068] text-[#2B2F32]">Scheduled</Badge>}
+        {event.billed.map(b => (
+          <Badge key={`${b.caseId}-${b.particular}`} variant="secondary" className="text-xs">
+            {b.particular} billed{b.billNumber ? ` on ${b.billNumber}` : ' on a draft'}
+          </Badge>
+        ))}
+        {isUnbilled(event, today) && <Badge variant="outline" className="text-xs border-transparent bg-orange-100 text-orange-800">Not billed</Badge>}
+      </div>
+      <p className="font-medium text-sm text-[#2B2F32]">{event.title}</p>
+      <p className="text-xs text-gray-500 flex items-center gap-1.5 mt-0.5">
+        {event.court && <><Gavel className="h-3 w-3" />{event.court}</>}
+        {event.court && event.purpose && ' • '}
+        {event.purpose}
+      </p>
+    </button>
+  );
+}
+
+/** Downloads `events` as an iCalendar file for the user's phone or desktop calendar. */
+export const downloadIcs = (events: CalendarEvent[], name: string) =>
+  downloadFile(toIcs(events, name), `${toFileName(name)}.ics`, 'text/calendar;charset=utf-8');
+
+/** An event with a button to add just that event to the user's own calendar. */
+function ExportableEventCard({ event, today, onOpen }: { event: CalendarEvent; today: string; onOpen: (event: CalendarEvent) => void }) {
+  return (
+    <div className="flex items-start gap-1">
+      <div className="flex-1"><CalendarEventCard event={event} today={today} onOpen={onOpen} /></div>
+      <Button variant="ghost" size="icon" title="Add to my calendar (.ics)" onClick={() => downloadIcs([event], `Hearing ${event.caseNumber} ${event.date}`)}>
+        <CalendarPlus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function HearingCalendar() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { cases, loading: casesLoading } = useCases();
+  const { matters } = useMatters();
+  const { hearings, loading: hearingsLoading } = useHearings();
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [editingHearing, setEditingHearing] = useState<Hearing | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const form = useForm<HearingInput>({
+    resolver: zodResolver(hearingSchema),
+    defaultValues: EMPTY_HEARING,
+  });
+
+  const today = toISODate(new Date());
+  const events = useMemo(() => buildCalendar(cases, hearings, matters), [cases, hearings, matters]);
+  const days = useMemo(() => daysInView(view, cursor), [view, cursor]);
+
+  const move = (step: number) => {
+    setCursor(current => (view === 'week' ? addWeeks(current, step) : addMonths(current, step)));
+  };
+
+  const periodLabel = view === 'week'
+    ? `${format(days[0], 'dd MMM')} – ${format(days[days.length - 1], 'dd MMM yyyy')}`
+    : format(cursor, 'MMMM yyyy');
+
+  // --- FORM HANDLERS ---
+  const openForm = (hearing: Hearing | null, date?: string) => {
+    setEditingHearing(hearing);
+    form.reset(hearing ? { ...EMPTY_HEARING, ...hearing } : { ...EMPTY_HEARING, date: date ?? today });
+    setIsFormOpen(true);
+  };
+
+  const openEvent = (event: CalendarEvent) => {
+    if (event.hearing && can('hearings.schedule')) {
+      openForm(event.hearing);
+    } else if (event.billed.length > 0) {
+      router.push(`/bill-list?bill=${event.billed[0].caseId}`);
+    }
+  };
+
+  const onSubmit = async (data: HearingInput) => {
+    try {
+      if (editingHearing) {
+        await updateHearing(editingHearing.id, data);
+        toast.success('Hearing updated.');
+      } else {
+        await createHearing(data);
+        toast.success('Hearing scheduled.');
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error saving hearing:', error);
+      toast.error('Failed to save hearing');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingHearing) return;
+    setIsDeleting(true);
+    try {
+      await deleteHearing(editingHearing.id);
+      toast.success('Hearing removed.');
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error deleting hearing:', error);
+      toast.error('Failed to remove hearing');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // --- RENDER LOGIC ---
+  if (casesLoading || hearingsLoading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading calendar...</div>;
+  }
+
+  const errors = form.formState.errors;
+  const selectedMatter = matters.find(m => m.id === form.watch('matterId'));
+  const agendaDays = days.filter(day => eventsOn(events, toISODate(day)).length > 0);
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><CalendarDays />Hearing Calendar</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">Hearings scheduled on matters, and appearances billed on their bills.</CardDescription>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+              <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+                <TabsList>
+                  <TabsTrigger value="month">Month</TabsTrigger>
+                  <TabsTrigger value="week">Week</TabsTrigger>
+                  <TabsTrigger value="agenda">Agenda</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Button variant="outline" onClick={() => downloadIcs(events, 'Hearings')} disabled={events.length === 0}><Download className="h-4 w-4 mr-2" />Export .ics</Button>
+              {can('hearings.schedule') && <Button onClick={() => openForm(null)} className="bg-[#CAA068] hover:bg-[#B8A799] text-white"><Plus className="h-4 w-4 mr-2" />Schedule Hearing</Button>}
+            </div>
+          </div>
+          <div className="flex items-center justify-between pt-4">
+            <div className="flex gap-1">
+              <Button variant="outline" size="icon" onClick={() => move(-1)}><ChevronLeft className="h-4 w-4" /></Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())}>Today</Button>
+              <Button variant="outline" size="icon" onClick={() => move(1)}><ChevronRight className="h-4 w-4" /></Button>
+            </div>
+            <p className="text-lg font-semibold text-[#2B2F32]">{periodLabel}</p>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {view === 'month' && (
+            <div className="grid grid-cols-7 border-t border-l border-gray-200 text-sm">
+              {days.slice(0, 7).map(day => (
+                <div key={`head-${day.toISOString()}`} className="border-r border-b border-gray-200 bg-gray-50 px-2 py-1 font-medium text-gray-600">{format(day, 'EEE')}</div>
+              ))}
+              {days.map(day => {
+                const date = toISODate(day);
+                const dayEvents = eventsOn(events, date);
+                return (
+                  <div
+                    key={date}
+                    className={`border-r border-b border-gray-200 min-h-24 p-1 space-y-1 ${isSameMonth(day, cursor) ? 'bg-white' : 'bg-gray-50 text-gray-400'}`}
+                    onDoubleClick={() => can('hearings.schedule') && openForm(null, date)}
+                  >
+                    <div className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ${date === today ? 'bg-[#CAA068] text-white' : ''}`}>{format(day, 'd')}</div>
+                    {dayEvents.slice(0, 3).map(event => <CalendarEventCard key={event.key} event={event} today={today} onOpen={openEvent} compact />)}
+                    {dayEvents.length > 3 && (
+                      <button type="button" className="text-xs text-[#CAA068] hover:underline" onClick={() => { setCursor(day); setView('week'); }}>
+                        +{dayEvents.length - 3} more
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {view === 'week' && (
+            <div className="space-y-4">
+              {days.map(day => {
+                const date = toISODate(day);
+                const dayEvents = eventsOn(events, date);
+                return (
+                  <div key={date} className="grid grid-cols-1 md:grid-cols-[140px_1fr] gap-2">
+                    <div className={`text-sm font-medium ${date === today ? 'text-[#CAA068]' : 'text-[#2B2F32]'}`}>{format(day, 'EEE, dd MMM')}</div>
+                    <div className="space-y-2">
+                      {dayEvents.length > 0
+                        ? dayEvents.map(event => <ExportableEventCard key={event.key} event={event} today={today} onOpen={openEvent} />)
+                        : <p className="text-sm text-gray-400">No hearings</p>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {view === 'agenda' && (
+            <div className="space-y-6">
+              {agendaDays.length > 0 ? agendaDays.map(day => {
+                const date = toISODate(day);
+                return (
+                  <div key={date}>
+                    <h3 className={`text-sm font-semibold mb-2 ${date === today ? 'text-[#CAA068]' : 'text-[#2B2F32]'}`}>{format(day, 'EEEE, dd MMMM yyyy')}</h3>
+                    <div className="space-y-2">
+                      {eventsOn(events, date).map(event => <ExportableEventCard key={event.key} event={event} today={today} onOpen={openEvent} />)}
+                    </div>
+                  </div>
+                );
+              }) : (
+                <div className="text-center py-12 text-gray-500"><p>No hearings in {format(cursor, 'MMMM yyyy')}.</p></div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* --- SCHEDULE / EDIT HEARING DIALOG --- */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <DialogHeader>
+              <DialogTitle className="text-2xl text-[#2B2F32]">{editingHearing ? 'Edit Hearing' : 'Schedule Hearing'}</DialogTitle>
+              <DialogDescription>Scheduling a hearing does not bill it; the appearance is billed on the matter&apos;s bill as usual.</DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label>Matter *</Label>
+                <Controller name="matterId" control={form.control} render={({ field }) => (
+                  <MatterPicker value={field.value} onChange={(matter) => field.onChange(matter.id)} />
+                )} />
+                {errors.matterId && <p className="text-red-500 text-sm">{errors.matterId.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hearingDate">Date *</Label>
+                <Input id="hearingDate" type="date" {...form.register('date')} />
+                {errors.date && <p className="text-red-500 text-sm">{errors.date.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hearingTime">Time</Label>
+                <Input id="hearingTime" type="time" {...form.register('time', { setValueAs: (value: string) => value || undefined })} />
+                {errors.time && <p className="text-red-500 text-sm">{errors.time.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hearingCourt">Court / Forum</Label>
+                <Input id="hearingCourt" {...form.register('court')} placeholder={selectedMatter?.court || 'e.g. Court Room 12'} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hearingPurpose">Purpose</Label>
+                <Input id="hearingPurpose" {...form.register('purpose')} placeholder="e.g. Arguments" />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="hearingNotes">Notes</Label>
+                <Textarea id="hearingNotes" {...form.register('notes')} placeholder="Item number, documents to carry, etc." />
+              </div>
+            </div>
+            <DialogFooter>
+              <div className="w-full flex justify-between items-center">
+                <div className="flex gap-2">
+                  <Button type="button" onClick={() => setIsFormOpen(false)} variant="ghost">Cancel</Button>
+                  {editingHearing && (
+                    <Button type="button" variant="ghost" className="text-red-600 hover:bg-red-50" onClick={handleDelete} disabled={isDeleting}>
+                      {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingHearing ? 'Save Changes' : 'Schedule'}
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
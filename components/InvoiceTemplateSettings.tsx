@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Eye, FileText, Loader2, Save } from 'lucide-react';
+import {
+  useSettings,
+  saveInvoiceTemplate,
+  invoiceTemplateSchema,
+  PAPER_SIZES,
+  type InvoiceTemplateInput,
+} from '@/lib/settingsRepository';
+import { useCases } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { useMatters } from '@/lib/mattersRepository';
+import { printPdf } from '@/lib/download';
+
+const TOGGLES = [
+  { name: 'showBankDetails', label: 'Show bank details' },
+  { name: 'showSacCodes', label: 'Show SAC codes on GST bills' },
+  { name: 'showPayments', label: 'Show amount received and balance due' },
+] as const;
+
+export function InvoiceTemplateSettings() {
+  const { can } = useAuth();
+  const { settings, loading } = useSettings();
+  const { cases } = useCases();
+  const { clients } = useClients();
+  const { matters } = useMatters();
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const form = useForm<InvoiceTemplateInput>({
+    resolver: zodResolver(invoiceTemplateSchema),
+    defaultValues: settings.invoiceTemplate,
+  });
+  const { errors } = form.formState;
+
+  useEffect(() => {
+    if (!loading) form.reset(settings.invoiceTemplate);
+  }, [loading, settings.invoiceTemplate, form]);
+
+  const onSubmit = async (data: InvoiceTemplateInput) => {
+    try {
+      await saveInvoiceTemplate(data);
+      toast.success('Invoice template saved.');
+    } catch (error) {
+      console.error('Template Error:', error);
+      toast.error('Failed to save invoice template.');
+    }
+  };
+
+  // Renders the most recent bill with the unsaved template, so changes can be checked before saving
+  const handlePreview = async () => {
+    const bill = cases[0];
+    const parsed = invoiceTemplateSchema.safeParse(form.getValues());
+    if (!bill || !parsed.success) {
+      toast.error(bill ? 'Fix the template errors first.' : 'Create a bill to preview the template.');
+      return;
+    }
+    setIsPreviewing(true);
+    try {
+      const { renderInvoicePdf } = await import('@/lib/invoicePdf');
+      const bytes = await renderInvoicePdf({
+        bill,
+        client: clients.find(c => c.id === bill.clientId),
+        matter: matters.find(m => m.id === bill.matterId),
+        settings: { ...settings, invoiceTemplate: parsed.data },
+      });
+      printPdf(bytes);
+    } catch (error) {
+      console.error('Preview Error:', error);
+      toast.error('Failed to render the preview.');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><FileText />Invoice Template</CardTitle>
+        <CardDescription className="text-[#2B2F32]/60 mt-1">Layout of the PDF invoices that are printed, downloaded and emailed.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Paper Size</Label>
+              <Controller name="paperSize" control={form.control} render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>{PAPER_SIZES.map(size => <SelectItem key={size} value={size}>{size}</SelectItem>)}</SelectContent>
+                </Select>
+              )} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accentColor">Accent Colour</Label>
+              <div className="flex gap-2">
+                <Input id="accentColor" {...form.register('accentColor')} placeholder="#CAA068" />
+                <div className="h-10 w-10 flex-shrink-0 rounded-md border" style={{ backgroundColor: form.watch('accentColor') }} />
+              </div>
+              {errors.accentColor && <p className="text-red-500 text-sm">{errors.accentColor.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tagline">Tagline</Label>
+              <Input id="tagline" {...form.register('tagline')} placeholder="Advocates & Solicitors" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signatoryName">Signatory</Label>
+              <Input id="signatoryName" {...form.register('signatoryName')} placeholder="Name printed under the signature" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signatoryDesignation">Designation</Label>
+              <Input id="signatoryDesignation" {...form.register('signatoryDesignation')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="footerNote">Footer Note</Label>
+              <Input id="footerNote" {...form.register('footerNote')} placeholder="Subject to Mumbai jurisdiction" />
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-4">
+            {TOGGLES.map(toggle => (
+              <Controller key={toggle.name} name={toggle.name} control={form.control} render={({ field }) => (
+                <div className="flex items-center gap-2">
+                  <Checkbox id={toggle.name} checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  <Label htmlFor={toggle.name}>{toggle.label}</Label>
+                </div>
+              )} />
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+              {isPreviewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}Preview
+            </Button>
+            <Button type="submit" disabled={form.formState.isSubmitting || !can('settings.manage')} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {form.formState.isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}Save Template
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
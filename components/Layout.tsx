@@ -1,15 +1,18 @@
 'use client';
 
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { LogOut, Scale } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { LogOut, Scale, Settings, ShieldAlert, Users } from 'lucide-react';
+import { ROLE_LABELS } from '@/lib/permissions';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export function Layout({ children }: LayoutProps) {
-  const { logout, user } = useAuth();
+  const { logout, user, role, can } = useAuth();
 
   const handleLogout = async () => {
     try {
@@ -32,6 +35,31 @@ export function Layout({ children }: LayoutProps) {
               {/* <span className="text-[#B8A799] text-sm">
                 {user?.email}
               </span> */}
+              {role && <span className="text-[#B8A799] text-sm hidden sm:inline">{ROLE_LABELS[role]}</span>}
+              {can('users.manage') && (
+                <Button
+                  asChild
+                  variant="ghost"
+                  size="sm"
+                  className="text-[#CAA068] hover:bg-[#CAA068] hover:text-white"
+                >
+                  <Link href="/users">
+                    <Users className="h-4 w-4 mr-2" />
+                    Users
+                  </Link>
+                </Button>
+              )}
+              <Button
+                asChild
+                variant="ghost"
+                size="sm"
+                className="text-[#CAA068] hover:bg-[#CAA068] hover:text-white"
+              >
+                <Link href="/settings">
+                  <Settings className="h-4 w-4 mr-2" />
+                  Settings
+                </Link>
+              </Button>
               <Button
                 onClick={handleLogout}
                 variant="outline"
@@ -46,7 +74,17 @@ export function Layout({ children }: LayoutProps) {
         </div>
       </header>
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        {children}
+        {role ? children : (
+          <Card className="bg-white/95 backdrop-blur-sm shadow-xl max-w-xl mx-auto mt-12">
+            <CardContent className="p-8 text-center space-y-3">
+              <ShieldAlert className="h-10 w-10 mx-auto text-[#CAA068]" />
+              <h2 className="text-xl font-semibold text-[#2B2F32]">Waiting for access</h2>
+              <p className="text-gray-600">
+                {user?.email} has no role yet. Ask a partner to assign one from the Users page.
+              </p>
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,318 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import {
+  Briefcase,
+  ChevronDown,
+  ChevronUp,
+  CalendarPlus,
+  Edit,
+  Gavel,
+  Loader2,
+  Plus,
+  Search,
+  Trash2,
+  Users,
+} from 'lucide-react';
+import { ClientPicker } from '@/components/ClientPicker';
+import { BillStatusBadge } from '@/components/BillStatusBadge';
+import {
+  useMatters,
+  createMatter,
+  updateMatter,
+  summarizeMatters,
+  matterSchema,
+  MATTER_STATUSES,
+  PARTY_ROLES,
+  type Matter,
+  type MatterInput,
+  type MatterStatus,
+} from '@/lib/mattersRepository';
+import { useCases } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { useHearings } from '@/lib/hearingsRepository';
+import { buildCalendar } from '@/lib/calendar';
+import { downloadIcs } from '@/components/HearingCalendar';
+
+const EMPTY_MATTER: MatterInput = {
+  matterNumber: '',
+  title: '',
+  clientId: undefined,
+  court: '',
+  parties: [],
+  opposingCounsel: '',
+  status: 'Active',
+};
+
+const STATUS_STYLES: Record<MatterStatus, string> = {
+  Active: 'bg-green-100 text-green-800',
+  Stayed: 'bg-yellow-100 text-yellow-800',
+  Disposed: 'bg-blue-100 text-blue-800',
+  Closed: 'bg-gray-200 text-gray-700',
+};
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+export function MatterManager() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { matters, loading } = useMatters();
+  const { cases } = useCases();
+  const { clients } = useClients();
+  const { hearings } = useHearings();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<MatterStatus | 'all'>('all');
+  const [expandedMatterId, setExpandedMatterId] = useState<string | null>(null);
+  const [editingMatter, setEditingMatter] = useState<Matter | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const form = useForm<MatterInput>({
+    resolver: zodResolver(matterSchema),
+    defaultValues: EMPTY_MATTER,
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'parties' });
+
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id, c.name])), [clients]);
+  const summaries = useMemo(() => summarizeMatters(matters, cases), [matters, cases]);
+  const filteredSummaries = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return summaries.filter(({ matter }) =>
+      (statusFilter === 'all' || matter.status === statusFilter) && (!term ||
+        matter.matterNumber.toLowerCase().includes(term) ||
+        matter.title.toLowerCase().includes(term) ||
+        matter.court.toLowerCase().includes(term) ||
+        matter.parties.some(p => p.name.toLowerCase().includes(term)))
+    );
+  }, [summaries, searchTerm, statusFilter]);
+
+  const exportHearings = (matter: Matter) => {
+    const events = buildCalendar(cases, hearings, matters).filter(e => e.matterId === matter.id);
+    if (events.length === 0) {
+      toast.info('No hearings or appearances on this matter yet.');
+      return;
+    }
+    downloadIcs(events, `Hearings ${matter.matterNumber}`);
+  };
+
+  // --- FORM HANDLERS ---
+  const openForm = (matter: Matter | null) => {
+    setEditingMatter(matter);
+    form.reset(matter ? { ...EMPTY_MATTER, ...matter } : EMPTY_MATTER);
+    setIsFormOpen(true);
+  };
+
+  const onSubmit = async (data: MatterInput) => {
+    try {
+      if (editingMatter) {
+        await updateMatter(editingMatter.id, data);
+        toast.success('Matter updated successfully!');
+      } else {
+        await createMatter(data);
+        toast.success('Matter added successfully!');
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error saving matter:', error);
+      toast.error('Failed to save matter');
+    }
+  };
+
+  // --- RENDER LOGIC ---
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading matters...</div>;
+  }
+
+  const errors = form.formState.errors;
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Briefcase />Matters</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">Legal matters and the bills raised against each of them.</CardDescription>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as MatterStatus | 'all')}>
+                <SelectTrigger className="w-full sm:w-36"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {MATTER_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <div className="relative w-full md:w-72">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input placeholder="Search by number, title, party..." className="pl-10" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
+              </div>
+              {can('matters.manage') && <Button onClick={() => openForm(null)} className="bg-[#CAA068] hover:bg-[#B8A799] text-white"><Plus className="h-4 w-4 mr-2" />Add Matter</Button>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {filteredSummaries.length > 0 ? filteredSummaries.map(({ matter, bills, totalBilled, totalPaid, outstanding }) => (
+              <div key={matter.id} className="bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="p-4 flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                  <div className="flex-1 space-y-1.5">
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <Badge variant="outline" className="text-xs">Case No: {matter.matterNumber}</Badge>
+                      <Badge variant="outline" className={`text-xs border-transparent ${STATUS_STYLES[matter.status]}`}>{matter.status}</Badge>
+                      {matter.clientId && clientNames.has(matter.clientId) && <Badge variant="secondary" className="text-xs">{clientNames.get(matter.clientId)}</Badge>}
+                    </div>
+                    <p className="font-semibold text-base text-[#2B2F32]">{matter.title}</p>
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-500">
+                      {matter.court && <span className="flex items-center gap-1.5"><Gavel className="h-4 w-4" />{matter.court}</span>}
+                      {matter.parties.length > 0 && <span className="flex items-center gap-1.5"><Users className="h-4 w-4" />{matter.parties.map(p => `${p.name} (${p.role})`).join(' v. ')}</span>}
+                      {matter.opposingCounsel && <span>Opposing counsel: {matter.opposingCounsel}</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <div className="text-right text-sm">
+                      <div className="font-bold text-lg text-[#CAA068]">{formatCurrency(totalBilled)}</div>
+                      <div className="text-gray-500">{bills.length} bill(s)</div>
+                      {totalPaid > 0 && <div className="text-green-700 font-medium">Paid: {formatCurrency(totalPaid)}</div>}
+                      {outstanding > 0 && <div className="text-red-700 font-medium">Due: {formatCurrency(outstanding)}</div>}
+                    </div>
+                    <div className="flex gap-1">
+                      {can('bills.create') && <Button variant="outline" size="sm" onClick={() => router.push(`/case-entry?matter=${matter.id}`)}><Plus className="h-4 w-4 mr-1" />New Bill</Button>}
+                      <Button variant="ghost" size="icon" title="Export hearings (.ics)" onClick={() => exportHearings(matter)}><CalendarPlus className="h-4 w-4" /></Button>
+                      {can('matters.manage') && <Button variant="ghost" size="icon" onClick={() => openForm(matter)}><Edit className="h-4 w-4" /></Button>}
+                      <Button variant="ghost" size="icon" onClick={() => setExpandedMatterId(expandedMatterId === matter.id ? null : matter.id)}>
+                        {expandedMatterId === matter.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+                {expandedMatterId === matter.id && (
+                  <div className="border-t px-4 py-3 space-y-2">
+                    {bills.length > 0 ? bills.map(bill => (
+                      <div key={bill.id} className="flex justify-between items-center p-3 bg-white rounded-md text-sm">
+                        <div className="flex items-center gap-3">
+                          {bill.billNumber && <Badge variant="outline" className="text-xs">Bill No: {bill.billNumber}</Badge>}
+                          <BillStatusBadge status={bill.status} />
+                          <span className="text-gray-500">{formatDate(bill.date)}</span>
+                        </div>
+                        <div className="flex gap-4">
+                          <span className="font-semibold">{formatCurrency(bill.totalAmount)}</span>
+                          {bill.remainingAmount > 0 && <span className="text-red-700 font-medium">Due: {formatCurrency(bill.remainingAmount)}</span>}
+                        </div>
+                      </div>
+                    )) : <p className="text-sm text-gray-500">No bills raised for this matter yet.</p>}
+                  </div>
+                )}
+              </div>
+            )) : (
+              <div className="text-center py-12 text-gray-500"><p>{matters.length === 0 ? 'No matters yet. Add your first matter.' : 'No matters found for your search.'}</p></div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* --- ADD / EDIT MATTER DIALOG --- */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-3xl p-0 flex flex-col max-h-[90vh]">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col min-h-0">
+            <DialogHeader className="p-6 bg-gray-50">
+              <DialogTitle className="text-2xl text-[#2B2F32]">{editingMatter ? 'Edit Matter' : 'New Matter'}</DialogTitle>
+              <DialogDescription>Changes to the number or title are copied onto this matter&apos;s bills.</DialogDescription>
+            </DialogHeader>
+            <div className="overflow-y-auto px-6 py-4 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="matterNumber">Case Number *</Label>
+                  <Input id="matterNumber" {...form.register('matterNumber')} placeholder="e.g. ARB/12/2024" />
+                  {errors.matterNumber && <p className="text-red-500 text-sm">{errors.matterNumber.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Controller name="status" control={form.control} render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>{MATTER_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}</SelectContent>
+                    </Select>
+                  )} />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="matterTitle">Title *</Label>
+                  <Input id="matterTitle" {...form.register('title')} placeholder="Short description of the matter" />
+                  {errors.title && <p className="text-red-500 text-sm">{errors.title.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="court">Court / Forum</Label>
+                  <Input id="court" {...form.register('court')} placeholder="e.g. Bombay High Court" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="opposingCounsel">Opposing Counsel</Label>
+                  <Input id="opposingCounsel" {...form.register('opposingCounsel')} placeholder="Name of opposing counsel" />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Client</Label>
+                  <Controller name="clientId" control={form.control} render={({ field }) => (
+                    <ClientPicker value={field.value} onChange={field.onChange} />
+                  )} />
+                </div>
+              </div>
+
+              {/* Parties */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-lg font-medium">Parties</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', role: 'Petitioner' })}><Plus className="h-4 w-4 mr-2" />Add Party</Button>
+                </div>
+                {fields.map((field, index) => (
+                  <div key={field.id} className="bg-gray-50 p-3 rounded-lg border grid grid-cols-1 md:grid-cols-[1fr_180px_auto] gap-3">
+                    <Input {...form.register(`parties.${index}.name`)} placeholder="Party name *" />
+                    <Controller name={`parties.${index}.role`} control={form.control} render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>{PARTY_ROLES.map(role => <SelectItem key={role} value={role}>{role}</SelectItem>)}</SelectContent>
+                      </Select>
+                    )} />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="text-red-500 hover:bg-red-100"><Trash2 className="h-5 w-5" /></Button>
+                    {errors.parties?.[index]?.name && <p className="text-red-500 text-sm md:col-span-3">{errors.parties[index]?.name?.message}</p>}
+                  </div>
+                ))}
+                {fields.length === 0 && <p className="text-sm text-gray-500">No parties added.</p>}
+              </div>
+            </div>
+            <DialogFooter className="p-4 border-t flex-shrink-0 bg-white">
+              <div className="w-full flex justify-between items-center">
+                <Button type="button" onClick={() => setIsFormOpen(false)} variant="ghost">Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingMatter ? 'Save Changes' : 'Add Matter'}
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
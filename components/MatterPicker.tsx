@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMatters, type Matter } from '@/lib/mattersRepository';
+
+interface MatterPickerProps {
+  value?: string;
+  onChange: (matter: Matter) => void;
+}
+
+export function MatterPicker({ value, onChange }: MatterPickerProps) {
+  const { matters } = useMatters();
+  const [open, setOpen] = useState(false);
+  const selectedMatter = matters.find(m => m.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className={cn("w-full justify-between font-normal", !selectedMatter && "text-muted-foreground")}>
+          <span className="truncate">{selectedMatter ? `${selectedMatter.matterNumber} - ${selectedMatter.title}` : "Select matter..."}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] max-h-[300px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search matters..." />
+          <CommandList>
+            <CommandEmpty>No matter found.</CommandEmpty>
+            <CommandGroup>
+              {matters.map(matter => (
+                <CommandItem key={matter.id} value={`${matter.matterNumber} ${matter.title}`} onSelect={() => { onChange(matter); setOpen(false); }}>
+                  <Check className={cn("mr-2 h-4 w-4", value === matter.id ? "opacity-100" : "opacity-0")} />
+                  <span className="font-medium mr-2">{matter.matterNumber}</span>
+                  <span className="truncate text-muted-foreground">{matter.title}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
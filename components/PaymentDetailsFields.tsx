@@ -0,0 +1,45 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  PAYMENT_DETAIL_LABELS,
+  PAYMENT_METHOD_DETAILS,
+  type PaymentDetails,
+  type PaymentMethod,
+} from '@/lib/casesRepository';
+
+interface PaymentDetailsFieldsProps {
+  method: PaymentMethod | '';
+  value: PaymentDetails;
+  onChange: (details: PaymentDetails) => void;
+}
+
+const PLACEHOLDERS: Record<keyof PaymentDetails, string> = {
+  instrumentNumber: 'e.g. 004512',
+  bankName: 'Bank it is drawn on',
+  utr: 'From the bank statement',
+  upiTransactionId: '12-digit reference',
+};
+
+/** The inputs a payment method needs, e.g. cheque number and bank, or the UTR of a transfer. */
+export function PaymentDetailsFields({ method, value, onChange }: PaymentDetailsFieldsProps) {
+  const fields = method ? PAYMENT_METHOD_DETAILS[method] : [];
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field} className="space-y-2">
+          <Label htmlFor={`payment-${field}`}>{PAYMENT_DETAIL_LABELS[field]}</Label>
+          <Input
+            id={`payment-${field}`}
+            value={value[field] ?? ''}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            placeholder={PLACEHOLDERS[field]}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
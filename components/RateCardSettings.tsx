@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { ListChecks, Loader2, Plus, Save } from 'lucide-react';
+import { useSettings, saveRateCard, newSettingsId, particularTypeSchema } from '@/lib/settingsRepository';
+import { OTHER_PARTICULAR_TYPE } from '@/lib/rateCard';
+import { DEFAULT_SAC_CODE } from '@/lib/gst';
+
+const formSchema = z.object({
+  rateCard: z.array(particularTypeSchema).superRefine((types, ctx) => {
+    const seen = new Set<string>();
+    types.forEach((type, index) => {
+      const key = type.name.toLowerCase();
+      if (seen.has(key) || key === OTHER_PARTICULAR_TYPE.toLowerCase()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: 'This type is already on the rate card' });
+      }
+      seen.add(key);
+    });
+  }),
+});
+
+type RateCardFormData = z.input<typeof formSchema>;
+
+export function RateCardSettings() {
+  const { can } = useAuth();
+  const { settings, loading } = useSettings();
+
+  const form = useForm<RateCardFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { rateCard: settings.rateCard },
+  });
+  const { fields, append } = useFieldArray({ control: form.control, name: 'rateCard', keyName: 'fieldId' });
+  const { errors } = form.formState;
+
+  useEffect(() => {
+    if (!loading) form.reset({ rateCard: settings.rateCard });
+  }, [loading, settings.rateCard, form]);
+
+  const onSubmit = async (data: RateCardFormData) => {
+    try {
+      await saveRateCard(data.rateCard);
+      toast.success('Rate card saved.');
+    } catch (error) {
+      console.error('Rate Card Error:', error);
+      toast.error('Failed to save rate card.');
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><ListChecks />Rate Card</CardTitle>
+        <CardDescription className="text-[#2B2F32]/60 mt-1">Particulars offered on bills and the amount each is filled in with. Amounts negotiated with a client are set on the client.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-3">
+            {fields.map((field, index) => (
+              <div key={field.fieldId} className="bg-gray-50 p-4 rounded-lg border grid grid-cols-1 md:grid-cols-[1fr_200px_140px_auto_auto] gap-3 items-center">
+                <Input {...form.register(`rateCard.${index}.name`)} placeholder="Particular *" />
+                <Input type="number" step="0.01" {...form.register(`rateCard.${index}.defaultAmount`, { setValueAs: (v: string | number) => (v === '' ? 0 : Number(v)) })} placeholder="Amount (₹)" />
+                <Input {...form.register(`rateCard.${index}.sacCode`)} placeholder="SAC code" />
+                <Controller name={`rateCard.${index}.isAppearance`} control={form.control} render={({ field: isAppearance }) => (
+                  <div className="flex items-center gap-2">
+                    <Checkbox id={`rateCardAppearance${index}`} checked={isAppearance.value} onCheckedChange={(checked) => isAppearance.onChange(checked === true)} />
+                    <Label htmlFor={`rateCardAppearance${index}`}>Appearance</Label>
+                  </div>
+                )} />
+                <Controller name={`rateCard.${index}.active`} control={form.control} render={({ field: active }) => (
+                  <div className="flex items-center gap-2">
+                    <Checkbox id={`rateCardActive${index}`} checked={active.value} onCheckedChange={(checked) => active.onChange(checked === true)} />
+                    <Label htmlFor={`rateCardActive${index}`}>Active</Label>
+                  </div>
+                )} />
+                {errors.rateCard?.[index] && (
+                  <p className="text-red-500 text-sm md:col-span-5">{errors.rateCard[index]?.name?.message || errors.rateCard[index]?.defaultAmount?.message || errors.rateCard[index]?.sacCode?.message}</p>
+                )}
+              </div>
+            ))}
+            <p className="text-sm text-gray-500">An amount of 0 leaves it to be entered on the bill. The SAC code is printed against the particular on GST invoices. Appearances are billed with the date of the sitting and show on the hearing calendar. &quot;{OTHER_PARTICULAR_TYPE}&quot; is always offered for one-off particulars.</p>
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <Button type="button" variant="outline" onClick={() => append({ id: newSettingsId(), name: '', defaultAmount: 0, sacCode: DEFAULT_SAC_CODE, isAppearance: false, active: true })}>
+              <Plus className="h-4 w-4 mr-2" />Add Particular
+            </Button>
+            <Button type="submit" disabled={form.formState.isSubmitting || !can('settings.manage')} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+              {form.formState.isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}Save Rate Card
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Building2, CheckCircle2, Loader2, Plus, Receipt as ReceiptIcon, Search, Split, Undo2, Wand2, Wallet } from 'lucide-react';
+import { ClientPicker } from '@/components/ClientPicker';
+import { PaymentDetailsFields } from '@/components/PaymentDetailsFields';
+import { ClearanceDialog } from '@/components/ClearanceDialog';
+import {
+  PAYMENT_DETAIL_LABELS,
+  PAYMENT_METHOD_DETAILS,
+  PAYMENT_METHODS,
+  formatPaymentDetails,
+  useCases,
+  type Clearance,
+  type PaymentDetails,
+  type PaymentMethod,
+} from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import {
+  useReceipts,
+  allocateReceipt,
+  autoAllocate,
+  createReceipt,
+  getAllocatableBills,
+  recordReceiptClearance,
+  type Receipt,
+} from '@/lib/receiptsRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { getDueDate } from '@/lib/paymentTerms';
+import { toISODate } from '@/lib/dates';
+import { downloadFile, toFileName } from '@/lib/download';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 2,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+/** Amounts typed against each bill, by case id. */
+type AllocationInputs = Record<string, string>;
+
+const toInputs = (allocations: { caseId: string; amount: number }[]): AllocationInputs =>
+  Object.fromEntries(allocations.map(a => [a.caseId, String(a.amount)]));
+
+export function ReceiptManager() {
+  const { can } = useAuth();
+  const { receipts, loading } = useReceipts();
+  const { cases } = useCases();
+  const { clients } = useClients();
+  const { settings } = useSettings();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Dialog state: a new receipt, or more of an existing receipt's advance
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [allocatingReceipt, setAllocatingReceipt] = useState<Receipt | null>(null);
+  const [clientId, setClientId] = useState<string | undefined>();
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(toISODate(new Date()));
+  const [method, setMethod] = useState<PaymentMethod>('NEFT/RTGS');
+  const [details, setDetails] = useState<PaymentDetails>({});
+  const [reference, setReference] = useState('');
+  const [inputs, setInputs] = useState<AllocationInputs>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id, c.name])), [clients]);
+  const billNumbers = useMemo(() => new Map(cases.map(c => [c.id, c.billNumber])), [cases]);
+
+  const filteredReceipts = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    if (!term) return receipts;
+    return receipts.filter(r =>
+      r.reference.toLowerCase().includes(term) ||
+      (r.moneyReceiptNumber ?? '').toLowerCase().includes(term) ||
+      formatPaymentDetails(r).toLowerCase().includes(term) ||
+      (clientNames.get(r.clientId) ?? '').toLowerCase().includes(term)
+    );
+  }, [receipts, searchTerm, clientNames]);
+  const totalAdvance = receipts.reduce((sum, r) => sum + r.unallocatedAmount, 0);
+
+  const bills = useMemo(() => (clientId ? getAllocatableBills(cases, clientId) : []), [cases, clientId]);
+  const available = allocatingReceipt ? allocatingReceipt.unallocatedAmount : Number(amount) || 0;
+  const allocated = Object.values(inputs).reduce((sum, value) => sum + (Number(value) || 0), 0);
+  const carriedForward = available - allocated;
+
+  // --- FORM HANDLERS ---
+  const openForm = (receipt: Receipt | null) => {
+    setAllocatingReceipt(receipt);
+    setClientId(receipt?.clientId);
+    setAmount('');
+    setDate(toISODate(new Date()));
+    setMethod('NEFT/RTGS');
+    setDetails({});
+    setReference('');
+    setInputs(receipt ? toInputs(autoAllocate(receipt.unallocatedAmount, getAllocatableBills(cases, receipt.clientId))) : {});
+    setIsFormOpen(true);
+  };
+
+  // Oldest bills are cleared first until the amount is used up; any line can then be changed by hand
+  const handleClientChange = (id: string | undefined) => {
+    setClientId(id);
+    setInputs(id ? toInputs(autoAllocate(Number(amount) || 0, getAllocatableBills(cases, id))) : {});
+  };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    setInputs(toInputs(autoAllocate(Number(value) || 0, bills)));
+  };
+
+  const handleSave = async () => {
+    if (!clientId) {
+      toast.error('Choose the client who paid.');
+      return;
+    }
+    if (carriedForward < -0.005) {
+      toast.error('More is allocated than was received.');
+      return;
+    }
+    const allocations = Object.entries(inputs)
+      .map(([caseId, value]) => ({ caseId, amount: Number(value) || 0 }))
+      .filter(a => a.amount > 0);
+
+    setIsSaving(true);
+    try {
+      if (allocatingReceipt) {
+        await allocateReceipt(allocatingReceipt, allocations, cases);
+        toast.success('Advance allocated.');
+      } else {
+        if (available <= 0) {
+          toast.error('Enter the amount received.');
+          return;
+        }
+        const missingDetail = PAYMENT_METHOD_DETAILS[method].find(field => !details[field]?.trim());
+        if (missingDetail) {
+          toast.error(`Enter the ${PAYMENT_DETAIL_LABELS[missingDetail]}.`);
+          return;
+        }
+        const moneyReceiptNumber = await createReceipt({ ...details, clientId, amount: available, date, method, reference }, allocations, cases);
+        toast.success(carriedForward >= 0.01
+          ? `Receipt ${moneyReceiptNumber} recorded; ${formatCurrency(carriedForward)} held as an advance.`
+          : `Receipt ${moneyReceiptNumber} recorded.`);
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Receipt Error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the receipt.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // --- CLEARANCE & MONEY RECEIPTS ---
+  const [clearanceAction, setClearanceAction] = useState<{ receipt: Receipt; status: 'cleared' | 'bounced' } | null>(null);
+
+  const handleClearance = async (clearance: Clearance) => {
+    if (!clearanceAction) return false;
+    try {
+      await recordReceiptClearance(clearanceAction.receipt, clearance, cases);
+      toast.success(clearance.status === 'bounced' ? 'Bounce recorded; every payment from this receipt has been reversed.' : 'Marked as cleared.');
+      return true;
+    } catch (error) {
+      console.error('Clearance Error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record the clearance.');
+      return false;
+    }
+  };
+
+  const handleMoneyReceipt = async (receipt: Receipt) => {
+    try {
+      // pdf-lib is only loaded when a receipt is actually rendered
+      const { renderMoneyReceiptPdf, moneyReceiptForReceipt } = await import('@/lib/moneyReceiptPdf');
+      const bytes = await renderMoneyReceiptPdf({
+        ...moneyReceiptForReceipt(receipt, cases),
+        client: clients.find(c => c.id === receipt.clientId),
+        settings,
+      });
+      downloadFile(bytes, `Money_Receipt_${toFileName(receipt.moneyReceiptNumber ?? '')}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error('Money Receipt Error:', error);
+      toast.error('Failed to generate the money receipt.');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading receipts...</div>;
+  }
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Wallet />Receipts</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">
+                Money received once and spread over a client&apos;s bills.{totalAdvance >= 0.01 && ` ${formatCurrency(totalAdvance)} is held as advances.`}
+              </CardDescription>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="relative w-full md:w-64">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input placeholder="Search by client or reference..." className="pl-10" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
+              </div>
+              {can('payments.record') && <Button onClick={() => openForm(null)} className="bg-[#CAA068] hover:bg-[#B8A799] text-white"><Plus className="h-4 w-4 mr-2" />Record Receipt</Button>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {filteredReceipts.length > 0 ? filteredReceipts.map(receipt => (
+              <div key={receipt.id} className="p-4 bg-gray-50 border border-gray-200 rounded-lg flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div className="flex-1 space-y-1.5">
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <p className="font-semibold text-base text-[#2B2F32] flex items-center gap-1.5"><Building2 className="h-4 w-4" />{clientNames.get(receipt.clientId) ?? 'Unknown client'}</p>
+                    <Badge variant="secondary" className="text-xs">{receipt.method}</Badge>
+                    {receipt.moneyReceiptNumber && <Badge variant="outline" className="text-xs font-mono">{receipt.moneyReceiptNumber}</Badge>}
+                    {receipt.reference && <Badge variant="outline" className="text-xs">Ref: {receipt.reference}</Badge>}
+                    {receipt.clearance?.status === 'pending' && <Badge variant="outline" className="text-xs text-orange-700 border-orange-300">Awaiting clearance</Badge>}
+                    {receipt.clearance?.status === 'bounced' && <Badge variant="destructive" className="text-xs">Bounced</Badge>}
+                    {receipt.unallocatedAmount >= 0.01 && <Badge variant="outline" className="text-xs text-orange-700 border-orange-300">Advance {formatCurrency(receipt.unallocatedAmount)}</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {formatDate(receipt.date)}
+                    {formatPaymentDetails(receipt) && ` • ${formatPaymentDetails(receipt)}`}
+                    {receipt.allocations.length > 0 && ` • ${receipt.allocations.map(a => `${billNumbers.get(a.caseId) || 'Deleted bill'}: ${formatCurrency(a.amount)}`).join(', ')}`}
+                  </p>
+                  {receipt.clearance?.status === 'bounced' && (
+                    <p className="text-sm text-red-700">Returned{receipt.clearance.date && ` on ${formatDate(receipt.clearance.date)}`}{receipt.clearance.reason && `: ${receipt.clearance.reason}`}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {receipt.moneyReceiptNumber && (
+                    <Button variant="ghost" size="icon" title="Money receipt" onClick={() => handleMoneyReceipt(receipt)}><ReceiptIcon className="h-4 w-4" /></Button>
+                  )}
+                  {can('payments.record') && receipt.clearance?.status === 'pending' && (
+                    <>
+                      <Button variant="ghost" size="icon" title="Mark cleared" onClick={() => setClearanceAction({ receipt, status: 'cleared' })}><CheckCircle2 className="h-4 w-4 text-green-700" /></Button>
+                      <Button variant="ghost" size="icon" title="Record bounce" onClick={() => setClearanceAction({ receipt, status: 'bounced' })}><Undo2 className="h-4 w-4 text-red-700" /></Button>
+                    </>
+                  )}
+                  <div className={`font-bold text-lg ${receipt.clearance?.status === 'bounced' ? 'line-through text-gray-400' : 'text-[#CAA068]'}`}>{formatCurrency(receipt.amount)}</div>
+                  {can('payments.record') && receipt.unallocatedAmount >= 0.01 && (
+                    <Button variant="outline" size="sm" onClick={() => openForm(receipt)}><Split className="h-4 w-4 mr-2" />Allocate</Button>
+                  )}
+                </div>
+              </div>
+            )) : (
+              <div className="text-center py-12 text-gray-500"><p>{receipts.length === 0 ? 'No receipts recorded yet.' : 'No receipts found for your search.'}</p></div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{allocatingReceipt ? 'Allocate Advance' : 'Record Receipt'}</DialogTitle>
+            <DialogDescription>
+              {allocatingReceipt
+                ? `${formatCurrency(allocatingReceipt.unallocatedAmount)} of the receipt dated ${formatDate(allocatingReceipt.date)} is not yet applied to a bill.`
+                : 'Record the amount once; it is applied to the oldest bills first, and anything left over is held as an advance.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!allocatingReceipt && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Client</Label>
+                  <ClientPicker value={clientId} onChange={handleClientChange} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptAmount">Amount Received</Label>
+                  <Input id="receiptAmount" type="number" value={amount} onChange={(e) => handleAmountChange(e.target.value)} placeholder="0.00" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptDate">Date</Label>
+                  <Input id="receiptDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Method</Label>
+                  <Select value={method} onValueChange={(value) => { setMethod(value as PaymentMethod); setDetails({}); }}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>{PAYMENT_METHODS.map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptReference">Reference</Label>
+                  <Input id="receiptReference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="e.g. client's remittance advice" />
+                </div>
+                <div className="md:col-span-2">
+                  <PaymentDetailsFields method={method} value={details} onChange={setDetails} />
+                </div>
+              </div>
+            )}
+
+            {clientId && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Allocation</Label>
+                  <Button type="button" variant="link" size="sm" className="h-auto p-0 text-[#CAA068]" onClick={() => setInputs(toInputs(autoAllocate(available, bills)))}>
+                    <Wand2 className="h-4 w-4 mr-1" />Oldest first
+                  </Button>
+                </div>
+                {bills.length > 0 ? (
+                  <div className="border rounded-lg divide-y">
+                    {bills.map(bill => (
+                      <div key={bill.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium">{bill.billNumber} <span className="font-normal text-gray-500">• {bill.caseDescription}</span></p>
+                          <p className="text-xs text-gray-500">Due {formatDate(getDueDate(bill))} • {formatCurrency(bill.remainingAmount)} outstanding</p>
+                        </div>
+                        <Input
+                          type="number"
+                          className="w-36 shrink-0 text-right"
+                          value={inputs[bill.id] ?? ''}
+                          max={bill.remainingAmount}
+                          onChange={(e) => setInputs(prev => ({ ...prev, [bill.id]: e.target.value }))}
+                          placeholder="0.00"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">This client has no bills awaiting payment; the whole amount is held as an advance.</p>
+                )}
+                <div className="flex justify-between text-sm pt-2">
+                  <span>Allocated: <strong>{formatCurrency(allocated)}</strong></span>
+                  <span className={carriedForward < -0.005 ? 'text-red-600 font-medium' : 'text-orange-700'}>
+                    {carriedForward < -0.005 ? `Over-allocated by ${formatCurrency(-carriedForward)}` : `Carried forward as advance: ${formatCurrency(carriedForward)}`}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setIsFormOpen(false)} variant="ghost">Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !clientId || carriedForward < -0.005}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {allocatingReceipt ? 'Allocate' : 'Save Receipt'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ClearanceDialog
+        status={clearanceAction?.status ?? null}
+        instrument={clearanceAction ? `${clearanceAction.receipt.method}${clearanceAction.receipt.instrumentNumber ? ` ${clearanceAction.receipt.instrumentNumber}` : ''} for ${formatCurrency(clearanceAction.receipt.amount)}` : ''}
+        onClose={() => setClearanceAction(null)}
+        onConfirm={handleClearance}
+      />
+    </>
+  );
+}
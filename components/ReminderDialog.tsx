@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+import { Loader2, Paperclip, Send } from 'lucide-react';
+import { recordReminder, type Case } from '@/lib/casesRepository';
+import type { Client } from '@/lib/clientsRepository';
+import type { Matter } from '@/lib/mattersRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import {
+  REMINDER_LEVELS,
+  REMINDER_LEVEL_LABELS,
+  composeReminder,
+  getNextReminderLevel,
+  getReminderRecipients,
+  type ReminderLevel,
+} from '@/lib/reminders';
+import { getMailTransport, isUsingLocalMailbox } from '@/lib/mailTransports';
+import { toFileName } from '@/lib/download';
+
+interface ReminderDialogProps {
+  bill: Case;
+  client?: Client;
+  matter?: Matter;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Composes a payment reminder for a bill, emails it with the bill PDF attached, and records it on the bill. */
+export function ReminderDialog({ bill, client, matter, open, onOpenChange }: ReminderDialogProps) {
+  const { settings } = useSettings();
+  const [level, setLevel] = useState<ReminderLevel>('first');
+  const [to, setTo] = useState('');
+  const [subject, setSubject] = useState('');
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  // Start from the next notice due each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const next = getNextReminderLevel(bill) ?? 'final';
+    const composed = composeReminder(next, bill, client, settings.firm);
+    setLevel(next);
+    setTo(getReminderRecipients(client).join(', '));
+    setSubject(composed.subject);
+    setText(composed.text);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleLevelChange = (value: ReminderLevel) => {
+    const composed = composeReminder(value, bill, client, settings.firm);
+    setLevel(value);
+    setSubject(composed.subject);
+    setText(composed.text);
+  };
+
+  const handleSend = async () => {
+    const recipients = to.split(',').map(address => address.trim()).filter(Boolean);
+    if (recipients.length === 0) {
+      toast.error('Enter at least one email address.');
+      return;
+    }
+    if (!settings.firm.email) {
+      toast.error("Add the firm's email address in Firm Settings before sending reminders.");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      // pdf-lib is only loaded when an invoice is actually rendered
+      const { renderInvoicePdf } = await import('@/lib/invoicePdf');
+      const pdf = await renderInvoicePdf({ bill, client, matter, settings });
+      const { messageId } = await getMailTransport().send({
+        from: `${settings.firm.name} <${settings.firm.email}>`,
+        to: recipients,
+        subject: subject.trim(),
+        text,
+        attachments: [{ filename: `Invoice_${toFileName(bill.billNumber)}.pdf`, contentType: 'application/pdf', content: pdf }],
+      });
+      await recordReminder(bill, { level, to: recipients, messageId });
+      toast.success(isUsingLocalMailbox() ? 'Reminder saved to the local mailbox.' : `${REMINDER_LEVEL_LABELS[level]} sent.`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Reminder Error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send the reminder.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Send Payment Reminder</DialogTitle>
+          <DialogDescription>For bill {bill.billNumber}{bill.reminders.length > 0 && `, which has had ${bill.reminders.length} reminder(s) already`}.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isUsingLocalMailbox() && (
+            <Alert>
+              <AlertDescription>No mail relay is configured, so the email is downloaded as an .eml file instead of being sent.</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Notice</Label>
+              <Select value={level} onValueChange={(value) => handleLevelChange(value as ReminderLevel)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{REMINDER_LEVELS.map(l => <SelectItem key={l} value={l}>{REMINDER_LEVEL_LABELS[l]}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="reminderTo">To</Label>
+              <Input id="reminderTo" value={to} onChange={(e) => setTo(e.target.value)} placeholder="accounts@client.com, legal@client.com" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reminderSubject">Subject</Label>
+            <Input id="reminderSubject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reminderText">Message</Label>
+            <Textarea id="reminderText" value={text} onChange={(e) => setText(e.target.value)} rows={10} />
+          </div>
+          <p className="text-sm text-gray-500 flex items-center gap-1.5"><Paperclip className="h-4 w-4" />Invoice_{toFileName(bill.billNumber)}.pdf</p>
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={() => onOpenChange(false)} variant="ghost">Back</Button>
+          <Button onClick={handleSend} disabled={isSending || !subject.trim()}>
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send Reminder
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,82 +22,64 @@ import {
   Loader2,
   ChevronsUpDown
 } from 'lucide-react';
-import { database } from '@/lib/firebase';
-import { ref, onValue, update } from 'firebase/database';
-
-// --- PREDEFINED LIST OF PARTICULAR TYPES (SORTED) ---
-const PARTICULAR_TYPES = [
-  "Appearance",
-  "Arbitration Hearing",
-  "Conference",
-  "Conference at BEST office",
-  "Drafting Charges",
-  "Drafting Section 17 Application",
-  "Filing",
-  "Miscellaneous Expenses",
-  "Notary Charges",
-  "Notary Charges Affidavit in Reply",
-  "Settling Reply to Claims",
-  "Written opinion",
-  "Xerox Charges",
-  "Other"
-].sort();
-
+import {
+  useCases,
+  updateCase,
+  calculateTotal,
+  getParticularDisplayName,
+  type Case,
+  type Particular,
+} from '@/lib/casesRepository';
+import { BillLockedError, isLocked } from '@/lib/billStatus';
+import { ConcurrentEditError, mergeEdits } from '@/lib/versionedWrites';
+import { BillStatusBadge } from '@/components/BillStatusBadge';
+import type { Matter } from '@/lib/mattersRepository';
+import { MatterPicker } from '@/components/MatterPicker';
+import { EditConflictAlert } from '@/components/EditConflictAlert';
+import { useClients } from '@/lib/clientsRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { OTHER_PARTICULAR_TYPE, isAppearanceType, particularTypeOptions, rateFor } from '@/lib/rateCard';
 
 // --- INTERFACES ---
-interface Particular {
-  type: string;
-  customType?: string;
-  appearanceDate?: string;
+interface EditableParticular extends Omit<Particular, 'amount'> {
   // MODIFIED: Amount can be a string during input to allow for an empty field
   amount: number | string;
 }
 
-interface CaseData {
-  id: string;
-  billNumber: string;
-  caseNumber:string;
-  caseDescription: string;
-  date: string;
-  totalAmount: number;
-  particulars: Particular[];
+interface EditFormData extends Omit<Case, 'particulars'> {
+  particulars: EditableParticular[];
 }
 
+// What the edit form changes, named for the merge warning
+const EDITABLE_FIELDS: Partial<Record<keyof EditFormData, string>> = {
+  matterId: 'matter',
+  caseNumber: 'case number',
+  caseDescription: 'description',
+  clientId: 'client',
+  date: 'date',
+  particulars: 'particulars',
+};
+
 export function SearchCases() {
   const router = useRouter();
+  const { can } = useAuth();
 
   // --- STATE MANAGEMENT ---
-  const [allCases, setAllCases] = useState<CaseData[]>([]);
+  const { cases: allCases } = useCases();
+  const { clients } = useClients();
+  const { settings } = useSettings();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCase, setSelectedCase] = useState<CaseData | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
   const [popoverOpen, setPopoverOpen] = useState(false);
   const [viewMode, setViewMode] = useState<'SEARCH' | 'EDITING'>('SEARCH');
-  const [editFormData, setEditFormData] = useState<CaseData | null>(null);
+  const [editFormData, setEditFormData] = useState<EditFormData | null>(null);
+  const [editBase, setEditBase] = useState<EditFormData | null>(null); // The bill as it was when editing began
   const [isUpdating, setIsUpdating] = useState(false);
   const [openParticularIndex, setOpenParticularIndex] = useState<number | null>(null);
 
 
-  // --- DATA FETCHING ---
-  useEffect(() => {
-    const casesRef = ref(database, 'cases');
-    const unsubscribe = onValue(casesRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const casesArray = Object.entries(data).map(([id, caseData]: [string, any]) => ({
-          id,
-          ...caseData,
-          particulars: caseData.particulars || [],
-        }));
-        setAllCases(casesArray);
-      } else {
-        setAllCases([]);
-      }
-      setLoading(false);
-    });
-
-    return () => unsubscribe();
-  }, []);
+  const selectedCase = allCases.find(c => c.id === selectedCaseId) ?? null;
+  const canEdit = !!selectedCase && can(isLocked(selectedCase.status) ? 'bills.editIssued' : 'bills.edit');
 
   const filteredCases = allCases.filter(caseItem =>
     searchTerm && (
@@ -122,15 +105,8 @@ export function SearchCases() {
     }
   };
   
-  const getParticularDisplayName = (p: Particular) => {
-    if (p.type === 'Other' && p.customType) {
-        return `Other: ${p.customType}`;
-    }
-    return p.type;
-  };
-
-  const handleCaseSelect = (caseItem: CaseData) => {
-    setSelectedCase(caseItem);
+  const handleCaseSelect = (caseItem: Case) => {
+    setSelectedCaseId(caseItem.id);
     setSearchTerm('');
     setPopoverOpen(false);
   };
@@ -139,49 +115,50 @@ export function SearchCases() {
   const handleEditClick = () => {
     if (!selectedCase) return;
     setEditFormData(JSON.parse(JSON.stringify(selectedCase)));
+    setEditBase(JSON.parse(JSON.stringify(selectedCase)));
     setViewMode('EDITING');
   };
 
   const handleCancelEdit = () => {
     setViewMode('SEARCH');
     setEditFormData(null);
+    setEditBase(null);
+  };
+
+  // Someone else saved the bill while it was being edited
+  const isStaleEdit = !!selectedCase && !!editFormData && selectedCase.version !== editFormData.version;
+
+  const handleMergeEdits = () => {
+    if (!selectedCase || !editFormData || !editBase) return;
+    const latest: EditFormData = JSON.parse(JSON.stringify(selectedCase));
+    const { merged, conflicts } = mergeEdits(editBase, editFormData, latest, Object.keys(EDITABLE_FIELDS) as (keyof EditFormData)[]);
+    setEditFormData(merged);
+    setEditBase(latest);
+    if (conflicts.length > 0) {
+      toast.warning(`You both changed the ${conflicts.map(field => EDITABLE_FIELDS[field]).join(', ')}; your version was kept.`);
+    }
   };
 
   const handleUpdateCase = async () => {
     if (!editFormData) return;
     setIsUpdating(true);
 
-    // MODIFICATION: Sanitize particulars data before saving
-    const sanitizedParticulars = editFormData.particulars.map(p => ({
-        ...p,
-        // Convert amount back to a number, defaulting to 0 if empty/invalid
-        amount: Number(p.amount || 0)
-    }));
-
-    const newTotalAmount = sanitizedParticulars.reduce((sum, p) => sum + p.amount, 0);
-
-    const dataToSave = {
-        ...editFormData,
-        particulars: sanitizedParticulars, // Use the sanitized array for saving
-        totalAmount: newTotalAmount
-    };
-    delete (dataToSave as any).id;
-
     try {
-        const caseRef = ref(database, `cases/${editFormData.id}`);
-        await update(caseRef, dataToSave);
+        await updateCase(editFormData.id, {
+            billNumber: editFormData.billNumber, // Numbers are only allocated when a draft is issued
+            matterId: editFormData.matterId,
+            caseNumber: editFormData.caseNumber,
+            caseDescription: editFormData.caseDescription,
+            clientId: editFormData.clientId,
+            date: editFormData.date,
+            // Convert amount back to a number, defaulting to 0 if empty/invalid
+            particulars: editFormData.particulars.map(p => ({ ...p, amount: Number(p.amount || 0) })),
+        }, editFormData.version);
         toast.success("Case updated successfully!");
-        
-        // MODIFICATION: Update the selected case view with the clean, sanitized data
-        setSelectedCase({
-            ...editFormData,
-            particulars: sanitizedParticulars,
-            totalAmount: newTotalAmount
-        });
         handleCancelEdit();
     } catch (error) {
         console.error("Update Error:", error);
-        toast.error("An error occurred while saving.");
+        toast.error(error instanceof BillLockedError || error instanceof ConcurrentEditError ? error.message : "An error occurred while saving.");
     } finally {
         setIsUpdating(false);
     }
@@ -192,6 +169,18 @@ export function SearchCases() {
     setEditFormData({ ...editFormData, [e.target.name]: e.target.value });
   };
   
+  // Moving a bill to another matter also copies that matter's number and title
+  const handleMatterChange = (matter: Matter) => {
+    if (!editFormData) return;
+    setEditFormData({
+        ...editFormData,
+        matterId: matter.id,
+        caseNumber: matter.matterNumber,
+        caseDescription: matter.title,
+        clientId: matter.clientId ?? editFormData.clientId,
+    });
+  };
+
   const handleParticularChange = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
     if (!editFormData) return;
     const updatedParticulars = [...editFormData.particulars];
@@ -204,9 +193,13 @@ export function SearchCases() {
     if (!editFormData) return;
     const updatedParticulars = [...editFormData.particulars];
     updatedParticulars[index].type = value;
-    if (value !== 'Other') {
+    if (value !== OTHER_PARTICULAR_TYPE) {
         updatedParticulars[index].customType = '';
     }
+    const rate = rateFor(value, settings.rateCard, clients.find(c => c.id === editFormData.clientId));
+    if (rate !== undefined) {
+        updatedParticulars[index].amount = rate;
+    }
     setEditFormData({ ...editFormData, particulars: updatedParticulars });
     setOpenParticularIndex(null);
   };
@@ -229,7 +222,7 @@ export function SearchCases() {
   // --- RENDER LOGIC ---
   if (viewMode === 'EDITING' && editFormData) {
     // Live total calculation correctly handles string and number amounts
-    const totalAmount = editFormData.particulars.reduce((sum, p) => sum + Number(p.amount || 0), 0);
+    const totalAmount = calculateTotal(editFormData.particulars);
     return (
         <div className="w-full max-w-4xl mx-auto p-4 md:p-0">
             <Card className="bg-white shadow-2xl rounded-lg overflow-hidden">
@@ -241,18 +234,27 @@ export function SearchCases() {
                             <span className="hidden sm:inline">Cancel</span>
                         </Button>
                     </div>
-                    <CardDescription className="mt-1">Update details for Bill No: {editFormData.billNumber}</CardDescription>
+                    <CardDescription className="mt-1">Update details for {editFormData.billNumber ? `Bill No: ${editFormData.billNumber}` : 'this draft'}</CardDescription>
                 </CardHeader>
                 <CardContent className="p-4 sm:p-6 space-y-6">
+                    {isStaleEdit && (
+                        <EditConflictAlert
+                            label={selectedCase.billNumber ? `Bill ${selectedCase.billNumber}` : 'This draft'}
+                            onMerge={handleMergeEdits}
+                            onReload={handleEditClick}
+                        />
+                    )}
                     <div className="space-y-4">
-                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <Input name="billNumber" value={editFormData.billNumber} onChange={handleFormChange} placeholder="Bill Number" />
-                            <Input name="caseNumber" value={editFormData.caseNumber} onChange={handleFormChange} placeholder="Case Number" />
-                            <Input type="date" name="date" value={formatDateForInput(editFormData.date)} onChange={handleFormChange} />
+                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <Input name="billNumber" value={editFormData.billNumber} placeholder="Numbered when issued" disabled />
+                            <Input type="date" name="date" value={formatDateForInput(editFormData.date)} onChange={handleFormChange} disabled={isLocked(editFormData.status)} />
                         </div>
-                        <Input name="caseDescription" value={editFormData.caseDescription} onChange={handleFormChange} placeholder="Case Description" />
+                        <MatterPicker value={editFormData.matterId} onChange={handleMatterChange} />
                     </div>
 
+                    {isLocked(editFormData.status) ? (
+                        <p className="text-sm text-gray-500">This bill has been issued, so only the matter it is filed under can be changed.</p>
+                    ) : (
                     <Card className="border">
                         <CardHeader><CardTitle className="text-lg">Particulars</CardTitle></CardHeader>
                         <CardContent className="space-y-6">
@@ -266,26 +268,27 @@ export function SearchCases() {
                                         <Popover open={openParticularIndex === index} onOpenChange={(isOpen) => setOpenParticularIndex(isOpen ? index : null)}>
                                             <PopoverTrigger asChild><Button variant="outline" role="combobox" className="w-full justify-between">{p.type || "Select type..."}<ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" /></Button></PopoverTrigger>
                                             <PopoverContent className="w-[--radix-popover-trigger-width] p-0"><Command><CommandInput placeholder="Search type..." /><CommandEmpty>No type found.</CommandEmpty><CommandList><CommandGroup>
-                                            {PARTICULAR_TYPES.map(type => (<CommandItem key={type} value={type} onSelect={() => handleParticularTypeSelect(index, type)}>{type}</CommandItem>))}</CommandGroup></CommandList></Command></PopoverContent>
+                                            {particularTypeOptions(settings.rateCard).map(type => (<CommandItem key={type} value={type} onSelect={() => handleParticularTypeSelect(index, type)}>{type}</CommandItem>))}</CommandGroup></CommandList></Command></PopoverContent>
                                         </Popover>
                                         <div className="relative">
                                             <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
                                             <Input name="amount" type="number" value={p.amount} onChange={(e) => handleParticularChange(index, e)} placeholder="Amount" className="pl-9 w-full" />
                                         </div>
                                     </div>
-                                    {p.type === 'Other' && <Input name="customType" value={p.customType || ''} onChange={(e) => handleParticularChange(index, e)} placeholder="Enter custom type" />}
-                                    {(p.type.toLowerCase().includes('appearance') || p.type.toLowerCase().includes('hearing')) && <Input type="date" name="appearanceDate" value={formatDateForInput(p.appearanceDate || '')} onChange={(e) => handleParticularChange(index, e)} />}
+                                    {p.type === OTHER_PARTICULAR_TYPE && <Input name="customType" value={p.customType || ''} onChange={(e) => handleParticularChange(index, e)} placeholder="Enter custom type" />}
+                                    {isAppearanceType(p.type, settings.rateCard) && <Input type="date" name="appearanceDate" value={formatDateForInput(p.appearanceDate || '')} onChange={(e) => handleParticularChange(index, e)} />}
                                 </div>
                             ))}
                              <Button variant="outline" onClick={handleAddParticular} className="w-full md:w-auto"><Plus className="mr-2 h-4 w-4" /> Add Particular</Button>
                         </CardContent>
                     </Card>
+                    )}
 
                     <div className="flex flex-col sm:flex-row justify-between items-center gap-4 pt-4 border-t">
-                         <div className="text-xl sm:text-2xl font-bold text-gray-800 text-center sm:text-right w-full sm:w-auto">Total: {formatCurrency(totalAmount)}</div>
+                         <div className="text-xl sm:text-2xl font-bold text-gray-800 text-center sm:text-right w-full sm:w-auto">{editFormData.tax ? 'Taxable Value' : 'Total'}: {formatCurrency(totalAmount)}</div>
                         <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
                              <Button variant="outline" onClick={handleCancelEdit} className="w-full">Cancel</Button>
-                             <Button onClick={handleUpdateCase} disabled={isUpdating} className="bg-[#CAA068] hover:bg-[#B8A799] text-white w-full">{isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Changes</Button>
+                             <Button onClick={handleUpdateCase} disabled={isUpdating || isStaleEdit} className="bg-[#CAA068] hover:bg-[#B8A799] text-white w-full">{isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Changes</Button>
                         </div>
                     </div>
                 </CardContent>
@@ -303,21 +306,21 @@ export function SearchCases() {
             <CardHeader className="bg-[#2B2F32] text-white"><CardTitle className="text-2xl flex items-center gap-2"><Search className="h-6 w-6" /> Find Cases</CardTitle><CardDescription className="text-[#B8A799]">Search by bill number, case number, or case description</CardDescription></CardHeader>
             <CardContent className="p-6">
                 <Popover open={popoverOpen} onOpenChange={setPopoverOpen}>
-                <PopoverTrigger asChild><Button variant="outline" role="combobox" className="w-full justify-between h-12">{selectedCase ? `${selectedCase.billNumber} - ${selectedCase.caseDescription}` : "Click to search cases..."}<Search className="ml-2 h-4 w-4 shrink-0 opacity-50" /></Button></PopoverTrigger>
+                <PopoverTrigger asChild><Button variant="outline" role="combobox" className="w-full justify-between h-12">{selectedCase ? `${selectedCase.billNumber || 'Draft'} - ${selectedCase.caseDescription}` : "Click to search cases..."}<Search className="ml-2 h-4 w-4 shrink-0 opacity-50" /></Button></PopoverTrigger>
                 <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start"><Command><CommandInput placeholder="Type to search..." value={searchTerm} onValueChange={setSearchTerm}/><CommandList><CommandEmpty>No cases found.</CommandEmpty><CommandGroup>
-                    {filteredCases.map((caseItem) => (<CommandItem key={caseItem.id} value={`${caseItem.billNumber} ${caseItem.caseNumber} ${caseItem.caseDescription}`} onSelect={() => handleCaseSelect(caseItem)}>{caseItem.billNumber} - {caseItem.caseDescription}</CommandItem>))}</CommandGroup></CommandList></Command></PopoverContent>
+                    {filteredCases.map((caseItem) => (<CommandItem key={caseItem.id} value={`${caseItem.billNumber} ${caseItem.caseNumber} ${caseItem.caseDescription}`} onSelect={() => handleCaseSelect(caseItem)}>{caseItem.billNumber || 'Draft'} - {caseItem.caseDescription}</CommandItem>))}</CommandGroup></CommandList></Command></PopoverContent>
                 </Popover>
             </CardContent>
         </Card>
         {selectedCase && (
             <Card className="bg-white shadow-xl">
-            <CardHeader className="bg-gradient-to-r from-[#CAA068] to-[#B8A799] text-white"><CardTitle className="text-2xl flex items-center justify-between"><div className="flex items-center gap-2"><FileText className="h-6 w-6" /> Case Details</div><Button onClick={handleEditClick} className="bg-white/20 hover:bg-white/30 text-white"><Edit className="h-4 w-4 mr-2" /> Edit Case Details</Button></CardTitle><CardDescription className="text-white/80">Complete information for the selected case</CardDescription></CardHeader>
+            <CardHeader className="bg-gradient-to-r from-[#CAA068] to-[#B8A799] text-white"><CardTitle className="text-2xl flex items-center justify-between"><div className="flex items-center gap-2"><FileText className="h-6 w-6" /> Case Details</div>{canEdit && <Button onClick={handleEditClick} className="bg-white/20 hover:bg-white/30 text-white"><Edit className="h-4 w-4 mr-2" /> Edit Case Details</Button>}</CardTitle><CardDescription className="text-white/80">Complete information for the selected case</CardDescription></CardHeader>
             <CardContent className="p-6 space-y-6">
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6"><div><p className="text-sm font-medium text-[#2B2F32]/60 mb-1">Case Description</p><p className="text-[#2B2F32] font-medium text-lg">{selectedCase.caseDescription}</p></div><div className="space-y-2"><div className="flex items-center gap-2 flex-wrap"><Badge variant="outline">Bill No: {selectedCase.billNumber}</Badge><Badge variant="secondary">Case No: {selectedCase.caseNumber}</Badge></div><div className="flex items-center gap-2 text-sm text-[#2B2F32]/60"><Calendar className="h-4 w-4" /> Date: {new Date(selectedCase.date).toLocaleDateString('en-GB')}</div></div></div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6"><div><p className="text-sm font-medium text-[#2B2F32]/60 mb-1">Case Description</p><p className="text-[#2B2F32] font-medium text-lg">{selectedCase.caseDescription}</p></div><div className="space-y-2"><div className="flex items-center gap-2 flex-wrap">{selectedCase.billNumber && <Badge variant="outline">Bill No: {selectedCase.billNumber}</Badge>}<BillStatusBadge status={selectedCase.status} /><Badge variant="secondary">Case No: {selectedCase.caseNumber}</Badge></div><div className="flex items-center gap-2 text-sm text-[#2B2F32]/60"><Calendar className="h-4 w-4" /> Date: {new Date(selectedCase.date).toLocaleDateString('en-GB')}</div></div></div>
                 <div className="mt-6 space-y-4">
                     <div className="flex flex-col sm:flex-row justify-between items-center gap-2">
                         <h3 className="text-lg font-semibold text-[#2B2F32]">Particulars ({selectedCase.particulars?.length || 0})</h3>
-                        <Button variant="outline" size="sm" onClick={handleEditClick}><Plus className="h-4 w-4 mr-2" /> Add / Edit Particulars</Button>
+                        {canEdit && !isLocked(selectedCase.status) && <Button variant="outline" size="sm" onClick={handleEditClick}><Plus className="h-4 w-4 mr-2" /> Add / Edit Particulars</Button>}
                     </div>
                 {selectedCase.particulars && selectedCase.particulars.length > 0 ? (
                     <div className="space-y-3">
@@ -325,12 +328,13 @@ export function SearchCases() {
                         <Card key={index}><CardContent className="p-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
                             <div className="flex-grow">
                                 <p className="font-medium">{getParticularDisplayName(p)}</p>
-                                {p.type.toLowerCase().includes('appearance') && p.appearanceDate && <p className="text-sm text-muted-foreground">Appearance Date: {new Date(p.appearanceDate).toLocaleDateString('en-GB')}</p>}
+                                {p.appearanceDate && <p className="text-sm text-muted-foreground">Appearance Date: {new Date(p.appearanceDate).toLocaleDateString('en-GB')}</p>}
                             </div>
-                            <Badge variant="secondary" className="text-base mt-2 sm:mt-0">{formatCurrency(p.amount as number)}</Badge>
+                            <Badge variant="secondary" className="text-base mt-2 sm:mt-0">{formatCurrency(p.amount)}</Badge>
                         </CardContent></Card>
                         ))}
                         <Card className="border-[#CAA068] bg-[#CAA068]/5"><CardContent className="p-4 flex justify-between items-center"><span className="text-lg font-bold text-[#2B2F32]">Total Amount:</span><Badge className="text-xl px-4 py-2 bg-[#CAA068] text-white">{formatCurrency(selectedCase.totalAmount)}</Badge></CardContent></Card>
+                        <div className="flex justify-end gap-4 text-sm font-medium"><span className="text-green-700">Paid: {formatCurrency(selectedCase.paidAmount)}</span><span className="text-red-700">Due: {formatCurrency(selectedCase.remainingAmount)}</span></div>
                     </div>
                 ) : (<Card className="border-dashed"><CardContent className="p-8 text-center text-muted-foreground">No particulars found. Click the button above to add one.</CardContent></Card>)}
                 </div>
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+import { Loader2, Paperclip, Send } from 'lucide-react';
+import type { Client } from '@/lib/clientsRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { composeStatementEmail, getReminderRecipients } from '@/lib/reminders';
+import { getMailTransport, isUsingLocalMailbox } from '@/lib/mailTransports';
+
+interface StatementEmailDialogProps {
+  client: Client;
+  period: string;
+  closingBalance: number;
+  /** Name of the attached PDF, without the extension. */
+  fileName: string;
+  renderPdf: () => Promise<Uint8Array>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Emails a client their statement of account, with the statement PDF attached, through the same mail transport as reminders. */
+export function StatementEmailDialog({ client, period, closingBalance, fileName, renderPdf, open, onOpenChange }: StatementEmailDialogProps) {
+  const { settings } = useSettings();
+  const [to, setTo] = useState('');
+  const [subject, setSubject] = useState('');
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const composed = composeStatementEmail(client, settings.firm, period, closingBalance);
+    setTo(getReminderRecipients(client).join(', '));
+    setSubject(composed.subject);
+    setText(composed.text);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleSend = async () => {
+    const recipients = to.split(',').map(address => address.trim()).filter(Boolean);
+    if (recipients.length === 0) {
+      toast.error('Enter at least one email address.');
+      return;
+    }
+    if (!settings.firm.email) {
+      toast.error("Add the firm's email address in Firm Settings before sending statements.");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const pdf = await renderPdf();
+      await getMailTransport().send({
+        from: `${settings.firm.name} <${settings.firm.email}>`,
+        to: recipients,
+        subject: subject.trim(),
+        text,
+        attachments: [{ filename: `${fileName}.pdf`, contentType: 'application/pdf', content: pdf }],
+      });
+      toast.success(isUsingLocalMailbox() ? 'Statement saved to the local mailbox.' : 'Statement sent.');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Statement Email Error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send the statement.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Email Statement</DialogTitle>
+          <DialogDescription>Statement of account for {client.name}, {period}.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isUsingLocalMailbox() && (
+            <Alert>
+              <AlertDescription>No mail relay is configured, so the email is downloaded as an .eml file instead of being sent.</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="statementEmailTo">To</Label>
+            <Input id="statementEmailTo" value={to} onChange={(e) => setTo(e.target.value)} placeholder="accounts@client.com, legal@client.com" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statementEmailSubject">Subject</Label>
+            <Input id="statementEmailSubject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statementEmailText">Message</Label>
+            <Textarea id="statementEmailText" value={text} onChange={(e) => setText(e.target.value)} rows={10} />
+          </div>
+          <p className="text-sm text-gray-500 flex items-center gap-1.5"><Paperclip className="h-4 w-4" />{fileName}.pdf</p>
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={() => onOpenChange(false)} variant="ghost">Back</Button>
+          <Button onClick={handleSend} disabled={isSending || !subject.trim()}>
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send Statement
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
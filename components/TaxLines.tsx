@@ -0,0 +1,42 @@
+'use client';
+
+import { calculateInvoiceTotal, type Tax } from '@/lib/casesRepository';
+
+interface TaxLinesProps {
+  taxableAmount: number;
+  tax?: Pick<Tax, 'rate' | 'cgst' | 'sgst' | 'igst' | 'reverseCharge'>;
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 2, maximumFractionDigits: 2,
+}).format(amount || 0);
+
+/** Taxable value, GST split and bill total, as printed at the foot of a bill. */
+export function TaxLines({ taxableAmount, tax }: TaxLinesProps) {
+  const rows: [string, number][] = [['Taxable Value', taxableAmount]];
+  if (tax) {
+    if (tax.igst > 0 || tax.cgst + tax.sgst === 0) {
+      rows.push([`IGST @ ${tax.rate}%`, tax.igst]);
+    } else {
+      rows.push([`CGST @ ${tax.rate / 2}%`, tax.cgst], [`SGST @ ${tax.rate / 2}%`, tax.sgst]);
+    }
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      {rows.map(([label, amount]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-gray-600">{label}</span>
+          <span className="font-mono">{formatCurrency(amount)}</span>
+        </div>
+      ))}
+      {tax?.reverseCharge && (
+        <p className="text-xs text-gray-500">Tax payable on reverse charge basis: Yes. GST is paid by the recipient and is not included in the total.</p>
+      )}
+      <div className="flex justify-between border-t pt-1 font-semibold">
+        <span>Total</span>
+        <span className="font-mono">{formatCurrency(calculateInvoiceTotal(taxableAmount, tax))}</span>
+      </div>
+    </div>
+  );
+}
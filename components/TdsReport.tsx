@@ -0,0 +1,163 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Check, Loader2, Receipt } from 'lucide-react';
+import { useCases, recordTdsCertificate } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { FINANCIAL_QUARTERS, getFinancialYear, type FinancialQuarter } from '@/lib/financialYear';
+import { collectTdsEntries, summarizeTdsQuarter, type TdsEntry } from '@/lib/tds';
+
+const QUARTER_MONTHS: Record<FinancialQuarter, string> = {
+  Q1: 'Apr - Jun',
+  Q2: 'Jul - Sep',
+  Q3: 'Oct - Dec',
+  Q4: 'Jan - Mar',
+};
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+const entryKey = (entry: TdsEntry) => `${entry.bill.id}-${entry.paymentIndex}`;
+
+export function TdsReport() {
+  const { can } = useAuth();
+  const { cases, loading } = useCases();
+  const { clients } = useClients();
+  const [selectedYear, setSelectedYear] = useState(getFinancialYear(new Date()));
+  const [selectedQuarter, setSelectedQuarter] = useState<FinancialQuarter | 'all'>('all');
+  const [certificateDrafts, setCertificateDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const clientsById = useMemo(() => new Map(clients.map(c => [c.id, c])), [clients]);
+  const entries = useMemo(() => collectTdsEntries(cases), [cases]);
+
+  const yearOptions = Array.from(new Set([getFinancialYear(new Date()), ...entries.map(e => e.financialYear)]))
+    .sort((a, b) => b.localeCompare(a));
+
+  const quarters = useMemo(() => {
+    const yearEntries = entries.filter(e => e.financialYear === selectedYear);
+    return FINANCIAL_QUARTERS.map(q => summarizeTdsQuarter(q, yearEntries.filter(e => e.quarter === q)));
+  }, [entries, selectedYear]);
+
+  const visibleEntries = quarters
+    .filter(q => selectedQuarter === 'all' || q.quarter === selectedQuarter)
+    .flatMap(q => q.entries);
+
+  const handleSaveCertificate = async (entry: TdsEntry) => {
+    const key = entryKey(entry);
+    setSavingKey(key);
+    try {
+      await recordTdsCertificate(entry.bill, entry.paymentIndex, certificateDrafts[key] ?? '');
+      toast.success('Form 16A reference saved.');
+    } catch (error) {
+      console.error('Certificate Error:', error);
+      toast.error('Failed to save Form 16A reference.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading TDS...</div>;
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Receipt />TDS Receivable</CardTitle>
+            <CardDescription className="text-[#2B2F32]/60 mt-1">Tax deducted by clients, by quarter, for matching against Form 26AS.</CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={selectedYear} onValueChange={setSelectedYear}>
+              <SelectTrigger className="w-full sm:w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>{yearOptions.map(fy => <SelectItem key={fy} value={fy}>FY {fy}</SelectItem>)}</SelectContent>
+            </Select>
+            <Select value={selectedQuarter} onValueChange={(value) => setSelectedQuarter(value as FinancialQuarter | 'all')}>
+              <SelectTrigger className="w-full sm:w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All quarters</SelectItem>
+                {FINANCIAL_QUARTERS.map(q => <SelectItem key={q} value={q}>{q} ({QUARTER_MONTHS[q]})</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Quarter Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {quarters.map(q => (
+            <button
+              key={q.quarter}
+              onClick={() => setSelectedQuarter(q.quarter)}
+              className={`p-4 rounded-lg border text-left transition-colors ${selectedQuarter === q.quarter ? 'border-[#CAA068] bg-[#CAA068]/10' : 'border-gray-200 bg-gray-50 hover:bg-[#CAA068]/5'}`}
+            >
+              <p className="text-sm text-gray-500">{q.quarter} • {QUARTER_MONTHS[q.quarter]}</p>
+              <p className="text-xl font-bold text-[#2B2F32]">{formatCurrency(q.tdsAmount)}</p>
+              <p className="text-xs text-gray-500">on {formatCurrency(q.grossAmount)} gross</p>
+              {q.pendingCertificates > 0 && <p className="text-xs text-red-700 font-medium mt-1">{formatCurrency(q.pendingCertificates)} awaiting Form 16A</p>}
+            </button>
+          ))}
+        </div>
+
+        {/* Deductions */}
+        <div className="space-y-3">
+          {visibleEntries.length > 0 ? visibleEntries.map(entry => {
+            const key = entryKey(entry);
+            const client = clientsById.get(entry.bill.clientId ?? '');
+            return (
+              <div key={key} className="p-4 bg-gray-50 border border-gray-200 rounded-lg flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-semibold text-[#2B2F32]">{client?.name ?? 'No client'}</p>
+                    {client?.tan ? <Badge variant="outline" className="text-xs">TAN: {client.tan}</Badge> : <Badge variant="outline" className="text-xs text-red-700">TAN missing</Badge>}
+                    <Badge variant="secondary" className="text-xs">u/s {entry.tds.section}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">Bill {entry.bill.billNumber} • Paid {formatDate(entry.payment.date)} • {entry.quarter}</p>
+                </div>
+                <div className="flex items-center gap-6">
+                  <div className="text-right text-sm">
+                    <div className="font-bold text-lg text-[#CAA068]">{formatCurrency(entry.tds.amount)}</div>
+                    <div className="text-gray-500">of {formatCurrency(entry.payment.amount)}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="w-44"
+                      placeholder="Form 16A ref"
+                      value={certificateDrafts[key] ?? entry.tds.certificateNumber ?? ''}
+                      disabled={!can('payments.record')}
+                      onChange={(e) => setCertificateDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      disabled={savingKey === key || certificateDrafts[key] === undefined}
+                      onClick={() => handleSaveCertificate(entry)}
+                    >
+                      {savingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          }) : (
+            <div className="text-center py-12 text-gray-500"><p>No TDS deducted in this period.</p></div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
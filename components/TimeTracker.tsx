@@ -0,0 +1,426 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Edit, FilePlus, Loader2, Play, Plus, Search, Square, Timer, Trash2 } from 'lucide-react';
+import { MatterPicker } from '@/components/MatterPicker';
+import { useCases } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { useMatters } from '@/lib/mattersRepository';
+import { useSettings } from '@/lib/settingsRepository';
+import { currentBillOf } from '@/lib/workLogRepository';
+import {
+  useTimeEntries,
+  createTimeEntry,
+  updateTimeEntry,
+  deleteTimeEntry,
+  startTimer,
+  stopTimer,
+  elapsedMinutes,
+  formatDuration,
+  hourlyRateFor,
+  toHourlyParticular,
+  timeEntrySchema,
+  type TimeEntry,
+} from '@/lib/timeEntriesRepository';
+import { toISODate } from '@/lib/dates';
+import { particularTypeOptions } from '@/lib/rateCard';
+
+type BilledFilter = 'unbilled' | 'billed' | 'all';
+
+// Time is entered in hours and stored in minutes
+const entryFormSchema = timeEntrySchema
+  .pick({ matterId: true, feeEarnerId: true, activity: true, date: true, description: true })
+  .extend({ hours: z.number({ invalid_type_error: 'Enter the hours spent' }).positive('Enter the hours spent') });
+
+type EntryFormData = z.input<typeof entryFormSchema>;
+
+const timerSchema = entryFormSchema.omit({ date: true, hours: true });
+
+type TimerFormData = z.input<typeof timerSchema>;
+
+const EMPTY_ENTRY: EntryFormData = {
+  matterId: '',
+  feeEarnerId: '',
+  activity: '',
+  date: toISODate(new Date()),
+  description: '',
+  hours: 0,
+};
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+export function TimeTracker() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { timeEntries, loading } = useTimeEntries();
+  const { cases, loading: casesLoading } = useCases();
+  const { matters } = useMatters();
+  const { clients } = useClients();
+  const { settings } = useSettings();
+  const [now, setNow] = useState(() => new Date());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [billedFilter, setBilledFilter] = useState<BilledFilter>('unbilled');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingEntry, setEditingEntry] = useState<TimeEntry | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [stoppingId, setStoppingId] = useState<string | null>(null);
+
+  const entryForm = useForm<EntryFormData>({ resolver: zodResolver(entryFormSchema), defaultValues: EMPTY_ENTRY });
+  const timerForm = useForm<TimerFormData>({
+    resolver: zodResolver(timerSchema),
+    defaultValues: { matterId: '', feeEarnerId: '', activity: '', description: '' },
+  });
+
+  const activeFeeEarners = settings.feeEarners.filter(f => f.active);
+  const running = timeEntries.filter(e => e.startedAt);
+
+  // Running timers are redrawn every half minute
+  useEffect(() => {
+    if (running.length === 0) return;
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, [running.length]);
+
+  const rows = useMemo(() => {
+    const casesById = new Map(cases.map(c => [c.id, c]));
+    const mattersById = new Map(matters.map(m => [m.id, m]));
+    const feeEarnersById = new Map(settings.feeEarners.map(f => [f.id, f]));
+    const term = searchTerm.toLowerCase();
+    return timeEntries
+      .filter(e => !e.startedAt)
+      .map(entry => {
+        const matter = mattersById.get(entry.matterId);
+        const feeEarner = feeEarnersById.get(entry.feeEarnerId);
+        const rate = feeEarner ? hourlyRateFor(feeEarner, clients.find(c => c.id === matter?.clientId)) : 0;
+        return { entry, matter, feeEarner, rate, value: toHourlyParticular(entry, rate).amount, bill: currentBillOf(entry, casesById) };
+      })
+      .filter(({ bill }) => billedFilter === 'all' || (billedFilter === 'billed') === !!bill)
+      .filter(({ entry, matter, feeEarner }) => !term ||
+        matter?.matterNumber.toLowerCase().includes(term) ||
+        matter?.title.toLowerCase().includes(term) ||
+        feeEarner?.name.toLowerCase().includes(term) ||
+        entry.activity.toLowerCase().includes(term) ||
+        entry.description.toLowerCase().includes(term));
+  }, [timeEntries, cases, matters, clients, settings.feeEarners, searchTerm, billedFilter]);
+
+  const selectedRows = rows.filter(r => selectedIds.includes(r.entry.id) && !r.bill);
+  const selectedMatterIds = new Set(selectedRows.map(r => r.entry.matterId));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(current => (checked ? [...current, id] : current.filter(x => x !== id)));
+  };
+
+  const handleBillSelected = () => {
+    if (selectedMatterIds.size !== 1) {
+      toast.error('Select time on a single matter to bill it together.');
+      return;
+    }
+    router.push(`/case-entry?matter=${[...selectedMatterIds][0]}&time=${selectedRows.map(r => r.entry.id).join(',')}`);
+  };
+
+  // --- TIMER HANDLERS ---
+  const onStartTimer = async (data: TimerFormData) => {
+    try {
+      await startTimer(data);
+      timerForm.reset({ ...data, description: '' });
+      toast.success('Timer started.');
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      toast.error('Failed to start timer');
+    }
+  };
+
+  const handleStopTimer = async (entry: TimeEntry) => {
+    setStoppingId(entry.id);
+    try {
+      await stopTimer(entry);
+      toast.success(`Timer stopped at ${formatDuration(elapsedMinutes(entry))}.`);
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast.error('Failed to stop timer');
+    } finally {
+      setStoppingId(null);
+    }
+  };
+
+  // --- FORM HANDLERS ---
+  const openForm = (entry: TimeEntry | null) => {
+    setEditingEntry(entry);
+    entryForm.reset(entry ? { ...entry, hours: Math.round((entry.minutes / 60) * 100) / 100 } : EMPTY_ENTRY);
+    setIsFormOpen(true);
+  };
+
+  const onSubmit = async (data: EntryFormData) => {
+    const { hours, ...rest } = data;
+    const input = { ...rest, minutes: Math.round(hours * 60) };
+    try {
+      if (editingEntry) {
+        await updateTimeEntry(editingEntry.id, input);
+        toast.success('Time updated.');
+      } else {
+        await createTimeEntry(input);
+        toast.success('Time recorded.');
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error saving time:', error);
+      toast.error('Failed to save time');
+    }
+  };
+
+  const handleDelete = async (entry: TimeEntry) => {
+    try {
+      await deleteTimeEntry(entry.id);
+      setSelectedIds(current => current.filter(id => id !== entry.id));
+      toast.success('Time removed.');
+    } catch (error) {
+      console.error('Error deleting time:', error);
+      toast.error('Failed to remove time');
+    }
+  };
+
+  // --- RENDER LOGIC ---
+  if (loading || casesLoading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading time...</div>;
+  }
+
+  const feeEarnerSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger><SelectValue placeholder="Fee earner" /></SelectTrigger>
+      <SelectContent>{activeFeeEarners.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}</SelectContent>
+    </Select>
+  );
+
+  const activitySelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger><SelectValue placeholder="Activity" /></SelectTrigger>
+      {/* Time is billed under the particular type of the activity */}
+      <SelectContent>{particularTypeOptions(settings.rateCard, false).map(a => <SelectItem key={a} value={a}>{a}</SelectItem>)}</SelectContent>
+    </Select>
+  );
+
+  const matterLabel = (matterId: string) => matters.find(m => m.id === matterId)?.matterNumber ?? 'Deleted matter';
+  const feeEarnerName = (feeEarnerId: string) => settings.feeEarners.find(f => f.id === feeEarnerId)?.name ?? 'Unknown';
+  const timerErrors = timerForm.formState.errors;
+  const errors = entryForm.formState.errors;
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Timer />Time</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">Time billed by the hour, at the fee earner&apos;s rate or the rate agreed with the client.</CardDescription>
+            </div>
+            {can('time.record') && <Button onClick={() => openForm(null)} variant="outline"><Plus className="h-4 w-4 mr-2" />Add Time</Button>}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {activeFeeEarners.length === 0 && (
+            <p className="text-sm text-gray-500">Add fee earners and their hourly rates in Settings to start recording time.</p>
+          )}
+
+          {/* --- TIMERS --- */}
+          {can('time.record') && activeFeeEarners.length > 0 && (
+            <form onSubmit={timerForm.handleSubmit(onStartTimer)} className="bg-gray-50 p-4 rounded-lg border grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_2fr_auto] gap-3 items-start">
+              <div>
+                <Controller name="matterId" control={timerForm.control} render={({ field }) => (
+                  <MatterPicker value={field.value} onChange={(matter) => field.onChange(matter.id)} />
+                )} />
+                {timerErrors.matterId && <p className="text-red-500 text-sm">{timerErrors.matterId.message}</p>}
+              </div>
+              <div>
+                <Controller name="feeEarnerId" control={timerForm.control} render={({ field }) => feeEarnerSelect(field.value, field.onChange)} />
+                {timerErrors.feeEarnerId && <p className="text-red-500 text-sm">{timerErrors.feeEarnerId.message}</p>}
+              </div>
+              <div>
+                <Controller name="activity" control={timerForm.control} render={({ field }) => activitySelect(field.value, field.onChange)} />
+                {timerErrors.activity && <p className="text-red-500 text-sm">{timerErrors.activity.message}</p>}
+              </div>
+              <Input {...timerForm.register('description')} placeholder="What are you working on?" />
+              <Button type="submit" disabled={timerForm.formState.isSubmitting} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+                <Play className="h-4 w-4 mr-2" />Start Timer
+              </Button>
+            </form>
+          )}
+          {running.length > 0 && (
+            <div className="space-y-2">
+              {running.map(entry => (
+                <div key={entry.id} className="flex justify-between items-center p-3 bg-[#CAA068]/10 border border-[#CAA068] rounded-md text-sm gap-4">
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <Badge variant="outline" className="text-xs">Case No: {matterLabel(entry.matterId)}</Badge>
+                    <span className="font-medium">{feeEarnerName(entry.feeEarnerId)}</span>
+                    <span>{entry.activity}</span>
+                    {entry.description && <span className="text-gray-500">{entry.description}</span>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono font-semibold text-lg">{formatDuration(elapsedMinutes(entry, now))}</span>
+                    {can('time.record') && (
+                      <Button size="sm" variant="destructive" onClick={() => handleStopTimer(entry)} disabled={stoppingId === entry.id}>
+                        {stoppingId === entry.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Square className="h-4 w-4 mr-1" />}Stop
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* --- ENTRIES --- */}
+          <div className="flex flex-col md:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input placeholder="Search matter, fee earner or activity..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-10" />
+            </div>
+            <Select value={billedFilter} onValueChange={(value) => setBilledFilter(value as BilledFilter)}>
+              <SelectTrigger className="md:w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unbilled">Unbilled time</SelectItem>
+                <SelectItem value="billed">Billed time</SelectItem>
+                <SelectItem value="all">All time</SelectItem>
+              </SelectContent>
+            </Select>
+            {can('bills.create') && (
+              <Button onClick={handleBillSelected} disabled={selectedRows.length === 0} className="bg-[#CAA068] hover:bg-[#B8A799] text-white">
+                <FilePlus className="h-4 w-4 mr-2" />Bill Selected ({selectedRows.length})
+              </Button>
+            )}
+          </div>
+          {selectedMatterIds.size > 1 && <p className="text-sm text-red-600">The selected time is on {selectedMatterIds.size} matters; a bill can only cover one.</p>}
+
+          {rows.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Date</TableHead>
+                  <TableHead>Matter</TableHead>
+                  <TableHead>Fee Earner</TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ entry, matter, feeEarner, rate, value, bill }) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      {!bill && <Checkbox checked={selectedIds.includes(entry.id)} onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)} />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.date)}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{matter?.matterNumber ?? 'Deleted matter'}</div>
+                      {entry.description && <div className="text-xs text-gray-500">{entry.description}</div>}
+                    </TableCell>
+                    <TableCell>{feeEarner?.name ?? 'Unknown'}</TableCell>
+                    <TableCell>{entry.activity}</TableCell>
+                    <TableCell className="text-right font-mono">{formatDuration(entry.minutes)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(rate)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(value)}</TableCell>
+                    <TableCell className="text-right">
+                      {bill ? (
+                        <Badge variant="secondary" className="text-xs cursor-pointer" onClick={() => router.push(`/bill-list?bill=${bill.id}`)}>
+                          {bill.billNumber ? `Bill No: ${bill.billNumber}` : 'Draft bill'}
+                        </Badge>
+                      ) : can('time.record') && (
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => openForm(entry)}><Edit className="h-4 w-4" /></Button>
+                          <Button variant="ghost" size="icon" className="text-red-500 hover:bg-red-100" onClick={() => handleDelete(entry)}><Trash2 className="h-4 w-4" /></Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12 text-gray-500"><p>{timeEntries.length === 0 ? 'No time recorded yet.' : billedFilter === 'unbilled' ? 'No unbilled time.' : 'No time found for your search.'}</p></div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* --- ADD / EDIT TIME DIALOG --- */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <form onSubmit={entryForm.handleSubmit(onSubmit)} className="space-y-6">
+            <DialogHeader>
+              <DialogTitle className="text-2xl text-[#2B2F32]">{editingEntry ? 'Edit Time' : 'Add Time'}</DialogTitle>
+              <DialogDescription>Time spent without a timer running, in hours (1.5 is an hour and a half).</DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label>Matter *</Label>
+                <Controller name="matterId" control={entryForm.control} render={({ field }) => (
+                  <MatterPicker value={field.value} onChange={(matter) => field.onChange(matter.id)} />
+                )} />
+                {errors.matterId && <p className="text-red-500 text-sm">{errors.matterId.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label>Fee Earner *</Label>
+                <Controller name="feeEarnerId" control={entryForm.control} render={({ field }) => feeEarnerSelect(field.value, field.onChange)} />
+                {errors.feeEarnerId && <p className="text-red-500 text-sm">{errors.feeEarnerId.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label>Activity *</Label>
+                <Controller name="activity" control={entryForm.control} render={({ field }) => activitySelect(field.value, field.onChange)} />
+                {errors.activity && <p className="text-red-500 text-sm">{errors.activity.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timeDate">Date *</Label>
+                <Input id="timeDate" type="date" {...entryForm.register('date')} />
+                {errors.date && <p className="text-red-500 text-sm">{errors.date.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timeHours">Hours *</Label>
+                <Input id="timeHours" type="number" step="0.25" {...entryForm.register('hours', { valueAsNumber: true })} />
+                {errors.hours && <p className="text-red-500 text-sm">{errors.hours.message}</p>}
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="timeDescription">Description</Label>
+                <Input id="timeDescription" {...entryForm.register('description')} placeholder="e.g. Conference with client on settlement terms" />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" onClick={() => setIsFormOpen(false)} variant="ghost">Cancel</Button>
+              <Button type="submit" disabled={entryForm.formState.isSubmitting}>
+                {entryForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingEntry ? 'Save Changes' : 'Add Time'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Users } from 'lucide-react';
+import { useUsers, setUserRole } from '@/lib/usersRepository';
+import { ROLES, ROLE_LABELS, type Role } from '@/lib/permissions';
+
+const NO_ROLE = 'none';
+
+export function UserManager() {
+  const { user, can } = useAuth();
+  const { users, loading } = useUsers();
+  const [savingUid, setSavingUid] = useState<string | null>(null);
+
+  const handleRoleChange = async (uid: string, value: string) => {
+    setSavingUid(uid);
+    try {
+      await setUserRole(uid, value === NO_ROLE ? null : value as Role);
+      toast.success(value === NO_ROLE ? 'Access removed.' : `Role set to ${ROLE_LABELS[value as Role]}.`);
+    } catch (error) {
+      console.error('Role Error:', error);
+      toast.error('Failed to change the role.');
+    } finally {
+      setSavingUid(null);
+    }
+  };
+
+  if (!can('users.manage')) {
+    return (
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardContent className="p-8 text-center text-gray-600">Only partners can manage users.</CardContent>
+      </Card>
+    );
+  }
+
+  if (loading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading users...</div>;
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><Users />Users</CardTitle>
+        <CardDescription className="text-[#2B2F32]/60 mt-1">
+          Accounts appear here after their first sign-in. They can see nothing until they are given a role.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {users.map(profile => {
+            const isSelf = profile.uid === user?.uid;
+            return (
+              <div key={profile.uid} className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 border rounded-lg bg-white">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-[#2B2F32]">{profile.displayName || profile.email}</h3>
+                    {isSelf && <Badge variant="outline">You</Badge>}
+                    {!profile.role && <Badge className="bg-amber-100 text-amber-800 border-transparent" variant="outline">Awaiting role</Badge>}
+                  </div>
+                  {profile.displayName && <p className="text-sm text-gray-500">{profile.email}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {savingUid === profile.uid && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+                  {/* Partners cannot change their own role, so the firm is never left without one */}
+                  <Select
+                    value={profile.role ?? NO_ROLE}
+                    onValueChange={(value) => handleRoleChange(profile.uid, value)}
+                    disabled={isSelf || savingUid === profile.uid}
+                  >
+                    <SelectTrigger className="w-full md:w-56"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ROLE}>No access</SelectItem>
+                      {ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { ClipboardList, Edit, FilePlus, Loader2, Plus, Search, Trash2 } from 'lucide-react';
+import { ClientPicker } from '@/components/ClientPicker';
+import { MatterPicker } from '@/components/MatterPicker';
+import { useCases } from '@/lib/casesRepository';
+import { useClients } from '@/lib/clientsRepository';
+import { useMatters, type Matter } from '@/lib/mattersRepository';
+import {
+  useWorkLog,
+  createWorkItem,
+  updateWorkItem,
+  deleteWorkItem,
+  currentBillOf,
+  workItemSchema,
+  type WorkItem,
+  type WorkItemInput,
+} from '@/lib/workLogRepository';
+import { toISODate } from '@/lib/dates';
+import { useSettings } from '@/lib/settingsRepository';
+import { particularTypeOptions, rateFor } from '@/lib/rateCard';
+
+type BilledFilter = 'unbilled' | 'billed' | 'all';
+
+const EMPTY_WORK_ITEM: WorkItemInput = {
+  matterId: '',
+  date: toISODate(new Date()),
+  type: '',
+  description: '',
+  amount: 0,
+};
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 0, maximumFractionDigits: 0,
+}).format(amount || 0);
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', {
+  day: '2-digit', month: 'short', year: 'numeric',
+});
+
+interface MatterWork {
+  matterId: string;
+  matter?: Matter;
+  items: { item: WorkItem; billNumber?: string; billId?: string }[];
+  unbilledCount: number;
+  unbilledAmount: number;
+}
+
+export function WorkLog() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { workItems, loading } = useWorkLog();
+  const { cases, loading: casesLoading } = useCases();
+  const { matters } = useMatters();
+  const { clients } = useClients();
+  const { settings } = useSettings();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [clientFilter, setClientFilter] = useState<string | undefined>(undefined);
+  const [billedFilter, setBilledFilter] = useState<BilledFilter>('unbilled');
+  const [editingItem, setEditingItem] = useState<WorkItem | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingItem, setDeletingItem] = useState<WorkItem | null>(null);
+
+  const form = useForm<WorkItemInput>({
+    resolver: zodResolver(workItemSchema),
+    defaultValues: EMPTY_WORK_ITEM,
+  });
+
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id, c.name])), [clients]);
+
+  // Work grouped by matter, most recent matters first
+  const matterWork = useMemo((): MatterWork[] => {
+    const casesById = new Map(cases.map(c => [c.id, c]));
+    const mattersById = new Map(matters.map(m => [m.id, m]));
+    const groups = new Map<string, MatterWork>();
+    workItems.forEach(item => {
+      const bill = currentBillOf(item, casesById);
+      if (billedFilter === 'unbilled' && bill) return;
+      if (billedFilter === 'billed' && !bill) return;
+      const group = groups.get(item.matterId) ?? { matterId: item.matterId, matter: mattersById.get(item.matterId), items: [], unbilledCount: 0, unbilledAmount: 0 };
+      group.items.push({ item, billNumber: bill?.billNumber, billId: bill?.id });
+      if (!bill) {
+        group.unbilledCount += 1;
+        group.unbilledAmount += item.amount;
+      }
+      groups.set(item.matterId, group);
+    });
+    const term = searchTerm.toLowerCase();
+    return [...groups.values()]
+      .filter(({ matter }) => !clientFilter || matter?.clientId === clientFilter)
+      .filter(({ matter, items }) => !term ||
+        matter?.matterNumber.toLowerCase().includes(term) ||
+        matter?.title.toLowerCase().includes(term) ||
+        items.some(({ item }) => item.type.toLowerCase().includes(term) || item.description.toLowerCase().includes(term)))
+      .sort((a, b) => b.items[b.items.length - 1].item.date.localeCompare(a.items[a.items.length - 1].item.date));
+  }, [workItems, cases, matters, billedFilter, clientFilter, searchTerm]);
+
+  const totalUnbilled = matterWork.reduce((sum, group) => sum + group.unbilledAmount, 0);
+
+  // --- FORM HANDLERS ---
+  const openForm = (item: WorkItem | null) => {
+    setEditingItem(item);
+    form.reset(item ? { ...EMPTY_WORK_ITEM, ...item } : EMPTY_WORK_ITEM);
+    setIsFormOpen(true);
+  };
+
+  const onSubmit = async (data: WorkItemInput) => {
+    try {
+      if (editingItem) {
+        await updateWorkItem(editingItem.id, data);
+        toast.success('Work updated.');
+      } else {
+        await createWorkItem(data);
+        toast.success('Work recorded.');
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error saving work:', error);
+      toast.error('Failed to save work');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingItem) return;
+    try {
+      await deleteWorkItem(deletingItem.id);
+      toast.success('Work removed.');
+      setDeletingItem(null);
+    } catch (error) {
+      console.error('Error deleting work:', error);
+      toast.error('Failed to remove work');
+    }
+  };
+
+  // --- RENDER LOGIC ---
+  if (loading || casesLoading) {
+    return <div className="text-center py-12 text-white/80 flex items-center justify-center gap-2"><Loader2 className="h-5 w-5 animate-spin" />Loading work log...</div>;
+  }
+
+  const errors = form.formState.errors;
+
+  return (
+    <>
+      <Card className="bg-white/95 backdrop-blur-sm shadow-xl">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl text-[#2B2F32] flex items-center gap-3"><ClipboardList />Work Log</CardTitle>
+              <CardDescription className="text-[#2B2F32]/60 mt-1">Appearances, conferences, drafting and filings recorded as they happen, until they are billed.</CardDescription>
+            </div>
+            {can('work.record') && <Button onClick={() => openForm(null)} className="bg-[#CAA068] hover:bg-[#B8A799] text-white"><Plus className="h-4 w-4 mr-2" />Record Work</Button>}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 pt-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input placeholder="Search matter or work..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-10" />
+            </div>
+            <ClientPicker value={clientFilter} onChange={setClientFilter} />
+            <Select value={billedFilter} onValueChange={(value) => setBilledFilter(value as BilledFilter)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unbilled">Unbilled work</SelectItem>
+                <SelectItem value="billed">Billed work</SelectItem>
+                <SelectItem value="all">All work</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {billedFilter !== 'billed' && totalUnbilled > 0 && (
+            <p className="text-sm text-[#2B2F32]/70 pt-2">Unbilled: <span className="font-semibold text-red-700">{formatCurrency(totalUnbilled)}</span></p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {matterWork.length > 0 ? matterWork.map(({ matterId, matter, items, unbilledCount, unbilledAmount }) => (
+              <div key={matterId} className="bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="p-4 flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                  <div className="flex-1 space-y-1.5">
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <Badge variant="outline" className="text-xs">Case No: {matter?.matterNumber ?? 'Deleted matter'}</Badge>
+                      {matter?.clientId && clientNames.has(matter.clientId) && <Badge variant="secondary" className="text-xs">{clientNames.get(matter.clientId)}</Badge>}
+                    </div>
+                    {matter && <p className="font-semibold text-base text-[#2B2F32]">{matter.title}</p>}
+                  </div>
+                  <div className="flex items-center gap-6">
+                    {unbilledCount > 0 && (
+                      <div className="text-right text-sm">
+                        <div className="font-bold text-lg text-red-700">{formatCurrency(unbilledAmount)}</div>
+                        <div className="text-gray-500">{unbilledCount} unbilled item(s)</div>
+                      </div>
+                    )}
+                    {can('bills.create') && unbilledCount > 0 && matter && (
+                      <Button variant="outline" size="sm" onClick={() => router.push(`/case-entry?matter=${matterId}&work=unbilled`)}>
+                        <FilePlus className="h-4 w-4 mr-1" />Generate Bill
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="border-t px-4 py-3 space-y-2">
+                  {items.map(({ item, billNumber, billId }) => (
+                    <div key={item.id} className="flex justify-between items-center p-3 bg-white rounded-md text-sm gap-4">
+                      <div className="flex items-center gap-3 flex-wrap">
+                        <span className="text-gray-500 w-24">{formatDate(item.date)}</span>
+                        <Badge variant="outline" className="text-xs">{item.type}</Badge>
+                        {item.description && <span className="text-gray-700">{item.description}</span>}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold">{item.amount > 0 ? formatCurrency(item.amount) : '-'}</span>
+                        {billId ? (
+                          <Badge variant="secondary" className="text-xs cursor-pointer" onClick={() => router.push(`/bill-list?bill=${billId}`)}>
+                            {billNumber ? `Bill No: ${billNumber}` : 'Draft bill'}
+                          </Badge>
+                        ) : can('work.record') && (
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => openForm(item)}><Edit className="h-4 w-4" /></Button>
+                            <Button variant="ghost" size="icon" className="text-red-500 hover:bg-red-100" onClick={() => setDeletingItem(item)}><Trash2 className="h-4 w-4" /></Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )) : (
+              <div className="text-center py-12 text-gray-500"><p>{workItems.length === 0 ? 'No work recorded yet.' : billedFilter === 'unbilled' ? 'Nothing left to bill.' : 'No work found for your search.'}</p></div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* --- RECORD / EDIT WORK DIALOG --- */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <DialogHeader>
+              <DialogTitle className="text-2xl text-[#2B2F32]">{editingItem ? 'Edit Work' : 'Record Work'}</DialogTitle>
+              <DialogDescription>Recorded work stays on the unbilled list until a bill is generated from it.</DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label>Matter *</Label>
+                <Controller name="matterId" control={form.control} render={({ field }) => (
+                  <MatterPicker value={field.value} onChange={(matter) => field.onChange(matter.id)} />
+                )} />
+                {errors.matterId && <p className="text-red-500 text-sm">{errors.matterId.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label>Type of Work *</Label>
+                <Controller name="type" control={form.control} render={({ field }) => (
+                  <Select value={field.value} onValueChange={(value) => {
+                    field.onChange(value);
+                    // Work is recorded under the particular it is billed as, at the client's rate
+                    const client = clients.find(c => c.id === matters.find(m => m.id === form.getValues('matterId'))?.clientId);
+                    form.setValue('amount', rateFor(value, settings.rateCard, client) ?? 0);
+                  }}>
+                    <SelectTrigger><SelectValue placeholder="Select type" /></SelectTrigger>
+                    <SelectContent>{particularTypeOptions(settings.rateCard, false).map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}</SelectContent>
+                  </Select>
+                )} />
+                {errors.type && <p className="text-red-500 text-sm">{errors.type.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workDate">Date *</Label>
+                <Input id="workDate" type="date" {...form.register('date')} />
+                {errors.date && <p className="text-red-500 text-sm">{errors.date.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workAmount">Amount (₹)</Label>
+                <Input id="workAmount" type="number" {...form.register('amount', { setValueAs: (value: string) => (value === '' ? 0 : Number(value)) })} placeholder="Leave blank to set on the bill" />
+                {errors.amount && <p className="text-red-500 text-sm">{errors.amount.message}</p>}
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="workDescription">Description</Label>
+                <Textarea id="workDescription" {...form.register('description')} placeholder="e.g. Cross-examination of PW1" />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" onClick={() => setIsFormOpen(false)} variant="ghost">Cancel</Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingItem ? 'Save Changes' : 'Record'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* --- DELETE CONFIRMATION DIALOG --- */}
+      <AlertDialog open={!!deletingItem} onOpenChange={(isOpen) => !isOpen && setDeletingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {deletingItem?.type} on {deletingItem ? formatDate(deletingItem.date) : ''}?</AlertDialogTitle>
+            <AlertDialogDescription>It will be taken off the work log and not billed.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,11 +1,16 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, signInWithEmailAndPassword, signOut, onAuthStateChanged } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
+import { roleCan, type Permission, type Role } from '@/lib/permissions';
+import { ensureUserProfile, watchUserProfile, type UserProfile } from '@/lib/usersRepository';
 
 interface AuthContextType {
   user: User | null;
+  profile: UserProfile | null;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   loading: boolean;
@@ -23,17 +28,47 @@ export const useAuth = () => {
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profileLoading, setProfileLoading] = useState(false);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setUser(user);
-      setLoading(false);
+      // Keep loading until the new user's profile arrives, so nothing renders without a role
+      setProfileLoading(Boolean(user));
+      setAuthLoading(false);
     });
 
     return unsubscribe;
   }, []);
 
+  // The role lives in the database, so follow the profile while signed in
+  useEffect(() => {
+    setProfile(null);
+    if (!user) return;
+
+    let detach: (() => void) | null = null;
+    let cancelled = false;
+    ensureUserProfile(user)
+      .catch(error => console.error('Error creating user profile:', error))
+      .finally(() => {
+        if (cancelled) return;
+        detach = watchUserProfile(user.uid, (profile) => {
+          setProfile(profile);
+          setProfileLoading(false);
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      detach?.();
+    };
+  }, [user]);
+
+  const role = profile?.role ?? null;
+  const can = useCallback((permission: Permission) => roleCan(role, permission), [role]);
+
   const login = async (email: string, password: string) => {
     await signInWithEmailAndPassword(auth, email, password);
   };
@@ -44,9 +79,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const value = {
     user,
+    profile,
+    role,
+    can,
     login,
     logout,
-    loading,
+    loading: authLoading || profileLoading,
   };
 
   return (
@@ -0,0 +1,103 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { countsAsBilled } from '@/lib/billStatus';
+import { getDueDate } from '@/lib/paymentTerms';
+import type { Case } from '@/lib/casesRepository';
+
+// Buckets are inclusive of `maxDays`; the last one is open-ended
+export const AGEING_BUCKETS = [
+  { key: '0-30', label: '0–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '91-180', label: '91–180 days', maxDays: 180 },
+  { key: '180+', label: 'Over 180 days', maxDays: Infinity },
+] as const;
+
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number]['key'];
+/** Age counted from the bill date, or from the due date so bills not yet due are 0 days old. */
+export type AgeingBasis = 'billDate' | 'dueDate';
+export type BucketTotals = Record<AgeingBucket, number>;
+
+/** One bill with money still owed on it at the report date. */
+export interface AgeingRow {
+  bill: Case;
+  ageDays: number;
+  bucket: AgeingBucket;
+  outstanding: number;
+}
+
+export interface ClientAgeing {
+  clientId: string | null; // Null for bills not linked to a client
+  rows: AgeingRow[];
+  totals: BucketTotals;
+  total: number;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  basis: AgeingBasis;
+  clients: ClientAgeing[];
+  totals: BucketTotals;
+  total: number;
+}
+
+const emptyTotals = (): BucketTotals =>
+  Object.fromEntries(AGEING_BUCKETS.map(b => [b.key, 0])) as BucketTotals;
+
+export const getAgeingBucket = (ageDays: number): AgeingBucket =>
+  AGEING_BUCKETS.find(b => ageDays <= b.maxDays)!.key;
+
+/**
+ * What was still owed on a bill at the end of `asOf`: payments, credit notes and any write-off
+ * dated after it are not counted, so past dates reproduce the receivables as they stood then.
+ */
+export function outstandingAsOf(bill: Case, asOf: string): number {
+  if (!countsAsBilled(bill.status) || bill.date > asOf) return 0;
+  const settled = [
+    // Voided payments were entered in error, so they never settled anything
+    ...bill.payments.filter(p => !p.voided).map(p => ({ date: p.date, amount: p.amount })),
+    // A bounced cheque settled the bill until the day it was returned
+    ...bill.payments.flatMap(p => (p.clearance?.status === 'bounced' && !p.voided ? [{ date: p.clearance.date ?? p.date, amount: -p.amount }] : [])),
+    ...bill.creditNotes.map(n => ({ date: n.date, amount: n.totalAmount })),
+    ...(bill.writeOff ? [bill.writeOff] : []),
+  ].filter(s => s.date <= asOf).reduce((sum, s) => sum + s.amount, 0);
+  return bill.totalAmount - settled;
+}
+
+/** Receivables at `asOf` (YYYY-MM-DD) by age, per client, largest balance first. */
+export function buildAgeingReport(cases: Case[], asOf: string, basis: AgeingBasis = 'billDate'): AgeingReport {
+  const asOfDate = parseISO(asOf);
+  const byClient = new Map<string | null, ClientAgeing>();
+  const report: AgeingReport = { asOf, basis, clients: [], totals: emptyTotals(), total: 0 };
+
+  cases.forEach(bill => {
+    const outstanding = outstandingAsOf(bill, asOf);
+    if (outstanding < 0.01) return; // Ignore paise left over from rounding
+    const agedFrom = basis === 'dueDate' ? getDueDate(bill) : bill.date;
+    const ageDays = Math.max(0, differenceInCalendarDays(asOfDate, parseISO(agedFrom)));
+    const bucket = getAgeingBucket(ageDays);
+
+    const clientId = bill.clientId ?? null;
+    const client = byClient.get(clientId) ?? { clientId, rows: [], totals: emptyTotals(), total: 0 };
+    client.rows.push({ bill, ageDays, bucket, outstanding });
+    client.totals[bucket] += outstanding;
+    client.total += outstanding;
+    byClient.set(clientId, client);
+
+    report.totals[bucket] += outstanding;
+    report.total += outstanding;
+  });
+
+  report.clients = Array.from(byClient.values())
+    .map(client => ({ ...client, rows: client.rows.sort((a, b) => b.ageDays - a.ageDays) }))
+    .sort((a, b) => b.total - a.total);
+  return report;
+}
+
+/** The report narrowed to the bills in one bucket, with subtotals and totals to match. */
+export function filterAgeingReport(report: AgeingReport, bucket: AgeingBucket): AgeingReport {
+  const onlyBucket = (amount: number) => ({ ...emptyTotals(), [bucket]: amount });
+  const clients = report.clients
+    .map(client => ({ ...client, rows: client.rows.filter(row => row.bucket === bucket), totals: onlyBucket(client.totals[bucket]), total: client.totals[bucket] }))
+    .filter(client => client.rows.length > 0);
+  return { ...report, clients, totals: onlyBucket(report.totals[bucket]), total: report.totals[bucket] };
+}
@@ -0,0 +1,40 @@
+// Amounts in words with Indian numbering: thousand, lakh, crore.
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) =>
+  n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+const belowThousand = (n: number) =>
+  [n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+
+/** A whole number in words, e.g. 1234567 is "Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven". */
+export function toIndianWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    // Amounts of a hundred crore and more read as "One Hundred Crore", not "One Arab"
+    crore ? `${toIndianWords(crore)} Crore` : '',
+    lakh ? `${belowHundred(lakh)} Lakh` : '',
+    thousand ? `${belowHundred(thousand)} Thousand` : '',
+    belowThousand(rest),
+  ].filter(Boolean).join(' ');
+}
+
+/** "Rupees One Thousand Two Hundred and Fifty Paise Only" for 1200.50. */
+export function amountInWords(amount: number): string {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  return `Rupees ${toIndianWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useMemo } from 'react';
+import * as z from 'zod';
+import { ref, push, query, orderByChild, equalTo, serverTimestamp } from 'firebase/database';
+import { auth, database } from '@/lib/firebase';
+import { combineRealtimeStores, createRealtimeStore, readNode, useRealtimeStore, type RealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+
+// Layout under audit/: one entry per write, keyed by push id. The database rules only
+// allow new entries to be added, stamped with the writer's uid and the server time.
+
+// --- SCHEMA ---
+export const AUDIT_ACTIONS = [
+  'bill.create',
+  'bill.update',
+  'bill.delete',
+  'bill.migrate',
+  'bill.issue',
+  'bill.cancel',
+  'bill.writeOff',
+  'bill.revise',
+  'creditNote.create',
+  'payment.add',
+  'payment.clear',
+  'payment.bounce',
+  'payment.edit',
+  'payment.void',
+  'tds.certificate',
+  'reminder.send',
+  'receipt.create',
+  'receipt.allocate',
+  'matter.create',
+] as const;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'bill.create': 'Bill created',
+  'bill.update': 'Bill edited',
+  'bill.delete': 'Bill deleted',
+  'bill.migrate': 'Record migrated',
+  'bill.issue': 'Bill issued',
+  'bill.cancel': 'Bill cancelled',
+  'bill.writeOff': 'Written off',
+  'bill.revise': 'Revision drafted',
+  'creditNote.create': 'Credit note raised',
+  'payment.add': 'Payment recorded',
+  'payment.clear': 'Cheque cleared',
+  'payment.bounce': 'Cheque bounced',
+  'payment.edit': 'Payment corrected',
+  'payment.void': 'Payment voided',
+  'tds.certificate': 'Form 16A recorded',
+  'reminder.send': 'Reminder sent',
+  'receipt.create': 'Receipt recorded',
+  'receipt.allocate': 'Receipt allocated',
+  'matter.create': 'Matter created',
+};
+
+// Firebase drops missing values, so a field that was added has no `before` and vice versa
+const auditChangeSchema = z.object({
+  field: z.string(),
+  before: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  after: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+export const auditEntrySchema = z.object({
+  actor: z.string(),
+  actorEmail: z.string().default(''),
+  at: z.number(), // Server time in milliseconds
+  action: z.enum(AUDIT_ACTIONS),
+  path: z.string(), // Record that was written, e.g. cases/-NxYz
+  billNumber: z.string().optional(),
+  reason: z.string().optional(), // Given by the user for corrections such as editing a payment
+  changes: z.array(auditChangeSchema).default([]),
+});
+
+// --- MODELS ---
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+export type AuditChange = z.infer<typeof auditChangeSchema>;
+
+export interface AuditEntry extends z.infer<typeof auditEntrySchema> {
+  id: string;
+}
+
+const AUDIT_PATH = 'audit';
+
+// --- SUBSCRIPTION ---
+const toAuditEntries = (data: unknown): AuditEntry[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = auditEntrySchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid audit entry ${id}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, id }];
+    })
+    .sort((a, b) => b.at - a.at);
+
+const auditStore = createRealtimeStore<AuditEntry[]>(AUDIT_PATH, toAuditEntries, []);
+
+/** Every audit entry, newest first. */
+export function useAuditLog() {
+  const { data, loading } = useRealtimeStore(auditStore);
+  return { entries: data, loading };
+}
+
+// One store per record, each reading only that record's entries through the index on path
+const historyStores = new Map<string, RealtimeStore<AuditEntry[]>>();
+
+const historyStore = (path: string) => {
+  let store = historyStores.get(path);
+  if (!store) {
+    store = createRealtimeStore(query(ref(database, AUDIT_PATH), orderByChild('path'), equalTo(path)), toAuditEntries, []);
+    historyStores.set(path, store);
+  }
+  return store;
+};
+
+/** The audit entries of the records at `paths`, such as a bill and its revisions, newest first. */
+export function useAuditHistory(paths: string[]) {
+  const key = paths.join(',');
+  const store = useMemo(
+    () => combineRealtimeStores(key.split(',').map(historyStore), lists => lists.flat().sort((a, b) => b.at - a.at)),
+    [key],
+  );
+  const { data, loading } = useRealtimeStore(store);
+  return { entries: data, loading };
+}
+
+// --- DIFF ---
+type Leaf = string | number | boolean;
+
+/** Flattens a record into `a/b/0/c` paths, skipping empty values as Firebase does. */
+function flatten(value: unknown, prefix: string, out: Map<string, Leaf>) {
+  if (value === null || value === undefined) return;
+  if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      flatten(child, prefix ? `${prefix}/${key}` : key, out);
+    });
+    return;
+  }
+  out.set(prefix, value as Leaf);
+}
+
+/** Field-by-field differences between two versions of a record, in field order. */
+export function diffRecords(before: unknown, after: unknown, prefix = ''): AuditChange[] {
+  const beforeFields = new Map<string, Leaf>();
+  const afterFields = new Map<string, Leaf>();
+  flatten(before, prefix, beforeFields);
+  flatten(after, prefix, afterFields);
+
+  const fields = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+  return [...fields]
+    .filter(field => beforeFields.get(field) !== afterFields.get(field))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(field => ({ field, before: beforeFields.get(field), after: afterFields.get(field) }));
+}
+
+// --- WRITES ---
+interface AuditInput {
+  action: AuditAction;
+  path: string;
+  before: unknown;
+  after: unknown;
+  billNumber?: string;
+  reason?: string;
+  /** Prefix for field names when `before` and `after` are part of the record, e.g. payments/0/tds */
+  field?: string;
+}
+
+/**
+ * The audit entry for a write, as multi-path updates to merge into the write itself,
+ * so a change is never saved without its entry. Returns nothing when nothing changed.
+ */
+export function auditUpdates({ action, path, before, after, billNumber, reason, field }: AuditInput): Record<string, unknown> {
+  const changes = diffRecords(before, after, field);
+  if (changes.length === 0) return {};
+
+  const key = push(ref(database, AUDIT_PATH)).key as string;
+  const entry = {
+    actor: auth.currentUser?.uid ?? '',
+    actorEmail: auth.currentUser?.email ?? '',
+    at: serverTimestamp(),
+    action,
+    path,
+    // Legacy records may hold numeric bill numbers
+    billNumber: billNumber ? String(billNumber) : undefined,
+    reason,
+    changes,
+  };
+  return { [`${AUDIT_PATH}/${key}`]: stripUndefined(entry) };
+}
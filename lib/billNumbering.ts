@@ -0,0 +1,335 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, get, update, runTransaction } from 'firebase/database';
+import { parseISO } from 'date-fns';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { getFinancialYear } from '@/lib/financialYear';
+import { getSettings, type BillNumberingSettings } from '@/lib/settingsRepository';
+import { migrateCaseRecord } from '@/lib/caseSchema';
+import { stripUndefined } from '@/lib/utils';
+
+// Layout under billNumbering/:
+//   counters/{FY}        last sequence handed out in that financial year
+//   issued/{FY}/{SEQ}    what happened to each sequence number (issued or cancelled)
+//   index/{key}          id of the bill holding a bill number, for duplicate detection
+//   creditNoteCounters/{FY}  last credit note sequence handed out in that financial year
+//   moneyReceiptCounters/{FY}  last money receipt sequence handed out in that financial year
+const BILL_NUMBERING_PATH = 'billNumbering';
+const CASES_PATH = 'cases';
+const MAX_ALLOCATION_ATTEMPTS = 20;
+
+// --- SCHEMA ---
+export const NUMBER_STATUSES = ['issued', 'cancelled'] as const;
+
+const issuedNumberSchema = z.object({
+  billNumber: z.string().min(1),
+  caseId: z.string().optional(),
+  status: z.enum(NUMBER_STATUSES),
+  reason: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+// --- MODELS ---
+export interface IssuedNumber extends z.infer<typeof issuedNumberSchema> {
+  financialYear: string;
+  sequence: number;
+}
+
+export interface FinancialYearRegister {
+  financialYear: string;
+  lastSequence: number;
+  issued: IssuedNumber[];
+  cancelled: IssuedNumber[];
+  /** Sequence numbers up to `lastSequence` with no issued or cancelled entry. */
+  gaps: number[];
+}
+
+export interface BillNumberRegister {
+  years: FinancialYearRegister[];
+  /** Bill number key to the id of the bill holding it. */
+  index: Record<string, string>;
+}
+
+export class DuplicateBillNumberError extends Error {
+  constructor(public billNumber: string) {
+    super(`Bill number ${billNumber} is already in use`);
+    this.name = 'DuplicateBillNumberError';
+  }
+}
+
+// --- FORMAT ---
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const formatBillNumber = (settings: Pick<BillNumberingSettings, 'format' | 'sequenceDigits'>, financialYear: string, sequence: number) =>
+  settings.format
+    .replace('{FY}', financialYear)
+    .replace('{SEQ}', String(sequence).padStart(settings.sequenceDigits, '0'));
+
+/** Reads the financial year and sequence back out of a number in the configured format. */
+export const parseBillNumber = (settings: BillNumberingSettings, billNumber: string) => {
+  const pattern = escapeRegExp(settings.format)
+    .replace('\\{FY\\}', '(?<fy>\\d{4}-\\d{2})')
+    .replace('\\{SEQ\\}', '(?<seq>\\d+)');
+  const match = new RegExp(`^${pattern}$`, 'i').exec(billNumber.trim());
+  if (!match?.groups) return null;
+  return { financialYear: match.groups.fy, sequence: Number(match.groups.seq) };
+};
+
+/** Bill numbers are compared case-insensitively; the key is also safe as a Firebase path segment. */
+export const billNumberKey = (billNumber: string) =>
+  encodeURIComponent(billNumber.trim().toUpperCase()).replace(/\./g, '%2E');
+
+export const financialYearOfBillDate = (date: string) => getFinancialYear(parseISO(date));
+
+// --- SUBSCRIPTION ---
+// Firebase returns objects with mostly sequential numeric keys as arrays, with holes as null
+const entriesOf = (value: unknown): [string, unknown][] =>
+  Object.entries((value || {}) as Record<string, unknown>).filter(([, v]) => v !== null && v !== undefined);
+
+const toBillNumberRegister = (data: unknown): BillNumberRegister => {
+  const node = readNode(data);
+  const counters = Object.fromEntries(entriesOf(node.counters)) as Record<string, number>;
+  const issuedByYear = Object.fromEntries(entriesOf(node.issued));
+  const financialYears = new Set([...Object.keys(counters), ...Object.keys(issuedByYear)]);
+
+  const years = Array.from(financialYears).map(financialYear => {
+    const entries = entriesOf(issuedByYear[financialYear]).flatMap(([seq, raw]) => {
+      const parsed = issuedNumberSchema.safeParse(raw);
+      return parsed.success ? [{ ...parsed.data, financialYear, sequence: Number(seq) }] : [];
+    }).sort((a, b) => a.sequence - b.sequence);
+
+    const lastSequence = Math.max(Number(counters[financialYear]) || 0, ...entries.map(e => e.sequence));
+    const used = new Set(entries.map(e => e.sequence));
+    const gaps: number[] = [];
+    for (let sequence = 1; sequence <= lastSequence; sequence++) {
+      if (!used.has(sequence)) gaps.push(sequence);
+    }
+
+    return {
+      financialYear,
+      lastSequence,
+      issued: entries.filter(e => e.status === 'issued'),
+      cancelled: entries.filter(e => e.status === 'cancelled'),
+      gaps,
+    };
+  }).sort((a, b) => b.financialYear.localeCompare(a.financialYear));
+
+  return { years, index: Object.fromEntries(entriesOf(node.index)) as Record<string, string> };
+};
+
+const registerStore = createRealtimeStore<BillNumberRegister>(BILL_NUMBERING_PATH, toBillNumberRegister, { years: [], index: {} });
+
+/** Issued, cancelled and missing bill numbers per financial year, most recent year first. */
+export function useBillNumberRegister() {
+  const { data, loading } = useRealtimeStore(registerStore);
+  return { register: data, loading };
+}
+
+// --- WRITES ---
+/**
+ * Claims a bill number for a bill. The claim is a transaction on the number's index entry,
+ * so two bills can never hold the same number even when saved at the same moment.
+ */
+export async function claimBillNumber(billNumber: string, caseId: string): Promise<string> {
+  const trimmed = billNumber.trim();
+  const result = await runTransaction(
+    ref(database, `${BILL_NUMBERING_PATH}/index/${billNumberKey(trimmed)}`),
+    current => (current && current !== caseId ? undefined : caseId),
+  );
+  if (!result.committed) throw new DuplicateBillNumberError(trimmed);
+  return trimmed;
+}
+
+/** Frees a bill number, but only if it is still held by the given bill. */
+export async function releaseBillNumber(billNumber: string, caseId: string): Promise<void> {
+  await runTransaction(
+    ref(database, `${BILL_NUMBERING_PATH}/index/${billNumberKey(billNumber)}`),
+    current => (current === caseId ? null : current),
+  );
+}
+
+/**
+ * Hands out the next number in the bill date's financial year. The counter is advanced
+ * in a transaction, so concurrent bills never receive the same sequence. Sequences already
+ * taken by a manually numbered bill are skipped.
+ */
+export async function allocateBillNumber(date: string, caseId: string): Promise<string> {
+  const { billNumbering } = await getSettings();
+  const financialYear = financialYearOfBillDate(date);
+
+  for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const result = await runTransaction(
+      ref(database, `${BILL_NUMBERING_PATH}/counters/${financialYear}`),
+      current => (Number(current) || 0) + 1,
+    );
+    const billNumber = formatBillNumber(billNumbering, financialYear, result.snapshot.val() as number);
+    try {
+      return await claimBillNumber(billNumber, caseId);
+    } catch (error) {
+      if (!(error instanceof DuplicateBillNumberError)) throw error;
+    }
+  }
+  throw new Error(`Could not allocate a bill number for ${financialYear}`);
+}
+
+/**
+ * Hands out the next number of a series that is never numbered by hand, so the counter
+ * transaction alone keeps its numbers unique.
+ */
+async function allocateSeriesNumber(counters: string, format: keyof Pick<BillNumberingSettings, 'creditNoteFormat' | 'moneyReceiptFormat'>, date: string): Promise<string> {
+  const { billNumbering } = await getSettings();
+  const financialYear = financialYearOfBillDate(date);
+  const result = await runTransaction(
+    ref(database, `${BILL_NUMBERING_PATH}/${counters}/${financialYear}`),
+    current => (Number(current) || 0) + 1,
+  );
+  return formatBillNumber(
+    { format: billNumbering[format], sequenceDigits: billNumbering.sequenceDigits },
+    financialYear,
+    result.snapshot.val() as number,
+  );
+}
+
+/** Hands out the next credit note number in the note's financial year. */
+export const allocateCreditNoteNumber = (date: string) =>
+  allocateSeriesNumber('creditNoteCounters', 'creditNoteFormat', date);
+
+/** Hands out the next money receipt number in the payment's financial year. */
+export const allocateMoneyReceiptNumber = (date: string) =>
+  allocateSeriesNumber('moneyReceiptCounters', 'moneyReceiptFormat', date);
+
+/**
+ * Claims a manually entered number. If it follows the configured format, the year's counter
+ * is moved past it so automatic numbering does not collide with it later.
+ */
+export async function claimManualBillNumber(billNumber: string, caseId: string): Promise<string> {
+  const claimed = await claimBillNumber(billNumber, caseId);
+  const { billNumbering } = await getSettings();
+  const parsed = parseBillNumber(billNumbering, claimed);
+  if (parsed) {
+    await runTransaction(
+      ref(database, `${BILL_NUMBERING_PATH}/counters/${parsed.financialYear}`),
+      current => Math.max(Number(current) || 0, parsed.sequence),
+    );
+  }
+  return claimed;
+}
+
+const issuedPath = (financialYear: string, sequence: number) =>
+  `${BILL_NUMBERING_PATH}/issued/${financialYear}/${sequence}`;
+
+/**
+ * Register entries recording that a bill number was issued, or cancelled with a reason.
+ * Meant to be merged into the multi-path update that writes the bill itself.
+ * Numbers outside the configured format are not part of any sequence and produce no entry.
+ */
+export async function numberStatusUpdates(
+  billNumber: string,
+  caseId: string,
+  status: IssuedNumber['status'],
+  reason?: string,
+): Promise<Record<string, unknown>> {
+  const { billNumbering } = await getSettings();
+  const parsed = parseBillNumber(billNumbering, billNumber);
+  if (!parsed) return {};
+  const entry = issuedNumberSchema.parse({
+    billNumber: billNumber.trim(),
+    caseId,
+    status,
+    reason,
+    updatedAt: new Date().toISOString(),
+  });
+  return { [issuedPath(parsed.financialYear, parsed.sequence)]: stripUndefined(entry) };
+}
+
+/** Records a reason against a missing sequence number so the gap is accounted for. */
+export async function cancelMissingNumber(financialYear: string, sequence: number, reason: string): Promise<void> {
+  const { billNumbering } = await getSettings();
+  const entry = issuedNumberSchema.parse({
+    billNumber: formatBillNumber(billNumbering, financialYear, sequence),
+    status: 'cancelled',
+    reason,
+    updatedAt: new Date().toISOString(),
+  });
+  // Never overwrite a number that has been issued in the meantime
+  await runTransaction(ref(database, issuedPath(financialYear, sequence)), current =>
+    current ? undefined : stripUndefined(entry),
+  );
+}
+
+// --- DUPLICATES ---
+/** Groups of bills sharing a number, e.g. from before numbers were registered. */
+export function findDuplicateBillNumbers<T extends { id: string; billNumber: string }>(bills: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  bills.forEach(bill => {
+    const key = billNumberKey(bill.billNumber);
+    groups.set(key, [...(groups.get(key) || []), bill]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+// --- MIGRATION ---
+export interface BillNumberRegistrationReport {
+  registered: number;
+  duplicates: number;
+}
+
+/**
+ * Registers the numbers of bills created before numbering was tracked. The oldest bill
+ * keeps a contested number; later bills with the same number are counted as duplicates
+ * and left unregistered until they are renumbered.
+ */
+export async function registerExistingBillNumbers(): Promise<BillNumberRegistrationReport> {
+  const [casesSnapshot, registerSnapshot, { billNumbering }] = await Promise.all([
+    get(ref(database, CASES_PATH)),
+    get(ref(database, BILL_NUMBERING_PATH)),
+    getSettings(),
+  ]);
+  const register = toBillNumberRegister(registerSnapshot.val());
+  const index = { ...register.index };
+  const counters = new Map(register.years.map(y => [y.financialYear, y.lastSequence]));
+
+  const bills = Object.entries((casesSnapshot.val() || {}) as Record<string, unknown>)
+    .flatMap(([id, raw]) => {
+      const result = migrateCaseRecord(raw);
+      return result.ok ? [{ id, record: result.record }] : [];
+    })
+    .sort((a, b) => (a.record.createdAt || a.record.date).localeCompare(b.record.createdAt || b.record.date));
+
+  const updates: Record<string, unknown> = {};
+  const report: BillNumberRegistrationReport = { registered: 0, duplicates: 0 };
+  const now = new Date().toISOString();
+
+  bills.forEach(({ id, record }) => {
+    if (!record.billNumber) return; // Drafts are numbered when issued
+    const key = billNumberKey(record.billNumber);
+    if (index[key] === id) return;
+    if (index[key]) {
+      report.duplicates += 1;
+      return;
+    }
+    index[key] = id;
+    updates[`${BILL_NUMBERING_PATH}/index/${key}`] = id;
+    report.registered += 1;
+
+    const parsed = parseBillNumber(billNumbering, record.billNumber);
+    if (!parsed) return;
+    updates[issuedPath(parsed.financialYear, parsed.sequence)] = {
+      billNumber: record.billNumber.trim(),
+      caseId: id,
+      status: 'issued',
+      updatedAt: now,
+    };
+    if (parsed.sequence > (counters.get(parsed.financialYear) || 0)) {
+      counters.set(parsed.financialYear, parsed.sequence);
+      updates[`${BILL_NUMBERING_PATH}/counters/${parsed.financialYear}`] = parsed.sequence;
+    }
+  });
+
+  if (report.registered > 0) {
+    await update(ref(database), updates);
+  }
+  return report;
+}
@@ -0,0 +1,56 @@
+import { BILL_STATUSES, type BillStatus } from '@/lib/caseSchema';
+
+export { BILL_STATUSES };
+export type { BillStatus };
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  partiallyPaid: 'Partially Paid',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+  writtenOff: 'Written Off',
+};
+
+// Moves between issued, partially paid and paid follow the payments recorded against a bill,
+// and go backwards when a cheque bounces
+const TRANSITIONS: Record<BillStatus, readonly BillStatus[]> = {
+  draft: ['issued', 'cancelled'],
+  issued: ['partiallyPaid', 'paid', 'cancelled', 'writtenOff'],
+  partiallyPaid: ['issued', 'paid', 'writtenOff'],
+  paid: ['issued', 'partiallyPaid'],
+  cancelled: [],
+  writtenOff: [],
+};
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: BillStatus, public to: BillStatus) {
+    super(`A bill that is ${BILL_STATUS_LABELS[from].toLowerCase()} cannot be marked ${BILL_STATUS_LABELS[to].toLowerCase()}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export class BillLockedError extends Error {
+  constructor(public billNumber: string) {
+    super(`Bill ${billNumber} has been issued, so its amounts can no longer be changed; raise a credit note or revise it instead`);
+    this.name = 'BillLockedError';
+  }
+}
+
+export const canTransition = (from: BillStatus, to: BillStatus) => from === to || TRANSITIONS[from].includes(to);
+
+export function assertTransition(from: BillStatus, to: BillStatus) {
+  if (!canTransition(from, to)) throw new InvalidStatusTransitionError(from, to);
+}
+
+/** Where an issued bill stands once `paid` of its `total` has been received. */
+export const paymentStatus = (total: number, paid: number): BillStatus =>
+  paid <= 0 ? 'issued' : paid >= total ? 'paid' : 'partiallyPaid';
+
+/** Particulars, amounts, tax, client and date are fixed once a bill leaves draft. */
+export const isLocked = (status: BillStatus) => status !== 'draft';
+
+export const acceptsPayments = (status: BillStatus) => status === 'issued' || status === 'partiallyPaid';
+
+/** Drafts and cancelled bills were never owed, so they are left out of billed and outstanding totals. */
+export const countsAsBilled = (status: BillStatus) => status !== 'draft' && status !== 'cancelled';
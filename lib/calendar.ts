@@ -0,0 +1,107 @@
+import { getParticularDisplayName, type Case } from '@/lib/casesRepository';
+import type { Hearing } from '@/lib/hearingsRepository';
+import type { Matter } from '@/lib/mattersRepository';
+
+/** A particular that charged for an appearance, with the bill it is on. */
+export interface BilledAppearance {
+  caseId: string;
+  firstCaseId: string; // The first bill in a line of revisions, which keeps its id when the bill is revised
+  billNumber: string; // Empty on drafts
+  particular: string;
+}
+
+/**
+ * A day a matter was, or is to be, before a court: a hearing scheduled on the matter, an
+ * appearance billed on one of its bills, or a scheduled hearing that has since been billed.
+ */
+export interface CalendarEvent {
+  key: string;
+  date: string;
+  time?: string;
+  matterId?: string; // Missing on bills raised before matters existed
+  caseNumber: string;
+  title: string;
+  court: string;
+  purpose: string;
+  hearing?: Hearing; // Set when the hearing was scheduled
+  billed: BilledAppearance[];
+}
+
+// A cancelled bill, or one replaced by a revision, would count its appearances twice
+const countsAppearances = (bill: Case) => bill.status !== 'cancelled' && !bill.revisedBy;
+
+const byDateAndTime = (a: CalendarEvent, b: CalendarEvent) =>
+  a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? '') || a.caseNumber.localeCompare(b.caseNumber, undefined, { numeric: true });
+
+/**
+ * Every scheduled hearing and billed appearance, in date order. A billed appearance on a day
+ * a hearing was scheduled on the same matter is that hearing, and several particulars billed
+ * for one matter on one day are one appearance.
+ */
+export function buildCalendar(cases: Case[], hearings: Hearing[], matters: Matter[]): CalendarEvent[] {
+  const mattersById = new Map(matters.map(m => [m.id, m]));
+  const casesById = new Map(cases.map(c => [c.id, c]));
+  const events = new Map<string, CalendarEvent>();
+
+  const firstCaseIdOf = (bill: Case) => {
+    let first = bill;
+    while (first.revisionOf && casesById.has(first.revisionOf)) first = casesById.get(first.revisionOf)!;
+    return first.revisionOf ?? first.id;
+  };
+
+  hearings.forEach(hearing => {
+    const matter = mattersById.get(hearing.matterId);
+    events.set(`${hearing.matterId}:${hearing.date}:${hearing.id}`, {
+      key: `hearing:${hearing.id}`,
+      date: hearing.date,
+      time: hearing.time,
+      matterId: hearing.matterId,
+      caseNumber: matter?.matterNumber ?? 'Deleted matter',
+      title: matter?.title ?? '',
+      court: hearing.court || matter?.court || '',
+      purpose: hearing.purpose,
+      hearing,
+      billed: [],
+    });
+  });
+
+  cases.filter(countsAppearances).forEach(bill => {
+    const firstCaseId = firstCaseIdOf(bill);
+    bill.particulars.forEach(particular => {
+      const date = particular.appearanceDate;
+      if (!date) return;
+      const appearance = { caseId: bill.id, firstCaseId, billNumber: bill.billNumber, particular: getParticularDisplayName(particular) };
+      const matterKey = bill.matterId ?? `case:${bill.caseNumber}`;
+      const scheduled = [...events.entries()].find(([key]) => key.startsWith(`${matterKey}:${date}:`));
+      if (scheduled) {
+        scheduled[1].billed.push(appearance);
+        return;
+      }
+      const key = `${matterKey}:${date}:billed`;
+      const existing = events.get(key);
+      if (existing) {
+        existing.billed.push(appearance);
+        return;
+      }
+      const matter = mattersById.get(bill.matterId ?? '');
+      events.set(key, {
+        key: `appearance:${matterKey}:${date}`,
+        date,
+        matterId: bill.matterId,
+        caseNumber: bill.caseNumber,
+        title: bill.caseDescription,
+        court: matter?.court ?? '',
+        purpose: '',
+        billed: [appearance],
+      });
+    });
+  });
+
+  return [...events.values()].sort(byDateAndTime);
+}
+
+/** Events on one `YYYY-MM-DD` day. */
+export const eventsOn = (events: CalendarEvent[], date: string) => events.filter(e => e.date === date);
+
+/** A scheduled hearing that has passed without an appearance being billed for it. */
+export const isUnbilled = (event: CalendarEvent, today: string) => !!event.hearing && event.billed.length === 0 && event.date < today;
@@ -0,0 +1,303 @@
+import * as z from 'zod';
+import { normalizeDate } from '@/lib/dates';
+
+// --- SCHEMA ---
+// 'Online' is kept for transfers recorded before the specific methods were added
+export const PAYMENT_METHODS = ['Cash', 'Cheque', 'NEFT/RTGS', 'UPI', 'Demand Draft', 'Card', 'Online'] as const;
+
+// Cheques and drafts count as paid when received, and are reversed if the bank returns them
+export const CLEARANCE_STATUSES = ['pending', 'cleared', 'bounced'] as const;
+
+// Allowed transitions between these are defined in lib/billStatus.ts
+export const BILL_STATUSES = ['draft', 'issued', 'partiallyPaid', 'paid', 'cancelled', 'writtenOff'] as const;
+
+// Reminders escalate in this order; templates are in lib/reminders.ts
+export const REMINDER_LEVELS = ['first', 'second', 'final'] as const;
+
+export const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const storedParticularSchema = z.object({
+  type: z.string().min(1, 'Particular type is required'),
+  amount: z.number().min(0, 'Amount cannot be negative'),
+  appearanceDate: isoDate.nullable().optional(),
+  customType: z.string().optional(),
+  sacCode: z.string().optional(), // Missing on bills created before GST was charged
+  // Set on time billed by the hour; the amount is hours × rate
+  hours: z.number().positive().optional(),
+  rate: z.number().min(0).optional(),
+});
+
+export const TDS_SECTIONS = ['194J', '194C', '194H', '194I'] as const;
+
+/** Tax deducted at source by the client; it settles the bill like cash but arrives via Form 26AS. */
+export const storedTdsSchema = z.object({
+  amount: z.number().positive('TDS amount must be greater than 0'),
+  section: z.enum(TDS_SECTIONS),
+  certificateNumber: z.string().optional(), // Form 16A, issued after the quarter ends
+});
+
+/** What identifies a payment with the bank; which fields are required depends on the method. */
+export const paymentDetailsSchema = z.object({
+  instrumentNumber: z.string().optional(), // Cheque or demand draft number
+  bankName: z.string().optional(), // Bank the cheque or draft is drawn on
+  utr: z.string().optional(), // NEFT/RTGS unique transaction reference
+  upiTransactionId: z.string().optional(),
+});
+
+export const PAYMENT_DETAIL_LABELS: Record<keyof PaymentDetails, string> = {
+  instrumentNumber: 'Cheque/DD Number',
+  bankName: 'Bank',
+  utr: 'UTR',
+  upiTransactionId: 'UPI Transaction ID',
+};
+
+export const PAYMENT_METHOD_DETAILS: Record<PaymentMethod, readonly (keyof PaymentDetails)[]> = {
+  'Cash': [],
+  'Cheque': ['instrumentNumber', 'bankName'],
+  'NEFT/RTGS': ['utr'],
+  'UPI': ['upiTransactionId'],
+  'Demand Draft': ['instrumentNumber', 'bankName'],
+  'Card': [],
+  'Online': [],
+};
+
+/** Methods whose money is only certain once the bank clears the instrument. */
+export const needsClearance = (method: PaymentMethod) => method === 'Cheque' || method === 'Demand Draft';
+
+/** Flags the details a payment or receipt is missing for its method. */
+export const checkPaymentDetails = (payment: PaymentDetails & { method: PaymentMethod }, ctx: z.RefinementCtx) => {
+  PAYMENT_METHOD_DETAILS[payment.method].forEach(field => {
+    if (!payment[field]?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${PAYMENT_DETAIL_LABELS[field]} is required for ${payment.method}`, path: [field] });
+    }
+  });
+};
+
+export const storedClearanceSchema = z.object({
+  status: z.enum(CLEARANCE_STATUSES),
+  date: isoDate.optional(), // When the bank cleared or returned it
+  reason: z.string().optional(), // The bank's reason for returning it
+});
+
+/** A payment entered in error. It stays on the bill for the record but counts for nothing. */
+export const storedVoidSchema = z.object({
+  reason: z.string().min(1, 'Reason is required'),
+  date: isoDate,
+});
+
+export const storedPaymentSchema = paymentDetailsSchema.extend({
+  amount: z.number().positive('Payment amount must be greater than 0'), // Gross: cash received plus any TDS
+  method: z.enum(PAYMENT_METHODS),
+  date: isoDate,
+  tds: storedTdsSchema.optional(),
+  receiptId: z.string().optional(), // Set when the payment is part of a receipt spread over several bills
+  moneyReceiptNumber: z.string().optional(), // Missing on payments recorded before money receipts were numbered
+  clearance: storedClearanceSchema.optional(), // Only on cheques and drafts
+  voided: storedVoidSchema.optional(),
+})
+  .refine(p => !p.tds || p.tds.amount < p.amount, { message: 'TDS must be less than the gross amount', path: ['tds', 'amount'] })
+  .superRefine(checkPaymentDetails);
+
+/**
+ * GST charged on a bill, fixed when the bill is saved so later changes to the firm's or
+ * client's registration do not alter it. Under reverse charge the client pays the tax to
+ * the government, so it is shown on the bill but not added to `totalAmount`.
+ */
+export const storedTaxSchema = z.object({
+  supplierGstin: z.string().min(1),
+  recipientGstin: z.string().optional(),
+  placeOfSupply: z.string().regex(/^\d{2}$/, 'Expected a GST state code'),
+  reverseCharge: z.boolean(),
+  rate: z.number().min(0),
+  taxableAmount: z.number().min(0),
+  cgst: z.number().min(0),
+  sgst: z.number().min(0),
+  igst: z.number().min(0),
+});
+
+export const storedCancellationSchema = z.object({
+  reason: z.string().min(1, 'Reason is required'),
+  date: isoDate,
+});
+
+/** The unpaid balance given up on a bad debt. */
+export const storedWriteOffSchema = z.object({
+  amount: z.number().positive(),
+  reason: z.string().min(1, 'Reason is required'),
+  date: isoDate,
+});
+
+/**
+ * Reduces what is owed on an issued bill without touching the bill itself. Credit notes have
+ * their own number series, and reverse GST at the rate and split the bill was charged with.
+ */
+export const storedCreditNoteSchema = z.object({
+  creditNoteNumber: z.string().min(1),
+  date: isoDate,
+  reason: z.string().min(1, 'Reason is required'),
+  taxableAmount: z.number().positive('Amount must be greater than 0'),
+  cgst: z.number().min(0),
+  sgst: z.number().min(0),
+  igst: z.number().min(0),
+  totalAmount: z.number().positive(), // Taxable value plus reversed GST, unless under reverse charge
+  createdAt: z.string().optional(),
+});
+
+/** A payment reminder emailed to the client, with the bill PDF attached. */
+export const storedReminderSchema = z.object({
+  level: z.enum(REMINDER_LEVELS),
+  sentAt: z.string(),
+  to: z.array(z.string().min(1)).min(1),
+  messageId: z.string().optional(),
+});
+
+/**
+ * The shape of a record under `cases/` once it has been migrated to the current version.
+ * Each record is one bill; `caseNumber` and `caseDescription` are copies of the number
+ * and title of the matter it was raised against.
+ */
+export const storedCaseSchema = z.object({
+  schemaVersion: z.number().int(),
+  version: z.number().int().min(0).default(0), // Moved on by every write; missing on records not written since versions were added
+  billNumber: z.string(), // Empty while the bill is a draft; numbers are allocated on issue
+  status: z.enum(BILL_STATUSES),
+  matterId: z.string().optional(), // Missing on bills created before matters existed
+  caseNumber: z.string().min(1, 'Case number is required'),
+  caseDescription: z.string(),
+  clientId: z.string().optional(),
+  date: isoDate,
+  totalAmount: z.number().min(0), // Taxable value plus any GST the client pays us
+  tax: storedTaxSchema.optional(), // Missing on bills without GST
+  createdAt: z.string().optional(),
+  issuedAt: z.string().optional(), // Missing on bills issued before drafts existed
+  dueDate: isoDate.optional(), // Set on issue from the client's payment terms; missing on drafts and older bills
+  cancellation: storedCancellationSchema.optional(),
+  writeOff: storedWriteOffSchema.optional(),
+  revisionOf: z.string().optional(), // Id of the issued bill this one replaces
+  revisedBy: z.string().optional(), // Id of the bill that replaces this one
+  // Firebase drops empty arrays, so these may be missing on read
+  particulars: z.array(storedParticularSchema).default([]),
+  payments: z.array(storedPaymentSchema).default([]),
+  creditNotes: z.array(storedCreditNoteSchema).default([]),
+  reminders: z.array(storedReminderSchema).default([]),
+});
+
+export type StoredParticular = z.infer<typeof storedParticularSchema>;
+export type StoredPayment = z.infer<typeof storedPaymentSchema>;
+export type StoredTax = z.infer<typeof storedTaxSchema>;
+export type StoredTds = z.infer<typeof storedTdsSchema>;
+export type PaymentDetails = z.infer<typeof paymentDetailsSchema>;
+type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+export type StoredClearance = z.infer<typeof storedClearanceSchema>;
+export type ClearanceStatus = (typeof CLEARANCE_STATUSES)[number];
+export type StoredCreditNote = z.infer<typeof storedCreditNoteSchema>;
+export type StoredReminder = z.infer<typeof storedReminderSchema>;
+export type ReminderLevel = (typeof REMINDER_LEVELS)[number];
+export type BillStatus = (typeof BILL_STATUSES)[number];
+export type StoredCase = z.infer<typeof storedCaseSchema>;
+
+// --- MIGRATIONS ---
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (record: RawRecord) => RawRecord;
+}
+
+/** Reads amounts saved as numbers or as strings such as "₹1,500". */
+const toAmount = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.replace(/[₹,\s]/g, ''));
+    return isNaN(parsed) ? value : parsed;
+  }
+  return value ?? 0;
+};
+
+/** Firebase returns arrays with gaps as objects keyed by index. */
+const toArray = (value: unknown): RawRecord[] => {
+  if (Array.isArray(value)) return value.filter(Boolean);
+  if (value && typeof value === 'object') return Object.values(value).filter(Boolean) as RawRecord[];
+  return [];
+};
+
+const toPaymentMethod = (value: unknown) =>
+  PAYMENT_METHODS.find(m => typeof value === 'string' && m.toLowerCase() === value.trim().toLowerCase()) ?? value;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalise dates to YYYY-MM-DD, amounts to numbers, and drop stored payment totals',
+    migrate: ({ paidAmount, remainingAmount, ...record }) => {
+      const particulars = toArray(record.particulars).map(p => ({
+        ...p,
+        amount: toAmount(p.amount),
+        appearanceDate: normalizeDate(p.appearanceDate),
+      }));
+      const payments = toArray(record.payments).map(p => ({
+        ...p,
+        amount: toAmount(p.amount),
+        method: toPaymentMethod(p.method),
+        date: normalizeDate(p.date) ?? p.date,
+      }));
+      const totalAmount = record.totalAmount === undefined
+        ? particulars.reduce((sum, p) => sum + (typeof p.amount === 'number' ? p.amount : 0), 0)
+        : toAmount(record.totalAmount);
+      return {
+        ...record,
+        billNumber: record.billNumber === undefined ? record.billNumber : String(record.billNumber),
+        caseNumber: record.caseNumber === undefined ? record.caseNumber : String(record.caseNumber),
+        caseDescription: record.caseDescription ?? '',
+        date: normalizeDate(record.date) ?? record.date,
+        totalAmount,
+        particulars,
+        payments,
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Add a bill status, worked out from the payments received',
+    migrate: (record) => {
+      const total = typeof record.totalAmount === 'number' ? record.totalAmount : 0;
+      const paid = toArray(record.payments).reduce((sum, p) => sum + (typeof p.amount === 'number' ? p.amount : 0), 0);
+      // Every bill saved before drafts existed was issued with a number
+      const status = paid <= 0 ? 'issued' : paid >= total ? 'paid' : 'partiallyPaid';
+      return { ...record, status: record.status ?? status };
+    },
+  },
+];
+
+export const CURRENT_CASE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type CaseMigrationResult =
+  | { ok: true; record: StoredCase; migrated: boolean }
+  | { ok: false; issues: string[] };
+
+/**
+ * Brings a raw `cases/` record up to the current schema version and validates it.
+ * Records that still fail validation after migration are reported with their issues.
+ */
+export function migrateCaseRecord(raw: unknown): CaseMigrationResult {
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, issues: ['Record is not an object'] };
+  }
+
+  let record: RawRecord = { ...raw };
+  const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      record = { ...migration.migrate(record), schemaVersion: migration.version };
+    }
+  }
+
+  const parsed = storedCaseSchema.safeParse(record);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`),
+    };
+  }
+  return { ok: true, record: parsed.data, migrated: fromVersion < CURRENT_CASE_SCHEMA_VERSION };
+}
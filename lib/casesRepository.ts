@@ -0,0 +1,839 @@
+'use client';
+
+import { ref, get, push, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import {
+  storedCaseSchema,
+  migrateCaseRecord,
+  CURRENT_CASE_SCHEMA_VERSION,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_DETAILS,
+  PAYMENT_DETAIL_LABELS,
+  CLEARANCE_STATUSES,
+  TDS_SECTIONS,
+  needsClearance,
+  storedPaymentSchema,
+  storedClearanceSchema,
+  storedVoidSchema,
+  storedTdsSchema,
+  storedTaxSchema,
+  storedCancellationSchema,
+  storedWriteOffSchema,
+  storedCreditNoteSchema,
+  storedReminderSchema,
+  type PaymentDetails,
+  type StoredCase,
+  type StoredClearance,
+  type StoredCreditNote,
+  type StoredParticular,
+  type StoredPayment,
+  type StoredReminder,
+  type StoredTax,
+  type StoredTds,
+} from '@/lib/caseSchema';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import {
+  allocateBillNumber,
+  allocateCreditNoteNumber,
+  allocateMoneyReceiptNumber,
+  billNumberKey,
+  claimManualBillNumber,
+  numberStatusUpdates,
+  releaseBillNumber,
+} from '@/lib/billNumbering';
+import { calculateGst, stateCodeFromGstin, totalGst, type GstInput } from '@/lib/gst';
+import { getSettings, type ParticularType } from '@/lib/settingsRepository';
+import { sacCodeFor } from '@/lib/rateCard';
+import {
+  BILL_STATUS_LABELS,
+  BillLockedError,
+  acceptsPayments,
+  assertTransition,
+  countsAsBilled,
+  isLocked,
+  paymentStatus,
+} from '@/lib/billStatus';
+import { auditUpdates, diffRecords, type AuditAction } from '@/lib/auditLog';
+import { toISODate } from '@/lib/dates';
+import { calculateDueDate } from '@/lib/paymentTerms';
+import { stripUndefined } from '@/lib/utils';
+import { ConcurrentEditError, commitVersionedUpdates, versionUpdate, type VersionedRecord } from '@/lib/versionedWrites';
+import { workBilledUpdates } from '@/lib/workLogRepository';
+import { timeBilledUpdates } from '@/lib/timeEntriesRepository';
+
+export { PAYMENT_METHODS, PAYMENT_METHOD_DETAILS, PAYMENT_DETAIL_LABELS, CLEARANCE_STATUSES, TDS_SECTIONS, needsClearance };
+export type { PaymentDetails };
+
+// --- MODELS ---
+export type Particular = StoredParticular;
+export type Payment = StoredPayment;
+export type PaymentMethod = Payment['method'];
+export type Clearance = StoredClearance;
+export type ClearanceStatus = Clearance['status'];
+export type Tax = StoredTax;
+export type Tds = StoredTds;
+export type TdsSection = Tds['section'];
+export type CreditNote = StoredCreditNote;
+export type Reminder = StoredReminder;
+
+export interface Case extends StoredCase {
+  id: string;
+  paidAmount: number; // Derived from payments
+  creditedAmount: number; // Derived from credit notes
+  remainingAmount: number; // Derived from totalAmount - paidAmount - creditedAmount - any write-off; nothing is owed on drafts or cancelled bills
+}
+
+/** A stored record that could not be migrated to the current schema. */
+export interface InvalidCaseRecord {
+  id: string;
+  issues: string[];
+}
+
+/**
+ * The editable fields of a case; totals, tax amounts and payments are maintained by the repository.
+ * `gst` chooses the GST treatment: null charges none, and on update undefined keeps the bill's current one.
+ */
+export type CaseInput = Pick<Case, 'billNumber' | 'matterId' | 'caseNumber' | 'caseDescription' | 'clientId' | 'date' | 'particulars'> & {
+  gst?: GstInput | null;
+};
+
+const CASES_PATH = 'cases';
+const MAX_WRITE_ATTEMPTS = 5;
+
+// --- HELPERS ---
+export const calculateTotal = (particulars: { amount: number | string }[]) =>
+  particulars.reduce((sum, p) => sum + Number(p.amount || 0), 0);
+
+/** A cheque or draft the bank returned; it stays on record but no longer counts as paid. */
+export const isBounced = (payment: Payment) => payment.clearance?.status === 'bounced';
+
+/** Bounced and voided payments are kept on the bill but settle nothing. */
+export const countsAsPaid = (payment: Payment) => !isBounced(payment) && !payment.voided;
+
+/** Payments settle a bill at their gross amount, so TDS counts towards what is paid. */
+export const calculatePaid = (payments: Payment[]) =>
+  payments.reduce((sum, p) => sum + (countsAsPaid(p) ? Number(p.amount || 0) : 0), 0);
+
+export const calculateCredited = (creditNotes: CreditNote[]) =>
+  creditNotes.reduce((sum, n) => sum + n.totalAmount, 0);
+
+/** The details recorded for a payment's method, e.g. "UTR N123456789". */
+export const formatPaymentDetails = (payment: PaymentDetails & Pick<Payment, 'method'>) =>
+  PAYMENT_METHOD_DETAILS[payment.method]
+    .flatMap(field => (payment[field] ? [`${PAYMENT_DETAIL_LABELS[field]} ${payment[field]}`] : []))
+    .join(', ');
+
+/** Trims the details a payment's method uses, and clears any left over from another method. */
+export const cleanPaymentDetails = (payment: PaymentDetails & Pick<Payment, 'method'>): PaymentDetails =>
+  Object.fromEntries((Object.keys(PAYMENT_DETAIL_LABELS) as (keyof PaymentDetails)[]).map(field => [
+    field,
+    PAYMENT_METHOD_DETAILS[payment.method].includes(field) ? payment[field]?.trim() || undefined : undefined,
+  ]));
+
+/** Money actually received for a payment, after the client's TDS deduction. */
+export const getNetReceived = (payment: Payment) => payment.amount - (payment.tds?.amount ?? 0);
+
+/** The bill's value before GST. */
+export const getTaxableAmount = (caseItem: Pick<Case, 'tax' | 'particulars'>) =>
+  caseItem.tax?.taxableAmount ?? calculateTotal(caseItem.particulars);
+
+/** What the client owes: GST under reverse charge is paid by the client to the government instead. */
+export const calculateInvoiceTotal = (taxableAmount: number, tax?: Pick<Tax, 'cgst' | 'sgst' | 'igst' | 'reverseCharge'>) =>
+  taxableAmount + (tax && !tax.reverseCharge ? totalGst(tax) : 0);
+
+export const getParticularDisplayName = (p: Pick<Particular, 'type' | 'customType'>) =>
+  (p.type === 'Other' && p.customType) ? `Other: ${p.customType}` : p.type;
+
+const toCase = (id: string, record: StoredCase): Case => {
+  const paidAmount = calculatePaid(record.payments);
+  const creditedAmount = calculateCredited(record.creditNotes);
+  return {
+    ...record,
+    id,
+    paidAmount,
+    creditedAmount,
+    remainingAmount: countsAsBilled(record.status)
+      ? record.totalAmount - paidAmount - creditedAmount - (record.writeOff?.amount ?? 0)
+      : 0,
+  };
+};
+
+/**
+ * The credit note for `taxableAmount` of a bill, reversing GST at the rate and split the bill
+ * was charged with. A note that credits everything left reverses all remaining GST, so
+ * rounding never leaves paise of tax behind.
+ */
+export function calculateCreditNote(caseItem: Case, taxableAmount: number): Pick<CreditNote, 'taxableAmount' | 'cgst' | 'sgst' | 'igst' | 'totalAmount'> {
+  const { tax, creditNotes } = caseItem;
+  const sum = (field: 'taxableAmount' | 'cgst' | 'sgst' | 'igst') => creditNotes.reduce((total, n) => total + n[field], 0);
+  let gst = { cgst: 0, sgst: 0, igst: 0 };
+  if (tax) {
+    gst = taxableAmount >= getTaxableAmount(caseItem) - sum('taxableAmount')
+      ? { cgst: tax.cgst - sum('cgst'), sgst: tax.sgst - sum('sgst'), igst: tax.igst - sum('igst') }
+      : calculateGst(taxableAmount, tax.rate, stateCodeFromGstin(tax.supplierGstin) ?? tax.placeOfSupply, tax.placeOfSupply);
+  }
+  return {
+    taxableAmount,
+    ...gst,
+    totalAmount: calculateInvoiceTotal(taxableAmount, tax && { ...gst, reverseCharge: tax.reverseCharge }),
+  };
+}
+
+interface CasesSnapshot {
+  cases: Case[];
+  invalidRecords: InvalidCaseRecord[];
+  pendingMigrationIds: string[];
+}
+
+const toCasesSnapshot = (data: unknown): CasesSnapshot => {
+  const snapshot: CasesSnapshot = { cases: [], invalidRecords: [], pendingMigrationIds: [] };
+  Object.entries(readNode(data)).forEach(([id, raw]) => {
+    const result = migrateCaseRecord(raw);
+    if (!result.ok) {
+      snapshot.invalidRecords.push({ id, issues: result.issues });
+      return;
+    }
+    if (result.migrated) snapshot.pendingMigrationIds.push(id);
+    snapshot.cases.push(toCase(id, result.record));
+  });
+  // Most recent first; dates are YYYY-MM-DD so they sort as strings
+  snapshot.cases.sort((a, b) => b.date.localeCompare(a.date));
+  return snapshot;
+};
+
+const sanitizeParticulars = (particulars: { type: string; amount: number | string; appearanceDate?: string | null }[], rateCard: ParticularType[]) =>
+  particulars.map(p => ({
+    ...p,
+    amount: Number(p.amount || 0),
+    appearanceDate: p.appearanceDate || null,
+    sacCode: sacCodeFor(p.type, rateCard),
+  }));
+
+/**
+ * Works out the GST on a bill from the firm's and client's registrations. A firm without a
+ * GSTIN charges no GST. `rate` keeps an existing bill at the rate it was issued with.
+ */
+const resolveTax = async (gst: GstInput, taxableAmount: number, clientId?: string, rate?: number): Promise<StoredTax | undefined> => {
+  const { firm, gst: gstSettings } = await getSettings();
+  const supplierState = stateCodeFromGstin(firm.gstin);
+  if (!supplierState) return undefined;
+  const recipientGstin = clientId ? ((await get(ref(database, `clients/${clientId}/gstin`))).val() || undefined) : undefined;
+  const effectiveRate = rate ?? gstSettings.rate;
+  return storedTaxSchema.parse({
+    supplierGstin: firm.gstin,
+    recipientGstin,
+    placeOfSupply: gst.placeOfSupply,
+    reverseCharge: gst.reverseCharge,
+    rate: effectiveRate,
+    taxableAmount,
+    ...calculateGst(taxableAmount, effectiveRate, supplierState, gst.placeOfSupply),
+  });
+};
+
+/** When a bill dated `date` falls due, under the client's payment terms or else the firm's default. */
+const resolveDueDate = async (date: string, clientId?: string): Promise<string> => {
+  const clientTerms = clientId ? (await get(ref(database, `clients/${clientId}/paymentTermsDays`))).val() : null;
+  const days = typeof clientTerms === 'number' ? clientTerms : (await getSettings()).paymentTerms.days;
+  return calculateDueDate(date, days);
+};
+
+/** The taxable amount a credit note needs to clear everything still owed on a bill. */
+export function getCreditableTaxable(caseItem: Case): number {
+  const uncredited = getTaxableAmount(caseItem) - caseItem.creditNotes.reduce((sum, n) => sum + n.taxableAmount, 0);
+  if (caseItem.remainingAmount >= caseItem.totalAmount - caseItem.creditedAmount) return uncredited;
+  const gstShare = caseItem.tax && !caseItem.tax.reverseCharge ? caseItem.tax.rate / 100 : 0;
+  return Math.round((caseItem.remainingAmount / (1 + gstShare)) * 100) / 100;
+}
+
+/** A bill as the record its writes are checked against, so a write from an outdated copy is rejected. */
+export const versionedCase = (caseItem: Pick<Case, 'id' | 'version' | 'billNumber'>): VersionedRecord => ({
+  path: `${CASES_PATH}/${caseItem.id}`,
+  version: caseItem.version,
+  label: caseItem.billNumber ? `Bill ${caseItem.billNumber}` : 'This draft bill',
+});
+
+// --- SUBSCRIPTION ---
+const casesStore = createRealtimeStore<CasesSnapshot>(CASES_PATH, toCasesSnapshot, {
+  cases: [],
+  invalidRecords: [],
+  pendingMigrationIds: [],
+});
+
+/**
+ * All valid cases, most recent first, from a subscription shared by every caller.
+ * Legacy records are migrated in memory on read; records that fail validation are
+ * left out of `cases` and listed in `invalidRecords`.
+ */
+export function useCases() {
+  const { data, loading } = useRealtimeStore(casesStore);
+  return { ...data, loading };
+}
+
+// --- WRITES ---
+export interface CreateCaseOptions {
+  /** Ignore `input.billNumber` and take the next number in the bill date's financial year. */
+  autoNumber?: boolean;
+  /** Save without a number, so the bill can still be changed; it is numbered when issued. */
+  draft?: boolean;
+  /** Work log items the particulars were drawn from, marked billed on this bill as it is saved. */
+  workItemIds?: string[];
+  /** Time entries billed by the hour on this bill, marked billed as it is saved. */
+  timeEntryIds?: string[];
+}
+
+/**
+ * Creates a bill, issued unless `options.draft` is set. The number of an issued bill is
+ * claimed before the bill is written, so a duplicate manual number is rejected with a
+ * DuplicateBillNumberError and nothing is saved.
+ */
+export async function createCase(input: CaseInput, options: CreateCaseOptions = {}): Promise<{ id: string; billNumber: string }> {
+  const particulars = sanitizeParticulars(input.particulars, (await getSettings()).rateCard);
+  const taxableAmount = calculateTotal(particulars);
+  const tax = input.gst ? await resolveTax(input.gst, taxableAmount, input.clientId) : undefined;
+  const now = new Date().toISOString();
+  // Validate before claiming a number, so invalid input never consumes one
+  const record = storedCaseSchema.omit({ billNumber: true }).parse({
+    ...input,
+    schemaVersion: CURRENT_CASE_SCHEMA_VERSION,
+    version: 1,
+    status: options.draft ? 'draft' : 'issued',
+    particulars,
+    payments: [],
+    tax,
+    totalAmount: calculateInvoiceTotal(taxableAmount, tax),
+    createdAt: now,
+    issuedAt: options.draft ? undefined : now,
+    dueDate: options.draft ? undefined : await resolveDueDate(input.date, input.clientId),
+  });
+  const id = push(ref(database, CASES_PATH)).key as string;
+
+  if (options.draft) {
+    const draft = stripUndefined({ ...record, billNumber: '' });
+    await update(ref(database), {
+      [`${CASES_PATH}/${id}`]: draft,
+      ...workBilledUpdates(options.workItemIds ?? [], id),
+      ...timeBilledUpdates(options.timeEntryIds ?? [], id),
+      ...auditUpdates({ action: 'bill.create', path: `${CASES_PATH}/${id}`, before: null, after: draft }),
+    });
+    return { id, billNumber: '' };
+  }
+
+  const billNumber = options.autoNumber
+    ? await allocateBillNumber(record.date, id)
+    : await claimManualBillNumber(input.billNumber, id);
+
+  const created = stripUndefined({ ...record, billNumber });
+  try {
+    await update(ref(database), {
+      [`${CASES_PATH}/${id}`]: created,
+      ...(await numberStatusUpdates(billNumber, id, 'issued')),
+      ...workBilledUpdates(options.workItemIds ?? [], id),
+      ...timeBilledUpdates(options.timeEntryIds ?? [], id),
+      ...auditUpdates({ action: 'bill.create', path: `${CASES_PATH}/${id}`, before: null, after: created, billNumber }),
+    });
+  } catch (error) {
+    await releaseBillNumber(billNumber, id);
+    throw error;
+  }
+  return { id, billNumber };
+}
+
+/** Whether an edit touches anything that is fixed once a bill is issued. */
+function changesLockedFields(record: StoredCase, input: CaseInput): boolean {
+  const comparable = (particulars: CaseInput['particulars']) => particulars.map(p => ({
+    type: p.type,
+    amount: Number(p.amount || 0),
+    appearanceDate: p.appearanceDate || undefined,
+    customType: p.customType || undefined,
+  }));
+  const gstChanged = input.gst !== undefined && (input.gst === null
+    ? record.tax !== undefined
+    : record.tax?.placeOfSupply !== input.gst.placeOfSupply || record.tax?.reverseCharge !== input.gst.reverseCharge);
+
+  return gstChanged
+    || diffRecords(comparable(record.particulars), comparable(input.particulars)).length > 0
+    || (record.clientId ?? '') !== (input.clientId ?? '')
+    || record.date !== input.date
+    || billNumberKey(record.billNumber) !== billNumberKey(input.billNumber);
+}
+
+/** The latest copy of a bill, read from the database rather than the shared subscription. */
+async function readCase(id: string): Promise<Case> {
+  const current = migrateCaseRecord((await get(ref(database, `${CASES_PATH}/${id}`))).val());
+  if (!current.ok) throw new Error(`Bill could not be read: ${current.issues.join('; ')}`);
+  return toCase(id, current.record);
+}
+
+/**
+ * Writes a change that only adds to a bill, such as a new payment. If someone else changed the
+ * bill first, the change is worked out again from the latest copy rather than overwriting theirs.
+ */
+async function commitToLatest(caseItem: Case, buildUpdates: (latest: Case) => Record<string, unknown>): Promise<void> {
+  let latest = caseItem;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await commitVersionedUpdates(buildUpdates(latest), [versionedCase(latest)]);
+      return;
+    } catch (error) {
+      if (!(error instanceof ConcurrentEditError) || attempt >= MAX_WRITE_ATTEMPTS) throw error;
+      latest = await readCase(caseItem.id);
+    }
+  }
+}
+
+/**
+ * Updates a bill. Drafts can be changed freely. Issued bills only take changes to the matter
+ * they are filed under; anything else throws a BillLockedError. Pass the `version` the edit
+ * was started from to have it rejected with a ConcurrentEditError if the bill changed since.
+ */
+export async function updateCase(id: string, input: CaseInput, expectedVersion?: number): Promise<void> {
+  const existing = (await get(ref(database, `${CASES_PATH}/${id}`))).val();
+  const current = migrateCaseRecord(existing);
+  if (!current.ok) throw new Error(`Bill could not be read: ${current.issues.join('; ')}`);
+  const record = current.record;
+  const versioned = versionedCase({ ...record, id });
+  if (expectedVersion !== undefined && record.version !== expectedVersion) throw new ConcurrentEditError(versioned.label);
+
+  let changes: Partial<StoredCase>;
+  if (isLocked(record.status)) {
+    if (changesLockedFields(record, input)) throw new BillLockedError(record.billNumber);
+    changes = storedCaseSchema.pick({ matterId: true, caseNumber: true, caseDescription: true }).parse(input);
+  } else {
+    const gst = input.gst !== undefined ? input.gst : record.tax ?? null;
+    const particulars = sanitizeParticulars(input.particulars, (await getSettings()).rateCard);
+    const taxableAmount = calculateTotal(particulars);
+    const tax = gst ? await resolveTax(gst, taxableAmount, input.clientId) : undefined;
+    const draft = storedCaseSchema
+      .pick({ matterId: true, caseNumber: true, caseDescription: true, clientId: true, date: true, particulars: true, tax: true, totalAmount: true })
+      .parse({ ...input, particulars, tax, totalAmount: calculateInvoiceTotal(taxableAmount, tax) });
+    // Null removes the client link or the GST block when they are cleared
+    changes = { ...draft, clientId: draft.clientId ?? null, tax: draft.tax ?? null } as Partial<StoredCase>;
+  }
+
+  const updates: Record<string, unknown> = {
+    ...versionUpdate(versioned),
+    ...auditUpdates({
+      action: 'bill.update',
+      path: `${CASES_PATH}/${id}`,
+      before: existing,
+      after: stripUndefined({ ...existing, ...changes }),
+      billNumber: record.billNumber,
+    }),
+  };
+  Object.entries(changes).forEach(([key, value]) => {
+    updates[`${CASES_PATH}/${id}/${key}`] = value;
+  });
+  await commitVersionedUpdates(stripUndefined(updates), [versioned]);
+}
+
+/**
+ * Issues a draft under the next number in its date's financial year, and returns the number.
+ * The due date is fixed at the same time, from the client's payment terms.
+ */
+export async function issueBill(caseItem: Case): Promise<string> {
+  assertTransition(caseItem.status, 'issued');
+  const dueDate = await resolveDueDate(caseItem.date, caseItem.clientId);
+  const billNumber = await allocateBillNumber(caseItem.date, caseItem.id);
+  const changes = { billNumber, status: 'issued', issuedAt: new Date().toISOString(), dueDate };
+
+  const updates: Record<string, unknown> = {
+    ...versionUpdate(versionedCase(caseItem)),
+    ...(await numberStatusUpdates(billNumber, caseItem.id, 'issued')),
+    ...auditUpdates({
+      action: 'bill.issue',
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { billNumber: caseItem.billNumber, status: caseItem.status },
+      after: changes,
+      billNumber,
+    }),
+  };
+  Object.entries(changes).forEach(([key, value]) => {
+    updates[`${CASES_PATH}/${caseItem.id}/${key}`] = value;
+  });
+  try {
+    await commitVersionedUpdates(updates, [versionedCase(caseItem)]);
+  } catch (error) {
+    await releaseBillNumber(billNumber, caseItem.id);
+    throw error;
+  }
+  return billNumber;
+}
+
+/**
+ * Cancels a bill that nothing has been paid against. Its number stays taken, and is
+ * marked cancelled in the register with the same reason.
+ */
+export async function cancelBill(caseItem: Case, reason: string): Promise<void> {
+  assertTransition(caseItem.status, 'cancelled');
+  if (caseItem.payments.length > 0) throw new Error('A bill with payments against it cannot be cancelled');
+  const cancellation = storedCancellationSchema.parse({ reason: reason.trim(), date: toISODate(new Date()) });
+
+  await commitVersionedUpdates({
+    ...versionUpdate(versionedCase(caseItem)),
+    [`${CASES_PATH}/${caseItem.id}/status`]: 'cancelled',
+    [`${CASES_PATH}/${caseItem.id}/cancellation`]: cancellation,
+    ...(caseItem.billNumber ? await numberStatusUpdates(caseItem.billNumber, caseItem.id, 'cancelled', cancellation.reason) : {}),
+    ...auditUpdates({
+      action: 'bill.cancel',
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { status: caseItem.status },
+      after: { status: 'cancelled', cancellation },
+      billNumber: caseItem.billNumber,
+    }),
+  }, [versionedCase(caseItem)]);
+}
+
+/** Writes off the unpaid balance of a bill as a bad debt. */
+export async function writeOffBill(caseItem: Case, reason: string): Promise<void> {
+  assertTransition(caseItem.status, 'writtenOff');
+  const writeOff = storedWriteOffSchema.parse({ amount: caseItem.remainingAmount, reason: reason.trim(), date: toISODate(new Date()) });
+
+  await commitVersionedUpdates({
+    ...versionUpdate(versionedCase(caseItem)),
+    [`${CASES_PATH}/${caseItem.id}/status`]: 'writtenOff',
+    [`${CASES_PATH}/${caseItem.id}/writeOff`]: writeOff,
+    ...auditUpdates({
+      action: 'bill.writeOff',
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { status: caseItem.status },
+      after: { status: 'writtenOff', writeOff },
+      billNumber: caseItem.billNumber,
+    }),
+  }, [versionedCase(caseItem)]);
+}
+
+export interface CreditNoteInput {
+  taxableAmount: number;
+  reason: string;
+  date: string;
+}
+
+/**
+ * Raises a credit note against an issued bill, under the next number in the credit note series.
+ * It can reduce the balance still owed, but not below nothing: money already received is not
+ * refunded through a credit note. Returns the credit note number.
+ */
+export async function createCreditNote(caseItem: Case, input: CreditNoteInput): Promise<string> {
+  if (!acceptsPayments(caseItem.status)) {
+    throw new Error(`A credit note cannot be raised against a ${BILL_STATUS_LABELS[caseItem.status].toLowerCase()} bill`);
+  }
+  const amounts = calculateCreditNote(caseItem, input.taxableAmount);
+  // Allow for paise lost to rounding when the whole balance is credited
+  if (amounts.totalAmount > caseItem.remainingAmount + 0.01) {
+    throw new Error(`The credit note comes to ${amounts.totalAmount.toFixed(2)}, more than the ${caseItem.remainingAmount.toFixed(2)} still owed`);
+  }
+  // Validate before allocating a number, so invalid input never consumes one
+  storedCreditNoteSchema.omit({ creditNoteNumber: true }).parse({ ...input, ...amounts, reason: input.reason.trim() });
+
+  const creditNoteNumber = await allocateCreditNoteNumber(input.date);
+  const creditNote = storedCreditNoteSchema.parse({
+    ...amounts,
+    creditNoteNumber,
+    date: input.date,
+    reason: input.reason.trim(),
+    createdAt: new Date().toISOString(),
+  });
+  const creditNotes = [...caseItem.creditNotes, creditNote];
+  const status = paymentStatus(caseItem.totalAmount - calculateCredited(creditNotes), caseItem.paidAmount);
+  assertTransition(caseItem.status, status);
+
+  await commitVersionedUpdates({
+    ...versionUpdate(versionedCase(caseItem)),
+    [`${CASES_PATH}/${caseItem.id}/creditNotes`]: creditNotes,
+    [`${CASES_PATH}/${caseItem.id}/status`]: status,
+    ...auditUpdates({
+      action: 'creditNote.create',
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { creditNotes: caseItem.creditNotes, status: caseItem.status },
+      after: { creditNotes, status },
+      billNumber: caseItem.billNumber,
+    }),
+  }, [versionedCase(caseItem)]);
+  return creditNoteNumber;
+}
+
+/**
+ * Replaces an issued bill that nothing has been paid against. The original is left as issued,
+ * its balance cleared by a credit note, and a draft copy linked to it is opened for correction.
+ * The draft is numbered like any other when it is issued. Returns the id of the draft.
+ */
+export async function reviseBill(caseItem: Case, reason: string): Promise<string> {
+  if (caseItem.status !== 'issued' || caseItem.revisedBy || caseItem.remainingAmount <= 0) {
+    throw new Error('Only an issued bill with nothing paid against it can be revised; raise a credit note instead');
+  }
+  const id = push(ref(database, CASES_PATH)).key as string;
+  const now = new Date().toISOString();
+  const today = toISODate(new Date());
+  const creditNoteNumber = await allocateCreditNoteNumber(today);
+  const creditNote = storedCreditNoteSchema.parse({
+    ...calculateCreditNote(caseItem, getCreditableTaxable(caseItem)),
+    creditNoteNumber,
+    date: today,
+    reason: reason.trim(),
+    createdAt: now,
+  });
+  const creditNotes = [...caseItem.creditNotes, creditNote];
+
+  const draft = stripUndefined(storedCaseSchema.parse({
+    schemaVersion: CURRENT_CASE_SCHEMA_VERSION,
+    version: 1,
+    billNumber: '',
+    status: 'draft',
+    matterId: caseItem.matterId,
+    caseNumber: caseItem.caseNumber,
+    caseDescription: caseItem.caseDescription,
+    clientId: caseItem.clientId,
+    date: today,
+    totalAmount: caseItem.totalAmount,
+    tax: caseItem.tax,
+    createdAt: now,
+    revisionOf: caseItem.id,
+    particulars: caseItem.particulars,
+  }));
+
+  await commitVersionedUpdates({
+    [`${CASES_PATH}/${id}`]: draft,
+    ...versionUpdate(versionedCase(caseItem)),
+    [`${CASES_PATH}/${caseItem.id}/creditNotes`]: creditNotes,
+    [`${CASES_PATH}/${caseItem.id}/revisedBy`]: id,
+    ...auditUpdates({ action: 'bill.create', path: `${CASES_PATH}/${id}`, before: null, after: draft }),
+    ...auditUpdates({
+      action: 'bill.revise',
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { creditNotes: caseItem.creditNotes },
+      after: { creditNotes, revisedBy: id },
+      billNumber: caseItem.billNumber,
+    }),
+  }, [versionedCase(caseItem)]);
+  return id;
+}
+
+/**
+ * Deletes a draft. Issued bills are never deleted, so the number sequence has no gaps;
+ * cancel them with cancelBill, or clear what is owed with a credit note.
+ */
+export async function deleteCase(id: string): Promise<void> {
+  const existing = (await get(ref(database, `${CASES_PATH}/${id}`))).val();
+  const current = migrateCaseRecord(existing);
+  if (!current.ok) throw new Error(`Bill could not be read: ${current.issues.join('; ')}`);
+  if (current.record.status !== 'draft') {
+    throw new Error(`Bill ${current.record.billNumber} has been issued, so it cannot be deleted; cancel it instead`);
+  }
+  await update(ref(database), {
+    [`${CASES_PATH}/${id}`]: null,
+    ...auditUpdates({ action: 'bill.delete', path: `${CASES_PATH}/${id}`, before: existing, after: null }),
+  });
+}
+
+const assertAcceptsPayments = (caseItem: Case) => {
+  if (!acceptsPayments(caseItem.status)) {
+    throw new Error(`Payments cannot be recorded against a ${BILL_STATUS_LABELS[caseItem.status].toLowerCase()} bill`);
+  }
+};
+
+/**
+ * The writes that add a payment to a bill and move it to partially paid or paid to match,
+ * for merging into a larger update such as a receipt spread over several bills. Cheques and
+ * drafts start out waiting for the bank to clear them.
+ */
+export function paymentUpdates(caseItem: Case, payment: Payment): Record<string, unknown> {
+  assertAcceptsPayments(caseItem);
+  const clearance = payment.clearance ?? (needsClearance(payment.method) ? { status: 'pending' as const } : undefined);
+  const payments = stripUndefined([...caseItem.payments, storedPaymentSchema.parse({ ...payment, ...cleanPaymentDetails(payment), clearance })]);
+  const status = paymentStatus(caseItem.totalAmount - caseItem.creditedAmount, calculatePaid(payments));
+  assertTransition(caseItem.status, status);
+
+  return {
+    ...versionUpdate(versionedCase(caseItem)),
+    [`${CASES_PATH}/${caseItem.id}/payments`]: payments,
+    [`${CASES_PATH}/${caseItem.id}/status`]: status,
+    ...auditUpdates({
+      action: 'payment.add',
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { payments: caseItem.payments, status: caseItem.status },
+      after: { payments, status },
+      billNumber: caseItem.billNumber,
+    }),
+  };
+}
+
+/**
+ * Records a payment under the next money receipt number and moves the bill to partially paid
+ * or paid to match. A payment someone else recorded on the bill meanwhile is kept, and the
+ * status worked out from both. Returns the money receipt number.
+ */
+export async function addPayment(caseItem: Case, payment: Omit<Payment, 'moneyReceiptNumber'>): Promise<string> {
+  // Validate before allocating a number, so invalid input never consumes one
+  assertAcceptsPayments(caseItem);
+  storedPaymentSchema.parse({ ...payment, ...cleanPaymentDetails(payment) });
+
+  const moneyReceiptNumber = await allocateMoneyReceiptNumber(payment.date);
+  await commitToLatest(caseItem, latest => paymentUpdates(latest, { ...payment, moneyReceiptNumber }));
+  return moneyReceiptNumber;
+}
+
+/**
+ * The writes that replace a bill's payments with `payments`, moving the bill between issued,
+ * partially paid and paid to match what now counts as paid. Once a bill is written off, what
+ * was paid on it can no longer change.
+ */
+function changePaymentsUpdates(caseItem: Case, payments: Payment[], action: AuditAction, reason?: string): Record<string, unknown> {
+  const paid = calculatePaid(payments);
+  let status = caseItem.status;
+  if (Math.abs(paid - caseItem.paidAmount) >= 0.005) {
+    if (!acceptsPayments(caseItem.status) && caseItem.status !== 'paid') {
+      throw new Error(`What was paid on a ${BILL_STATUS_LABELS[caseItem.status].toLowerCase()} bill can no longer be changed`);
+    }
+    status = paymentStatus(caseItem.totalAmount - caseItem.creditedAmount, paid);
+    assertTransition(caseItem.status, status);
+  }
+
+  return {
+    ...versionUpdate(versionedCase(caseItem)),
+    [`${CASES_PATH}/${caseItem.id}/payments`]: stripUndefined(payments),
+    [`${CASES_PATH}/${caseItem.id}/status`]: status,
+    ...auditUpdates({
+      action,
+      path: `${CASES_PATH}/${caseItem.id}`,
+      before: { payments: caseItem.payments, status: caseItem.status },
+      after: { payments, status },
+      billNumber: caseItem.billNumber,
+      reason,
+    }),
+  };
+}
+
+/**
+ * The writes that record the bank clearing or returning the cheques or drafts at
+ * `paymentIndexes`. Only instruments still pending can change. A bounce stops the payments
+ * counting as paid, so the bill moves back to partially paid or issued to match.
+ */
+export function clearanceUpdates(caseItem: Case, paymentIndexes: number[], clearance: Clearance): Record<string, unknown> {
+  const parsed = storedClearanceSchema.parse(clearance);
+  if (parsed.status === 'pending') throw new Error('Clearance can only be marked as cleared or bounced');
+  if (paymentIndexes.some(index => !caseItem.payments[index])) throw new Error('Payment not found');
+  const payments = caseItem.payments.map((payment, index) => {
+    if (!paymentIndexes.includes(index)) return payment;
+    if (payment.clearance?.status !== 'pending') throw new Error('Only a cheque or draft awaiting clearance can be cleared or bounced');
+    return { ...payment, clearance: parsed };
+  });
+  return changePaymentsUpdates(caseItem, payments, parsed.status === 'bounced' ? 'payment.bounce' : 'payment.clear', parsed.reason);
+}
+
+/** The fields of a recorded payment that can be corrected. */
+export type PaymentCorrection = Pick<Payment, 'amount' | 'method' | 'date' | 'tds'> & PaymentDetails;
+
+/** The payment at `paymentIndex`, if it can still be corrected or voided. */
+const getCorrectablePayment = (caseItem: Case, paymentIndex: number, reason: string): Payment => {
+  const payment = caseItem.payments[paymentIndex];
+  if (!payment) throw new Error('Payment not found');
+  if (payment.voided) throw new Error('This payment has already been voided');
+  if (isBounced(payment)) throw new Error('A bounced cheque stays on record as it is');
+  if (!reason.trim()) throw new Error('Please give a reason');
+  return payment;
+};
+
+/**
+ * Corrects a payment entered wrongly, keeping its money receipt number, and moves the bill to
+ * match the new amount. Payments that are part of a receipt cannot be edited here, since the
+ * receipt would no longer add up; void them instead and allocate the receipt again.
+ */
+export async function editPayment(caseItem: Case, paymentIndex: number, correction: PaymentCorrection, reason: string): Promise<void> {
+  const existing = getCorrectablePayment(caseItem, paymentIndex, reason);
+  if (existing.receiptId) throw new Error('This payment is part of a receipt; void it and allocate the receipt again');
+  const clearance = needsClearance(correction.method) ? existing.clearance ?? { status: 'pending' as const } : undefined;
+  const corrected = storedPaymentSchema.parse({ ...existing, ...correction, ...cleanPaymentDetails(correction), clearance });
+  const payments = caseItem.payments.map((payment, index) => (index === paymentIndex ? corrected : payment));
+  await commitVersionedUpdates(changePaymentsUpdates(caseItem, payments, 'payment.edit', reason.trim()), [versionedCase(caseItem)]);
+}
+
+/**
+ * The writes that void a payment entered in error. It stays on the bill, marked void with the
+ * reason, and stops counting as paid.
+ */
+export function voidPaymentUpdates(caseItem: Case, paymentIndex: number, reason: string): Record<string, unknown> {
+  const existing = getCorrectablePayment(caseItem, paymentIndex, reason);
+  const voided = storedVoidSchema.parse({ reason: reason.trim(), date: toISODate(new Date()) });
+  const payments = caseItem.payments.map((payment, index) => (index === paymentIndex ? { ...existing, voided } : payment));
+  return changePaymentsUpdates(caseItem, payments, 'payment.void', voided.reason);
+}
+
+/** Voids a payment entered in error; payments that are part of a receipt are voided through the receipt. */
+export async function voidPayment(caseItem: Case, paymentIndex: number, reason: string): Promise<void> {
+  if (caseItem.payments[paymentIndex]?.receiptId) throw new Error('This payment is part of a receipt');
+  await commitVersionedUpdates(voidPaymentUpdates(caseItem, paymentIndex, reason), [versionedCase(caseItem)]);
+}
+
+/** Records that the bank cleared or returned a cheque or draft paid against a bill. */
+export async function recordClearance(caseItem: Case, paymentIndex: number, clearance: Clearance): Promise<void> {
+  await commitVersionedUpdates(clearanceUpdates(caseItem, [paymentIndex], clearance), [versionedCase(caseItem)]);
+}
+
+/** Records the Form 16A certificate for a payment's TDS once the client issues it. */
+export async function recordTdsCertificate(caseItem: Case, paymentIndex: number, certificateNumber: string): Promise<void> {
+  // Payments are only ever voided, never removed, so the index names the same payment on a later copy
+  const field = `payments/${paymentIndex}/tds`;
+  await commitToLatest(caseItem, latest => {
+    const tds = latest.payments[paymentIndex]?.tds;
+    if (!tds) throw new Error('This payment has no TDS deduction');
+    const updated = storedTdsSchema.parse({ ...tds, certificateNumber: certificateNumber.trim() || undefined });
+    return {
+      ...versionUpdate(versionedCase(latest)),
+      [`${CASES_PATH}/${latest.id}/${field}`]: stripUndefined(updated),
+      ...auditUpdates({ action: 'tds.certificate', path: `${CASES_PATH}/${latest.id}`, before: tds, after: updated, billNumber: latest.billNumber, field }),
+    };
+  });
+}
+
+/** Notes on the bill that a reminder was emailed, once the transport has accepted it. */
+export async function recordReminder(caseItem: Case, reminder: Omit<Reminder, 'sentAt'>): Promise<void> {
+  const sent = storedReminderSchema.parse({ ...reminder, sentAt: new Date().toISOString() });
+  await commitToLatest(caseItem, latest => {
+    const reminders = [...latest.reminders, sent];
+    return {
+      ...versionUpdate(versionedCase(latest)),
+      [`${CASES_PATH}/${latest.id}/reminders`]: stripUndefined(reminders),
+      ...auditUpdates({
+        action: 'reminder.send',
+        path: `${CASES_PATH}/${latest.id}`,
+        before: { reminders: latest.reminders },
+        after: { reminders },
+        billNumber: latest.billNumber,
+      }),
+    };
+  });
+}
+
+// --- MIGRATION ---
+export interface CaseMigrationReport {
+  migrated: string[];
+  failed: InvalidCaseRecord[];
+}
+
+/**
+ * Rewrites every legacy record under `cases/` in the current schema.
+ * Records that cannot be repaired are left untouched and returned in `failed`.
+ */
+export async function runCaseMigrations(): Promise<CaseMigrationReport> {
+  const snapshot = await get(ref(database, CASES_PATH));
+  const report: CaseMigrationReport = { migrated: [], failed: [] };
+  const updates: Record<string, unknown> = {};
+
+  Object.entries((snapshot.val() || {}) as Record<string, unknown>).forEach(([id, raw]) => {
+    const result = migrateCaseRecord(raw);
+    if (!result.ok) {
+      report.failed.push({ id, issues: result.issues });
+    } else if (result.migrated) {
+      // Replace the whole record so fields dropped by the migration are removed too
+      const record = stripUndefined({ ...result.record, version: result.record.version + 1 });
+      updates[`${CASES_PATH}/${id}`] = record;
+      Object.assign(updates, auditUpdates({ action: 'bill.migrate', path: `${CASES_PATH}/${id}`, before: raw, after: record, billNumber: record.billNumber }));
+      report.migrated.push(id);
+    }
+  });
+
+  if (report.migrated.length > 0) {
+    await update(ref(database), updates);
+  }
+  return report;
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, push, set, update, remove } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { GSTIN_PATTERN, PAN_PATTERN } from '@/lib/gst';
+import { TAN_PATTERN } from '@/lib/tds';
+import { countsAsBilled } from '@/lib/billStatus';
+import type { Case } from '@/lib/casesRepository';
+
+// --- SCHEMA ---
+
+/** Optional text field: either empty or matching `schema`. */
+const optional = (schema: z.ZodString) => schema.or(z.literal('')).default('');
+
+export const contactPersonSchema = z.object({
+  name: z.string().min(1, 'Contact name is required'),
+  designation: optional(z.string()),
+  email: optional(z.string().email('Invalid email address')),
+  phone: optional(z.string()),
+});
+
+export const clientSchema = z.object({
+  name: z.string().min(1, 'Client name is required'),
+  billingAddress: optional(z.string()),
+  gstin: optional(z.string().regex(GSTIN_PATTERN, 'Invalid GSTIN')),
+  pan: optional(z.string().regex(PAN_PATTERN, 'Invalid PAN')),
+  // Deductor TAN, for matching TDS against Form 26AS
+  tan: optional(z.string().regex(TAN_PATTERN, 'Invalid TAN')),
+  // GST state code; decides the place of supply for clients without a GSTIN
+  stateCode: optional(z.string().regex(/^\d{2}$/, 'Invalid state code')),
+  email: optional(z.string().email('Invalid email address')),
+  phone: optional(z.string()),
+  // Days allowed to pay; null falls back to the firm's default terms
+  paymentTermsDays: z.number().int().min(0).max(365).nullable().default(null),
+  // Firebase drops empty arrays, so this may be missing on read
+  contactPersons: z.array(contactPersonSchema).default([]),
+  // Hourly rates agreed with this client, by fee earner id; others bill at their standard rate
+  hourlyRates: z.record(z.string(), z.number().min(0, 'Rate cannot be negative').optional()).default({}),
+  // Negotiated amounts by rate card entry id; other particulars are charged at the rate card's amount
+  particularRates: z.record(z.string(), z.number().min(0, 'Amount cannot be negative').optional()).default({}),
+  createdAt: z.string().optional(),
+});
+
+// --- MODELS ---
+export type ContactPerson = z.infer<typeof contactPersonSchema>;
+export type ClientInput = z.input<typeof clientSchema>;
+
+export interface Client extends z.infer<typeof clientSchema> {
+  id: string;
+}
+
+export interface ClientSummary {
+  client: Client;
+  cases: Case[];
+  totalBilled: number;
+  totalPaid: number;
+  outstanding: number;
+}
+
+const CLIENTS_PATH = 'clients';
+
+// --- SUBSCRIPTION ---
+const toClients = (data: unknown): Client[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = clientSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid client record ${id}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, id }];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const clientsStore = createRealtimeStore<Client[]>(CLIENTS_PATH, toClients, []);
+
+/** All clients sorted by name, from a subscription shared by every caller. */
+export function useClients() {
+  const { data, loading } = useRealtimeStore(clientsStore);
+  return { clients: data, loading };
+}
+
+// --- WRITES ---
+export async function createClient(input: ClientInput): Promise<string> {
+  const record = clientSchema.parse({ ...input, createdAt: new Date().toISOString() });
+  const newClientRef = push(ref(database, CLIENTS_PATH));
+  await set(newClientRef, stripUndefined(record));
+  return newClientRef.key as string;
+}
+
+export async function updateClient(id: string, input: ClientInput): Promise<void> {
+  const { createdAt, ...changes } = clientSchema.parse(input);
+  await update(ref(database, `${CLIENTS_PATH}/${id}`), stripUndefined(changes));
+}
+
+export async function deleteClient(id: string): Promise<void> {
+  await remove(ref(database, `${CLIENTS_PATH}/${id}`));
+}
+
+// --- AGGREGATES ---
+/** Billed, paid and outstanding totals for every client, largest outstanding first. */
+export function summarizeClients(clients: Client[], cases: Case[]): ClientSummary[] {
+  return clients
+    .map(client => {
+      const clientCases = cases.filter(c => c.clientId === client.id);
+      const billed = clientCases.filter(c => countsAsBilled(c.status));
+      const totalBilled = billed.reduce((sum, c) => sum + c.totalAmount - c.creditedAmount, 0); // Net of credit notes
+      const totalPaid = billed.reduce((sum, c) => sum + c.paidAmount, 0);
+      const outstanding = billed.reduce((sum, c) => sum + c.remainingAmount, 0);
+      return { client, cases: clientCases, totalBilled, totalPaid, outstanding };
+    })
+    .sort((a, b) => b.outstanding - a.outstanding);
+}
@@ -0,0 +1,10 @@
+// Builds CSV text for spreadsheet exports.
+
+const escapeCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Rows of cells as CSV, with a byte order mark so Excel reads ₹ and other non-ASCII text as UTF-8. */
+export const toCsv = (rows: (string | number)[][]) =>
+  '﻿' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
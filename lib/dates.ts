@@ -0,0 +1,36 @@
+import { format } from 'date-fns';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_FIRST_DATE = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/;
+
+// Helper function to safely parse dates that might be in non-standard formats.
+export const parseDate = (dateString: string | null | undefined): Date | null => {
+  if (!dateString) return null;
+
+  // Formats like DD/MM/YYYY or DD-MM-YYYY are checked first, because
+  // new Date() would otherwise read them month-first.
+  const dayFirst = dateString.match(DAY_FIRST_DATE);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    // Note: The month argument in new Date() is 0-indexed (0-11)
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Otherwise parse directly, which works for ISO formats (YYYY-MM-DD and timestamps)
+  const date = new Date(dateString);
+  // Return null if parsing fails, to avoid crashes
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** Formats a date as the `YYYY-MM-DD` calendar date stored in the database. */
+export const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** Converts any date string we have seen in stored records to `YYYY-MM-DD`, or null. */
+export const normalizeDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const trimmed = value.trim();
+  if (ISO_DATE.test(trimmed)) return trimmed;
+  const date = parseDate(trimmed);
+  return date ? toISODate(date) : null;
+};
@@ -0,0 +1,37 @@
+// Browser helpers for handing generated files to the user.
+
+export function downloadFile(data: BlobPart, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Opens the browser's print dialog for a PDF without leaving the page. */
+export function printPdf(bytes: Uint8Array) {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.src = url;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // The print dialog blocks until closed in most browsers, but not all; clean up later
+    setTimeout(() => {
+      frame.remove();
+      URL.revokeObjectURL(url);
+    }, 60000);
+  };
+  document.body.appendChild(frame);
+}
+
+/** Safe file name from a bill or document number such as "ZA/2026-27/0042". */
+export const toFileName = (value: string) => value.replace(/[^A-Za-z0-9-_]+/g, '_');
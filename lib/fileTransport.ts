@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { buildMimeMessage, createMessageId, type MailMessage, type MailTransport } from '@/lib/mail';
+
+/**
+ * Writes each message to `directory` as an .eml file instead of sending it, for development
+ * and tests. The files open in any mail client. Runs under Node only.
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message: MailMessage) {
+      const messageId = createMessageId(message.from);
+      const raw = buildMimeMessage(message, { messageId });
+      await mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}_${messageId.replace(/[^A-Za-z0-9]+/g, '_')}.eml`;
+      await writeFile(path.join(directory, name), raw);
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+// Indian financial years run from 1 April to 31 March and are written as "2026-27".
+
+export type FinancialQuarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
+
+export const FINANCIAL_QUARTERS: FinancialQuarter[] = ['Q1', 'Q2', 'Q3', 'Q4'];
+
+const startYearOf = (date: Date) => (date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1);
+
+export const getFinancialYear = (date: Date) => {
+  const startYear = startYearOf(date);
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/** Q1 is April-June, Q4 is January-March. */
+export const getFinancialQuarter = (date: Date): FinancialQuarter =>
+  FINANCIAL_QUARTERS[Math.floor(((date.getMonth() + 9) % 12) / 3)];
+
+export const getFinancialYearRange = (financialYear: string) => {
+  const startYear = Number(financialYear.slice(0, 4));
+  return {
+    start: new Date(startYear, 3, 1),
+    end: new Date(startYear + 1, 2, 31, 23, 59, 59, 999),
+  };
+};
@@ -0,0 +1,116 @@
+// GST rules for legal services: tax split, place of supply and SAC codes.
+
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+export const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+/** GST state codes, which are also the first two digits of a GSTIN. */
+export const GST_STATES = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+] as const;
+
+export const getStateName = (code?: string) =>
+  GST_STATES.find(s => s.code === code)?.name ?? code ?? '';
+
+export const stateCodeFromGstin = (gstin?: string) =>
+  gstin && /^\d{2}/.test(gstin) ? gstin.slice(0, 2) : undefined;
+
+// --- SAC CODES ---
+export const DEFAULT_SAC_CODE = '998211';
+export const SAC_CODE_PATTERN = /^\d{6}$/;
+
+/**
+ * SAC codes from the 9982 (legal services) group for the particular types bills were raised
+ * with before the rate card. Each type on the rate card now carries its own code.
+ */
+export const LEGACY_SAC_CODES: Record<string, string> = {
+  'Appearance': '998212',
+  'Arbitration Hearing': '998214',
+  'Conference': '998211',
+  'Conference at BEST office': '998211',
+  'Drafting Charges': '998213',
+  'Drafting Section 17 Application': '998213',
+  'Filing': '998215',
+  'Miscellaneous Expenses': '998215',
+  'Notary Charges': '998213',
+  'Notary Charges Affidavit in Reply': '998213',
+  'Settling Reply to Claims': '998213',
+  'Written opinion': '998211',
+  'Xerox Charges': '998215',
+};
+
+// --- TAX ---
+/** What the user chooses per bill; the amounts are worked out from it. */
+export interface GstInput {
+  placeOfSupply: string;
+  reverseCharge: boolean;
+}
+
+export interface GstAmounts {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * CGST and SGST split the rate equally when the place of supply is the supplier's own state;
+ * any other place of supply is an inter-state supply taxed wholly as IGST.
+ */
+export function calculateGst(taxableAmount: number, rate: number, supplierState: string, placeOfSupply: string): GstAmounts {
+  if (supplierState === placeOfSupply) {
+    const half = roundToPaise((taxableAmount * rate) / 200);
+    return { cgst: half, sgst: half, igst: 0 };
+  }
+  return { cgst: 0, sgst: 0, igst: roundToPaise((taxableAmount * rate) / 100) };
+}
+
+export const totalGst = (amounts: GstAmounts) => amounts.cgst + amounts.sgst + amounts.igst;
+
+/**
+ * Legal services supplied to a registered business entity are taxed under reverse charge
+ * (Notification 13/2017-Central Tax (Rate)), so a client GSTIN suggests it by default.
+ */
+export const defaultReverseCharge = (clientGstin?: string) => Boolean(clientGstin);
+
+/**
+ * Place of supply for legal services is the recipient's location: the state in their GSTIN
+ * or, for unregistered clients, the state on record, falling back to the supplier's state.
+ */
+export const defaultPlaceOfSupply = (supplierState: string, client?: { gstin?: string; stateCode?: string }) =>
+  stateCodeFromGstin(client?.gstin) || client?.stateCode || supplierState;
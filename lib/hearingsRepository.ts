@@ -0,0 +1,74 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, push, set, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { isoDate } from '@/lib/caseSchema';
+
+// --- SCHEMA ---
+/**
+ * A hearing listed on a matter, scheduled ahead of time and independently of billing.
+ * Appearances that have been billed come from the bills' particulars instead.
+ */
+export const hearingSchema = z.object({
+  matterId: z.string().min(1, 'Matter is required'),
+  date: isoDate,
+  time: z.string().regex(/^\d{2}:\d{2}$/, 'Expected a HH:MM time').optional(),
+  court: z.string().default(''), // Where the matter is listed, if not its usual court
+  purpose: z.string().default(''), // e.g. "Arguments", "Cross-examination"
+  notes: z.string().default(''),
+  createdAt: z.string().optional(),
+});
+
+// --- MODELS ---
+export type HearingInput = z.input<typeof hearingSchema>;
+
+export interface Hearing extends z.infer<typeof hearingSchema> {
+  id: string;
+}
+
+const HEARINGS_PATH = 'hearings';
+
+// --- SUBSCRIPTION ---
+const toHearings = (data: unknown): Hearing[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = hearingSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid hearing record ${id}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, id }];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? ''));
+
+const hearingsStore = createRealtimeStore<Hearing[]>(HEARINGS_PATH, toHearings, []);
+
+/** All scheduled hearings in date order, from a subscription shared by every caller. */
+export function useHearings() {
+  const { data, loading } = useRealtimeStore(hearingsStore);
+  return { hearings: data, loading };
+}
+
+// --- WRITES ---
+export async function createHearing(input: HearingInput): Promise<string> {
+  const record = hearingSchema.parse({ ...input, createdAt: new Date().toISOString() });
+  const newHearingRef = push(ref(database, HEARINGS_PATH));
+  await set(newHearingRef, stripUndefined(record));
+  return newHearingRef.key as string;
+}
+
+export async function updateHearing(id: string, input: HearingInput): Promise<void> {
+  const { createdAt, ...changes } = hearingSchema.parse(input);
+  const updates: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([key, value]) => {
+    updates[`${HEARINGS_PATH}/${id}/${key}`] = value ?? null;
+  });
+  await update(ref(database), updates);
+}
+
+export async function deleteHearing(id: string): Promise<void> {
+  await set(ref(database, `${HEARINGS_PATH}/${id}`), null);
+}
@@ -0,0 +1,95 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/lib/calendar';
+
+// Builds iCalendar (RFC 5545) files of hearings for import into phone and desktop calendars.
+
+const PRODUCT_ID = '-//za-legal-hrms//Hearing Calendar//EN';
+// UIDs come from the records behind each event, so importing a later export updates the events
+// already imported instead of adding them again
+const UID_DOMAIN = 'hearings.za-legal-hrms';
+
+/**
+ * An event is named after the scheduled hearing, or after the matter and day an appearance was
+ * billed on, whichever came first. Push ids sort by the time they were made, and a revised bill
+ * counts from the bill it replaces, so the name stays the same when a hearing is billed later, a
+ * hearing is scheduled on a day already billed, or a bill is edited or revised.
+ */
+const uidOf = (event: CalendarEvent) => {
+  const appearance = `appearance-${event.matterId ?? `case-${event.caseNumber}`}-${event.date}`;
+  const hearing = event.hearing;
+  if (!hearing) return appearance;
+  return event.billed.some(b => b.firstCaseId < hearing.id) ? appearance : `hearing-${hearing.id}`;
+};
+
+/** Text values escape backslashes, separators and line breaks. */
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+/** Content lines are folded at 75 octets, without splitting a multi-byte character. */
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** Untimed hearings are all-day events; timed ones are an hour long in the device's own time zone. */
+const timing = (event: CalendarEvent) => {
+  const day = parseISO(event.date);
+  if (!event.time) {
+    return [`DTSTART;VALUE=DATE:${format(day, 'yyyyMMdd')}`, `DTEND;VALUE=DATE:${format(addDays(day, 1), 'yyyyMMdd')}`];
+  }
+  return [`DTSTART:${format(day, 'yyyyMMdd')}T${event.time.replace(':', '')}00`, 'DURATION:PT1H'];
+};
+
+const describe = (event: CalendarEvent) => [
+  `Matter: ${event.caseNumber}${event.title ? ` - ${event.title}` : ''}`,
+  event.court && `Forum: ${event.court}`,
+  event.purpose && `Purpose: ${event.purpose}`,
+  event.hearing?.notes,
+  ...event.billed.map(b => `Billed: ${b.particular}${b.billNumber ? ` (Bill ${b.billNumber})` : ' (draft bill)'}`),
+].filter(Boolean).join('\n');
+
+const toVEvent = (event: CalendarEvent, stamp: string) => [
+  'BEGIN:VEVENT',
+  `UID:${uidOf(event).replace(/[^A-Za-z0-9-_]+/g, '-')}@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  ...timing(event),
+  `SUMMARY:${escapeText([event.caseNumber, event.purpose || event.title].filter(Boolean).join(' - '))}`,
+  ...(event.court ? [`LOCATION:${escapeText(event.court)}`] : []),
+  `DESCRIPTION:${escapeText(describe(event))}`,
+  'TRANSP:OPAQUE',
+  'END:VEVENT',
+];
+
+/** An iCalendar file holding `events`, named `name` in calendars that show one. */
+export function toIcs(events: CalendarEvent[], name: string, now = new Date()): string {
+  const stamp = formatStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => toVEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
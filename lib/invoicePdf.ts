@@ -0,0 +1,301 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type RGB } from 'pdf-lib';
+import { format, parseISO } from 'date-fns';
+import { amountInWords } from '@/lib/amountInWords';
+import { formatAmount, hexToRgb, toPdfText, wrapText } from '@/lib/pdfText';
+import { getStateName } from '@/lib/gst';
+import {
+  calculateInvoiceTotal,
+  getParticularDisplayName,
+  getTaxableAmount,
+  type Case,
+} from '@/lib/casesRepository';
+import type { Client } from '@/lib/clientsRepository';
+import type { Matter } from '@/lib/mattersRepository';
+import type { Settings } from '@/lib/settingsRepository';
+
+export interface InvoiceData {
+  bill: Case;
+  client?: Client;
+  matter?: Matter;
+  settings: Settings;
+}
+
+const PAGE_SIZES = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792],
+} as const;
+
+const MARGIN = 40;
+const DARK = rgb(0.17, 0.18, 0.2);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+// --- TEXT HELPERS ---
+const formatDate = (isoDate: string) => format(parseISO(isoDate), 'dd MMM yyyy');
+
+interface TextStyle {
+  font?: PDFFont;
+  size?: number;
+  color?: RGB;
+  align?: 'left' | 'right' | 'center';
+}
+
+/**
+ * Renders a bill as a letterhead invoice PDF. Pure apart from pdf-lib, so it can run in the
+ * browser for download and print, or wherever a bill has to be attached to an email.
+ */
+export async function renderInvoicePdf({ bill, client, matter, settings }: InvoiceData): Promise<Uint8Array> {
+  const { firm, bank, invoiceTemplate: template } = settings;
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Invoice ${bill.billNumber || '(draft)'}`);
+  doc.setAuthor(firm.name);
+  doc.setCreator(firm.name);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const accent = hexToRgb(template.accentColor);
+  const [pageWidth, pageHeight] = PAGE_SIZES[template.paperSize];
+  const right = pageWidth - MARGIN;
+  const contentWidth = right - MARGIN;
+
+  let page = doc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - MARGIN;
+
+  const draw = (text: string, x: number, style: TextStyle = {}) => {
+    const font = style.font ?? regular;
+    const size = style.size ?? 10;
+    const safe = toPdfText(text);
+    const width = font.widthOfTextAtSize(safe, size);
+    const left = style.align === 'right' ? x - width : style.align === 'center' ? x - width / 2 : x;
+    page.drawText(safe, { x: left, y, font, size, color: style.color ?? DARK });
+  };
+
+  const rule = (thickness = 0.5, color = RULE) => {
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: right, y }, thickness, color });
+  };
+
+  /** Starts a new page when fewer than `height` points are left; returns whether it did. */
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN + 20) return false;
+    page = doc.addPage([pageWidth, pageHeight]);
+    y = pageHeight - MARGIN;
+    return true;
+  };
+
+  // --- LETTERHEAD ---
+  draw(firm.name, MARGIN, { font: bold, size: 20, color: accent });
+  y -= 16;
+  if (template.tagline) {
+    draw(template.tagline, MARGIN, { size: 10, color: MUTED });
+    y -= 13;
+  }
+  const letterheadLines = [
+    ...(firm.address ? wrapText(firm.address, regular, 9, contentWidth) : []),
+    [firm.phone && `Tel: ${firm.phone}`, firm.email].filter(Boolean).join('   |   '),
+    [firm.gstin && `GSTIN: ${firm.gstin}`, firm.pan && `PAN: ${firm.pan}`].filter(Boolean).join('   |   '),
+  ].filter(Boolean);
+  letterheadLines.forEach(line => {
+    draw(line, MARGIN, { size: 9, color: MUTED });
+    y -= 11;
+  });
+  y -= 2;
+  rule(1.5, accent);
+  y -= 24;
+
+  // Drafts and cancelled bills can still be printed, but must not pass for a live invoice
+  const heading = bill.tax ? 'TAX INVOICE' : 'INVOICE';
+  const prefix = bill.status === 'draft' ? 'DRAFT ' : bill.status === 'cancelled' ? 'CANCELLED ' : '';
+  draw(prefix + heading, pageWidth / 2, { font: bold, size: 14, align: 'center' });
+  y -= 26;
+
+  // --- PARTIES & INVOICE DETAILS ---
+  const columnWidth = contentWidth / 2 - 10;
+  const billTo: [string, TextStyle][] = [['BILL TO', { font: bold, size: 8, color: MUTED }]];
+  if (client) {
+    billTo.push([client.name, { font: bold, size: 11 }]);
+    wrapText(client.billingAddress, regular, 9, columnWidth).filter(Boolean).forEach(line => billTo.push([line, { size: 9 }]));
+    if (client.gstin) billTo.push([`GSTIN: ${client.gstin}`, { size: 9 }]);
+    if (client.pan) billTo.push([`PAN: ${client.pan}`, { size: 9 }]);
+  } else {
+    billTo.push(['-', { size: 10 }]);
+  }
+
+  const details: [string, string][] = [
+    ['Bill No.', bill.billNumber || 'Draft'],
+    ['Date', formatDate(bill.date)],
+  ];
+  if (bill.dueDate) details.push(['Due Date', formatDate(bill.dueDate)]);
+  if (bill.tax) {
+    details.push(['Place of Supply', `${bill.tax.placeOfSupply} - ${getStateName(bill.tax.placeOfSupply)}`]);
+    details.push(['Reverse Charge', bill.tax.reverseCharge ? 'Yes' : 'No']);
+  }
+
+  const blockTop = y;
+  billTo.forEach(([text, style]) => {
+    draw(text, MARGIN, style);
+    y -= (style.size ?? 10) + 3;
+  });
+  const billToBottom = y;
+  y = blockTop;
+  details.forEach(([label, value]) => {
+    draw(label, pageWidth / 2 + 40, { size: 9, color: MUTED });
+    draw(value, right, { font: bold, size: 9, align: 'right' });
+    y -= 13;
+  });
+  y = Math.min(y, billToBottom) - 10;
+
+  // --- MATTER ---
+  draw('MATTER', MARGIN, { font: bold, size: 8, color: MUTED });
+  y -= 12;
+  wrapText(`${bill.caseNumber}${bill.caseDescription ? ` - ${bill.caseDescription}` : ''}`, regular, 10, contentWidth).forEach(line => {
+    draw(line, MARGIN, { size: 10 });
+    y -= 13;
+  });
+  if (matter?.court) {
+    draw(matter.court, MARGIN, { size: 9, color: MUTED });
+    y -= 12;
+  }
+  y -= 10;
+
+  // --- PARTICULARS TABLE ---
+  const showSac = Boolean(bill.tax) && template.showSacCodes;
+  const amountX = right - 6;
+  const sacX = right - 110;
+  const descriptionX = MARGIN + 30;
+  const descriptionWidth = (showSac ? sacX : right - 100) - descriptionX - 10;
+
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 6, width: contentWidth, height: 20, color: accent });
+    const white = rgb(1, 1, 1);
+    draw('No.', MARGIN + 6, { font: bold, size: 9, color: white });
+    draw('Particulars', descriptionX, { font: bold, size: 9, color: white });
+    if (showSac) draw('SAC', sacX, { font: bold, size: 9, color: white });
+    draw('Amount (Rs.)', amountX, { font: bold, size: 9, color: white, align: 'right' });
+    y -= 22;
+  };
+
+  drawTableHeader();
+  bill.particulars.forEach((particular, index) => {
+    const lines = wrapText(getParticularDisplayName(particular), regular, 10, descriptionWidth);
+    const subLine = [
+      particular.appearanceDate && `Appearance on ${formatDate(particular.appearanceDate)}`,
+      particular.hours && `${particular.hours} hours @ Rs. ${formatAmount(particular.rate ?? 0)} per hour`,
+    ].filter(Boolean).join('; ');
+    const rowHeight = lines.length * 13 + (subLine ? 11 : 0) + 6;
+    if (ensureSpace(rowHeight)) drawTableHeader();
+
+    draw(String(index + 1), MARGIN + 6, { size: 10 });
+    if (showSac) draw(particular.sacCode ?? '', sacX, { size: 10 });
+    draw(formatAmount(particular.amount), amountX, { size: 10, align: 'right' });
+    lines.forEach(line => {
+      draw(line, descriptionX, { size: 10 });
+      y -= 13;
+    });
+    if (subLine) {
+      draw(subLine, descriptionX, { size: 8, color: MUTED });
+      y -= 11;
+    }
+    y += 7;
+    rule();
+    y -= 15;
+  });
+
+  // --- TOTALS ---
+  const taxableAmount = getTaxableAmount(bill);
+  const total = calculateInvoiceTotal(taxableAmount, bill.tax);
+  const totals: [string, number, boolean][] = [[bill.tax ? 'Taxable Value' : 'Sub Total', taxableAmount, false]];
+  if (bill.tax) {
+    if (bill.tax.igst > 0 || bill.tax.cgst + bill.tax.sgst === 0) {
+      totals.push([`IGST @ ${bill.tax.rate}%`, bill.tax.igst, false]);
+    } else {
+      totals.push([`CGST @ ${bill.tax.rate / 2}%`, bill.tax.cgst, false], [`SGST @ ${bill.tax.rate / 2}%`, bill.tax.sgst, false]);
+    }
+  }
+  totals.push(['Total', total, true]);
+  if (template.showPayments && (bill.paidAmount > 0 || bill.creditedAmount > 0)) {
+    if (bill.paidAmount > 0) totals.push(['Less: Received', bill.paidAmount, false]);
+    if (bill.creditedAmount > 0) totals.push(['Less: Credit Notes', bill.creditedAmount, false]);
+    totals.push(['Balance Due', bill.remainingAmount, true]);
+  }
+
+  ensureSpace(totals.length * 15 + 60);
+  totals.forEach(([label, amount, emphasis]) => {
+    const style = emphasis ? { font: bold, size: 11 } : { size: 10 };
+    draw(label, right - 220, style);
+    draw(formatAmount(amount), amountX, { ...style, align: 'right' });
+    y -= emphasis ? 17 : 14;
+  });
+  if (bill.tax?.reverseCharge) {
+    wrapText('Tax payable on reverse charge basis: Yes. GST is payable by the recipient and is not included in the total.', regular, 8, contentWidth)
+      .forEach(line => {
+        draw(line, MARGIN, { size: 8, color: MUTED });
+        y -= 10;
+      });
+  }
+  y -= 6;
+
+  wrapText(`Amount in words: ${amountInWords(total)}`, bold, 10, contentWidth).forEach(line => {
+    ensureSpace(13);
+    draw(line, MARGIN, { font: bold, size: 10 });
+    y -= 13;
+  });
+  y -= 16;
+
+  // --- BANK DETAILS & SIGNATURE ---
+  const bankLines = template.showBankDetails
+    ? [
+        bank.accountName && `Account Name: ${bank.accountName}`,
+        bank.bankName && `Bank: ${bank.bankName}${bank.branch ? `, ${bank.branch}` : ''}`,
+        bank.accountNumber && `A/c No.: ${bank.accountNumber}`,
+        bank.ifsc && `IFSC: ${bank.ifsc}`,
+        bank.upiId && `UPI: ${bank.upiId}`,
+      ].filter((line): line is string => Boolean(line))
+    : [];
+
+  ensureSpace(Math.max(bankLines.length * 12 + 16, 80));
+  const signatureTop = y;
+  if (bankLines.length > 0) {
+    draw('BANK DETAILS', MARGIN, { font: bold, size: 8, color: MUTED });
+    y -= 13;
+    bankLines.forEach(line => {
+      draw(line, MARGIN, { size: 9 });
+      y -= 12;
+    });
+  }
+  const bankBottom = y;
+
+  y = signatureTop;
+  draw(`For ${firm.name}`, right, { font: bold, size: 10, align: 'right' });
+  y -= 50;
+  if (template.signatoryName) {
+    draw(template.signatoryName, right, { size: 10, align: 'right' });
+    y -= 12;
+  }
+  draw(template.signatoryDesignation, right, { size: 9, color: MUTED, align: 'right' });
+  y = Math.min(y, bankBottom) - 20;
+
+  if (template.footerNote) {
+    wrapText(template.footerNote, regular, 8, contentWidth).forEach(line => {
+      ensureSpace(10);
+      draw(line, pageWidth / 2, { size: 8, color: MUTED, align: 'center' });
+      y -= 10;
+    });
+  }
+
+  // --- PAGE NUMBERS ---
+  const pages = doc.getPages();
+  if (pages.length > 1) {
+    pages.forEach((p, index) => {
+      const label = `Page ${index + 1} of ${pages.length}`;
+      p.drawText(label, {
+        x: pageWidth / 2 - regular.widthOfTextAtSize(label, 8) / 2,
+        y: MARGIN / 2,
+        font: regular,
+        size: 8,
+        color: MUTED,
+      });
+    });
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,153 @@
+import { format } from 'date-fns';
+
+// Mail is composed here and handed to a MailTransport to deliver. This module has no
+// browser or Node dependencies, so the app and a mail relay can share it.
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+/** Addresses may be bare (a@b.com) or named ("Firm <a@b.com>"). */
+export interface MailMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface SentMail {
+  messageId: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<SentMail>;
+}
+
+export class MailDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailDeliveryError';
+  }
+}
+
+export class InvalidAddressError extends Error {
+  constructor(public mailbox: string) {
+    super(`${JSON.stringify(mailbox)} is not a valid email address`);
+    this.name = 'InvalidAddressError';
+  }
+}
+
+// A dot-atom addr-spec (RFC 5322) with a dotted domain. Quoted local parts and address
+// literals are not accepted, and nothing that could end a header line or an SMTP command is.
+const ATOM = "[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+";
+const LABEL = '[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?';
+const ADDR_SPEC = new RegExp(`^${ATOM}(?:\\.${ATOM})*@${LABEL}(?:\\.${LABEL})+$`);
+
+export const isValidAddress = (address: string) => ADDR_SPEC.test(address);
+
+/** The display name and bare address of "Name <a@b.com>" or "a@b.com"; throws an InvalidAddressError for anything else. */
+export function parseMailbox(mailbox: string): { name?: string; address: string } {
+  const named = mailbox.match(/^\s*([^<]*?)\s*<([^<>]*)>\s*$/);
+  const address = (named ? named[2] : mailbox).trim();
+  if (/[\r\n]/.test(mailbox) || !isValidAddress(address)) throw new InvalidAddressError(mailbox);
+  return { name: named?.[1].replace(/^"|"$/g, '') || undefined, address };
+}
+
+/** The bare address of a mailbox such as "Firm <a@b.com>", for the SMTP envelope. */
+export const envelopeAddress = (mailbox: string) => parseMailbox(mailbox).address;
+
+export const createMessageId = (from: string) => {
+  const domain = envelopeAddress(from).split('@')[1] || 'localhost';
+  return `<${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}@${domain}>`;
+};
+
+// --- ENCODING ---
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, as String.fromCharCode cannot take a whole PDF as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/** Base64 split into 76-character lines, as MIME requires. */
+const wrapBase64 = (base64: string) => base64.match(/.{1,76}/g)?.join('\r\n') ?? '';
+
+const utf8Base64 = (text: string) => bytesToBase64(new TextEncoder().encode(text));
+
+/** Header values outside printable ASCII are sent as RFC 2047 encoded words. */
+const encodeHeader = (value: string) => (/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${utf8Base64(value)}?=`);
+
+/** Encodes the display name of "Name <a@b.com>" and leaves the address as it is. */
+const encodeMailbox = (mailbox: string) => {
+  const { name, address } = parseMailbox(mailbox);
+  if (!name) return address;
+  return `${/^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/"/g, '')}"` : encodeHeader(name)} <${address}>`;
+};
+
+const quoteParameter = (value: string) => `"${encodeHeader(value).replace(/"/g, '')}"`;
+
+/** The message as RFC 5322 text with CRLF line endings: a plain text body and any attachments. */
+export function buildMimeMessage(message: MailMessage, options: { messageId: string; date?: Date }): string {
+  const boundary = `----=_Part_${Math.random().toString(36).slice(2)}`;
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to.map(encodeMailbox).join(', ')}`,
+    ...(message.cc?.length ? [`Cc: ${message.cc.map(encodeMailbox).join(', ')}`] : []),
+    ...(message.replyTo ? [`Reply-To: ${encodeMailbox(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${format(options.date ?? new Date(), 'EEE, dd MMM yyyy HH:mm:ss xx')}`,
+    `Message-ID: ${options.messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+  const parts = [
+    [
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(utf8Base64(message.text)),
+    ].join('\r\n'),
+    ...(message.attachments ?? []).map(attachment => [
+      `Content-Type: ${attachment.contentType}; name=${quoteParameter(attachment.filename)}`,
+      `Content-Disposition: attachment; filename=${quoteParameter(attachment.filename)}`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(bytesToBase64(attachment.content)),
+    ].join('\r\n')),
+  ];
+  return [
+    ...headers,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// --- RELAY ---
+/** A message as JSON, with attachments in base64, for posting to a mail relay. */
+export interface RelayRequest extends Omit<MailMessage, 'attachments'> {
+  attachments: (Omit<MailAttachment, 'content'> & { content: string })[];
+}
+
+export const toRelayRequest = (message: MailMessage): RelayRequest => ({
+  ...message,
+  attachments: (message.attachments ?? []).map(a => ({ ...a, content: bytesToBase64(a.content) })),
+});
+
+export const fromRelayRequest = (request: RelayRequest): MailMessage => ({
+  ...request,
+  attachments: request.attachments.map(a => ({ ...a, content: base64ToBytes(a.content) })),
+});
@@ -0,0 +1,144 @@
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { fromRelayRequest, MailDeliveryError, parseMailbox, type MailTransport, type RelayRequest } from '@/lib/mail';
+import { roleCan, ROLES, type Role } from '@/lib/permissions';
+
+// The server side of the app's relay transport (lib/mailTransports.ts): takes a RelayRequest
+// posted by a signed-in user who may send reminders, and hands it to an SMTP or file transport.
+// Mail always goes out from the firm's configured address, whatever the request says.
+// Runs under Node only; see scripts/mail-relay.ts.
+
+export class RelayAuthError extends Error {
+  constructor(message: string, public status: 401 | 403) {
+    super(message);
+    this.name = 'RelayAuthError';
+  }
+}
+
+/** Checks the bearer token of a request and returns the sender's uid, or throws a RelayAuthError. */
+export type RelayAuthorizer = (idToken: string) => Promise<string>;
+
+/** Largest request accepted; a few PDFs in base64. */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/** Most To and Cc addresses on one message; a client's billing contacts, not a mailing list. */
+const MAX_RECIPIENTS = 20;
+
+const uidOfToken = (idToken: string): string | undefined => {
+  try {
+    const payload = JSON.parse(Buffer.from(idToken.split('.')[1] ?? '', 'base64url').toString('utf8'));
+    return typeof payload.user_id === 'string' ? payload.user_id : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Authorizes with the Realtime Database itself: the sender's own role is read over REST with
+ * their ID token, which the database rejects unless it is valid and belongs to that uid.
+ */
+export function createDatabaseAuthorizer(databaseUrl: string, fetchImpl: typeof fetch = fetch): RelayAuthorizer {
+  return async idToken => {
+    const uid = uidOfToken(idToken);
+    if (!uid) throw new RelayAuthError('Malformed ID token', 401);
+    const response = await fetchImpl(`${databaseUrl.replace(/\/$/, '')}/users/${encodeURIComponent(uid)}/role.json?auth=${encodeURIComponent(idToken)}`);
+    if (response.status === 401) throw new RelayAuthError('ID token was rejected', 401);
+    if (!response.ok) throw new RelayAuthError(`Role could not be read: ${response.status}`, 403);
+    const role = (await response.json()) as unknown;
+    if (!ROLES.includes(role as Role) || !roleCan(role as Role, 'reminders.send')) {
+      throw new RelayAuthError('This user may not send mail', 403);
+    }
+    return uid;
+  };
+}
+
+/** The request body, or null once it grows past MAX_BODY_BYTES. */
+async function readBody(request: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const isMailbox = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  try {
+    parseMailbox(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isRelayRequest = (value: unknown): value is RelayRequest => {
+  const body = value as Partial<RelayRequest> | null;
+  if (!body || !Array.isArray(body.to) || !Array.isArray(body.cc ?? [])) return false;
+  const recipients: unknown[] = [...body.to, ...(body.cc ?? [])];
+  return body.to.length > 0 && recipients.length <= MAX_RECIPIENTS && recipients.every(isMailbox)
+    && typeof body.subject === 'string'
+    && typeof body.text === 'string'
+    && Array.isArray(body.attachments);
+};
+
+export interface MailRelayOptions {
+  transport: MailTransport;
+  authorize: RelayAuthorizer;
+  /** The firm's mailbox, such as "Firm <accounts@firm.in>"; every message is sent from it. */
+  from: string;
+  /** Origin the app is served from, for CORS; any origin when left out. */
+  allowedOrigin?: string;
+}
+
+/** An HTTP handler that sends each authorized POST through `transport` and answers with its SentMail. */
+export function createMailRelayHandler({ transport, authorize, from, allowedOrigin = '*' }: MailRelayOptions): RequestListener {
+  parseMailbox(from); // A bad address fails on start-up rather than on the first message
+  const reply = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  return async (request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+    if (request.method !== 'POST') {
+      reply(response, 405, { error: 'Only POST is accepted' });
+      return;
+    }
+
+    try {
+      const token = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+      if (!token) throw new RelayAuthError('Missing ID token', 401);
+      await authorize(token);
+
+      const raw = await readBody(request);
+      if (raw === null) {
+        reply(response, 413, { error: 'Message is too large' });
+        return;
+      }
+      const body = JSON.parse(raw) as unknown;
+      if (!isRelayRequest(body)) {
+        reply(response, 400, { error: `Not a mail message to at most ${MAX_RECIPIENTS} valid addresses` });
+        return;
+      }
+      const { to, cc, subject, text, attachments } = fromRelayRequest(body);
+      reply(response, 200, await transport.send({ from, to, cc, subject, text, attachments }));
+    } catch (error) {
+      if (error instanceof RelayAuthError) {
+        reply(response, error.status, { error: error.message });
+      } else if (error instanceof SyntaxError) {
+        reply(response, 400, { error: 'Body is not JSON' });
+      } else {
+        console.error('Mail relay error:', error);
+        reply(response, 502, { error: error instanceof MailDeliveryError ? error.message : 'Mail could not be delivered' });
+      }
+    }
+  };
+}
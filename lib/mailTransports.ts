@@ -0,0 +1,71 @@
+'use client';
+
+import { auth } from '@/lib/firebase';
+import { downloadFile } from '@/lib/download';
+import {
+  buildMimeMessage,
+  createMessageId,
+  MailDeliveryError,
+  toRelayRequest,
+  type MailMessage,
+  type MailTransport,
+} from '@/lib/mail';
+
+// The app is a static export and cannot speak SMTP itself. In production it posts mail to a
+// relay (`npm run mail-relay`, see scripts/mail-relay.ts, or any endpoint built the same way on
+// lib/mailRelay.ts) that checks the sender and sends through lib/smtpTransport.ts, from the
+// firm address the relay is configured with rather than the message's own `from`. Without a
+// relay configured, mail goes to a local mailbox instead, so reminders can be tried out in development.
+
+/** Posts each message as a RelayRequest to `url`, signed with the user's Firebase ID token. */
+export function createRelayTransport(url: string): MailTransport {
+  return {
+    async send(message: MailMessage) {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) throw new MailDeliveryError('Sign in again to send mail');
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(toRelayRequest(message)),
+      });
+      if (!response.ok) {
+        throw new MailDeliveryError(`Mail relay refused the message: ${response.status} ${await response.text().catch(() => '')}`.trim());
+      }
+      return (await response.json()) as { messageId: string };
+    },
+  };
+}
+
+export interface DeliveredMail {
+  messageId: string;
+  message: MailMessage;
+  raw: string;
+}
+
+/** Keeps sent mail in memory, and passes each message to `onDeliver` if given. */
+export function createMailboxTransport(onDeliver?: (mail: DeliveredMail) => void): MailTransport & { messages: DeliveredMail[] } {
+  const messages: DeliveredMail[] = [];
+  return {
+    messages,
+    async send(message: MailMessage) {
+      const messageId = createMessageId(message.from);
+      const mail = { messageId, message, raw: buildMimeMessage(message, { messageId }) };
+      messages.push(mail);
+      onDeliver?.(mail);
+      return { messageId };
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/** The relay named by NEXT_PUBLIC_MAIL_RELAY_URL, or else a mailbox that downloads each message as an .eml file. */
+export function getMailTransport(): MailTransport {
+  transport ??= process.env.NEXT_PUBLIC_MAIL_RELAY_URL
+    ? createRelayTransport(process.env.NEXT_PUBLIC_MAIL_RELAY_URL)
+    : createMailboxTransport(({ messageId, raw }) =>
+        downloadFile(raw, `${messageId.replace(/[^A-Za-z0-9]+/g, '_')}.eml`, 'message/rfc822'));
+  return transport;
+}
+
+export const isUsingLocalMailbox = () => !process.env.NEXT_PUBLIC_MAIL_RELAY_URL;
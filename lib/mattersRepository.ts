@@ -0,0 +1,190 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, get, push, set, update, query, orderByChild, equalTo } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { migrateCaseRecord } from '@/lib/caseSchema';
+import { auditUpdates } from '@/lib/auditLog';
+import { versionUpdate } from '@/lib/versionedWrites';
+import { countsAsBilled } from '@/lib/billStatus';
+import type { Case } from '@/lib/casesRepository';
+
+// --- SCHEMA ---
+export const MATTER_STATUSES = ['Active', 'Stayed', 'Disposed', 'Closed'] as const;
+export const PARTY_ROLES = ['Petitioner', 'Respondent', 'Claimant', 'Applicant', 'Appellant', 'Other'] as const;
+
+export const partySchema = z.object({
+  name: z.string().min(1, 'Party name is required'),
+  role: z.enum(PARTY_ROLES),
+});
+
+export const matterSchema = z.object({
+  matterNumber: z.string().min(1, 'Matter number is required'),
+  title: z.string().min(1, 'Matter title is required'),
+  clientId: z.string().optional(),
+  court: z.string().default(''),
+  // Firebase drops empty arrays, so this may be missing on read
+  parties: z.array(partySchema).default([]),
+  opposingCounsel: z.string().default(''),
+  status: z.enum(MATTER_STATUSES).default('Active'),
+  createdAt: z.string().optional(),
+});
+
+// --- MODELS ---
+export type Party = z.infer<typeof partySchema>;
+export type MatterStatus = (typeof MATTER_STATUSES)[number];
+export type MatterInput = z.input<typeof matterSchema>;
+
+export interface Matter extends z.infer<typeof matterSchema> {
+  id: string;
+}
+
+export interface MatterSummary {
+  matter: Matter;
+  bills: Case[];
+  totalBilled: number;
+  totalPaid: number;
+  outstanding: number;
+}
+
+const MATTERS_PATH = 'matters';
+const CASES_PATH = 'cases';
+
+// --- SUBSCRIPTION ---
+const toMatters = (data: unknown): Matter[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = matterSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid matter record ${id}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, id }];
+    })
+    .sort((a, b) => a.matterNumber.localeCompare(b.matterNumber, undefined, { numeric: true }));
+
+const mattersStore = createRealtimeStore<Matter[]>(MATTERS_PATH, toMatters, []);
+
+/** All matters sorted by matter number, from a subscription shared by every caller. */
+export function useMatters() {
+  const { data, loading } = useRealtimeStore(mattersStore);
+  return { matters: data, loading };
+}
+
+// --- WRITES ---
+export async function createMatter(input: MatterInput): Promise<string> {
+  const record = matterSchema.parse({ ...input, createdAt: new Date().toISOString() });
+  const newMatterRef = push(ref(database, MATTERS_PATH));
+  await set(newMatterRef, stripUndefined(record));
+  return newMatterRef.key as string;
+}
+
+/**
+ * Updates a matter and refreshes the matter number and title copied onto its bills,
+ * in a single multi-path write. The rules let associates make this copy on issued bills
+ * too, as long as it matches the matter being written.
+ */
+export async function updateMatter(id: string, input: MatterInput): Promise<void> {
+  const { createdAt, ...changes } = matterSchema.parse(input);
+  const bills = await get(query(ref(database, CASES_PATH), orderByChild('matterId'), equalTo(id)));
+
+  const updates: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([key, value]) => {
+    updates[`${MATTERS_PATH}/${id}/${key}`] = value ?? null;
+  });
+  bills.forEach(bill => {
+    const { caseNumber, caseDescription, billNumber, version } = bill.val();
+    Object.assign(updates, versionUpdate({ path: `${CASES_PATH}/${bill.key}`, version: version ?? 0 }));
+    updates[`${CASES_PATH}/${bill.key}/caseNumber`] = changes.matterNumber;
+    updates[`${CASES_PATH}/${bill.key}/caseDescription`] = changes.title;
+    Object.assign(updates, auditUpdates({
+      action: 'bill.update',
+      path: `${CASES_PATH}/${bill.key}`,
+      before: { caseNumber, caseDescription },
+      after: { caseNumber: changes.matterNumber, caseDescription: changes.title },
+      billNumber,
+    }));
+  });
+  await update(ref(database), stripUndefined(updates));
+}
+
+// --- AGGREGATES ---
+/** Bills and billed, paid and outstanding totals for every matter, in matter order. */
+export function summarizeMatters(matters: Matter[], cases: Case[]): MatterSummary[] {
+  return matters.map(matter => {
+    const bills = cases.filter(c => c.matterId === matter.id);
+    const billed = bills.filter(c => countsAsBilled(c.status));
+    const totalBilled = billed.reduce((sum, c) => sum + c.totalAmount - c.creditedAmount, 0); // Net of credit notes
+    const totalPaid = billed.reduce((sum, c) => sum + c.paidAmount, 0);
+    const outstanding = billed.reduce((sum, c) => sum + c.remainingAmount, 0);
+    return { matter, bills, totalBilled, totalPaid, outstanding };
+  });
+}
+
+// --- MIGRATION ---
+export interface MatterLinkReport {
+  mattersCreated: number;
+  billsLinked: number;
+}
+
+/**
+ * Links every bill that predates matters to a matter. Bills that share a case number
+ * are grouped under one matter, which takes its title and client from the earliest bill.
+ * Existing matters with the same number are reused. Each matter created and bill linked
+ * is recorded in the audit trail in the same write.
+ */
+export async function linkCasesToMatters(): Promise<MatterLinkReport> {
+  const [casesSnapshot, mattersSnapshot] = await Promise.all([
+    get(ref(database, CASES_PATH)),
+    get(ref(database, MATTERS_PATH)),
+  ]);
+
+  const normalize = (value: string) => value.trim().toLowerCase();
+  const matterIdsByNumber = new Map<string, string>();
+  toMatters(mattersSnapshot.val()).forEach(m => matterIdsByNumber.set(normalize(m.matterNumber), m.id));
+
+  const unlinked = Object.entries((casesSnapshot.val() || {}) as Record<string, unknown>)
+    .flatMap(([id, raw]) => {
+      const result = migrateCaseRecord(raw);
+      return result.ok && !result.record.matterId ? [{ id, record: result.record }] : [];
+    })
+    .sort((a, b) => a.record.date.localeCompare(b.record.date));
+
+  const updates: Record<string, unknown> = {};
+  const report: MatterLinkReport = { mattersCreated: 0, billsLinked: 0 };
+
+  unlinked.forEach(({ id, record }) => {
+    const key = normalize(record.caseNumber);
+    let matterId = matterIdsByNumber.get(key);
+    if (!matterId) {
+      matterId = push(ref(database, MATTERS_PATH)).key as string;
+      matterIdsByNumber.set(key, matterId);
+      const matter = stripUndefined(matterSchema.parse({
+        matterNumber: record.caseNumber,
+        title: record.caseDescription || record.caseNumber,
+        clientId: record.clientId,
+        createdAt: new Date().toISOString(),
+      }));
+      updates[`${MATTERS_PATH}/${matterId}`] = matter;
+      Object.assign(updates, auditUpdates({ action: 'matter.create', path: `${MATTERS_PATH}/${matterId}`, before: null, after: matter }));
+      report.mattersCreated += 1;
+    }
+    updates[`${CASES_PATH}/${id}/matterId`] = matterId;
+    Object.assign(updates, versionUpdate({ path: `${CASES_PATH}/${id}`, version: record.version }));
+    Object.assign(updates, auditUpdates({
+      action: 'bill.update',
+      path: `${CASES_PATH}/${id}`,
+      before: { matterId: null },
+      after: { matterId },
+      billNumber: record.billNumber,
+    }));
+    report.billsLinked += 1;
+  });
+
+  if (report.billsLinked > 0) {
+    await update(ref(database), stripUndefined(updates));
+  }
+  return report;
+}
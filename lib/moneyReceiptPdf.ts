@@ -0,0 +1,210 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type RGB } from 'pdf-lib';
+import { format, parseISO } from 'date-fns';
+import { amountInWords } from '@/lib/amountInWords';
+import { formatAmount, hexToRgb, toPdfText, wrapText } from '@/lib/pdfText';
+import {
+  formatPaymentDetails,
+  type Case,
+  type Clearance,
+  type Payment,
+  type PaymentDetails,
+  type PaymentMethod,
+} from '@/lib/casesRepository';
+import type { Client } from '@/lib/clientsRepository';
+import type { Receipt } from '@/lib/receiptsRepository';
+import type { Settings } from '@/lib/settingsRepository';
+
+/** A bill settled by the money received, with any TDS the client deducted from it. */
+export interface MoneyReceiptLine {
+  billNumber: string;
+  description: string;
+  amount: number; // Gross, including TDS
+  tds: number;
+}
+
+export interface MoneyReceiptData {
+  moneyReceiptNumber: string;
+  date: string;
+  method: PaymentMethod;
+  details: PaymentDetails;
+  clearance?: Clearance;
+  voided?: Payment['voided'];
+  lines: MoneyReceiptLine[];
+  advance: number; // Received but not applied to any bill
+  client?: Client;
+  settings: Settings;
+}
+
+// A5 landscape, so two fit on an A4 sheet
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 419.53;
+const MARGIN = 36;
+const DARK = rgb(0.17, 0.18, 0.2);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+const formatDate = (isoDate: string) => format(parseISO(isoDate), 'dd MMM yyyy');
+
+// --- SOURCES ---
+/** The money receipt for a single payment against a bill. */
+export const moneyReceiptForPayment = (bill: Case, payment: Payment): Omit<MoneyReceiptData, 'client' | 'settings'> => ({
+  moneyReceiptNumber: payment.moneyReceiptNumber ?? '',
+  date: payment.date,
+  method: payment.method,
+  details: payment,
+  clearance: payment.clearance,
+  voided: payment.voided,
+  lines: [{ billNumber: bill.billNumber, description: bill.caseDescription || `Case ${bill.caseNumber}`, amount: payment.amount, tds: payment.tds?.amount ?? 0 }],
+  advance: 0,
+});
+
+/** The money receipt for a receipt spread over several bills, listing each bill it settled. */
+export const moneyReceiptForReceipt = (receipt: Receipt, cases: Case[]): Omit<MoneyReceiptData, 'client' | 'settings'> => ({
+  moneyReceiptNumber: receipt.moneyReceiptNumber ?? '',
+  date: receipt.date,
+  method: receipt.method,
+  details: receipt,
+  clearance: receipt.clearance,
+  lines: receipt.allocations.map(allocation => {
+    const bill = cases.find(c => c.id === allocation.caseId);
+    return {
+      billNumber: bill?.billNumber ?? '-',
+      description: bill ? bill.caseDescription || `Case ${bill.caseNumber}` : 'Deleted bill',
+      amount: allocation.amount,
+      tds: 0,
+    };
+  }),
+  advance: receipt.amount - receipt.allocatedAmount,
+});
+
+interface TextStyle {
+  font?: PDFFont;
+  size?: number;
+  color?: RGB;
+  align?: 'left' | 'right' | 'center';
+}
+
+/**
+ * Renders a numbered money receipt acknowledging a payment. Cheques and drafts still with the
+ * bank are acknowledged subject to realisation; bounced and voided payments are marked cancelled.
+ */
+export async function renderMoneyReceiptPdf({ moneyReceiptNumber, date, method, details, clearance, voided, lines, advance, client, settings }: MoneyReceiptData): Promise<Uint8Array> {
+  const { firm, invoiceTemplate: template } = settings;
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Money Receipt ${moneyReceiptNumber}`);
+  doc.setAuthor(firm.name);
+  doc.setCreator(firm.name);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const accent = hexToRgb(template.accentColor);
+  const right = PAGE_WIDTH - MARGIN;
+  const contentWidth = right - MARGIN;
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const draw = (text: string, x: number, style: TextStyle = {}) => {
+    const font = style.font ?? regular;
+    const size = style.size ?? 10;
+    const safe = toPdfText(text);
+    const width = font.widthOfTextAtSize(safe, size);
+    const left = style.align === 'right' ? x - width : style.align === 'center' ? x - width / 2 : x;
+    page.drawText(safe, { x: left, y, font, size, color: style.color ?? DARK });
+  };
+
+  /** Continues on a new page when fewer than `height` points are left. */
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN) return;
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const paragraph = (text: string, style: TextStyle = {}) => {
+    const size = style.size ?? 10;
+    wrapText(text, style.font ?? regular, size, contentWidth).forEach(line => {
+      draw(line, MARGIN, style);
+      y -= size + 3;
+    });
+  };
+
+  // --- LETTERHEAD ---
+  draw(firm.name, MARGIN, { font: bold, size: 16, color: accent });
+  y -= 13;
+  [firm.address, [firm.phone && `Tel: ${firm.phone}`, firm.email].filter(Boolean).join('   |   ')]
+    .filter(Boolean)
+    .forEach(line => {
+      draw(line, MARGIN, { size: 8, color: MUTED });
+      y -= 10;
+    });
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: right, y }, thickness: 1.5, color: accent });
+  y -= 20;
+
+  const bounced = clearance?.status === 'bounced';
+  draw(bounced || voided ? 'CANCELLED MONEY RECEIPT' : 'MONEY RECEIPT', PAGE_WIDTH / 2, { font: bold, size: 13, align: 'center' });
+  y -= 20;
+  draw(`No. ${moneyReceiptNumber}`, MARGIN, { font: bold, size: 10 });
+  draw(`Date: ${formatDate(date)}`, right, { font: bold, size: 10, align: 'right' });
+  y -= 22;
+
+  // --- ACKNOWLEDGEMENT ---
+  const billed = lines.reduce((sum, line) => sum + line.amount, 0);
+  const tds = lines.reduce((sum, line) => sum + line.tds, 0);
+  const received = billed - tds + advance;
+  const instrument = formatPaymentDetails({ ...details, method });
+  paragraph(
+    `Received with thanks from ${client?.name ?? 'the client'} the sum of Rs. ${formatAmount(received)} ` +
+    `(${amountInWords(received)}) by ${method}${instrument ? ` (${instrument})` : ''}, towards:`,
+  );
+  y -= 8;
+
+  // --- BILLS SETTLED ---
+  const rows: [string, string, number][] = lines.map(line => [line.billNumber, line.description, line.amount]);
+  if (advance >= 0.01) rows.push(['', 'Advance, to be applied to future bills', advance]);
+  page.drawRectangle({ x: MARGIN, y: y - 5, width: contentWidth, height: 17, color: accent });
+  draw('Bill No.', MARGIN + 6, { font: bold, size: 9, color: rgb(1, 1, 1) });
+  draw('Matter', MARGIN + 130, { font: bold, size: 9, color: rgb(1, 1, 1) });
+  draw('Amount (Rs.)', right - 6, { font: bold, size: 9, color: rgb(1, 1, 1), align: 'right' });
+  y -= 19;
+  rows.forEach(([billNumber, description, amount]) => {
+    ensureSpace(16);
+    draw(billNumber, MARGIN + 6, { size: 9 });
+    draw(wrapText(description, regular, 9, right - MARGIN - 230)[0] ?? '', MARGIN + 130, { size: 9 });
+    draw(formatAmount(amount), right - 6, { size: 9, align: 'right' });
+    y -= 5;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: right, y }, thickness: 0.5, color: RULE });
+    y -= 11;
+  });
+  ensureSpace(36);
+  if (tds >= 0.01) {
+    draw('Less: TDS deducted by the client', MARGIN + 130, { size: 9, color: MUTED });
+    draw(formatAmount(tds), right - 6, { size: 9, color: MUTED, align: 'right' });
+    y -= 14;
+  }
+  draw('Received', MARGIN + 130, { font: bold, size: 10 });
+  draw(formatAmount(received), right - 6, { font: bold, size: 10, align: 'right' });
+  y -= 22;
+
+  // --- CLEARANCE ---
+  if (voided) {
+    paragraph(`Voided on ${formatDate(voided.date)}: ${voided.reason}`, { font: bold, size: 9 });
+  } else if (bounced) {
+    paragraph(`The ${method.toLowerCase()} was returned unpaid${clearance.date ? ` on ${formatDate(clearance.date)}` : ''}${clearance.reason ? ` (${clearance.reason})` : ''}, so this receipt is cancelled.`, { font: bold, size: 9 });
+  } else if (clearance?.status === 'pending') {
+    paragraph(`Subject to realisation of the ${method.toLowerCase()}.`, { size: 9, color: MUTED });
+  }
+
+  // --- SIGNATURE ---
+  // Signed at the foot of the page
+  ensureSpace(70);
+  y = MARGIN + 60;
+  draw(`For ${firm.name}`, right, { font: bold, size: 10, align: 'right' });
+  y -= 36;
+  if (template.signatoryName) {
+    draw(template.signatoryName, right, { size: 9, align: 'right' });
+    y -= 11;
+  }
+  draw(template.signatoryDesignation, right, { size: 8, color: MUTED, align: 'right' });
+
+  return doc.save();
+}
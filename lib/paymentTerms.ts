@@ -0,0 +1,31 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { acceptsPayments } from '@/lib/billStatus';
+import { toISODate } from '@/lib/dates';
+import type { Case } from '@/lib/casesRepository';
+
+/** Terms offered in the client and firm settings, as days allowed to pay. */
+export const PAYMENT_TERMS_OPTIONS = [0, 7, 15, 30, 45, 60, 90] as const;
+
+export const formatPaymentTerms = (days: number) => (days === 0 ? 'Due on receipt' : `Net ${days}`);
+
+/** The date a bill dated `date` (YYYY-MM-DD) falls due under `days` of credit. */
+export const calculateDueDate = (date: string, days: number) => toISODate(addDays(parseISO(date), days));
+
+/** Bills issued before payment terms existed carry no due date, and were due on receipt. */
+export const getDueDate = (bill: Pick<Case, 'date' | 'dueDate'>) => bill.dueDate ?? bill.date;
+
+/** Whether money is still owed on a bill after its due date has passed. */
+export const isOverdue = (bill: Case, today = toISODate(new Date())) =>
+  acceptsPayments(bill.status) && bill.remainingAmount >= 0.01 && getDueDate(bill) < today;
+
+export const getDaysOverdue = (bill: Case, today = toISODate(new Date())) =>
+  isOverdue(bill, today) ? differenceInCalendarDays(parseISO(today), parseISO(getDueDate(bill))) : 0;
+
+/** Unpaid bills falling due from `today` to `days` days later, soonest first. */
+export function getBillsFallingDue(cases: Case[], days: number, today = toISODate(new Date())): Case[] {
+  const until = calculateDueDate(today, days);
+  return cases
+    .filter(bill => acceptsPayments(bill.status) && bill.remainingAmount >= 0.01)
+    .filter(bill => getDueDate(bill) >= today && getDueDate(bill) <= until)
+    .sort((a, b) => getDueDate(a).localeCompare(getDueDate(b)));
+}
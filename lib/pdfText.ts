@@ -0,0 +1,36 @@
+import { rgb, type PDFFont, type RGB } from 'pdf-lib';
+
+// Text helpers shared by the generated PDFs. The standard fonts are used throughout, so
+// nothing has to be fetched or embedded beyond what pdf-lib ships with.
+
+export const hexToRgb = (hex: string): RGB =>
+  rgb(parseInt(hex.slice(1, 3), 16) / 255, parseInt(hex.slice(3, 5), 16) / 255, parseInt(hex.slice(5, 7), 16) / 255);
+
+/** The standard PDF fonts only cover WinAnsi, so anything outside it is replaced. */
+export const toPdfText = (text: string) =>
+  text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF\n]/g, '?');
+
+export const formatAmount = (amount: number) => new Intl.NumberFormat('en-IN', {
+  minimumFractionDigits: 2, maximumFractionDigits: 2,
+}).format(amount || 0);
+
+export const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] =>
+  toPdfText(text).split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    return [...lines, line];
+  });
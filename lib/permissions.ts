@@ -0,0 +1,47 @@
+// Roles and what each may do. database.rules.json enforces the same rules on the server;
+// keep the two in step when either changes.
+
+export const ROLES = ['partner', 'associate', 'accounts', 'auditor'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  partner: 'Partner',
+  associate: 'Associate',
+  accounts: 'Accounts Clerk',
+  auditor: 'Auditor (read-only)',
+};
+
+export const PERMISSIONS = [
+  'bills.create',
+  'bills.edit', // Bills that have not been issued yet
+  'bills.editIssued', // Only the matter an issued bill is filed under can change
+  'bills.cancel',
+  'bills.writeOff',
+  'bills.revise',
+  'creditNotes.create',
+  'payments.record',
+  'reminders.send',
+  'clients.manage',
+  'matters.manage',
+  'hearings.schedule',
+  'work.record',
+  'time.record',
+  'billNumbers.manage',
+  'settings.manage',
+  'users.manage',
+  'audit.view',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  partner: PERMISSIONS,
+  associate: ['bills.create', 'bills.edit', 'clients.manage', 'matters.manage', 'hearings.schedule', 'work.record', 'time.record'],
+  accounts: ['payments.record', 'reminders.send', 'clients.manage', 'billNumbers.manage'],
+  // Every role can read bills and payments; auditors can also read the audit trail, and do nothing else
+  auditor: ['audit.view'],
+};
+
+export const roleCan = (role: Role | null | undefined, permission: Permission) =>
+  Boolean(role && ROLE_PERMISSIONS[role].includes(permission));
@@ -0,0 +1,33 @@
+import type { Client } from '@/lib/clientsRepository';
+import type { ParticularType } from '@/lib/settingsRepository';
+import { DEFAULT_SAC_CODE } from '@/lib/gst';
+
+// The rate card in settings lists the particulars bills are raised with and what each costs.
+
+/** Always offered besides the rate card, for a one-off particular described on the bill. */
+export const OTHER_PARTICULAR_TYPE = 'Other';
+
+/** Names offered when choosing a particular: the rate card's active types, then "Other" unless `withOther` is false. */
+export const particularTypeOptions = (rateCard: ParticularType[], withOther = true) => [
+  ...rateCard.filter(type => type.active).map(type => type.name).sort(),
+  ...(withOther ? [OTHER_PARTICULAR_TYPE] : []),
+];
+
+/**
+ * The amount charged for a particular: the rate negotiated with the client, or else the rate
+ * card's. Undefined when neither sets one, so the amount is left to be entered.
+ */
+export function rateFor(typeName: string, rateCard: ParticularType[], client?: Client): number | undefined {
+  const type = rateCard.find(t => t.name === typeName);
+  if (!type) return undefined;
+  const amount = client?.particularRates[type.id] ?? type.defaultAmount;
+  return amount > 0 ? amount : undefined;
+}
+
+/** Whether a particular is an appearance, billed with the date of the sitting. */
+export const isAppearanceType = (typeName: string, rateCard: ParticularType[]) =>
+  rateCard.find(t => t.name === typeName)?.isAppearance ?? false;
+
+/** The SAC code a particular is invoiced under, from the rate card; "Other" and unknown types take the general code. */
+export const sacCodeFor = (typeName: string, rateCard: ParticularType[]) =>
+  rateCard.find(t => t.name === typeName)?.sacCode ?? DEFAULT_SAC_CODE;
@@ -0,0 +1,103 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import * as z from 'zod';
+import { ref, onValue, type Query } from 'firebase/database';
+import { database } from '@/lib/firebase';
+
+export interface RealtimeState<T> {
+  data: T;
+  loading: boolean;
+}
+
+export interface RealtimeStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => RealtimeState<T>;
+  getServerSnapshot: () => RealtimeState<T>;
+}
+
+const nodeSchema = z.record(z.string(), z.unknown());
+
+/** The children of a node read from the database, by key and each still to be parsed; empty when the node is. */
+export const readNode = (value: unknown): Record<string, unknown> => {
+  const parsed = nodeSchema.safeParse(value);
+  return parsed.success ? parsed.data : {};
+};
+
+/**
+ * Creates a store backed by a single `onValue` subscription on `source`, a path or a query.
+ * The subscription is opened for the first listener and closed when the last
+ * one goes away, so any number of components can read the same node.
+ */
+export function createRealtimeStore<T>(
+  source: string | Query,
+  transform: (value: unknown) => T,
+  empty: T,
+): RealtimeStore<T> {
+  const initialState: RealtimeState<T> = { data: empty, loading: true };
+  let state = initialState;
+  let detach: (() => void) | null = null;
+  const listeners = new Set<() => void>();
+
+  const emit = (next: RealtimeState<T>) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    if (!detach) {
+      detach = onValue(
+        typeof source === 'string' ? ref(database, source) : source,
+        (snapshot) => emit({ data: transform(snapshot.val()), loading: false }),
+        (error) => {
+          console.error(`Error reading ${source.toString()}:`, error);
+          emit({ data: empty, loading: false });
+        },
+      );
+    }
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && detach) {
+        detach();
+        detach = null;
+      }
+    };
+  };
+
+  return {
+    subscribe,
+    getSnapshot: () => state,
+    getServerSnapshot: () => initialState,
+  };
+}
+
+/**
+ * A store that reads several stores at once and combines their data, loading until all of
+ * them have loaded. The combined data is only worked out again when one of them changes.
+ */
+export function combineRealtimeStores<T, R>(stores: RealtimeStore<T>[], combine: (data: T[]) => R): RealtimeStore<R> {
+  const initialState: RealtimeState<R> = { data: combine(stores.map(s => s.getServerSnapshot().data)), loading: true };
+  let inputs: RealtimeState<T>[] = [];
+  let state = initialState;
+
+  const getSnapshot = () => {
+    const next = stores.map(s => s.getSnapshot());
+    if (next.some((input, i) => input !== inputs[i])) {
+      inputs = next;
+      state = { data: combine(next.map(input => input.data)), loading: next.some(input => input.loading) };
+    }
+    return state;
+  };
+
+  const subscribe = (listener: () => void) => {
+    const unsubscribes = stores.map(s => s.subscribe(listener));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  };
+
+  return { subscribe, getSnapshot, getServerSnapshot: () => initialState };
+}
+
+export function useRealtimeStore<T>(store: RealtimeStore<T>): RealtimeState<T> {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+}
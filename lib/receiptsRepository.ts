@@ -0,0 +1,262 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, push } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import {
+  isoDate,
+  PAYMENT_METHODS,
+  checkPaymentDetails,
+  needsClearance,
+  paymentDetailsSchema,
+  storedClearanceSchema,
+} from '@/lib/caseSchema';
+import { acceptsPayments } from '@/lib/billStatus';
+import { auditUpdates } from '@/lib/auditLog';
+import { allocateMoneyReceiptNumber } from '@/lib/billNumbering';
+import { getDueDate } from '@/lib/paymentTerms';
+import { commitVersionedUpdates, versionUpdate, type VersionedRecord } from '@/lib/versionedWrites';
+import {
+  cleanPaymentDetails,
+  clearanceUpdates,
+  paymentUpdates,
+  versionedCase,
+  voidPaymentUpdates,
+  type Case,
+  type Clearance,
+} from '@/lib/casesRepository';
+
+// --- SCHEMA ---
+export const receiptAllocationSchema = z.object({
+  caseId: z.string().min(1),
+  amount: z.number().positive('Allocated amount must be greater than 0'),
+});
+
+/**
+ * Money received from a client in one transfer. Each allocation is also recorded as a payment
+ * on the bill it settles, tagged with the receipt's id and carrying its method details, money
+ * receipt number and clearance, so bill totals need nothing from here. Whatever is not
+ * allocated is held as an advance until it is applied to later bills.
+ */
+export const receiptSchema = paymentDetailsSchema.extend({
+  version: z.number().int().min(0).default(0), // Moved on by every write, as on bills
+  clientId: z.string().min(1, 'Client is required'),
+  amount: z.number().positive('Amount must be greater than 0'),
+  date: isoDate,
+  method: z.enum(PAYMENT_METHODS),
+  reference: z.string().default(''), // Free-text note, e.g. the client's remittance advice
+  moneyReceiptNumber: z.string().optional(), // Missing on receipts recorded before money receipts were numbered
+  clearance: storedClearanceSchema.optional(), // Only on cheques and drafts
+  // Firebase drops empty arrays, so this may be missing on read
+  allocations: z.array(receiptAllocationSchema).default([]),
+  createdAt: z.string().optional(),
+}).superRefine(checkPaymentDetails);
+
+// --- MODELS ---
+export type ReceiptAllocation = z.infer<typeof receiptAllocationSchema>;
+export type ReceiptInput = Omit<z.input<typeof receiptSchema>, 'version' | 'allocations' | 'createdAt' | 'moneyReceiptNumber' | 'clearance'>;
+
+export interface Receipt extends z.infer<typeof receiptSchema> {
+  id: string;
+  allocatedAmount: number;
+  unallocatedAmount: number; // Advance carried forward; nothing once the cheque has bounced
+}
+
+const RECEIPTS_PATH = 'receipts';
+
+const sumAllocations = (allocations: ReceiptAllocation[]) => allocations.reduce((sum, a) => sum + a.amount, 0);
+
+const versionedReceipt = (receipt: Receipt): VersionedRecord => ({
+  path: `${RECEIPTS_PATH}/${receipt.id}`,
+  version: receipt.version,
+  label: `Receipt ${receipt.moneyReceiptNumber ?? receipt.reference}`.trim(),
+});
+
+// --- SUBSCRIPTION ---
+const toReceipts = (data: unknown): Receipt[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = receiptSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid receipt record ${id}:`, parsed.error.issues);
+        return [];
+      }
+      const allocatedAmount = sumAllocations(parsed.data.allocations);
+      const unallocatedAmount = parsed.data.clearance?.status === 'bounced' ? 0 : parsed.data.amount - allocatedAmount;
+      return [{ ...parsed.data, id, allocatedAmount, unallocatedAmount }];
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+const receiptsStore = createRealtimeStore<Receipt[]>(RECEIPTS_PATH, toReceipts, []);
+
+/** All receipts, most recent first, from a subscription shared by every caller. */
+export function useReceipts() {
+  const { data, loading } = useRealtimeStore(receiptsStore);
+  return { receipts: data, loading };
+}
+
+// --- ALLOCATION ---
+/** A client's bills that can still take money, oldest due first. */
+export const getAllocatableBills = (cases: Case[], clientId: string) =>
+  cases
+    .filter(c => c.clientId === clientId && acceptsPayments(c.status) && !c.revisedBy && c.remainingAmount >= 0.01)
+    .sort((a, b) => getDueDate(a).localeCompare(getDueDate(b)) || a.date.localeCompare(b.date));
+
+/** Spreads `amount` over `bills` in the order given, clearing each before moving on. */
+export function autoAllocate(amount: number, bills: Case[]): ReceiptAllocation[] {
+  let left = Math.round(amount * 100) / 100;
+  return bills.flatMap(bill => {
+    const applied = Math.min(left, Math.round(bill.remainingAmount * 100) / 100);
+    if (applied < 0.01) return [];
+    left = Math.round((left - applied) * 100) / 100;
+    return [{ caseId: bill.id, amount: applied }];
+  });
+}
+
+// --- WRITES ---
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AllocationError';
+  }
+}
+
+/**
+ * The writes that apply `allocations` from a receipt: a payment on each bill, dated and paid by
+ * the receipt's date and method, along with the bills they were worked out from. Throws an
+ * AllocationError if a bill belongs to another client, cannot take payments or would be
+ * overpaid, or if more is allocated than `available`.
+ */
+function allocationUpdates(receiptId: string, receipt: z.infer<typeof receiptSchema>, allocations: ReceiptAllocation[], cases: Case[], available: number) {
+  if (sumAllocations(allocations) > available + 0.01) {
+    throw new AllocationError('More is allocated than the receipt has left');
+  }
+  if (new Set(allocations.map(a => a.caseId)).size !== allocations.length) {
+    throw new AllocationError('Each bill can appear only once in an allocation');
+  }
+  const bills: VersionedRecord[] = [];
+  const billUpdates = allocations.reduce<Record<string, unknown>>((updates, allocation) => {
+    const bill = cases.find(c => c.id === allocation.caseId);
+    if (!bill || bill.clientId !== receipt.clientId) {
+      throw new AllocationError('Receipts can only be allocated to bills of the same client');
+    }
+    if (allocation.amount > bill.remainingAmount + 0.01) {
+      throw new AllocationError(`Bill ${bill.billNumber} has only ${bill.remainingAmount.toFixed(2)} left to pay`);
+    }
+    bills.push(versionedCase(bill));
+    return {
+      ...updates,
+      ...paymentUpdates(bill, {
+        ...paymentDetailsSchema.parse(receipt),
+        amount: allocation.amount,
+        method: receipt.method,
+        date: receipt.date,
+        receiptId,
+        moneyReceiptNumber: receipt.moneyReceiptNumber,
+        clearance: receipt.clearance,
+      }),
+    };
+  }, {});
+  return { updates: billUpdates, bills };
+}
+
+/**
+ * Records a receipt under the next money receipt number and applies it to bills in one write;
+ * anything left over is held as an advance. Returns the money receipt number.
+ */
+export async function createReceipt(input: ReceiptInput, allocations: ReceiptAllocation[], cases: Case[]): Promise<string> {
+  const id = push(ref(database, RECEIPTS_PATH)).key as string;
+  const fields = {
+    ...input,
+    ...cleanPaymentDetails(input),
+    reference: input.reference?.trim(),
+    clearance: needsClearance(input.method) ? { status: 'pending' } : undefined,
+    allocations: allocations.filter(a => a.amount >= 0.01),
+    createdAt: new Date().toISOString(),
+  };
+  // Validate before allocating a number, so invalid input never consumes one
+  receiptSchema.parse(fields);
+  const record = receiptSchema.parse({ ...fields, version: 1, moneyReceiptNumber: await allocateMoneyReceiptNumber(input.date) });
+  const { updates, bills } = allocationUpdates(id, record, record.allocations, cases, record.amount);
+  await commitVersionedUpdates({
+    [`${RECEIPTS_PATH}/${id}`]: stripUndefined(record),
+    ...updates,
+    ...auditUpdates({ action: 'receipt.create', path: `${RECEIPTS_PATH}/${id}`, before: null, after: record }),
+  }, bills);
+  return record.moneyReceiptNumber as string;
+}
+
+/** Applies more of a receipt's advance to bills. */
+export async function allocateReceipt(receipt: Receipt, allocations: ReceiptAllocation[], cases: Case[]): Promise<void> {
+  const added = allocations.filter(a => a.amount >= 0.01).map(a => receiptAllocationSchema.parse(a));
+  const merged = [...receipt.allocations];
+  added.forEach(allocation => {
+    const existing = merged.findIndex(a => a.caseId === allocation.caseId);
+    if (existing === -1) merged.push(allocation);
+    else merged[existing] = { ...merged[existing], amount: merged[existing].amount + allocation.amount };
+  });
+  const { updates, bills } = allocationUpdates(receipt.id, receipt, added, cases, receipt.unallocatedAmount);
+  await commitVersionedUpdates({
+    ...versionUpdate(versionedReceipt(receipt)),
+    [`${RECEIPTS_PATH}/${receipt.id}/allocations`]: merged,
+    ...updates,
+    ...auditUpdates({ action: 'receipt.allocate', path: `${RECEIPTS_PATH}/${receipt.id}`, before: { allocations: receipt.allocations }, after: { allocations: merged } }),
+  }, [versionedReceipt(receipt), ...bills]);
+}
+
+/**
+ * Records that the bank cleared or returned a cheque or draft received as a receipt, on the
+ * receipt and on every payment it was split into. A bounce reverses all of them and drops
+ * whatever was held as an advance.
+ */
+export async function recordReceiptClearance(receipt: Receipt, clearance: Clearance, cases: Case[]): Promise<void> {
+  if (receipt.clearance?.status !== 'pending') throw new Error('Only a cheque or draft awaiting clearance can be cleared or bounced');
+  const parsed = storedClearanceSchema.parse(clearance);
+  const bills: VersionedRecord[] = [];
+  const billUpdates = cases.reduce<Record<string, unknown>>((updates, bill) => {
+    const indexes = bill.payments.flatMap((payment, index) => (payment.receiptId === receipt.id && !payment.voided ? [index] : []));
+    if (indexes.length === 0) return updates;
+    bills.push(versionedCase(bill));
+    return { ...updates, ...clearanceUpdates(bill, indexes, parsed) };
+  }, {});
+
+  await commitVersionedUpdates({
+    ...versionUpdate(versionedReceipt(receipt)),
+    [`${RECEIPTS_PATH}/${receipt.id}/clearance`]: stripUndefined(parsed),
+    ...billUpdates,
+    ...auditUpdates({
+      action: parsed.status === 'bounced' ? 'payment.bounce' : 'payment.clear',
+      path: `${RECEIPTS_PATH}/${receipt.id}`,
+      before: { clearance: receipt.clearance },
+      after: { clearance: parsed },
+    }),
+  }, [versionedReceipt(receipt), ...bills]);
+}
+
+/**
+ * Voids a payment that was allocated from `receipt`, and returns its amount to the receipt's
+ * advance so it can be allocated again.
+ */
+export async function voidReceiptPayment(receipt: Receipt, caseItem: Case, paymentIndex: number, reason: string): Promise<void> {
+  const payment = caseItem.payments[paymentIndex];
+  if (!payment || payment.receiptId !== receipt.id) throw new Error('This payment is not part of the receipt');
+  const allocations = receipt.allocations
+    .map(a => (a.caseId === caseItem.id ? { ...a, amount: Math.round((a.amount - payment.amount) * 100) / 100 } : a))
+    .filter(a => a.amount >= 0.01);
+
+  await commitVersionedUpdates({
+    ...voidPaymentUpdates(caseItem, paymentIndex, reason),
+    ...versionUpdate(versionedReceipt(receipt)),
+    [`${RECEIPTS_PATH}/${receipt.id}/allocations`]: allocations,
+    ...auditUpdates({
+      action: 'payment.void',
+      path: `${RECEIPTS_PATH}/${receipt.id}`,
+      before: { allocations: receipt.allocations },
+      after: { allocations },
+      reason: reason.trim(),
+    }),
+  }, [versionedReceipt(receipt), versionedCase(caseItem)]);
+}
+
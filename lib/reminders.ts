@@ -0,0 +1,123 @@
+import { format, parseISO } from 'date-fns';
+import { REMINDER_LEVELS, type ReminderLevel } from '@/lib/caseSchema';
+import { getDaysOverdue, getDueDate } from '@/lib/paymentTerms';
+import type { Case } from '@/lib/casesRepository';
+import type { Client } from '@/lib/clientsRepository';
+import type { FirmSettings } from '@/lib/settingsRepository';
+
+export { REMINDER_LEVELS, type ReminderLevel };
+
+export const REMINDER_LEVEL_LABELS: Record<ReminderLevel, string> = {
+  first: 'First notice',
+  second: 'Second notice',
+  final: 'Final notice',
+};
+
+// {placeholders} are filled in by composeReminder
+const REMINDER_TEMPLATES: Record<ReminderLevel, { subject: string; body: string }> = {
+  first: {
+    subject: 'Payment reminder: Bill {billNumber}',
+    body: [
+      'Dear {clientName},',
+      '',
+      'This is a reminder that our bill {billNumber} dated {billDate} for {matter} was due for payment on {dueDate}. {balance} remains outstanding.',
+      '',
+      'A copy of the bill is attached. If you have already made the payment, please share the details so we can update our records.',
+      '',
+      'Regards,',
+      '{firmName}',
+    ].join('\n'),
+  },
+  second: {
+    subject: 'Second reminder: Bill {billNumber} is {daysOverdue} days overdue',
+    body: [
+      'Dear {clientName},',
+      '',
+      'We wrote earlier about our bill {billNumber} dated {billDate} for {matter}. It fell due on {dueDate} and {balance} is still outstanding.',
+      '',
+      'We would be grateful if you could arrange payment at the earliest. A copy of the bill is attached.',
+      '',
+      'Regards,',
+      '{firmName}',
+    ].join('\n'),
+  },
+  final: {
+    subject: 'Final notice: Bill {billNumber}',
+    body: [
+      'Dear {clientName},',
+      '',
+      'Despite our earlier reminders, {balance} remains unpaid on our bill {billNumber} dated {billDate} for {matter}, which fell due on {dueDate}.',
+      '',
+      'Please treat this as our final notice and settle the balance within 7 days. A copy of the bill is attached.',
+      '',
+      'Regards,',
+      '{firmName}',
+    ].join('\n'),
+  },
+};
+
+const formatDate = (isoDate: string) => format(parseISO(isoDate), 'dd MMM yyyy');
+
+const formatRupees = (amount: number) => new Intl.NumberFormat('en-IN', {
+  style: 'currency', currency: 'INR', minimumFractionDigits: 2,
+}).format(amount);
+
+/** The next notice to send: each level once, in order, and nothing after the final one. */
+export function getNextReminderLevel(bill: Pick<Case, 'reminders'>): ReminderLevel | null {
+  const sent = new Set(bill.reminders.map(r => r.level));
+  return REMINDER_LEVELS.find(level => !sent.has(level)) ?? null;
+}
+
+/** The client's own address and those of its contact persons, without duplicates. */
+export const getReminderRecipients = (client?: Client) =>
+  Array.from(new Set([client?.email, ...(client?.contactPersons ?? []).map(p => p.email)].filter((email): email is string => Boolean(email))));
+
+export interface ComposedReminder {
+  subject: string;
+  text: string;
+}
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+const greetingName = (client?: Client) => client?.contactPersons[0]?.name || client?.name || 'Sir/Madam';
+
+export function composeReminder(level: ReminderLevel, bill: Case, client: Client | undefined, firm: FirmSettings): ComposedReminder {
+  const values: Record<string, string> = {
+    billNumber: bill.billNumber,
+    billDate: formatDate(bill.date),
+    dueDate: formatDate(getDueDate(bill)),
+    daysOverdue: String(getDaysOverdue(bill)),
+    balance: formatRupees(bill.remainingAmount),
+    matter: bill.caseDescription || `case ${bill.caseNumber}`,
+    clientName: greetingName(client),
+    firmName: firm.name,
+  };
+  const template = REMINDER_TEMPLATES[level];
+  return { subject: fillTemplate(template.subject, values), text: fillTemplate(template.body, values) };
+}
+
+const STATEMENT_TEMPLATE = {
+  subject: 'Statement of account: {period}',
+  body: [
+    'Dear {clientName},',
+    '',
+    'Please find attached your statement of account with us for {period}. {balanceLine}',
+    '',
+    'If anything in it does not match your records, please let us know so we can reconcile the account.',
+    '',
+    'Regards,',
+    '{firmName}',
+  ].join('\n'),
+};
+
+/** The covering email for a client statement; a negative balance is an advance held for the client. */
+export function composeStatementEmail(client: Client | undefined, firm: FirmSettings, period: string, closingBalance: number): ComposedReminder {
+  const balanceLine = closingBalance > 0.005
+    ? `${formatRupees(closingBalance)} was outstanding at the end of the period.`
+    : closingBalance < -0.005
+      ? `We held an advance of ${formatRupees(-closingBalance)} for you at the end of the period.`
+      : 'Nothing was outstanding at the end of the period.';
+  const values = { period, balanceLine, clientName: greetingName(client), firmName: firm.name };
+  return { subject: fillTemplate(STATEMENT_TEMPLATE.subject, values), text: fillTemplate(STATEMENT_TEMPLATE.body, values) };
+}
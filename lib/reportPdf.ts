@@ -0,0 +1,126 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type RGB } from 'pdf-lib';
+import { format } from 'date-fns';
+import { hexToRgb, toPdfText } from '@/lib/pdfText';
+import type { FirmSettings } from '@/lib/settingsRepository';
+
+export interface ReportColumn {
+  header: string;
+  /** Share of the page width; the shares of all columns add up to 1. */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export interface ReportRow {
+  cells: string[];
+  /** Bold, with a rule above; used for subtotals and totals. */
+  emphasis?: boolean;
+  /** Smaller grey text, e.g. the bills listed under a client. */
+  muted?: boolean;
+}
+
+export interface ReportData {
+  title: string;
+  subtitle?: string;
+  firm: FirmSettings;
+  accentColor: string;
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  landscape?: boolean;
+}
+
+// A4
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 36;
+const DARK = rgb(0.17, 0.18, 0.2);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+/**
+ * Renders a tabular report, such as receivables ageing, under the firm's name. The column
+ * headers are repeated on every page.
+ */
+export async function renderReportPdf({ title, subtitle, firm, accentColor, columns, rows, landscape = false }: ReportData): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  doc.setAuthor(firm.name);
+  doc.setCreator(firm.name);
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const accent = hexToRgb(accentColor);
+  const [pageWidth, pageHeight] = landscape ? [PAGE_HEIGHT, PAGE_WIDTH] : [PAGE_WIDTH, PAGE_HEIGHT];
+  const contentWidth = pageWidth - 2 * MARGIN;
+  const lefts = columns.reduce<number[]>((acc, column, index) => [...acc, acc[index] + column.width * contentWidth], [MARGIN]);
+
+  let page = doc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - MARGIN;
+
+  /** Draws text in a column, cut short with an ellipsis if it would run into the next one. */
+  const drawCell = (text: string, column: number, font: PDFFont, size: number, color: RGB) => {
+    const maxWidth = columns[column].width * contentWidth - 6;
+    let safe = toPdfText(text);
+    if (font.widthOfTextAtSize(safe, size) > maxWidth) {
+      while (safe.length > 1 && font.widthOfTextAtSize(`${safe}...`, size) > maxWidth) safe = safe.slice(0, -1);
+      safe = `${safe}...`;
+    }
+    const width = font.widthOfTextAtSize(safe, size);
+    const x = columns[column].align === 'right' ? lefts[column + 1] - width - 3 : lefts[column] + 3;
+    page.drawText(safe, { x, y, font, size, color });
+  };
+
+  const drawHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 5, width: contentWidth, height: 17, color: accent });
+    columns.forEach((column, index) => drawCell(column.header, index, bold, 9, rgb(1, 1, 1)));
+    y -= 20;
+  };
+
+  // --- TITLE ---
+  page.drawText(toPdfText(firm.name), { x: MARGIN, y, font: bold, size: 16, color: accent });
+  y -= 20;
+  page.drawText(toPdfText(title), { x: MARGIN, y, font: bold, size: 12, color: DARK });
+  y -= 14;
+  if (subtitle) {
+    page.drawText(toPdfText(subtitle), { x: MARGIN, y, font: regular, size: 9, color: MUTED });
+    y -= 12;
+  }
+  y -= 8;
+  drawHeader();
+
+  // --- ROWS ---
+  rows.forEach(row => {
+    const height = row.muted ? 12 : 15;
+    if (y - height < MARGIN + 20) {
+      page = doc.addPage([pageWidth, pageHeight]);
+      y = pageHeight - MARGIN;
+      drawHeader();
+    }
+    if (row.emphasis) {
+      page.drawLine({ start: { x: MARGIN, y: y + 10 }, end: { x: pageWidth - MARGIN, y: y + 10 }, thickness: 0.5, color: RULE });
+    }
+    row.cells.forEach((cell, index) => drawCell(
+      cell,
+      index,
+      row.emphasis ? bold : regular,
+      row.muted ? 8 : 9,
+      row.muted ? MUTED : DARK,
+    ));
+    y -= height;
+  });
+
+  // --- FOOTER ---
+  const generated = `Generated ${format(new Date(), 'dd MMM yyyy, HH:mm')}`;
+  const pages = doc.getPages();
+  pages.forEach((p, index) => {
+    const label = pages.length > 1 ? `${generated}   |   Page ${index + 1} of ${pages.length}` : generated;
+    p.drawText(label, {
+      x: pageWidth / 2 - regular.widthOfTextAtSize(label, 8) / 2,
+      y: MARGIN / 2,
+      font: regular,
+      size: 8,
+      color: MUTED,
+    });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, get, push, set, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { DEFAULT_SAC_CODE, GSTIN_PATTERN, LEGACY_SAC_CODES, PAN_PATTERN, SAC_CODE_PATTERN } from '@/lib/gst';
+
+// --- SCHEMA ---
+/** Optional text field: either empty or matching `schema`. */
+const optional = (schema: z.ZodString) => schema.or(z.literal('')).default('');
+
+export const firmSettingsSchema = z.object({
+  name: z.string().min(1, 'Firm name is required'),
+  address: optional(z.string()),
+  // Bills carry no GST while the firm has no GSTIN
+  gstin: optional(z.string().regex(GSTIN_PATTERN, 'Invalid GSTIN')),
+  pan: optional(z.string().regex(PAN_PATTERN, 'Invalid PAN')),
+  email: optional(z.string().email('Invalid email address')),
+  phone: optional(z.string()),
+});
+
+export const gstSettingsSchema = z.object({
+  rate: z.number().min(0).max(28),
+});
+
+/** Credit allowed on bills to clients without payment terms of their own. */
+export const paymentTermsSettingsSchema = z.object({
+  days: z.number().int().min(0, 'Days cannot be negative').max(365),
+});
+
+export const bankDetailsSchema = z.object({
+  bankName: optional(z.string()),
+  accountName: optional(z.string()),
+  accountNumber: optional(z.string()),
+  ifsc: optional(z.string().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, 'Invalid IFSC')),
+  branch: optional(z.string()),
+  upiId: optional(z.string()),
+});
+
+export const PAPER_SIZES = ['A4', 'Letter'] as const;
+
+/** Layout choices for generated invoices. */
+export const invoiceTemplateSchema = z.object({
+  paperSize: z.enum(PAPER_SIZES).default('A4'),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex colour such as #CAA068').default('#CAA068'),
+  tagline: optional(z.string()), // Printed under the firm name, e.g. "Advocates & Solicitors"
+  showBankDetails: z.boolean().default(true),
+  showSacCodes: z.boolean().default(true),
+  showPayments: z.boolean().default(true), // Amount received and balance due under the totals
+  signatoryName: optional(z.string()),
+  signatoryDesignation: z.string().default('Authorised Signatory'),
+  footerNote: optional(z.string()), // e.g. "Subject to Mumbai jurisdiction"
+});
+
+/** Someone whose time is billed by the hour, at their standard rate unless the client has its own. */
+export const feeEarnerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, 'Name is required'),
+  hourlyRate: z.number().min(0, 'Rate cannot be negative'),
+  active: z.boolean().default(true), // Former fee earners stay on their past time entries
+});
+
+
+/** A type of particular offered on bills, with the amount charged for it unless the client has agreed another. */
+export const particularTypeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Name is required'),
+  defaultAmount: z.number().min(0, 'Amount cannot be negative').default(0), // 0 leaves the amount to be entered
+  sacCode: z.string().regex(SAC_CODE_PATTERN, 'SAC code must be 6 digits').default(DEFAULT_SAC_CODE), // Printed on GST invoices
+  isAppearance: z.boolean().default(false), // Billed with the date of the sitting, which puts it on the hearing calendar
+  active: z.boolean().default(true), // Retired types stay on past bills but are no longer offered
+});
+
+export const billNumberingSettingsSchema = z.object({
+  // {FY} is replaced by the financial year (2026-27) and {SEQ} by the sequence number.
+  // Both are required: sequences restart every year, so {FY} keeps numbers unique.
+  format: z.string()
+    .min(1, 'Format is required')
+    .refine(value => value.includes('{FY}') && value.includes('{SEQ}'), 'Format must contain {FY} and {SEQ}'),
+  // Credit notes are numbered in a separate series with the same placeholders
+  creditNoteFormat: z.string()
+    .min(1, 'Format is required')
+    .refine(value => value.includes('{FY}') && value.includes('{SEQ}'), 'Format must contain {FY} and {SEQ}')
+    .default('ZA/CN/{FY}/{SEQ}'),
+  // Money receipts issued for payments are a third series
+  moneyReceiptFormat: z.string()
+    .min(1, 'Format is required')
+    .refine(value => value.includes('{FY}') && value.includes('{SEQ}'), 'Format must contain {FY} and {SEQ}')
+    .default('ZA/MR/{FY}/{SEQ}'),
+  sequenceDigits: z.number().int().min(1).max(8),
+});
+
+export type BillNumberingSettings = z.infer<typeof billNumberingSettingsSchema>;
+
+export const DEFAULT_BILL_NUMBERING: BillNumberingSettings = {
+  format: 'ZA/{FY}/{SEQ}',
+  creditNoteFormat: 'ZA/CN/{FY}/{SEQ}',
+  moneyReceiptFormat: 'ZA/MR/{FY}/{SEQ}',
+  sequenceDigits: 4,
+};
+
+export type FirmSettings = z.infer<typeof firmSettingsSchema>;
+export type FirmSettingsInput = z.input<typeof firmSettingsSchema>;
+export type GstSettings = z.infer<typeof gstSettingsSchema>;
+export type PaymentTermsSettings = z.infer<typeof paymentTermsSettingsSchema>;
+export type BankDetails = z.infer<typeof bankDetailsSchema>;
+export type InvoiceTemplate = z.infer<typeof invoiceTemplateSchema>;
+export type InvoiceTemplateInput = z.input<typeof invoiceTemplateSchema>;
+export type FeeEarner = z.infer<typeof feeEarnerSchema>;
+export type FeeEarnerInput = z.input<typeof feeEarnerSchema>;
+export type ParticularType = z.infer<typeof particularTypeSchema>;
+export type ParticularTypeInput = z.input<typeof particularTypeSchema>;
+
+export const DEFAULT_FIRM: FirmSettings = {
+  name: 'ZA Legal',
+  address: '',
+  gstin: '',
+  pan: '',
+  email: '',
+  phone: '',
+};
+
+export const DEFAULT_GST: GstSettings = {
+  rate: 18,
+};
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTermsSettings = {
+  days: 30,
+};
+
+// The bill editors used to ask for a date on any type named like these
+const LEGACY_APPEARANCE_TYPE = /appearance|hearing/i;
+
+// The types bills were raised with before the rate card could be edited
+export const DEFAULT_RATE_CARD: ParticularType[] = [
+  'Appearance', 'Arbitration Hearing', 'Conference', 'Conference at BEST office',
+  'Drafting Charges', 'Drafting Section 17 Application', 'Filing',
+  'Miscellaneous Expenses', 'Notary Charges', 'Notary Charges Affidavit in Reply',
+  'Settling Reply to Claims', 'Written opinion', 'Xerox Charges',
+].map(name => ({
+  id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+  name,
+  defaultAmount: 0,
+  sacCode: LEGACY_SAC_CODES[name],
+  isAppearance: LEGACY_APPEARANCE_TYPE.test(name),
+  active: true,
+}));
+
+export const DEFAULT_BANK: BankDetails = bankDetailsSchema.parse({});
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplate = invoiceTemplateSchema.parse({});
+
+export interface Settings {
+  billNumbering: BillNumberingSettings;
+  firm: FirmSettings;
+  gst: GstSettings;
+  paymentTerms: PaymentTermsSettings;
+  bank: BankDetails;
+  invoiceTemplate: InvoiceTemplate;
+  feeEarners: FeeEarner[];
+  rateCard: ParticularType[];
+}
+
+const SETTINGS_PATH = 'settings';
+
+// --- SUBSCRIPTION ---
+/** Each section falls back to its defaults when it is missing or invalid. */
+const withDefault = <T,>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, fallback: T): T => {
+  const parsed = schema.safeParse(value);
+  return parsed.success ? parsed.data : fallback;
+};
+
+/**
+ * Rate cards saved before types had SAC codes and appearance flags take the codes those types
+ * were billed under, and are flagged as appearances if the bill editors used to ask for a date.
+ */
+const withLegacyRateCardFields = (rateCard: unknown) => (Array.isArray(rateCard)
+  ? rateCard.map(type => {
+    if (!type || typeof type !== 'object') return type;
+    const name = String((type as { name?: unknown }).name ?? '');
+    return {
+      ...('sacCode' in type ? {} : { sacCode: LEGACY_SAC_CODES[name] }),
+      ...('isAppearance' in type ? {} : { isAppearance: LEGACY_APPEARANCE_TYPE.test(name) }),
+      ...type,
+    };
+  })
+  : rateCard);
+
+export const toSettings = (data: unknown): Settings => {
+  const sections = readNode(data);
+  return {
+    billNumbering: withDefault(billNumberingSettingsSchema, sections.billNumbering, DEFAULT_BILL_NUMBERING),
+    firm: withDefault(firmSettingsSchema, sections.firm, DEFAULT_FIRM),
+    gst: withDefault(gstSettingsSchema, sections.gst, DEFAULT_GST),
+    paymentTerms: withDefault(paymentTermsSettingsSchema, sections.paymentTerms, DEFAULT_PAYMENT_TERMS),
+    bank: withDefault(bankDetailsSchema, sections.bank, DEFAULT_BANK),
+    invoiceTemplate: withDefault(invoiceTemplateSchema, sections.invoiceTemplate, DEFAULT_INVOICE_TEMPLATE),
+    // Firebase drops empty arrays, so this may be missing on read
+    feeEarners: withDefault(z.array(feeEarnerSchema), sections.feeEarners, []),
+    rateCard: withDefault(z.array(particularTypeSchema), withLegacyRateCardFields(sections.rateCard), DEFAULT_RATE_CARD),
+  };
+};
+
+const settingsStore = createRealtimeStore<Settings>(SETTINGS_PATH, toSettings, toSettings(null));
+
+export function useSettings() {
+  const { data, loading } = useRealtimeStore(settingsStore);
+  return { settings: data, loading };
+}
+
+/** One-off read for code that runs outside React, such as repository writes. */
+export async function getSettings(): Promise<Settings> {
+  const snapshot = await get(ref(database, SETTINGS_PATH));
+  return toSettings(snapshot.val());
+}
+
+// --- WRITES ---
+export async function saveBillNumberingSettings(settings: BillNumberingSettings): Promise<void> {
+  await set(ref(database, `${SETTINGS_PATH}/billNumbering`), stripUndefined(billNumberingSettingsSchema.parse(settings)));
+}
+
+export async function saveFirmSettings(firm: FirmSettingsInput, gst: GstSettings, paymentTerms: PaymentTermsSettings, bank: z.input<typeof bankDetailsSchema>): Promise<void> {
+  await update(ref(database, SETTINGS_PATH), stripUndefined({
+    firm: firmSettingsSchema.parse(firm),
+    gst: gstSettingsSchema.parse(gst),
+    paymentTerms: paymentTermsSettingsSchema.parse(paymentTerms),
+    bank: bankDetailsSchema.parse(bank),
+  }));
+}
+
+/** A new id for a fee earner or rate card entry, made without writing anything. */
+export const newSettingsId = () => push(ref(database, SETTINGS_PATH)).key as string;
+
+export async function saveFeeEarners(feeEarners: FeeEarnerInput[]): Promise<void> {
+  await set(ref(database, `${SETTINGS_PATH}/feeEarners`), stripUndefined(z.array(feeEarnerSchema).parse(feeEarners)));
+}
+
+export async function saveRateCard(rateCard: ParticularTypeInput[]): Promise<void> {
+  await set(ref(database, `${SETTINGS_PATH}/rateCard`), stripUndefined(z.array(particularTypeSchema).parse(rateCard)));
+}
+
+export async function saveInvoiceTemplate(template: InvoiceTemplateInput): Promise<void> {
+  await set(ref(database, `${SETTINGS_PATH}/invoiceTemplate`), stripUndefined(invoiceTemplateSchema.parse(template)));
+}
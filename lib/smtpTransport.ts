@@ -0,0 +1,159 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { once } from 'node:events';
+import { buildMimeMessage, createMessageId, envelopeAddress, MailDeliveryError, type MailMessage, type MailTransport } from '@/lib/mail';
+
+// Delivers mail over SMTP. Browsers cannot open SMTP connections, so this runs under Node
+// only, in the relay that the app's relay transport posts to (see lib/mailTransports.ts).
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** TLS from the start, usually port 465. Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Name sent with EHLO. */
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** One SMTP conversation: commands are sent one at a time and each waits for its reply. */
+class SmtpSession {
+  private buffer = '';
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private socket!: net.Socket;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new MailDeliveryError('SMTP server timed out')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach() {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+  }
+
+  private onData = (chunk: string) => {
+    this.buffer += chunk;
+    this.flush();
+  };
+
+  private onError = (error: Error) => this.fail(error);
+
+  private onClose = () => this.fail(new MailDeliveryError('SMTP server closed the connection'));
+
+  private fail(error: Error) {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error);
+  }
+
+  /** Resolves the waiting read once a full reply, ending in a "250 " style line, has arrived. */
+  private flush() {
+    if (!this.pending) return;
+    const lines = this.buffer.split('\r\n');
+    const last = lines.slice(0, -1).findIndex(line => /^\d{3}( |$)/.test(line));
+    if (last === -1) return;
+    const replyLines = lines.slice(0, last + 1);
+    this.buffer = lines.slice(last + 1).join('\r\n');
+    const pending = this.pending;
+    this.pending = null;
+    pending.resolve({ code: Number(replyLines[last].slice(0, 3)), lines: replyLines.map(line => line.slice(4)) });
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /** Sends `line` (or nothing, to read the greeting) and checks the reply code. */
+  async command(line: string | null, expected: number[], label = line?.split(' ')[0] ?? 'Greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new MailDeliveryError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async upgrade(host: string) {
+    this.detach();
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await once(secure, 'secureConnect');
+    this.attach(secure);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.detach();
+    this.socket.end();
+  }
+}
+
+const connect = async (options: SmtpOptions): Promise<net.Socket> => {
+  const socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  await once(socket, options.secure ? 'secureConnect' : 'connect');
+  return socket;
+};
+
+/** Lines starting with a dot are doubled, so none of them ends the DATA section early. */
+const dotStuff = (raw: string) => raw.replace(/^\./gm, '..');
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const clientName = options.clientName ?? 'localhost';
+
+  return {
+    async send(message: MailMessage) {
+      const messageId = createMessageId(message.from);
+      const raw = buildMimeMessage(message, { messageId });
+      const session = new SmtpSession(await connect(options), options.timeoutMs ?? 30000);
+      try {
+        await session.command(null, [220]);
+        let ehlo = await session.command(`EHLO ${clientName}`, [250]);
+        if (!options.secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+          await session.command('STARTTLS', [220]);
+          await session.upgrade(options.host);
+          ehlo = await session.command(`EHLO ${clientName}`, [250]);
+        }
+        if (options.user) {
+          const credentials = Buffer.from(`\u0000${options.user}\u0000${options.pass ?? ''}`).toString('base64');
+          await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+        }
+        await session.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250], 'MAIL FROM');
+        for (const recipient of [...message.to, ...(message.cc ?? [])]) {
+          await session.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251], 'RCPT TO');
+        }
+        await session.command('DATA', [354]);
+        session.write(`${dotStuff(raw)}\r\n`);
+        await session.command('.', [250], 'Message');
+        await session.command('QUIT', [221]).catch(() => undefined); // Delivered already
+        return { messageId };
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { countsAsBilled } from '@/lib/billStatus';
+import { getNetReceived, type Case, type Clearance } from '@/lib/casesRepository';
+import type { Receipt } from '@/lib/receiptsRepository';
+
+export type StatementEntryKind = 'bill' | 'creditNote' | 'payment' | 'tds' | 'writeOff' | 'advance' | 'bounce';
+
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntryKind, string> = {
+  bill: 'Bill',
+  creditNote: 'Credit Note',
+  payment: 'Payment',
+  tds: 'TDS',
+  writeOff: 'Write-off',
+  advance: 'Advance',
+  bounce: 'Bounced',
+};
+
+/** One line of a statement. Bills are debits; everything that settles them is a credit. */
+export interface StatementEntry {
+  date: string;
+  kind: StatementEntryKind;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this entry
+  billId: string | null; // Null for advances, which are not yet applied to a bill
+}
+
+export interface ClientStatement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+// Entries on the same day are listed bill first, so a bill paid the day it was raised reads naturally
+const KIND_ORDER: StatementEntryKind[] = ['bill', 'creditNote', 'payment', 'tds', 'writeOff', 'advance', 'bounce'];
+
+/** The debit reversing `amount` of a cheque or draft the bank returned, if it was returned. */
+const bounceEntries = (clearance: Clearance | undefined, amount: number, base: Pick<StatementEntry, 'billId' | 'reference'>, instrument: string) =>
+  clearance?.status === 'bounced' && clearance.date && amount >= 0.01
+    ? [{ ...base, date: clearance.date, kind: 'bounce' as const, description: `${instrument} returned${clearance.reason ? `: ${clearance.reason}` : ''}`, debit: amount, credit: 0 }]
+    : [];
+
+/**
+ * Every entry ever posted against `bills`, oldest first, without running balances. The part of
+ * a receipt that is not allocated yet appears as an advance; allocated parts appear as payments.
+ * A bounced cheque stays as received on its date and is reversed on the day it was returned.
+ */
+function collectEntries(bills: Case[], receipts: Receipt[]): Omit<StatementEntry, 'balance'>[] {
+  const advances = receipts
+    .filter(receipt => receipt.amount - receipt.allocatedAmount >= 0.01)
+    .flatMap((receipt): Omit<StatementEntry, 'balance'>[] => {
+      const base = { billId: null, reference: receipt.moneyReceiptNumber ?? receipt.reference };
+      const advance = receipt.amount - receipt.allocatedAmount;
+      return [
+        { ...base, date: receipt.date, kind: 'advance', description: `${receipt.method} received, not yet applied to a bill`, debit: 0, credit: advance },
+        ...bounceEntries(receipt.clearance, advance, base, `${receipt.method} ${receipt.instrumentNumber ?? ''}`.trim()),
+      ];
+    });
+  return bills
+    .filter(bill => countsAsBilled(bill.status))
+    // Voided payments were entered in error, so they never reach the statement
+    .flatMap((bill): Omit<StatementEntry, 'balance'>[] => {
+      const matter = bill.caseDescription || `Case ${bill.caseNumber}`;
+      const base = { billId: bill.id, reference: bill.billNumber };
+      return [
+        { ...base, date: bill.date, kind: 'bill' as const, description: matter, debit: bill.totalAmount, credit: 0 },
+        ...bill.creditNotes.map(note => ({
+          ...base,
+          date: note.date,
+          kind: 'creditNote' as const,
+          reference: note.creditNoteNumber,
+          description: `Against ${bill.billNumber}: ${note.reason}`,
+          debit: 0,
+          credit: note.totalAmount,
+        })),
+        ...bill.payments.filter(payment => !payment.voided).flatMap(payment => [
+          { ...base, date: payment.date, kind: 'payment' as const, description: `${payment.method} received`, debit: 0, credit: getNetReceived(payment) },
+          ...bounceEntries(payment.clearance, payment.amount, base, `${payment.method} ${payment.instrumentNumber ?? ''}`.trim()),
+          ...(payment.tds ? [{
+            ...base,
+            date: payment.date,
+            kind: 'tds' as const,
+            description: `TDS u/s ${payment.tds.section}${payment.tds.certificateNumber ? `, Form 16A ${payment.tds.certificateNumber}` : ''}`,
+            debit: 0,
+            credit: payment.tds.amount,
+          }] : []),
+        ]),
+        ...(bill.writeOff ? [{ ...base, date: bill.writeOff.date, kind: 'writeOff' as const, description: bill.writeOff.reason, debit: 0, credit: bill.writeOff.amount }] : []),
+      ];
+    })
+    .concat(advances)
+    .sort((a, b) => a.date.localeCompare(b.date) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+}
+
+/**
+ * A client's account from `from` to `to` (YYYY-MM-DD, inclusive): the balance brought forward
+ * from earlier entries, each entry in the period with the balance after it, and the balance owed
+ * at the end. Drafts and cancelled bills were never owed, so they do not appear.
+ */
+export function buildClientStatement(cases: Case[], receipts: Receipt[], clientId: string, from: string, to: string): ClientStatement {
+  const entries = collectEntries(cases.filter(c => c.clientId === clientId), receipts.filter(r => r.clientId === clientId));
+  const openingBalance = entries
+    .filter(entry => entry.date < from)
+    .reduce((balance, entry) => balance + entry.debit - entry.credit, 0);
+
+  let balance = openingBalance;
+  const inPeriod = entries
+    .filter(entry => entry.date >= from && entry.date <= to)
+    .map(entry => {
+      balance += entry.debit - entry.credit;
+      return { ...entry, balance };
+    });
+
+  return {
+    from,
+    to,
+    openingBalance,
+    entries: inPeriod,
+    totalDebit: inPeriod.reduce((sum, entry) => sum + entry.debit, 0),
+    totalCredit: inPeriod.reduce((sum, entry) => sum + entry.credit, 0),
+    closingBalance: balance,
+  };
+}
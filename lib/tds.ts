@@ -0,0 +1,53 @@
+import { parseISO } from 'date-fns';
+import { getFinancialQuarter, getFinancialYear, type FinancialQuarter } from '@/lib/financialYear';
+import { countsAsPaid, type Case, type Payment, type Tds } from '@/lib/casesRepository';
+
+export const TAN_PATTERN = /^[A-Z]{4}\d{5}[A-Z]$/;
+
+/** One TDS deduction, placed in the financial year and quarter Form 26AS will report it under. */
+export interface TdsEntry {
+  bill: Case;
+  paymentIndex: number;
+  payment: Payment;
+  tds: Tds;
+  financialYear: string;
+  quarter: FinancialQuarter;
+}
+
+export interface TdsQuarterSummary {
+  quarter: FinancialQuarter;
+  entries: TdsEntry[];
+  grossAmount: number;
+  tdsAmount: number;
+  /** TDS still waiting on a Form 16A certificate. */
+  pendingCertificates: number;
+}
+
+/** Every TDS deduction across the given bills, oldest first. */
+export function collectTdsEntries(cases: Case[]): TdsEntry[] {
+  return cases
+    .flatMap(bill => bill.payments.flatMap((payment, paymentIndex) => {
+      // The deduction goes with a bounced or voided payment, so it is not claimed
+      if (!payment.tds || !countsAsPaid(payment)) return [];
+      const date = parseISO(payment.date);
+      return [{
+        bill,
+        paymentIndex,
+        payment,
+        tds: payment.tds,
+        financialYear: getFinancialYear(date),
+        quarter: getFinancialQuarter(date),
+      }];
+    }))
+    .sort((a, b) => a.payment.date.localeCompare(b.payment.date));
+}
+
+export function summarizeTdsQuarter(quarter: FinancialQuarter, entries: TdsEntry[]): TdsQuarterSummary {
+  return {
+    quarter,
+    entries,
+    grossAmount: entries.reduce((sum, e) => sum + e.payment.amount, 0),
+    tdsAmount: entries.reduce((sum, e) => sum + e.tds.amount, 0),
+    pendingCertificates: entries.filter(e => !e.tds.certificateNumber).reduce((sum, e) => sum + e.tds.amount, 0),
+  };
+}
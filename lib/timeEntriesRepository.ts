@@ -0,0 +1,134 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, push, set, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { isoDate } from '@/lib/caseSchema';
+import { toISODate } from '@/lib/dates';
+import type { Client } from '@/lib/clientsRepository';
+import type { FeeEarner } from '@/lib/settingsRepository';
+
+// --- SCHEMA ---
+/**
+ * Time a fee earner spent on a matter, billed by the hour. Time is recorded with a timer
+ * or entered afterwards, and drawn into a bill as particulars of hours × rate.
+ */
+export const timeEntrySchema = z.object({
+  matterId: z.string().min(1, 'Matter is required'),
+  feeEarnerId: z.string().min(1, 'Fee earner is required'),
+  activity: z.string().min(1, 'Activity is required'), // A particular type, e.g. "Conference"
+  date: isoDate,
+  minutes: z.number().int().min(0, 'Duration cannot be negative').default(0),
+  startedAt: z.string().optional(), // Set while the timer is running; its time is added to `minutes` when stopped
+  description: z.string().default(''),
+  billedTo: z.string().optional(), // Id of the bill it was drawn into
+  createdAt: z.string().optional(),
+});
+
+// --- MODELS ---
+export type TimeEntryInput = z.input<typeof timeEntrySchema>;
+
+export interface TimeEntry extends z.infer<typeof timeEntrySchema> {
+  id: string;
+}
+
+const TIME_ENTRIES_PATH = 'timeEntries';
+
+// --- HELPERS ---
+/** Minutes recorded so far, including a running timer's. */
+export const elapsedMinutes = (entry: Pick<TimeEntry, 'minutes' | 'startedAt'>, now = new Date()) =>
+  entry.minutes + (entry.startedAt ? Math.max(0, Math.floor((now.getTime() - new Date(entry.startedAt).getTime()) / 60000)) : 0);
+
+/** e.g. "1h 05m" */
+export const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+/** The rate agreed with the client for a fee earner, or else the fee earner's standard rate. */
+export const hourlyRateFor = (feeEarner: FeeEarner, client?: Client) =>
+  client?.hourlyRates[feeEarner.id] ?? feeEarner.hourlyRate;
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Time is billed in units of six minutes, a tenth of an hour; part of a unit counts as a whole one. */
+export const BILLING_UNIT_MINUTES = 6;
+
+/** The hours billed for `minutes` of work, in whole billing units. */
+export const billableHours = (minutes: number) => Math.ceil(minutes / BILLING_UNIT_MINUTES) / (60 / BILLING_UNIT_MINUTES);
+
+/**
+ * The particular a time entry becomes on a bill, charged at `rate` per hour. Both the hours and
+ * the amount come from the billable hours, so the invoice's hours × rate is the amount charged.
+ */
+export const toHourlyParticular = (entry: TimeEntry, rate: number) => {
+  const hours = billableHours(entry.minutes);
+  return {
+    type: entry.activity,
+    amount: roundToPaise(hours * rate),
+    appearanceDate: null,
+    hours,
+    rate,
+  };
+};
+
+/** The write that marks time as billed on a bill, merged into the write that saves the bill. */
+export const timeBilledUpdates = (entryIds: string[], caseId: string): Record<string, unknown> =>
+  Object.fromEntries(entryIds.map(id => [`${TIME_ENTRIES_PATH}/${id}/billedTo`, caseId]));
+
+// --- SUBSCRIPTION ---
+const toTimeEntries = (data: unknown): TimeEntry[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = timeEntrySchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid time entry ${id}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, id }];
+    })
+    // Most recent first
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+
+const timeEntriesStore = createRealtimeStore<TimeEntry[]>(TIME_ENTRIES_PATH, toTimeEntries, []);
+
+/** All time entries, most recent first, from a subscription shared by every caller. */
+export function useTimeEntries() {
+  const { data, loading } = useRealtimeStore(timeEntriesStore);
+  return { timeEntries: data, loading };
+}
+
+// --- WRITES ---
+export async function createTimeEntry(input: TimeEntryInput): Promise<string> {
+  const record = timeEntrySchema.parse({ ...input, billedTo: undefined, createdAt: new Date().toISOString() });
+  const newEntryRef = push(ref(database, TIME_ENTRIES_PATH));
+  await set(newEntryRef, stripUndefined(record));
+  return newEntryRef.key as string;
+}
+
+/** Starts a timer on a new entry dated today. */
+export async function startTimer(input: Pick<TimeEntryInput, 'matterId' | 'feeEarnerId' | 'activity' | 'description'>): Promise<string> {
+  return createTimeEntry({ ...input, date: toISODate(new Date()), minutes: 0, startedAt: new Date().toISOString() });
+}
+
+/** Stops a running timer, adding its time to the entry; a timer stopped straight away counts a minute. */
+export async function stopTimer(entry: TimeEntry): Promise<void> {
+  if (!entry.startedAt) return;
+  await update(ref(database, `${TIME_ENTRIES_PATH}/${entry.id}`), {
+    minutes: Math.max(elapsedMinutes(entry), entry.minutes + 1),
+    startedAt: null,
+  });
+}
+
+/** Updates what was done and for how long; whether it is running or billed is left as it is. */
+export async function updateTimeEntry(id: string, input: TimeEntryInput): Promise<void> {
+  const { createdAt, billedTo, startedAt, ...changes } = timeEntrySchema.parse(input);
+  const updates: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([key, value]) => {
+    updates[`${TIME_ENTRIES_PATH}/${id}/${key}`] = value ?? null;
+  });
+  await update(ref(database), updates);
+}
+
+export async function deleteTimeEntry(id: string): Promise<void> {
+  await set(ref(database, `${TIME_ENTRIES_PATH}/${id}`), null);
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, get, set, onValue } from 'firebase/database';
+import type { User } from 'firebase/auth';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { ROLES, type Role } from '@/lib/permissions';
+
+// --- SCHEMA ---
+export const userProfileSchema = z.object({
+  email: z.string().default(''),
+  displayName: z.string().optional(),
+  // Missing until a partner assigns one; accounts without a role can read nothing
+  role: z.enum(ROLES).optional(),
+  createdAt: z.string().optional(),
+});
+
+// --- MODELS ---
+export type UserProfileRecord = z.infer<typeof userProfileSchema>;
+
+export interface UserProfile extends UserProfileRecord {
+  uid: string;
+}
+
+const USERS_PATH = 'users';
+
+// --- SUBSCRIPTION ---
+const toUsers = (data: unknown): UserProfile[] =>
+  Object.entries(readNode(data))
+    .flatMap(([uid, raw]) => {
+      const parsed = userProfileSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid user record ${uid}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, uid }];
+    })
+    .sort((a, b) => a.email.localeCompare(b.email));
+
+// Only partners may read the whole list; for anyone else this resolves to an empty list
+const usersStore = createRealtimeStore<UserProfile[]>(USERS_PATH, toUsers, []);
+
+export function useUsers() {
+  const { data, loading } = useRealtimeStore(usersStore);
+  return { users: data, loading };
+}
+
+/** Follows the signed-in user's own profile, which every account may read. */
+export function watchUserProfile(uid: string, onChange: (profile: UserProfile | null) => void): () => void {
+  return onValue(
+    ref(database, `${USERS_PATH}/${uid}`),
+    (snapshot) => {
+      const parsed = userProfileSchema.safeParse(snapshot.val());
+      onChange(snapshot.exists() && parsed.success ? { ...parsed.data, uid } : null);
+    },
+    (error) => {
+      console.error('Error reading user profile:', error);
+      onChange(null);
+    },
+  );
+}
+
+// --- WRITES ---
+/**
+ * Creates a profile for an account signing in for the first time, so partners can find
+ * it and assign a role. The very first account becomes a partner; the database rules
+ * refuse that claim once any profile exists, and the account is left without a role.
+ */
+export async function ensureUserProfile(user: User): Promise<void> {
+  const profileRef = ref(database, `${USERS_PATH}/${user.uid}`);
+  const snapshot = await get(profileRef);
+  if (snapshot.exists()) return;
+
+  const record = userProfileSchema.parse({
+    email: user.email ?? '',
+    displayName: user.displayName ?? undefined,
+    createdAt: new Date().toISOString(),
+  });
+  try {
+    await set(profileRef, stripUndefined({ ...record, role: 'partner' }));
+  } catch {
+    await set(profileRef, stripUndefined(record));
+  }
+}
+
+/** Assigns a role, or removes it with `null` to revoke access. */
+export async function setUserRole(uid: string, role: Role | null): Promise<void> {
+  await set(ref(database, `${USERS_PATH}/${uid}/role`), role);
+}
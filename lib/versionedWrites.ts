@@ -0,0 +1,66 @@
+'use client';
+
+import { ref, get, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+
+// Bills and receipts carry a `version` that every write moves on by exactly one. The database
+// rules only accept the next version, so a write worked out from a copy that someone else has
+// changed since is rejected as a whole, instead of silently overwriting their change.
+
+/** A record as it was when a write was worked out from it. */
+export interface VersionedRecord {
+  path: string; // e.g. cases/-NxYz
+  version: number;
+  label: string; // Names the record in messages, e.g. "Bill ZA/2024-25/012"
+}
+
+export class ConcurrentEditError extends Error {
+  constructor(public label: string) {
+    super(`${label} was changed by someone else while you had it open; check the latest version and try again`);
+    this.name = 'ConcurrentEditError';
+  }
+}
+
+/** The write that moves a record on to its next version. */
+export const versionUpdate = (record: Pick<VersionedRecord, 'path' | 'version'>): Record<string, unknown> => ({
+  [`${record.path}/version`]: record.version + 1,
+});
+
+/**
+ * Applies `updates`, which must move each of `records` on with versionUpdate. When the write is
+ * rejected because one of them has changed since it was read, throws a ConcurrentEditError.
+ */
+export async function commitVersionedUpdates(updates: Record<string, unknown>, records: VersionedRecord[]): Promise<void> {
+  try {
+    await update(ref(database), updates);
+  } catch (error) {
+    const versions = await Promise.all(records.map(async record => (await get(ref(database, `${record.path}/version`))).val() ?? 0));
+    const stale = records.find((record, index) => versions[index] !== record.version);
+    if (stale) throw new ConcurrentEditError(stale.label);
+    throw error;
+  }
+}
+
+export interface MergedEdits<T> {
+  merged: T;
+  /** Fields both sides changed, where the edit in progress was kept. */
+  conflicts: (keyof T)[];
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Brings an edit in progress up to date with a newer copy of the record: of the editable
+ * `fields`, those the user changed since `base` was loaded keep the user's value, and
+ * everything else is taken from the newer copy.
+ */
+export function mergeEdits<T extends object>(base: T, mine: T, theirs: T, fields: (keyof T)[]): MergedEdits<T> {
+  const merged = { ...theirs };
+  const conflicts: (keyof T)[] = [];
+  fields.forEach(field => {
+    if (sameValue(mine[field], base[field])) return;
+    merged[field] = mine[field];
+    if (!sameValue(theirs[field], base[field]) && !sameValue(theirs[field], mine[field])) conflicts.push(field);
+  });
+  return { merged, conflicts };
+}
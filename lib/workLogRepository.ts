@@ -0,0 +1,102 @@
+'use client';
+
+import * as z from 'zod';
+import { ref, push, set, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { createRealtimeStore, readNode, useRealtimeStore } from '@/lib/realtimeStore';
+import { stripUndefined } from '@/lib/utils';
+import { isoDate } from '@/lib/caseSchema';
+import type { Case } from '@/lib/casesRepository';
+import type { ParticularType } from '@/lib/settingsRepository';
+import { isAppearanceType } from '@/lib/rateCard';
+
+// --- SCHEMA ---
+/**
+ * Billable work recorded against a matter as it happens, so it is not forgotten by the time
+ * the bill is raised. Each item becomes one particular on the bill it is billed on.
+ */
+export const workItemSchema = z.object({
+  matterId: z.string().min(1, 'Matter is required'),
+  date: isoDate,
+  type: z.string().min(1, 'Type of work is required'), // A particular type, e.g. "Appearance"
+  description: z.string().default(''),
+  amount: z.number().min(0, 'Amount cannot be negative').default(0), // Fee, if known; it can be set on the bill
+  billedTo: z.string().optional(), // Id of the bill it was drawn into
+  createdAt: z.string().optional(),
+});
+
+// --- MODELS ---
+export type WorkItemInput = z.input<typeof workItemSchema>;
+
+export interface WorkItem extends z.infer<typeof workItemSchema> {
+  id: string;
+}
+
+const WORK_LOG_PATH = 'workLog';
+
+// --- HELPERS ---
+/**
+ * The bill work or time is billed on: the one it was drawn into, or the revision that
+ * replaced it. Anything whose bill was deleted or cancelled is unbilled again.
+ */
+export function currentBillOf(item: { billedTo?: string }, casesById: Map<string, Case>): Case | undefined {
+  let bill = item.billedTo ? casesById.get(item.billedTo) : undefined;
+  while (bill?.revisedBy) {
+    bill = casesById.get(bill.revisedBy);
+  }
+  return bill && bill.status !== 'cancelled' ? bill : undefined;
+}
+
+/** The particular an item becomes on a bill; appearances keep their date, for the hearing calendar. */
+export const toParticular = (item: WorkItem, rateCard: ParticularType[]) => ({
+  type: item.type,
+  amount: item.amount,
+  appearanceDate: isAppearanceType(item.type, rateCard) ? item.date : null,
+});
+
+/** The write that marks items as billed on a bill, merged into the write that saves the bill. */
+export const workBilledUpdates = (itemIds: string[], caseId: string): Record<string, unknown> =>
+  Object.fromEntries(itemIds.map(id => [`${WORK_LOG_PATH}/${id}/billedTo`, caseId]));
+
+// --- SUBSCRIPTION ---
+const toWorkItems = (data: unknown): WorkItem[] =>
+  Object.entries(readNode(data))
+    .flatMap(([id, raw]) => {
+      const parsed = workItemSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.error(`Skipping invalid work log record ${id}:`, parsed.error.issues);
+        return [];
+      }
+      return [{ ...parsed.data, id }];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const workLogStore = createRealtimeStore<WorkItem[]>(WORK_LOG_PATH, toWorkItems, []);
+
+/** All recorded work in date order, from a subscription shared by every caller. */
+export function useWorkLog() {
+  const { data, loading } = useRealtimeStore(workLogStore);
+  return { workItems: data, loading };
+}
+
+// --- WRITES ---
+export async function createWorkItem(input: WorkItemInput): Promise<string> {
+  const record = workItemSchema.parse({ ...input, billedTo: undefined, createdAt: new Date().toISOString() });
+  const newItemRef = push(ref(database, WORK_LOG_PATH));
+  await set(newItemRef, stripUndefined(record));
+  return newItemRef.key as string;
+}
+
+/** Updates what was done; whether it has been billed is left as it is. */
+export async function updateWorkItem(id: string, input: WorkItemInput): Promise<void> {
+  const { createdAt, billedTo, ...changes } = workItemSchema.parse(input);
+  const updates: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([key, value]) => {
+    updates[`${WORK_LOG_PATH}/${id}/${key}`] = value ?? null;
+  });
+  await update(ref(database), updates);
+}
+
+export async function deleteWorkItem(id: string): Promise<void> {
+  await set(ref(database, `${WORK_LOG_PATH}/${id}`), null);
+}
@@ -0,0 +1,42 @@
+import { createServer } from 'node:http';
+import { createDatabaseAuthorizer, createMailRelayHandler } from '@/lib/mailRelay';
+import { createSmtpTransport } from '@/lib/smtpTransport';
+import { createFileTransport } from '@/lib/fileTransport';
+
+// Runs the mail relay the app posts reminders and statements to (set NEXT_PUBLIC_MAIL_RELAY_URL
+// to its address). With SMTP_HOST set, mail goes out over SMTP; otherwise each message is
+// written to MAIL_OUTBOX_DIR as an .eml file, for development.
+//
+//   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for TLS from the start), SMTP_USER, SMTP_PASS
+//   MAIL_FROM, the firm's mailbox every message is sent from, such as "Firm <accounts@firm.in>"
+//   MAIL_OUTBOX_DIR (mail-outbox), MAIL_RELAY_PORT (8787), MAIL_RELAY_ORIGIN (any)
+//   FIREBASE_DATABASE_URL, the database whose users/{uid}/role decides who may send
+
+const env = process.env;
+
+if (!env.MAIL_FROM) {
+  console.error('Set MAIL_FROM to the address the firm sends mail from.');
+  process.exit(1);
+}
+
+const transport = env.SMTP_HOST
+  ? createSmtpTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT || 587),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    })
+  : createFileTransport(env.MAIL_OUTBOX_DIR || 'mail-outbox');
+
+const handler = createMailRelayHandler({
+  transport,
+  from: env.MAIL_FROM,
+  authorize: createDatabaseAuthorizer(env.FIREBASE_DATABASE_URL || 'https://za-legal-default-rtdb.firebaseio.com'),
+  allowedOrigin: env.MAIL_RELAY_ORIGIN,
+});
+
+const port = Number(env.MAIL_RELAY_PORT || 8787);
+createServer(handler).listen(port, () => {
+  console.log(`Mail relay listening on port ${port}, delivering ${env.SMTP_HOST ? `through ${env.SMTP_HOST}` : `to ${env.MAIL_OUTBOX_DIR || 'mail-outbox'}/`}`);
+});
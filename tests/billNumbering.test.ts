@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { billNumberKey, financialYearOfBillDate, findDuplicateBillNumbers, formatBillNumber, parseBillNumber } from '@/lib/billNumbering';
+import { DEFAULT_BILL_NUMBERING } from '@/lib/settingsRepository';
+
+describe('financialYearOfBillDate', () => {
+  it('starts the financial year on 1 April', () => {
+    expect(financialYearOfBillDate('2024-03-31')).toBe('2023-24');
+    expect(financialYearOfBillDate('2024-04-01')).toBe('2024-25');
+    expect(financialYearOfBillDate('2025-01-15')).toBe('2024-25');
+  });
+
+  it('writes the end year with two digits across a century', () => {
+    expect(financialYearOfBillDate('2099-12-01')).toBe('2099-00');
+  });
+});
+
+describe('formatBillNumber', () => {
+  it('fills in the financial year and the padded sequence', () => {
+    expect(formatBillNumber(DEFAULT_BILL_NUMBERING, '2024-25', 7)).toBe('ZA/2024-25/0007');
+    expect(formatBillNumber({ format: '{SEQ}/{FY}', sequenceDigits: 2 }, '2024-25', 123)).toBe('123/2024-25');
+  });
+});
+
+describe('parseBillNumber', () => {
+  it('reads back what formatBillNumber wrote', () => {
+    expect(parseBillNumber(DEFAULT_BILL_NUMBERING, 'ZA/2024-25/0007')).toEqual({ financialYear: '2024-25', sequence: 7 });
+  });
+
+  it('ignores case and surrounding spaces', () => {
+    expect(parseBillNumber(DEFAULT_BILL_NUMBERING, ' za/2024-25/0012 ')).toEqual({ financialYear: '2024-25', sequence: 12 });
+  });
+
+  it('takes the format literally rather than as a pattern', () => {
+    const settings = { ...DEFAULT_BILL_NUMBERING, format: 'ZA.{FY}.{SEQ}' };
+    expect(parseBillNumber(settings, 'ZA.2024-25.0001')).toEqual({ financialYear: '2024-25', sequence: 1 });
+    expect(parseBillNumber(settings, 'ZAX2024-25X0001')).toBeNull();
+  });
+
+  it('rejects numbers in another format', () => {
+    expect(parseBillNumber(DEFAULT_BILL_NUMBERING, 'INV-0007')).toBeNull();
+    expect(parseBillNumber(DEFAULT_BILL_NUMBERING, 'ZA/2024/0007')).toBeNull();
+  });
+});
+
+describe('billNumberKey', () => {
+  it('is the same for numbers that differ only in case or spacing', () => {
+    expect(billNumberKey(' za/2024-25/0007')).toBe(billNumberKey('ZA/2024-25/0007'));
+  });
+
+  it('is safe as a Firebase path segment', () => {
+    expect(billNumberKey('ZA/2024.25#7[$]')).not.toMatch(/[./#$[\]]/);
+  });
+});
+
+describe('findDuplicateBillNumbers', () => {
+  it('groups bills that share a number, however it is written', () => {
+    const bills = [
+      { id: 'a', billNumber: 'ZA/2024-25/0001' },
+      { id: 'b', billNumber: 'ZA/2024-25/0002' },
+      { id: 'c', billNumber: 'za/2024-25/0001 ' },
+    ];
+    expect(findDuplicateBillNumbers(bills)).toEqual([[bills[0], bills[2]]]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_CASE_SCHEMA_VERSION, migrateCaseRecord } from '@/lib/caseSchema';
+
+/** A bill as the first version of the app saved it. */
+const legacy = {
+  billNumber: 42,
+  caseNumber: 'WP 101/2024',
+  caseDescription: 'Writ petition',
+  date: '15/04/2024',
+  totalAmount: '₹10,000',
+  particulars: { 0: { type: 'Appearance', amount: '7,500', appearanceDate: '10/04/2024' }, 2: { type: 'Drafting', amount: 2500 } },
+  payments: [{ amount: '₹1,500', method: 'neft/rtgs', date: '01/05/2024', utr: 'UTR1' }],
+  paidAmount: 1500,
+  remainingAmount: 8500,
+};
+
+describe('migrateCaseRecord', () => {
+  it('brings a first-version bill up to the current schema', () => {
+    const result = migrateCaseRecord(legacy);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.migrated).toBe(true);
+    expect(result.record).toMatchObject({
+      schemaVersion: CURRENT_CASE_SCHEMA_VERSION,
+      billNumber: '42',
+      date: '2024-04-15',
+      totalAmount: 10000,
+      status: 'partiallyPaid',
+      particulars: [
+        { type: 'Appearance', amount: 7500, appearanceDate: '2024-04-10' },
+        { type: 'Drafting', amount: 2500 },
+      ],
+      payments: [{ amount: 1500, method: 'NEFT/RTGS', date: '2024-05-01' }],
+    });
+    expect(result.record).not.toHaveProperty('paidAmount');
+    expect(result.record).not.toHaveProperty('remainingAmount');
+  });
+
+  it('works out the status from the payments received', () => {
+    const status = (payments: unknown[]) => {
+      const result = migrateCaseRecord({ ...legacy, payments });
+      return result.ok ? result.record.status : result.issues;
+    };
+    expect(status([])).toBe('issued');
+    expect(status([{ amount: 10000, method: 'Cash', date: '2024-05-01' }])).toBe('paid');
+  });
+
+  it('totals the particulars when the total was never saved', () => {
+    const result = migrateCaseRecord({ ...legacy, totalAmount: undefined });
+    expect(result.ok && result.record.totalAmount).toBe(10000);
+  });
+
+  it('leaves a current record as it is', () => {
+    const first = migrateCaseRecord(legacy);
+    if (!first.ok) throw new Error(first.issues.join('\n'));
+    expect(migrateCaseRecord(first.record)).toEqual({ ok: true, record: first.record, migrated: false });
+  });
+
+  it('reports what is still wrong after migrating', () => {
+    expect(migrateCaseRecord(null)).toEqual({ ok: false, issues: ['Record is not an object'] });
+    const result = migrateCaseRecord({ ...legacy, caseNumber: undefined, date: 'soon' });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues).toEqual(expect.arrayContaining([expect.stringMatching(/^caseNumber: /), expect.stringMatching(/^date: /)]));
+  });
+});
@@ -0,0 +1,227 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { serverTimestamp } from 'firebase/database';
+import type { Role } from '@/lib/permissions';
+
+// Checks database.rules.json against the Realtime Database emulator, role by role, so the
+// rules stay in step with lib/permissions.ts. Run with `npm test`, which starts the emulator
+// (it needs Java); run on their own, without an emulator, these tests are skipped.
+
+const USERS: Record<Role, string> = {
+  partner: 'partner@example.com',
+  associate: 'associate@example.com',
+  accounts: 'accounts@example.com',
+  auditor: 'auditor@example.com',
+};
+
+const DRAFT_BILL = {
+  schemaVersion: 2,
+  version: 1,
+  billNumber: '',
+  status: 'draft',
+  caseNumber: 'WP 101/2024',
+  caseDescription: 'Writ petition',
+  date: '2024-04-01',
+  totalAmount: 10000,
+  particulars: [{ type: 'Appearance', amount: 10000, appearanceDate: '2024-04-01' }],
+};
+
+const ISSUED_BILL = { ...DRAFT_BILL, billNumber: 'ZA/2024-25/001', status: 'issued', caseNumber: 'WP 102/2024', matterId: 'wp102' };
+
+const MATTER = { matterNumber: 'WP 102/2024', title: 'Writ petition', status: 'Active' };
+
+const PAYMENT = { amount: 4000, method: 'upi', date: '2024-04-10' };
+
+const auditEntry = (actor: string) => ({ actor, at: serverTimestamp(), action: 'bill.update', path: 'cases/issued' });
+
+describe.skipIf(!process.env.FIREBASE_DATABASE_EMULATOR_HOST)('database rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const dbAs = (uid: Role) => testEnv.authenticatedContext(uid).database();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-za-legal-hrms',
+      database: { rules: readFileSync('database.rules.json', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearDatabase();
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref().set({
+        users: Object.fromEntries(Object.entries(USERS).map(([role, email]) => [role, { email, role }])),
+        cases: { draft: DRAFT_BILL, issued: ISSUED_BILL },
+        matters: { wp102: MATTER },
+        audit: { existing: { actor: 'partner', at: 1, action: 'bill.create', path: 'cases/issued' } },
+        settings: { firm: { name: 'ZA Legal' } },
+      });
+    });
+  });
+
+  describe('unauthenticated', () => {
+    const db = () => testEnv.unauthenticatedContext().database();
+
+    it('cannot read bills, clients or settings', async () => {
+      await assertFails(db().ref('cases').get());
+      await assertFails(db().ref('clients').get());
+      await assertFails(db().ref('settings').get());
+    });
+
+    it('cannot create a bill', async () => {
+      await assertFails(db().ref('cases/new').set(DRAFT_BILL));
+    });
+
+    it('cannot register a user', async () => {
+      await assertFails(db().ref('users/stranger').set({ email: 'stranger@example.com' }));
+    });
+  });
+
+  describe('partner', () => {
+    it('reads the user list and sets the roles of others', async () => {
+      await assertSucceeds(dbAs('partner').ref('users').get());
+      await assertSucceeds(dbAs('partner').ref('users/associate/role').set('accounts'));
+    });
+
+    it('cannot change their own role', async () => {
+      await assertFails(dbAs('partner').ref('users/partner/role').set('auditor'));
+    });
+
+    it('changes the case number and description of an issued bill', async () => {
+      await assertSucceeds(dbAs('partner').ref('cases/issued').update({ caseNumber: 'WP 103/2024', caseDescription: 'Amended', version: 2 }));
+    });
+
+    it('cancels an issued bill', async () => {
+      await assertSucceeds(dbAs('partner').ref('cases/issued').update({ status: 'cancelled', version: 2 }));
+    });
+
+    it('cannot change the amount of an issued bill', async () => {
+      await assertFails(dbAs('partner').ref('cases/issued').update({ totalAmount: 5000, version: 2 }));
+    });
+
+    it('saves settings', async () => {
+      await assertSucceeds(dbAs('partner').ref('settings/firm/name').set('ZA Legal LLP'));
+    });
+
+    it('reads the audit trail, whole or for one bill', async () => {
+      await assertSucceeds(dbAs('partner').ref('audit').get());
+      await assertSucceeds(dbAs('partner').ref('audit').orderByChild('path').equalTo('cases/issued').get());
+    });
+  });
+
+  describe('associate', () => {
+    it('reads their own user record but not the user list', async () => {
+      await assertSucceeds(dbAs('associate').ref('users/associate').get());
+      await assertFails(dbAs('associate').ref('users').get());
+    });
+
+    it('creates and edits draft bills', async () => {
+      await assertSucceeds(dbAs('associate').ref('cases/new').set(DRAFT_BILL));
+      await assertSucceeds(dbAs('associate').ref('cases/draft').update({ caseNumber: 'WP 104/2024', totalAmount: 12000, version: 2 }));
+    });
+
+    it('cannot change the case number or description of an issued bill', async () => {
+      await assertFails(dbAs('associate').ref('cases/issued').update({ caseNumber: 'WP 103/2024', version: 2 }));
+      await assertFails(dbAs('associate').ref('cases/issued').update({ caseDescription: 'Amended', version: 2 }));
+    });
+
+    it('edits a matter and the copy of its number and title on its issued bills', async () => {
+      // The multi-path write made by updateMatter
+      await assertSucceeds(dbAs('associate').ref().update({
+        'matters/wp102/matterNumber': 'WP 102/2024 (Amended)',
+        'matters/wp102/title': 'Amended writ petition',
+        'cases/issued/caseNumber': 'WP 102/2024 (Amended)',
+        'cases/issued/caseDescription': 'Amended writ petition',
+        'cases/issued/version': 2,
+        'audit/matterEdit': { ...auditEntry('associate'), before: { caseNumber: 'WP 102/2024' }, after: { caseNumber: 'WP 102/2024 (Amended)' } },
+      }));
+    });
+
+    it('cannot copy anything but the matter\'s own number and title onto an issued bill', async () => {
+      await assertFails(dbAs('associate').ref().update({
+        'matters/wp102/title': 'Amended writ petition',
+        'cases/issued/caseDescription': 'Something else',
+        'cases/issued/version': 2,
+      }));
+    });
+
+    it('cannot cancel an issued bill', async () => {
+      await assertFails(dbAs('associate').ref('cases/issued').update({ status: 'cancelled', version: 2 }));
+    });
+
+    it('cannot record payments', async () => {
+      await assertFails(dbAs('associate').ref('cases/issued').update({ 'payments/0': PAYMENT, status: 'partiallyPaid', version: 2 }));
+    });
+
+    it('cannot read the audit trail or save settings', async () => {
+      await assertFails(dbAs('associate').ref('audit').get());
+      await assertFails(dbAs('associate').ref('settings/firm/name').set('ZA Legal LLP'));
+    });
+  });
+
+  describe('accounts clerk', () => {
+    it('records a payment against an issued bill', async () => {
+      await assertSucceeds(dbAs('accounts').ref('cases/issued').update({ 'payments/0': PAYMENT, status: 'partiallyPaid', version: 2 }));
+    });
+
+    it('cannot record a payment from an outdated copy of the bill', async () => {
+      await assertFails(dbAs('accounts').ref('cases/issued').update({ 'payments/0': PAYMENT, status: 'partiallyPaid', version: 1 }));
+    });
+
+    it('cannot issue a draft, which takes a number from billNumbering', async () => {
+      await assertFails(dbAs('accounts').ref('cases/draft').update({ status: 'issued', version: 2 }));
+    });
+
+    it('cannot mark a bill paid without any payment against it', async () => {
+      await assertFails(dbAs('accounts').ref('cases/issued').update({ status: 'paid', version: 2 }));
+      await assertFails(dbAs('accounts').ref('cases/issued').update({ status: 'partiallyPaid', version: 2 }));
+    });
+
+    it('cannot cancel a bill', async () => {
+      await assertFails(dbAs('accounts').ref('cases/issued').update({ status: 'cancelled', version: 2 }));
+    });
+
+    it('cannot create bills or change their case details', async () => {
+      await assertFails(dbAs('accounts').ref('cases/new').set(DRAFT_BILL));
+      await assertFails(dbAs('accounts').ref('cases/issued').update({ caseNumber: 'WP 103/2024', version: 2 }));
+    });
+
+    it('manages clients', async () => {
+      await assertSucceeds(dbAs('accounts').ref('clients/acme').set({ name: 'Acme Ltd' }));
+    });
+  });
+
+  describe('auditor', () => {
+    it('reads bills and the audit trail', async () => {
+      await assertSucceeds(dbAs('auditor').ref('cases').get());
+      await assertSucceeds(dbAs('auditor').ref('audit').get());
+    });
+
+    it('cannot write anything', async () => {
+      await assertFails(dbAs('auditor').ref('cases/draft').update({ caseNumber: 'WP 104/2024', version: 2 }));
+      await assertFails(dbAs('auditor').ref('clients/acme').set({ name: 'Acme Ltd' }));
+      await assertFails(dbAs('auditor').ref('audit/new').set(auditEntry('auditor')));
+    });
+  });
+
+  describe('audit trail', () => {
+    it('takes new entries stamped with the writer and the server time', async () => {
+      await assertSucceeds(dbAs('associate').ref('audit/new').set(auditEntry('associate')));
+    });
+
+    it('rejects entries made in someone else\'s name or with a client time', async () => {
+      await assertFails(dbAs('associate').ref('audit/new').set(auditEntry('partner')));
+      await assertFails(dbAs('associate').ref('audit/new').set({ ...auditEntry('associate'), at: 1 }));
+    });
+
+    it('never lets an entry be changed or removed', async () => {
+      await assertFails(dbAs('partner').ref('audit/existing/action').set('bill.delete'));
+      await assertFails(dbAs('partner').ref('audit/existing').remove());
+    });
+  });
+});
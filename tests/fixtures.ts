@@ -0,0 +1,31 @@
+import type { Case, Payment } from '@/lib/casesRepository';
+
+/** An issued bill for ₹10,000 with nothing paid against it, for each test to adjust. */
+export const makeCase = (id: string, overrides: Partial<Case> = {}): Case => ({
+  id,
+  schemaVersion: 2,
+  version: 1,
+  billNumber: 'ZA/2024-25/0001',
+  status: 'issued',
+  matterId: 'm1',
+  caseNumber: 'WP 101/2024',
+  caseDescription: 'Writ petition',
+  clientId: 'c1',
+  date: '2024-04-01',
+  totalAmount: 10000,
+  particulars: [{ type: 'Appearance', amount: 10000, appearanceDate: '2024-04-01' }],
+  payments: [],
+  creditNotes: [],
+  reminders: [],
+  paidAmount: 0,
+  creditedAmount: 0,
+  remainingAmount: 10000,
+  ...overrides,
+});
+
+export const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  amount: 5000,
+  method: 'NEFT/RTGS',
+  date: '2024-05-10',
+  ...overrides,
+});
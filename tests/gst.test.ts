@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGst, defaultPlaceOfSupply, defaultReverseCharge, stateCodeFromGstin, totalGst } from '@/lib/gst';
+import { calculateCreditNote, calculateInvoiceTotal } from '@/lib/casesRepository';
+import type { Tax } from '@/lib/casesRepository';
+import { makeCase } from './fixtures';
+
+const MAHARASHTRA = '27';
+const KARNATAKA = '29';
+
+describe('calculateGst', () => {
+  it('splits the rate equally into CGST and SGST within the supplier\'s state', () => {
+    expect(calculateGst(10000, 18, MAHARASHTRA, MAHARASHTRA)).toEqual({ cgst: 900, sgst: 900, igst: 0 });
+  });
+
+  it('charges IGST on supplies to another state', () => {
+    expect(calculateGst(10000, 18, MAHARASHTRA, KARNATAKA)).toEqual({ cgst: 0, sgst: 0, igst: 1800 });
+  });
+
+  it('rounds each tax to paise', () => {
+    expect(calculateGst(333.33, 18, MAHARASHTRA, MAHARASHTRA)).toEqual({ cgst: 30, sgst: 30, igst: 0 });
+    expect(calculateGst(333.33, 18, MAHARASHTRA, KARNATAKA)).toEqual({ cgst: 0, sgst: 0, igst: 60 });
+    expect(calculateGst(1234.56, 18, MAHARASHTRA, MAHARASHTRA)).toEqual({ cgst: 111.11, sgst: 111.11, igst: 0 });
+  });
+
+  it('adds up the taxes charged', () => {
+    expect(totalGst(calculateGst(1234.56, 18, MAHARASHTRA, MAHARASHTRA))).toBeCloseTo(222.22, 2);
+  });
+});
+
+describe('calculateInvoiceTotal', () => {
+  it('adds GST the client pays to the taxable amount', () => {
+    expect(calculateInvoiceTotal(10000, { cgst: 900, sgst: 900, igst: 0, reverseCharge: false })).toBe(11800);
+  });
+
+  it('leaves out GST under reverse charge, which the client pays to the government', () => {
+    expect(calculateInvoiceTotal(10000, { cgst: 0, sgst: 0, igst: 1800, reverseCharge: true })).toBe(10000);
+  });
+
+  it('is the taxable amount on a bill without GST', () => {
+    expect(calculateInvoiceTotal(10000)).toBe(10000);
+  });
+});
+
+describe('place of supply and reverse charge', () => {
+  it('reads the state from a GSTIN', () => {
+    expect(stateCodeFromGstin('29ABCDE1234F1Z5')).toBe(KARNATAKA);
+    expect(stateCodeFromGstin(undefined)).toBeFalsy();
+  });
+
+  it('is the client\'s GSTIN state, then their state on record, then the supplier\'s', () => {
+    expect(defaultPlaceOfSupply(MAHARASHTRA, { gstin: '29ABCDE1234F1Z5', stateCode: '07' })).toBe(KARNATAKA);
+    expect(defaultPlaceOfSupply(MAHARASHTRA, { stateCode: '07' })).toBe('07');
+    expect(defaultPlaceOfSupply(MAHARASHTRA)).toBe(MAHARASHTRA);
+  });
+
+  it('suggests reverse charge for registered clients only', () => {
+    expect(defaultReverseCharge('29ABCDE1234F1Z5')).toBe(true);
+    expect(defaultReverseCharge(undefined)).toBe(false);
+  });
+});
+
+describe('calculateCreditNote', () => {
+  const tax: Tax = {
+    supplierGstin: '27ABCDE1234F1Z5',
+    placeOfSupply: MAHARASHTRA,
+    reverseCharge: false,
+    rate: 18,
+    taxableAmount: 1000,
+    cgst: 90,
+    sgst: 90,
+    igst: 0,
+  };
+  const bill = makeCase('b1', { tax, totalAmount: 1180, remainingAmount: 1180, particulars: [{ type: 'Drafting', amount: 1000 }] });
+
+  it('reverses GST at the bill\'s rate and split', () => {
+    expect(calculateCreditNote(bill, 500)).toEqual({ taxableAmount: 500, cgst: 45, sgst: 45, igst: 0, totalAmount: 590 });
+  });
+
+  it('reverses all GST left when it credits everything left, so no paise of tax remain', () => {
+    // At 18% of 999.50 the halves would round to 89.96, a paisa more than is left of each
+    const odd = makeCase('b3', { tax: { ...tax, taxableAmount: 1001, cgst: 90.09, sgst: 90.09 }, totalAmount: 1181.18 });
+    const first = { creditNoteNumber: 'ZA/CN/2024-25/0001', date: '2024-05-01', reason: 'Discount', ...calculateCreditNote(odd, 1.5) };
+    expect(first).toMatchObject({ cgst: 0.14, sgst: 0.14, totalAmount: 1.78 });
+
+    const rest = calculateCreditNote({ ...odd, creditNotes: [first] }, 999.5);
+    expect(rest.cgst).toBeCloseTo(89.95, 2);
+    expect(rest.sgst).toBeCloseTo(89.95, 2);
+    expect(rest.totalAmount).toBeCloseTo(1179.4, 2);
+    expect(first.totalAmount + rest.totalAmount).toBeCloseTo(odd.totalAmount, 2);
+  });
+
+  it('credits no GST under reverse charge, and none on a bill without GST', () => {
+    expect(calculateCreditNote({ ...bill, tax: { ...tax, reverseCharge: true }, totalAmount: 1000 }, 500).totalAmount).toBe(500);
+    expect(calculateCreditNote(makeCase('b2'), 500)).toEqual({ taxableAmount: 500, cgst: 0, sgst: 0, igst: 0, totalAmount: 500 });
+  });
+});
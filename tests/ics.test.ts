@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { toIcs } from '@/lib/ics';
+import { buildCalendar } from '@/lib/calendar';
+import type { Case, Particular } from '@/lib/casesRepository';
+import type { Hearing } from '@/lib/hearingsRepository';
+import type { Matter } from '@/lib/mattersRepository';
+
+// Push ids sort by creation time: -Nb... was made after -Na...
+const MATTER: Matter = { id: 'm1', matterNumber: 'WP 101/2024', title: 'Writ petition', court: 'High Court', parties: [], opposingCounsel: '', status: 'Active' };
+const HEARING: Hearing = { id: '-NbHearing', matterId: 'm1', date: '2024-08-01', court: '', purpose: 'Arguments', notes: '' };
+
+const APPEARANCE: Particular = { type: 'Appearance', amount: 5000, appearanceDate: '2024-08-01' };
+const DRAFTING: Particular = { type: 'Drafting', amount: 3000 };
+
+const bill = (id: string, overrides: Partial<Case> = {}): Case => ({
+  id,
+  schemaVersion: 2,
+  version: 1,
+  billNumber: 'ZA/2024-25/012',
+  status: 'issued',
+  matterId: 'm1',
+  caseNumber: 'WP 101/2024',
+  caseDescription: 'Writ petition',
+  date: '2024-08-02',
+  totalAmount: 8000,
+  particulars: [DRAFTING, APPEARANCE],
+  payments: [],
+  creditNotes: [],
+  reminders: [],
+  paidAmount: 0,
+  creditedAmount: 0,
+  remainingAmount: 8000,
+  ...overrides,
+});
+
+const uids = (cases: Case[], hearings: Hearing[] = []) =>
+  toIcs(buildCalendar(cases, hearings, [MATTER]), 'Hearings').match(/^UID:.*$/gm);
+
+const BILLED_UID = 'UID:appearance-m1-2024-08-01@hearings.za-legal-hrms';
+const HEARING_UID = 'UID:hearing--NbHearing@hearings.za-legal-hrms';
+
+describe('toIcs UIDs', () => {
+  it('name a billed appearance after its matter and day', () => {
+    expect(uids([bill('-NaBill')])).toEqual([BILLED_UID]);
+  });
+
+  it('stay the same when the particulars of a draft are reordered or removed', () => {
+    expect(uids([bill('-NaBill', { status: 'draft', billNumber: '', particulars: [APPEARANCE] })])).toEqual([BILLED_UID]);
+  });
+
+  it('stay the same when a bill is revised, however often', () => {
+    const original = bill('-NaBill', { revisedBy: '-NcRevision' });
+    const revision = bill('-NcRevision', { revisionOf: '-NaBill', particulars: [APPEARANCE] });
+    const second = bill('-NdRevision', { revisionOf: '-NcRevision', particulars: [APPEARANCE, DRAFTING] });
+    expect(uids([original, revision])).toEqual([BILLED_UID]);
+    expect(uids([original, { ...revision, revisedBy: '-NdRevision' }, second])).toEqual([BILLED_UID]);
+    // Once the hearing is scheduled, the revision still counts from the bill billed before it
+    expect(uids([original, { ...revision, revisedBy: '-NdRevision' }, second], [HEARING])).toEqual([BILLED_UID]);
+  });
+
+  it('stay the same when a hearing is scheduled on a day already billed', () => {
+    expect(uids([bill('-NaBill')], [HEARING])).toEqual([BILLED_UID]);
+  });
+
+  it('stay the same when a scheduled hearing is billed later', () => {
+    expect(uids([], [HEARING])).toEqual([HEARING_UID]);
+    expect(uids([bill('-NcBill')], [HEARING])).toEqual([HEARING_UID]);
+    expect(uids([bill('-NcBill', { revisedBy: '-NdRevision' }), bill('-NdRevision', { revisionOf: '-NcBill' })], [HEARING])).toEqual([HEARING_UID]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, buildMimeMessage, envelopeAddress, fromRelayRequest, InvalidAddressError, toRelayRequest, type MailMessage } from '@/lib/mail';
+
+const PDF = new Uint8Array(Array.from({ length: 300 }, (_, i) => i % 256));
+
+const MESSAGE: MailMessage = {
+  from: 'Zaheer & Associates <accounts@zalegal.in>',
+  to: ['accounts@client.com', 'Rāmesh Kumar <ramesh@client.com>'],
+  cc: ['partner@zalegal.in'],
+  replyTo: 'accounts@zalegal.in',
+  subject: 'Payment reminder: Bill ZA/2024-25/012 – ₹11,800',
+  text: 'Dear Ramesh,\n\nOur bill is attached.\n\nRegards,\nZaheer & Associates',
+  attachments: [{ filename: 'Invoice_ZA_2024-25_012.pdf', contentType: 'application/pdf', content: PDF }],
+};
+
+/** The headers and the parts of a built message, with each part's headers and decoded body. */
+function parse(raw: string) {
+  const [head, ...rest] = raw.split('\r\n\r\n');
+  const headers = head.split('\r\n');
+  const boundary = head.match(/boundary="([^"]+)"/)?.[1] ?? '';
+  const parts = rest.join('\r\n\r\n').split(`--${boundary}`).slice(1, -1).map(part => {
+    const [partHead, body] = part.replace(/^\r\n/, '').split('\r\n\r\n');
+    return { headers: partHead.split('\r\n'), base64: body.trim(), bytes: base64ToBytes(body.replace(/\s+/g, '')) };
+  });
+  return { headers, boundary, parts, closed: raw.endsWith(`--${boundary}--\r\n`) };
+}
+
+describe('buildMimeMessage', () => {
+  const raw = buildMimeMessage(MESSAGE, { messageId: '<abc.123@zalegal.in>', date: new Date(2024, 6, 15, 10, 30) });
+  const { headers, parts, closed } = parse(raw);
+
+  it('uses CRLF line endings throughout', () => {
+    expect(raw.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('writes the address headers, quoting and encoding display names', () => {
+    expect(headers).toContain('From: "Zaheer & Associates" <accounts@zalegal.in>');
+    expect(headers).toContain(`To: accounts@client.com, =?UTF-8?B?${Buffer.from('Rāmesh Kumar').toString('base64')}?= <ramesh@client.com>`);
+    expect(headers).toContain('Cc: partner@zalegal.in');
+    expect(headers).toContain('Reply-To: accounts@zalegal.in');
+  });
+
+  it('encodes a subject outside ASCII as an RFC 2047 encoded word', () => {
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from(MESSAGE.subject).toString('base64')}?=`);
+  });
+
+  it('leaves an ASCII subject as it is', () => {
+    const plain = buildMimeMessage({ ...MESSAGE, subject: 'Statement of account' }, { messageId: '<a@b>' });
+    expect(plain).toContain('\r\nSubject: Statement of account\r\n');
+  });
+
+  it('writes the message id, date and MIME headers', () => {
+    expect(headers).toContain('Message-ID: <abc.123@zalegal.in>');
+    expect(headers).toContain('MIME-Version: 1.0');
+    expect(headers.find(h => h.startsWith('Date: '))).toMatch(/^Date: Mon, 15 Jul 2024 10:30:00 [+-]\d{4}$/);
+    expect(headers.find(h => h.startsWith('Content-Type: '))).toMatch(/^Content-Type: multipart\/mixed; boundary="[^"]+"$/);
+  });
+
+  it('sends the text as a UTF-8 part and closes the multipart body', () => {
+    expect(parts[0].headers).toEqual(['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64']);
+    expect(new TextDecoder().decode(parts[0].bytes)).toBe(MESSAGE.text);
+    expect(closed).toBe(true);
+  });
+
+  it('attaches files in base64 lines of at most 76 characters', () => {
+    const attachment = parts[1];
+    expect(attachment.headers).toEqual([
+      'Content-Type: application/pdf; name="Invoice_ZA_2024-25_012.pdf"',
+      'Content-Disposition: attachment; filename="Invoice_ZA_2024-25_012.pdf"',
+      'Content-Transfer-Encoding: base64',
+    ]);
+    expect(attachment.base64.split('\r\n').every(line => line.length <= 76)).toBe(true);
+    expect(attachment.bytes).toEqual(PDF);
+  });
+
+  it('sends a message without attachments as a single text part', () => {
+    expect(parse(buildMimeMessage({ ...MESSAGE, attachments: undefined }, { messageId: '<a@b>' })).parts).toHaveLength(1);
+  });
+});
+
+describe('addresses', () => {
+  const build = (overrides: Partial<MailMessage>) => () => buildMimeMessage({ ...MESSAGE, ...overrides }, { messageId: '<a@b>' });
+
+  it('take the bare address of a named mailbox for the envelope', () => {
+    expect(envelopeAddress('Zaheer & Associates <accounts@zalegal.in>')).toBe('accounts@zalegal.in');
+    expect(envelopeAddress(' accounts@client.com ')).toBe('accounts@client.com');
+  });
+
+  it('refuse line breaks that would add SMTP commands', () => {
+    expect(() => envelopeAddress('accounts@client.com>\r\nRCPT TO:<someone@elsewhere.com')).toThrow(InvalidAddressError);
+    expect(() => envelopeAddress('accounts@client.com\nDATA')).toThrow(InvalidAddressError);
+  });
+
+  it('refuse line breaks that would add headers, in the address or the display name', () => {
+    expect(build({ to: ['accounts@client.com\r\nBcc: someone@elsewhere.com'] })).toThrow(InvalidAddressError);
+    expect(build({ cc: ['Accounts\r\nBcc: someone@elsewhere.com <accounts@client.com>'] })).toThrow(InvalidAddressError);
+    expect(build({ replyTo: 'accounts@zalegal.in\n' })).toThrow(InvalidAddressError);
+  });
+
+  it('refuse anything that is not a plain addr-spec', () => {
+    ['', 'accounts', 'accounts@client', 'a b@client.com', 'accounts@client.com, other@client.com', '<accounts@client.com> extra', '"a@b"@client.com']
+      .forEach(mailbox => expect(() => envelopeAddress(mailbox), mailbox).toThrow(InvalidAddressError));
+  });
+});
+
+describe('relay requests', () => {
+  it('carry attachments through JSON unchanged', () => {
+    const request = JSON.parse(JSON.stringify(toRelayRequest(MESSAGE)));
+    expect(typeof request.attachments[0].content).toBe('string');
+    expect(fromRelayRequest(request)).toEqual(MESSAGE);
+  });
+});
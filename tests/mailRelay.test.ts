@@ -0,0 +1,133 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { toRelayRequest, type MailMessage } from '@/lib/mail';
+import { createFileTransport } from '@/lib/fileTransport';
+import { createDatabaseAuthorizer, createMailRelayHandler, RelayAuthError, type RelayAuthorizer } from '@/lib/mailRelay';
+
+const MESSAGE: MailMessage = {
+  from: 'Zaheer & Associates <accounts@zalegal.in>',
+  to: ['accounts@client.com'],
+  subject: 'Payment reminder: Bill ZA/2024-25/012',
+  text: 'Our bill is attached.',
+  attachments: [{ filename: 'Invoice.pdf', contentType: 'application/pdf', content: new Uint8Array([37, 80, 68, 70]) }],
+};
+
+/** An unsigned token with the given claims; the database, not the relay, checks signatures. */
+const tokenFor = (claims: Record<string, unknown>) =>
+  ['{"alg":"none"}', JSON.stringify(claims)].map(part => Buffer.from(part).toString('base64url')).join('.') + '.signature';
+
+describe('mail relay', () => {
+  let directory: string;
+  let server: Server;
+  let url: string;
+
+  const startRelay = async (authorize: RelayAuthorizer) => {
+    server = createServer(createMailRelayHandler({ transport: createFileTransport(directory), authorize, from: 'Zaheer & Associates <billing@zalegal.in>' }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const post = (body: unknown, token: string | null = 'token') => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'relay-'));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('delivers an authorized message through its transport', async () => {
+    await startRelay(async () => 'accounts');
+    const response = await post(toRelayRequest(MESSAGE));
+
+    expect(response.status).toBe(200);
+    const { messageId } = await response.json();
+    const [file] = await readdir(directory);
+    const raw = await readFile(path.join(directory, file), 'utf8');
+    expect(raw).toContain(`Message-ID: ${messageId}\r\n`);
+    expect(raw).toContain('Subject: Payment reminder: Bill ZA/2024-25/012\r\n');
+    expect(raw).toContain(`\r\n${Buffer.from([37, 80, 68, 70]).toString('base64')}\r\n`);
+  });
+
+  it('sends from the firm address it is configured with, whatever the request says', async () => {
+    await startRelay(async () => 'accounts');
+    const response = await post(toRelayRequest({ ...MESSAGE, from: 'Senior Partner <partner@zalegal.in>', replyTo: 'someone@elsewhere.com' }));
+
+    expect(response.status).toBe(200);
+    const [file] = await readdir(directory);
+    const raw = await readFile(path.join(directory, file), 'utf8');
+    expect(raw).toContain('From: "Zaheer & Associates" <billing@zalegal.in>\r\n');
+    expect(raw).not.toContain('partner@zalegal.in');
+    expect(raw).not.toContain('Reply-To:');
+  });
+
+  it('rejects recipients that are not valid addresses, or too many of them', async () => {
+    await startRelay(async () => 'accounts');
+    expect((await post(toRelayRequest({ ...MESSAGE, to: ['accounts@client.com\r\nBcc: someone@elsewhere.com'] }))).status).toBe(400);
+    expect((await post(toRelayRequest({ ...MESSAGE, cc: ['not an address'] }))).status).toBe(400);
+    expect((await post({ ...toRelayRequest(MESSAGE), to: [42] })).status).toBe(400);
+    const crowd = Array.from({ length: 21 }, (_, i) => `client${i}@client.com`);
+    expect((await post(toRelayRequest({ ...MESSAGE, to: crowd }))).status).toBe(400);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+
+  it('answers CORS preflight requests', async () => {
+    await startRelay(async () => 'accounts');
+    const response = await fetch(url, { method: 'OPTIONS' });
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-headers')).toContain('Authorization');
+  });
+
+  it('refuses requests without a token, or from users who may not send mail', async () => {
+    await startRelay(async () => {
+      throw new RelayAuthError('This user may not send mail', 403);
+    });
+    expect((await post(toRelayRequest(MESSAGE), null)).status).toBe(401);
+    expect((await post(toRelayRequest(MESSAGE))).status).toBe(403);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+
+  it('rejects bodies that are not mail messages', async () => {
+    await startRelay(async () => 'accounts');
+    expect((await post('not json')).status).toBe(400);
+    expect((await post({ subject: 'No recipients' })).status).toBe(400);
+  });
+});
+
+describe('database authorizer', () => {
+  const respondWith = (status: number, body: unknown) => {
+    const requests: string[] = [];
+    const fetchImpl = (async (input: string | URL | Request) => {
+      requests.push(String(input));
+      return new Response(JSON.stringify(body), { status });
+    }) as typeof fetch;
+    return { requests, authorize: createDatabaseAuthorizer('https://example-rtdb.firebaseio.com/', fetchImpl) };
+  };
+
+  it('reads the sender\'s own role with their token and lets accounts send', async () => {
+    const token = tokenFor({ user_id: 'uid-1' });
+    const { requests, authorize } = respondWith(200, 'accounts');
+    await expect(authorize(token)).resolves.toBe('uid-1');
+    expect(requests).toEqual([`https://example-rtdb.firebaseio.com/users/uid-1/role.json?auth=${encodeURIComponent(token)}`]);
+  });
+
+  it('refuses roles that cannot send reminders', async () => {
+    await expect(respondWith(200, 'associate').authorize(tokenFor({ user_id: 'uid-1' }))).rejects.toMatchObject({ status: 403 });
+    await expect(respondWith(200, null).authorize(tokenFor({ user_id: 'uid-1' }))).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('refuses tokens the database rejects, and malformed ones', async () => {
+    await expect(respondWith(401, { error: 'Unauthorized' }).authorize(tokenFor({ user_id: 'uid-1' }))).rejects.toMatchObject({ status: 401 });
+    await expect(respondWith(200, 'partner').authorize('not-a-token')).rejects.toMatchObject({ status: 401 });
+  });
+});
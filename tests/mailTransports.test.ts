@@ -0,0 +1,147 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MailDeliveryError, type MailMessage } from '@/lib/mail';
+import { createFileTransport } from '@/lib/fileTransport';
+import { createSmtpTransport } from '@/lib/smtpTransport';
+
+const MESSAGE: MailMessage = {
+  from: 'Zaheer & Associates <accounts@zalegal.in>',
+  to: ['Client Accounts <accounts@client.com>'],
+  cc: ['partner@zalegal.in'],
+  subject: 'Statement of account',
+  text: 'Please find your statement attached.',
+  attachments: [{ filename: 'Statement.pdf', contentType: 'application/pdf', content: new Uint8Array([37, 80, 68, 70]) }],
+};
+
+describe('file transport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes each message to the directory as an .eml file', async () => {
+    const outbox = path.join(directory, 'outbox');
+    const transport = createFileTransport(outbox);
+    const first = await transport.send(MESSAGE);
+    await transport.send({ ...MESSAGE, subject: 'Second' });
+
+    const files = (await readdir(outbox)).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every(file => file.endsWith('.eml'))).toBe(true);
+    const raw = (await Promise.all(files.map(file => readFile(path.join(outbox, file), 'utf8')))).join('\n');
+    expect(raw).toContain(`Message-ID: ${first.messageId}\r\n`);
+    expect(raw).toContain('Subject: Statement of account\r\n');
+    expect(raw).toContain('Content-Disposition: attachment; filename="Statement.pdf"');
+  });
+
+  it('gives each message an id on the sender\'s domain', async () => {
+    const { messageId } = await createFileTransport(directory).send(MESSAGE);
+    expect(messageId).toMatch(/^<[^@]+@zalegal\.in>$/);
+  });
+});
+
+interface SmtpScript {
+  /** Replies by command verb, in place of the usual success codes. */
+  replies?: Record<string, string>;
+}
+
+/** A minimal SMTP server that records what it is sent. */
+function startSmtpServer({ replies = {} }: SmtpScript = {}) {
+  const received = { commands: [] as string[], data: '' };
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let inData = false;
+    const send = (line: string) => socket.write(`${line}\r\n`);
+    send('220 test.local ESMTP');
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        received.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        send(replies.message ?? '250 Queued');
+      }
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        received.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (replies[verb]) {
+          send(replies[verb]);
+        } else if (verb === 'EHLO') {
+          socket.write('250-test.local\r\n250-AUTH PLAIN\r\n250 SIZE 10240000\r\n');
+        } else if (verb === 'AUTH') {
+          send('235 Authenticated');
+        } else if (verb === 'DATA') {
+          inData = true;
+          send('354 Go ahead');
+        } else if (verb === 'QUIT') {
+          send('221 Bye');
+          socket.end();
+        } else {
+          send('250 OK');
+        }
+      }
+    });
+  });
+  return new Promise<{ server: Server; port: number; received: typeof received }>(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as AddressInfo).port, received }));
+  });
+}
+
+describe('SMTP transport', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  it('authenticates, sends the envelope with bare addresses and delivers the MIME message', async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: smtp.port, secure: false, user: 'relay', pass: 'secret', clientName: 'app.local' });
+
+    const { messageId } = await transport.send(MESSAGE);
+
+    expect(smtp.received.commands).toEqual([
+      'EHLO app.local',
+      `AUTH PLAIN ${Buffer.from('\u0000relay\u0000secret').toString('base64')}`,
+      'MAIL FROM:<accounts@zalegal.in>',
+      'RCPT TO:<accounts@client.com>',
+      'RCPT TO:<partner@zalegal.in>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(smtp.received.data).toContain(`Message-ID: ${messageId}\r\n`);
+    expect(smtp.received.data).toContain('To: "Client Accounts" <accounts@client.com>\r\n');
+    expect(smtp.received.data).toContain('Content-Disposition: attachment; filename="Statement.pdf"');
+  });
+
+  it('skips AUTH when no user is given', async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+    await createSmtpTransport({ host: '127.0.0.1', port: smtp.port, secure: false }).send(MESSAGE);
+    expect(smtp.received.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('fails with a MailDeliveryError when the server refuses a recipient', async () => {
+    const smtp = await startSmtpServer({ replies: { RCPT: '550 No such user' } });
+    server = smtp.server;
+    const sending = createSmtpTransport({ host: '127.0.0.1', port: smtp.port, secure: false }).send(MESSAGE);
+    await expect(sending).rejects.toBeInstanceOf(MailDeliveryError);
+    await expect(sending).rejects.toThrow('SMTP RCPT TO failed: 550 No such user');
+  });
+});
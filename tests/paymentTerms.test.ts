@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDueDate, getBillsFallingDue, getDaysOverdue, getDueDate, isOverdue } from '@/lib/paymentTerms';
+import { makeCase } from './fixtures';
+
+const TODAY = '2024-06-15';
+
+describe('calculateDueDate', () => {
+  it('adds the days of credit across month and year ends', () => {
+    expect(calculateDueDate('2024-01-31', 30)).toBe('2024-03-01');
+    expect(calculateDueDate('2024-12-15', 30)).toBe('2025-01-14');
+    expect(calculateDueDate('2024-04-01', 0)).toBe('2024-04-01');
+  });
+
+  it('treats bills without a due date as due on receipt', () => {
+    expect(getDueDate({ date: '2024-04-01' })).toBe('2024-04-01');
+    expect(getDueDate({ date: '2024-04-01', dueDate: '2024-05-01' })).toBe('2024-05-01');
+  });
+});
+
+describe('isOverdue', () => {
+  it('is overdue from the day after the due date', () => {
+    expect(isOverdue(makeCase('b1', { dueDate: TODAY }), TODAY)).toBe(false);
+    expect(isOverdue(makeCase('b1', { dueDate: '2024-06-14' }), TODAY)).toBe(true);
+    expect(getDaysOverdue(makeCase('b1', { dueDate: '2024-06-05' }), TODAY)).toBe(10);
+  });
+
+  it('is never overdue once nothing is owed or the bill no longer takes payments', () => {
+    expect(isOverdue(makeCase('b1', { remainingAmount: 0.004 }), TODAY)).toBe(false);
+    expect(isOverdue(makeCase('b1', { status: 'paid', remainingAmount: 0 }), TODAY)).toBe(false);
+    expect(isOverdue(makeCase('b1', { status: 'cancelled' }), TODAY)).toBe(false);
+    expect(getDaysOverdue(makeCase('b1', { status: 'writtenOff' }), TODAY)).toBe(0);
+  });
+});
+
+describe('getBillsFallingDue', () => {
+  it('lists unpaid bills due from today to the given days later, soonest first', () => {
+    const cases = [
+      makeCase('week', { dueDate: '2024-06-22' }),
+      makeCase('today', { dueDate: TODAY }),
+      makeCase('overdue', { dueDate: '2024-06-14' }),
+      makeCase('tooLate', { dueDate: '2024-06-23' }),
+      makeCase('paid', { dueDate: '2024-06-20', status: 'paid', remainingAmount: 0 }),
+    ];
+    expect(getBillsFallingDue(cases, 7, TODAY).map(c => c.id)).toEqual(['today', 'week']);
+  });
+});
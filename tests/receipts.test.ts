@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { autoAllocate, getAllocatableBills } from '@/lib/receiptsRepository';
+import { makeCase } from './fixtures';
+
+describe('getAllocatableBills', () => {
+  it('keeps the client\'s bills still owing money, oldest due first', () => {
+    const cases = [
+      makeCase('later', { dueDate: '2024-06-01' }),
+      makeCase('sooner', { date: '2024-05-01', dueDate: '2024-05-15' }),
+      makeCase('sameDueOlder', { date: '2024-03-01', dueDate: '2024-06-01' }),
+      makeCase('otherClient', { clientId: 'c2' }),
+      makeCase('paid', { status: 'paid', remainingAmount: 0 }),
+      makeCase('draft', { status: 'draft', billNumber: '' }),
+      makeCase('revised', { revisedBy: 'later' }),
+      makeCase('settled', { status: 'partiallyPaid', remainingAmount: 0.004 }),
+    ];
+    expect(getAllocatableBills(cases, 'c1').map(c => c.id)).toEqual(['sooner', 'sameDueOlder', 'later']);
+  });
+});
+
+describe('autoAllocate', () => {
+  const bills = [
+    makeCase('a', { remainingAmount: 1000 }),
+    makeCase('b', { remainingAmount: 2500.5 }),
+    makeCase('c', { remainingAmount: 400 }),
+  ];
+
+  it('clears each bill in turn and stops when the money runs out', () => {
+    expect(autoAllocate(3000, bills)).toEqual([
+      { caseId: 'a', amount: 1000 },
+      { caseId: 'b', amount: 2000 },
+    ]);
+  });
+
+  it('leaves any excess unallocated', () => {
+    expect(autoAllocate(5000, bills).reduce((sum, a) => sum + a.amount, 0)).toBeCloseTo(3900.5, 2);
+  });
+
+  it('works in paise, so no fraction of a paisa is carried between bills', () => {
+    const allocations = autoAllocate(1000.1, [makeCase('a', { remainingAmount: 0.3 }), makeCase('b', { remainingAmount: 999.8 })]);
+    expect(allocations).toEqual([
+      { caseId: 'a', amount: 0.3 },
+      { caseId: 'b', amount: 999.8 },
+    ]);
+  });
+});
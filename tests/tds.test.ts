@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { collectTdsEntries, summarizeTdsQuarter } from '@/lib/tds';
+import { makeCase, makePayment } from './fixtures';
+
+const tds = (amount: number, certificateNumber?: string) => ({ amount, section: '194J' as const, certificateNumber });
+
+describe('collectTdsEntries', () => {
+  it('places each deduction in the financial year and quarter of its payment, oldest first', () => {
+    const bill = makeCase('b1', {
+      payments: [
+        makePayment({ amount: 5000, date: '2025-01-10', tds: tds(500) }),
+        makePayment({ amount: 2000, date: '2024-06-30', tds: tds(200) }),
+      ],
+    });
+    const entries = collectTdsEntries([bill]);
+    expect(entries.map(e => [e.paymentIndex, e.financialYear, e.quarter])).toEqual([
+      [1, '2024-25', 'Q1'],
+      [0, '2024-25', 'Q4'],
+    ]);
+  });
+
+  it('leaves out payments without TDS, bounced cheques and voided payments', () => {
+    const bill = makeCase('b1', {
+      payments: [
+        makePayment(),
+        makePayment({ method: 'Cheque', tds: tds(500), clearance: { status: 'bounced', date: '2024-05-15' } }),
+        makePayment({ tds: tds(500), voided: { reason: 'Entered twice', date: '2024-05-11' } }),
+        makePayment({ tds: tds(500) }),
+      ],
+    });
+    expect(collectTdsEntries([bill]).map(e => e.paymentIndex)).toEqual([3]);
+  });
+});
+
+describe('summarizeTdsQuarter', () => {
+  it('totals the gross received, the TDS, and the TDS still awaiting Form 16A', () => {
+    const bill = makeCase('b1', {
+      payments: [
+        makePayment({ amount: 5000, tds: tds(500, 'CERT-1') }),
+        makePayment({ amount: 3000, tds: tds(300) }),
+      ],
+    });
+    const summary = summarizeTdsQuarter('Q1', collectTdsEntries([bill]));
+    expect(summary).toMatchObject({ quarter: 'Q1', grossAmount: 8000, tdsAmount: 800, pendingCertificates: 300 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { billableHours, toHourlyParticular, type TimeEntry } from '@/lib/timeEntriesRepository';
+
+const entry = (minutes: number): TimeEntry => ({
+  id: 'entry',
+  matterId: 'm1',
+  feeEarnerId: 'fe1',
+  activity: 'Conference',
+  date: '2024-08-01',
+  minutes,
+  description: '',
+});
+
+describe('billableHours', () => {
+  it('rounds up to the next six minutes', () => {
+    expect(billableHours(0)).toBe(0);
+    expect(billableHours(1)).toBe(0.1);
+    expect(billableHours(6)).toBe(0.1);
+    expect(billableHours(7)).toBe(0.2);
+    expect(billableHours(20)).toBe(0.4);
+    expect(billableHours(60)).toBe(1);
+    expect(billableHours(95)).toBe(1.6);
+  });
+});
+
+describe('toHourlyParticular', () => {
+  it('charges the billable hours, so hours × rate is the amount', () => {
+    expect(toHourlyParticular(entry(20), 3000)).toEqual({ type: 'Conference', amount: 1200, appearanceDate: null, hours: 0.4, rate: 3000 });
+  });
+
+  it('rounds the amount to paise', () => {
+    const particular = toHourlyParticular(entry(50), 3333.33);
+    expect(particular.hours).toBe(0.9);
+    expect(particular.amount).toBe(3000);
+  });
+
+  it('matches hours × rate for every duration up to a day', () => {
+    for (let minutes = 0; minutes <= 24 * 60; minutes += 1) {
+      const { hours, amount } = toHourlyParticular(entry(minutes), 2750);
+      expect(amount).toBe(Math.round(hours * 2750 * 100) / 100);
+      expect(Number(hours.toFixed(1))).toBe(hours);
+    }
+  });
+});